@@ -0,0 +1,124 @@
+import { Request, Response } from "express";
+import UserModel, { IUser } from "../models/UserModel";
+import WorkflowModel from "../models/WorkflowModel";
+import RunModel from "../models/RunModel";
+import File from "../models/File";
+import { getAuthUser } from "../middleware/auth";
+import {
+  clearSessionCookie,
+  createSessionToken,
+  hashPassword,
+  setSessionCookie,
+  verifyPassword,
+} from "../services/auth";
+
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+const toUserDescriptor = (user: IUser) => ({
+  id: String(user._id),
+  username: user.username,
+});
+
+const signIn = (res: Response, user: IUser, status: number): void => {
+  const token = createSessionToken(String(user._id));
+  setSessionCookie(res, token);
+  res.status(status).json({ user: toUserDescriptor(user) });
+};
+
+export const register = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const username = String(req.body.username ?? "").trim().toLowerCase();
+    const password = String(req.body.password ?? "");
+
+    if (!USERNAME_PATTERN.test(username)) {
+      res.status(400).json({
+        message:
+          "Usernames are 3-32 characters: letters, digits, dots, dashes and underscores.",
+      });
+      return;
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({
+        message: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`,
+      });
+      return;
+    }
+
+    const isFirstUser = (await UserModel.estimatedDocumentCount()) === 0;
+    // The first account can always be created; more only when the admin
+    // opened registration, since every account can start Docker jobs
+    if (!isFirstUser && process.env.ALLOW_REGISTRATION !== "true") {
+      res.status(403).json({
+        message:
+          "Registration is closed. Ask the administrator to set ALLOW_REGISTRATION=true.",
+      });
+      return;
+    }
+
+    if (await UserModel.exists({ username })) {
+      res.status(409).json({ message: "That username is taken." });
+      return;
+    }
+
+    const user = await UserModel.create({
+      username,
+      passwordHash: await hashPassword(password),
+    });
+
+    // Workflows, runs and files from before accounts existed go to the
+    // first user
+    if (isFirstUser) {
+      await WorkflowModel.updateMany(
+        { owner: null },
+        { owner: user._id },
+        { timestamps: false }
+      );
+      await RunModel.updateMany(
+        { owner: null },
+        { owner: user._id },
+        { timestamps: false }
+      );
+      await File.updateMany({ owner: null }, { owner: user._id });
+    }
+
+    signIn(res, user, 201);
+  } catch (error: any) {
+    console.error("Error registering user:", error);
+    res.status(500).json({
+      message: "Server error while registering",
+      error: error.message,
+    });
+  }
+};
+
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const username = String(req.body.username ?? "").trim().toLowerCase();
+    const password = String(req.body.password ?? "");
+
+    const user = username ? await UserModel.findOne({ username }) : null;
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      res.status(401).json({ message: "Wrong username or password." });
+      return;
+    }
+
+    signIn(res, user, 200);
+  } catch (error: any) {
+    console.error("Error logging in:", error);
+    res.status(500).json({
+      message: "Server error while logging in",
+      error: error.message,
+    });
+  }
+};
+
+export const logout = (req: Request, res: Response): void => {
+  clearSessionCookie(res);
+  res.status(200).json({ message: "Logged out" });
+};
+
+export const getCurrentUser = (req: Request, res: Response): void => {
+  const user = getAuthUser(req);
+  res.status(200).json({ user });
+};
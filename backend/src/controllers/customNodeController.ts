@@ -1,12 +1,17 @@
 import { Request, Response } from "express";
 import fs from "fs";
-import path from "path";
 import WorkflowModel from "../models/WorkflowModel";
-
-interface CustomNodeRegistry {
-  schemaVersion: number;
-  nodes: unknown[];
-}
+import {
+  recordBaselineRevision,
+  recordWorkflowRevision,
+} from "../services/workflowRevisions";
+import { getWorkflowRole, hasWorkflowRole } from "../services/workflowAccess";
+import { getAuthUser } from "../middleware/auth";
+import {
+  getNodeFilePath,
+  loadRegistry,
+  writeNodeFile,
+} from "../services/customNodeRegistry";
 
 export const listCustomNodes = (_req: Request, res: Response): void => {
   try {
@@ -72,10 +77,10 @@ export const deleteCustomNode = async (
     }
 
     fs.unlinkSync(nodePath);
-    let updatedWorkflows = 0;
+    let purge: CustomNodePurgeResult = { updatedWorkflowIds: [], blocked: 0 };
     let workflowCleanupError: string | undefined;
     try {
-      updatedWorkflows = await purgeCustomNodeFromWorkflows(nodeId);
+      purge = await purgeCustomNodeFromWorkflows(nodeId, getAuthUser(req).id);
     } catch (cleanupError: any) {
       workflowCleanupError = cleanupError?.message || "Workflow cleanup failed";
       console.error(
@@ -83,9 +88,15 @@ export const deleteCustomNode = async (
         cleanupError
       );
     }
-    res
-      .status(200)
-      .json({ id: nodeId, nodePath, updatedWorkflows, workflowCleanupError });
+    res.status(200).json({
+      id: nodeId,
+      nodePath,
+      updatedWorkflows: purge.updatedWorkflowIds.length,
+      updatedWorkflowIds: purge.updatedWorkflowIds,
+      // Workflows the caller cannot edit keep their copy of the node
+      blockedWorkflows: purge.blocked,
+      workflowCleanupError,
+    });
   } catch (error: any) {
     res.status(500).json({
       message: "Failed to delete custom node",
@@ -94,13 +105,24 @@ export const deleteCustomNode = async (
   }
 };
 
+interface CustomNodePurgeResult {
+  updatedWorkflowIds: string[];
+  blocked: number; // No editor role, or changed while being purged
+}
+
+/**
+ * Removes the node from the workflows the caller may edit, saved like any
+ * edit: updatedAt moves on, so stale saves get a 409, and a revision is
+ * recorded.
+ */
 const purgeCustomNodeFromWorkflows = async (
-  nodeId: string
-): Promise<number> => {
+  nodeId: string,
+  userId: string
+): Promise<CustomNodePurgeResult> => {
   const workflows = await WorkflowModel.find({
     "nodes.data.customNodeId": nodeId,
   });
-  let updatedCount = 0;
+  const result: CustomNodePurgeResult = { updatedWorkflowIds: [], blocked: 0 };
 
   for (const workflow of workflows) {
     const removedNodeIds = new Set(
@@ -111,20 +133,47 @@ const purgeCustomNodeFromWorkflows = async (
     );
     if (removedNodeIds.size === 0) continue;
 
-    workflow.nodes = workflow.nodes.filter(
-      (node: any) => !removedNodeIds.has(node?.id)
-    );
-    workflow.edges = workflow.edges.filter(
-      (edge: any) =>
-        !removedNodeIds.has(edge?.source) && !removedNodeIds.has(edge?.target)
+    const role = getWorkflowRole(workflow, userId);
+    if (!role || !hasWorkflowRole(role, "editor")) {
+      result.blocked += 1;
+      continue;
+    }
+
+    const updatedWorkflow = await WorkflowModel.findOneAndUpdate(
+      { _id: workflow._id, updatedAt: workflow.updatedAt },
+      {
+        nodes: workflow.nodes.filter(
+          (node: any) => !removedNodeIds.has(node?.id)
+        ),
+        edges: workflow.edges.filter(
+          (edge: any) =>
+            !removedNodeIds.has(edge?.source) &&
+            !removedNodeIds.has(edge?.target)
+        ),
+      },
+      { new: true, runValidators: true }
     );
-    workflow.markModified("nodes");
-    workflow.markModified("edges");
-    await workflow.save();
-    updatedCount += 1;
+    if (!updatedWorkflow) {
+      result.blocked += 1;
+      continue;
+    }
+
+    try {
+      await recordBaselineRevision(workflow);
+      await recordWorkflowRevision(updatedWorkflow, {
+        note: `Removed deleted custom node ${nodeId}`,
+        author: userId,
+      });
+    } catch (error) {
+      console.error(
+        `Error recording revision of workflow ${workflow._id}:`,
+        error
+      );
+    }
+    result.updatedWorkflowIds.push(String(workflow._id));
   }
 
-  return updatedCount;
+  return result;
 };
 
 const updateWorkflowsForCustomNode = async (
@@ -175,7 +224,7 @@ const updateWorkflowsForCustomNode = async (
     if (!changed) continue;
     workflow.markModified("nodes");
     workflow.markModified("edges");
-    await workflow.save();
+    await workflow.save({ timestamps: false });
     updatedCount += 1;
   }
 
@@ -235,109 +284,3 @@ const getCustomValueInputs = (customNode: any): any[] =>
 
 const getCustomOutputs = (customNode: any): any[] =>
   Array.isArray(customNode?.outputs) ? customNode.outputs : [];
-
-const loadRegistry = (): CustomNodeRegistry => {
-  const nodeDirectory = getNodeDirectory();
-  fs.mkdirSync(nodeDirectory, { recursive: true });
-  migrateLegacyRegistry(nodeDirectory);
-
-  const nodes = fs
-    .readdirSync(nodeDirectory, { withFileTypes: true })
-    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
-    .map((entry) => path.join(nodeDirectory, entry.name))
-    .map((nodePath) => JSON.parse(fs.readFileSync(nodePath, "utf8")))
-    .filter((node) => node && typeof node === "object")
-    .sort((a: any, b: any) =>
-      String(a.label ?? a.id ?? "").localeCompare(String(b.label ?? b.id ?? ""))
-    );
-
-  return {
-    schemaVersion: 1,
-    nodes,
-  };
-};
-
-const writeNodeFile = (nodePath: string, node: unknown): void => {
-  fs.mkdirSync(path.dirname(nodePath), { recursive: true });
-  fs.writeFileSync(`${nodePath}.tmp`, `${JSON.stringify(node, null, 2)}\n`);
-  fs.renameSync(`${nodePath}.tmp`, nodePath);
-};
-
-const migrateLegacyRegistry = (nodeDirectory: string): void => {
-  const legacyPath = getLegacyRegistryPath();
-  if (!fs.existsSync(legacyPath)) return;
-
-  const parsed = JSON.parse(fs.readFileSync(legacyPath, "utf8"));
-  const nodes = Array.isArray(parsed.nodes) ? parsed.nodes : [];
-  for (const node of nodes) {
-    const nodeId = String(node?.id ?? "").trim();
-    if (!nodeId) continue;
-    const nodePath = path.join(nodeDirectory, `${toFileBaseName(nodeId)}.json`);
-    if (!fs.existsSync(nodePath)) {
-      writeNodeFile(nodePath, node);
-    }
-  }
-};
-
-const getNodeFilePath = (nodeId: string): string =>
-  path.join(getNodeDirectory(), `${toFileBaseName(nodeId)}.json`);
-
-const getNodeDirectory = (): string => {
-  if (process.env.NWAVE_CUSTOM_NODE_DIR) {
-    return path.resolve(process.env.NWAVE_CUSTOM_NODE_DIR);
-  }
-
-  if (process.env.NWAVE_CUSTOM_NODE_REGISTRY) {
-    const configured = path.resolve(process.env.NWAVE_CUSTOM_NODE_REGISTRY);
-    return path.extname(configured)
-      ? path.join(path.dirname(configured), "nodes")
-      : configured;
-  }
-
-  const repoRelativeCandidate = path.resolve(
-    __dirname,
-    "..",
-    "..",
-    "..",
-    "frontend",
-    "src",
-    "registry",
-    "custom",
-    "nodes"
-  );
-  const candidates = [
-    path.resolve(
-      process.cwd(),
-      "..",
-      "frontend",
-      "src",
-      "registry",
-      "custom",
-      "nodes"
-    ),
-    path.resolve(
-      process.cwd(),
-      "frontend",
-      "src",
-      "registry",
-      "custom",
-      "nodes"
-    ),
-    path.resolve(process.cwd(), "src", "registry", "custom", "nodes"),
-    repoRelativeCandidate,
-  ];
-
-  return candidates.find((candidate) => fs.existsSync(candidate)) ?? repoRelativeCandidate;
-};
-
-const getLegacyRegistryPath = (): string =>
-  path.resolve(getNodeDirectory(), "..", "userCustomNodes.json");
-
-const toFileBaseName = (value: string): string => {
-  const safeName = value
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9_-]+/g, "-")
-    .replace(/^-+|-+$/g, "");
-  return safeName || "custom-node";
-};
@@ -2,12 +2,54 @@ import { Request, Response } from "express";
 import { exec, spawn, ChildProcess } from "child_process";
 import path from "path";
 import fs from "fs";
+import mongoose from "mongoose";
+import RunModel, { IRun } from "../models/RunModel";
+import WorkflowModel, {
+  IWorkflow,
+  WorkflowResumeState,
+} from "../models/WorkflowModel";
+import File from "../models/File";
+import { stageStoredFile } from "../services/fileStore";
+import { getDataRoots } from "../services/dataRoots";
+import {
+  buildEnvScope,
+  buildParamsFile,
+} from "../services/executionEnvironment";
+import { TaskMetrics, watchTraceFile } from "../services/traceMetrics";
+import {
+  findAccessibleWorkflow,
+  getRunCancelRole,
+  getRunRole,
+  hasWorkflowRole,
+  ownedBy,
+  roleRequiredMessage,
+} from "../services/workflowAccess";
+import { isBuiltinWorkflowId } from "../workflows";
+import { getAuthUser } from "../middleware/auth";
+import {
+  hasRunChannel,
+  openRunChannel,
+  parseTaskEvent,
+  publishRunEvent,
+  sendFinishedRunEvent,
+  subscribeToRun,
+} from "../services/runEvents";
 
 // A simple in-memory cache to store input values temporarily
 const inputCache: Record<string, any> = {};
 
-// Track running processes for cancellation
-const runningProcesses: Map<string, ChildProcess> = new Map();
+interface RunningExecution {
+  childProcess: ChildProcess;
+  // Set when Nextflow itself runs in a container, so it can be stopped by name
+  containerName?: string;
+  cancelRequested: boolean;
+}
+
+// Track running processes for cancellation, keyed by run id
+const runningProcesses: Map<string, RunningExecution> = new Map();
+
+// How long Nextflow gets to stop its tasks after SIGTERM before it is killed
+const GRACEFUL_STOP_TIMEOUT_MS = 30000;
 
 interface ExecutionSettings {
   useDocker: boolean;
@@ -18,11 +60,24 @@ interface ExecutionSettings {
   maxMemory: string;
   executionTimeout: number;
   errorStrategy: string;
+  maxRetries?: number;
+  backoffStrategy?: string;
   publishMode: string;
   cleanupOnFailure: boolean;
   nextflowVersion?: string;
+  enableTrace?: boolean;
+  enableTimeline?: boolean;
+  enableReport?: boolean;
+  customParams?: Record<string, unknown>; // Written to params.json
+  environmentVariables?: Record<string, string>; // Exported via env {}
 }
 
+// Text inputs arrive as plain strings; binary and compressed inputs
+// (.fastq.gz, .bam, ...) arrive base64-encoded so no bytes are lost
+type InputFileContent =
+  | string
+  | { content: string; encoding?: "utf8" | "base64" };
+
 interface ExecuteRequest {
   script: string;
   inputs: { name: string; value: any }[];
@@ -32,8 +87,11 @@ interface ExecuteRequest {
   outputDirectory?: string;
   nextflowScript?: string;
   workflowName?: string;
-  fileContent?: { [filename: string]: string };
+  workflowId?: string;
+  fileContent?: { [filename: string]: InputFileContent };
+  storedFiles?: { [filename: string]: string }; // filename -> stored file id
   executionSettings?: ExecutionSettings;
+  resume?: boolean; // Reuse the previous run's work directory and cache
 }
 
 export const executeProcess = async (
@@ -49,8 +107,11 @@ export const executeProcess = async (
     outputDirectory = "results",
     nextflowScript,
     workflowName = "workflow",
+    workflowId,
     fileContent,
+    storedFiles,
     executionSettings,
+    resume = false,
   } = req.body as ExecuteRequest;
 
   console.log("Execute request received:", {
@@ -66,6 +127,29 @@ export const executeProcess = async (
     return;
   }
 
+  const errorHandlingError = executionSettings
+    ? validateErrorHandling(executionSettings)
+    : null;
+  if (errorHandlingError) {
+    res.status(400).json({ error: errorHandlingError });
+    return;
+  }
+
+  // Runs of a stored workflow resume and update its state, so the caller
+  // needs at least the runner role on it
+  const user = getAuthUser(req);
+  if (workflowId && !isBuiltinWorkflowId(workflowId)) {
+    const access = await findAccessibleWorkflow(workflowId, user.id);
+    if (!access) {
+      res.status(404).json({ error: "Workflow not found" });
+      return;
+    }
+    if (!hasWorkflowRole(access.role, "runner")) {
+      res.status(403).json({ error: roleRequiredMessage("runner") });
+      return;
+    }
+  }
+
   // Store inputs in the cache, using the node ID as a key to retrieve them
   if (inputs && inputs.length > 0) {
     inputCache[nodeId] = {};
@@ -96,7 +180,11 @@ export const executeProcess = async (
         cleanupOnFailure: true,
       },
       res,
-      fileContent
+      user.id,
+      fileContent,
+      workflowId,
+      storedFiles,
+      resume
     );
     return;
   }
@@ -110,8 +198,14 @@ const executeNextflowWorkflow = async (
   workflowName: string,
   executionSettings: ExecutionSettings,
   res: Response,
-  fileContent?: { [filename: string]: string }
+  ownerId: string,
+  fileContent?: { [filename: string]: InputFileContent },
+  workflowId?: string,
+  storedFiles?: { [filename: string]: string },
+  resume = false
 ): Promise<void> => {
+  let run: IRun | null = null;
+
   try {
     // Sanitize workflow name for file system
     const sanitizedWorkflowName = workflowName.replace(/[^a-zA-Z0-9_-]/g, "_");
@@ -155,10 +249,21 @@ const executeNextflowWorkflow = async (
       String(safeSanitizedWorkflowName)
     );
 
+    // A resumed run launches from the previous run's directory: Nextflow's
+    // cache, the work directory and the input paths it hashed all live there
+    const resumeState = resume ? await findResumeState(ownerId, workflowId) : null;
+    if (resume && !resumeState) {
+      throw new Error(
+        "There is no previous run of this workflow to resume. Run it once first."
+      );
+    }
+
     // Create main output directory with naming pattern
-    const mainOutputDir = path.isAbsolute(userOutputDir)
-      ? path.join(userOutputDir, finalOutputName)
-      : path.join(process.cwd(), userOutputDir, finalOutputName);
+    const mainOutputDir = resumeState
+      ? resumeState.outputDir
+      : path.isAbsolute(userOutputDir)
+        ? path.join(userOutputDir, finalOutputName)
+        : path.join(process.cwd(), userOutputDir, finalOutputName);
 
     // Create the four required subdirectories
     const workflowDir = path.join(mainOutputDir, "workflow");
@@ -171,6 +276,15 @@ const executeNextflowWorkflow = async (
     fs.mkdirSync(resultsDir, { recursive: true });
     fs.mkdirSync(nextflowDir, { recursive: true });
 
+    if (resumeState) {
+      restoreNextflowMetadata(mainOutputDir);
+      // The trace is rewritten by the new run; stale rows would be replayed
+      fs.rmSync(path.join(nextflowDir, "trace.txt"), { force: true });
+      console.log(
+        `Resuming session ${resumeState.sessionId} from run ${resumeState.runId}`
+      );
+    }
+
     console.log(`Main output directory: ${mainOutputDir}`);
     console.log(`Workflow directory: ${workflowDir}`);
     console.log(`Inputs directory: ${inputsDir}`);
@@ -210,8 +324,14 @@ const executeNextflowWorkflow = async (
       executionSettings.useDocker || hasNfCoreModules;
     const nextflowConfig = buildExecutionConfig(
       extractedNextflowAssets.config,
-      shouldUseProcessDocker
+      shouldUseProcessDocker,
+      executionSettings
     );
+    const reportingOptions = buildReportingOptions(executionSettings);
+    const paramsFile = buildParamsFile(executionSettings.customParams);
+    const paramsFileOption = paramsFile
+      ? "-params-file workflow/params.json "
+      : "";
     const moduleConfigOption = nextflowConfig.trim()
       ? "-c nwave_modules.config "
       : "";
@@ -221,6 +341,15 @@ const executeNextflowWorkflow = async (
     fs.writeFileSync(scriptPath, extractedNextflowAssets.script);
     console.log(`Created workflow script: ${scriptPath}`);
 
+    // A resumed run must not pick up params removed since the last one
+    const paramsFilePath = path.join(workflowDir, "params.json");
+    if (paramsFile) {
+      fs.writeFileSync(paramsFilePath, paramsFile);
+      console.log(`Created params file: ${paramsFilePath}`);
+    } else {
+      fs.rmSync(paramsFilePath, { force: true });
+    }
+
     if (nextflowConfig.trim()) {
       const configPath = path.join(mainOutputDir, "nwave_modules.config");
       const workflowConfigPath = path.join(workflowDir, "nwave_modules.config");
@@ -240,8 +369,40 @@ const executeNextflowWorkflow = async (
       for (const [fileName, content] of Object.entries(fileContent)) {
         // Always write the file with the raw filename (with spaces, no escaping or replacement)
         const filePath = path.join(inputsDir, fileName);
-        fs.writeFileSync(filePath, content);
-        console.log(`Created input file: ${fileName}`);
+        if (writeInputFileIfChanged(filePath, decodeInputFile(content))) {
+          console.log(`Created input file: ${fileName}`);
+        }
+      }
+    }
+
+    // Link files from the server-side file store into the inputs directory
+    if (storedFiles && Object.keys(storedFiles).length > 0) {
+      // The caller's own files, and any file the stored workflow references,
+      // whoever uploaded it (the caller has at least the runner role on it)
+      const referencedFileIds =
+        workflowId && mongoose.Types.ObjectId.isValid(workflowId)
+          ? getReferencedFileIds(
+              (await findAccessibleWorkflow(workflowId, ownerId))?.workflow
+            )
+          : new Set<string>();
+      for (const [fileName, fileId] of Object.entries(storedFiles)) {
+        const storedFile = mongoose.Types.ObjectId.isValid(fileId)
+          ? await File.findOne(
+              referencedFileIds.has(String(fileId))
+                ? { _id: fileId }
+                : { _id: fileId, ...ownedBy(ownerId) }
+            )
+          : null;
+        if (!storedFile?.hash) {
+          throw new Error(
+            `Input file "${fileName}" is no longer stored on the server. Upload it again.`
+          );
+        }
+        stageStoredFile(
+          storedFile.hash,
+          path.join(inputsDir, path.basename(fileName))
+        );
+        console.log(`Staged stored input file: ${fileName}`);
       }
     }
 
@@ -302,13 +463,22 @@ const executeNextflowWorkflow = async (
     const scriptFile = path.join(workflowDir, `${sanitizedWorkflowName}.nf`);
     const relativeScriptPath = path.relative(mainOutputDir, scriptFile);
 
+    // Generate execution ID for tracking and cancellation
+    const executionId = `${sanitizedWorkflowName}_${Date.now()}`;
+    const containerName = `nwave-${executionId}`;
+
+    // Session ids are UUIDs read back from .nextflow/history
+    const resumeOption = resumeState
+      ? ` -resume ${resumeState.sessionId}`
+      : "";
+
     let nextflowCmd: string;
 
     if (useLocalNextflow) {
       // Local Nextflow available - use native path separators
       // Set environment variable for log location
       const envVars = `NXF_LOG_FILE=nextflow/.nextflow.log`;
-      nextflowCmd = `${envVars} nextflow -log nextflow/.nextflow.log ${moduleConfigOption}run ./${relativeScriptPath} --outdir results --inputdir inputs --max_cpus ${maxCpus} --max_memory "${maxMemory}" -work-dir nextflow/work`;
+      nextflowCmd = `${envVars} nextflow -log nextflow/.nextflow.log ${moduleConfigOption}run ./${relativeScriptPath} ${reportingOptions}${paramsFileOption}--outdir results --inputdir inputs --max_cpus ${maxCpus} --max_memory "${maxMemory}" -work-dir nextflow/work${resumeOption}`;
     } else {
       // Use Docker Nextflow container via backend container volumes.
       const backendContainerName =
@@ -326,8 +496,15 @@ const executeNextflowWorkflow = async (
       const dockerScriptPath = path
         .posix
         .relative(dockerMainOutputDir, path.posix.join(dockerMainOutputDir, "workflow", `${sanitizedWorkflowName}.nf`));
+      // Data roots are mounted at the same path on the host and in the
+      // backend container, so they can be passed through unchanged
       const nextflowRunnerMount = shouldUseProcessDocker
-        ? `-v ${shellQuote(`${resultsMount.source}:${dockerResultsRoot}`)}`
+        ? [
+            `-v ${shellQuote(`${resultsMount.source}:${dockerResultsRoot}`)}`,
+            ...getDataRoots().map(
+              (root) => `-v ${shellQuote(`${root}:${root}:ro`)}`
+            ),
+          ].join(" ")
         : `--volumes-from ${shellQuote(backendContainerName)}`;
       // Pin the Nextflow container to linux/amd64: the official nextflow/nextflow
       // tags are amd64-only, so on ARM hosts this runs under emulation instead
@@ -336,74 +513,147 @@ const executeNextflowWorkflow = async (
       // When process Docker is enabled, run Nextflow from a path that is also
       // visible to the host Docker daemon. Otherwise sibling task containers
       // receive empty /app/results mounts and cannot see .command.sh.
-      nextflowCmd = `docker run --rm --platform ${nextflowPlatform} ${nextflowRunnerMount} -v /var/run/docker.sock:/var/run/docker.sock -e NXF_LOG_FILE=nextflow/.nextflow.log -w ${shellQuote(dockerMainOutputDir)} nextflow/nextflow:${nextflowVersion} nextflow -log nextflow/.nextflow.log ${moduleConfigOption}run ./${dockerScriptPath} --outdir results --inputdir inputs --max_cpus ${maxCpus} --max_memory "${maxMemory}" -work-dir nextflow/work`;
+      nextflowCmd = `docker run --rm --name ${shellQuote(containerName)} --platform ${nextflowPlatform} ${nextflowRunnerMount} -v /var/run/docker.sock:/var/run/docker.sock -e NXF_LOG_FILE=nextflow/.nextflow.log -w ${shellQuote(dockerMainOutputDir)} nextflow/nextflow:${nextflowVersion} nextflow -log nextflow/.nextflow.log ${moduleConfigOption}run ./${dockerScriptPath} ${reportingOptions}${paramsFileOption}--outdir results --inputdir inputs --max_cpus ${maxCpus} --max_memory "${maxMemory}" -work-dir nextflow/work${resumeOption}`;
     }
 
     console.log(`Executing: ${nextflowCmd}`);
     console.log(`Working directory: ${mainOutputDir}`);
     console.log(`Script path: ${relativeScriptPath}`);
 
-    // Generate execution ID for tracking and cancellation
-    const executionId = `${sanitizedWorkflowName}_${Date.now()}`;
-
-    // Set up streaming response for real-time output
-    res.writeHead(200, {
-      "Content-Type": "text/plain",
-      "Transfer-Encoding": "chunked",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
+    // Persist a run record so the history survives backend restarts
+    run = await RunModel.create({
+      workflowId: workflowId || null,
+      owner: ownerId,
+      workflowName,
+      executionId,
+      script: extractedNextflowAssets.script,
+      settings: executionSettings,
+      inputFiles: [
+        ...Object.keys(fileContent || {}),
+        ...Object.keys(storedFiles || {}),
+      ],
+      status: "running",
+      startedAt: new Date(),
+      outputDir: mainOutputDir,
+      resumedFrom: resumeState?.runId ?? null,
     });
+    const runId = String(run._id);
 
-    // Execute Nextflow with streaming output
-    let allOutput = "";
-    let allErrors = "";
+    // Respond straight away; progress is delivered over the run's SSE stream
+    openRunChannel(runId);
+    res.status(202).json({ runId });
 
-    const childProcess = exec(nextflowCmd, {
+    // Run in its own process group (Unix) so cancellation reaches Nextflow and
+    // everything it started, not just the wrapping shell
+    const childProcess = spawn(nextflowCmd, {
       cwd: mainOutputDir,
-      timeout:
-        executionSettings.executionTimeout > 0
-          ? executionSettings.executionTimeout * 60000
-          : 600000, // 10 minutes default
-      maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+      shell: true,
+      detached: process.platform !== "win32",
     });
 
     // Track the process for cancellation
-    runningProcesses.set(executionId, childProcess);
-
-    // Stream output in real-time
-    if (childProcess.stdout) {
-      childProcess.stdout.on("data", (data) => {
-        const output = data.toString();
-        console.log(`STDOUT: ${output}`);
-        allOutput += output;
-
-        // Send output immediately to frontend
-        res.write(output);
+    const execution: RunningExecution = {
+      childProcess,
+      containerName: useLocalNextflow ? undefined : containerName,
+      cancelRequested: false,
+    };
+    runningProcesses.set(runId, execution);
+
+    const executionTimeoutMs =
+      executionSettings.executionTimeout > 0
+        ? executionSettings.executionTimeout * 60000
+        : 600000; // 10 minutes default
+    const executionTimer = setTimeout(() => {
+      console.warn(`Execution ${executionId} timed out, stopping it`);
+      publishRunEvent(runId, {
+        type: "log",
+        line: `Execution timed out after ${executionTimeoutMs / 60000} minutes`,
       });
-    }
+      void stopRunningExecution(execution);
+    }, executionTimeoutMs);
 
-    if (childProcess.stderr) {
-      childProcess.stderr.on("data", (data) => {
-        const output = data.toString();
-        console.error(`STDERR: ${output}`);
-        allErrors += output;
+    // Forward output line by line to the event stream
+    const stdoutLines = createLineForwarder(runId, (output) =>
+      console.log(`STDOUT: ${output}`)
+    );
+    const stderrLines = createLineForwarder(runId, (output) =>
+      console.error(`STDERR: ${output}`)
+    );
+    childProcess.stdout?.on("data", stdoutLines.push);
+    childProcess.stderr?.on("data", stderrLines.push);
 
-        // Send stderr to frontend as well
-        res.write(output);
-      });
-    }
+    // Nextflow appends a trace row as each task finishes
+    const stopTraceWatch = executionSettings.enableTrace
+      ? watchTraceFile(path.join(nextflowDir, "trace.txt"), (tasks) =>
+          publishRunEvent(runId, { type: "trace", tasks })
+        )
+      : () => [] as TaskMetrics[];
 
     // Handle process completion
     childProcess.on("close", (code) => {
       // Remove from tracking when process completes
-      runningProcesses.delete(executionId);
+      runningProcesses.delete(runId);
+      clearTimeout(executionTimer);
+      stdoutLines.flush();
+      stderrLines.flush();
+      const tasks = stopTraceWatch();
+
+      // Any run that got as far as starting a session can be resumed,
+      // including failed and cancelled ones
+      const sessionId = readNextflowSessionId(mainOutputDir);
+      const resumable = Boolean(sessionId);
+      if (sessionId) {
+        void saveResumeState(workflowId, {
+          runId,
+          sessionId,
+          outputDir: mainOutputDir,
+        });
+      }
+
+      if (execution.cancelRequested) {
+        console.log(`Execution ${executionId} was cancelled`);
+        void updateRunRecord(runId, {
+          status: "cancelled",
+          exitCode: code,
+          endedAt: new Date(),
+          tasks,
+          sessionId,
+        });
+        publishRunEvent(runId, { type: "log", line: "Execution cancelled" });
+        publishRunEvent(runId, {
+          type: "complete",
+          status: "cancelled",
+          exitCode: code,
+          outputDir: mainOutputDir,
+          resumable,
+        });
+        return;
+      }
+
+      void updateRunRecord(runId, {
+        status: code === 0 ? "succeeded" : "failed",
+        exitCode: code,
+        endedAt: new Date(),
+        tasks,
+        sessionId,
+      });
 
       if (code !== 0) {
         console.error(
           `Execution ${executionId} failed with exit code: ${code}`
         );
-        res.write(`\nNextflow execution failed with exit code: ${code}\n`);
-        res.end();
+        publishRunEvent(runId, {
+          type: "log",
+          line: `Nextflow execution failed with exit code: ${code}`,
+        });
+        publishRunEvent(runId, {
+          type: "complete",
+          status: "failed",
+          exitCode: code,
+          outputDir: mainOutputDir,
+          error: `Nextflow execution failed with exit code: ${code}`,
+          resumable,
+        });
         return;
       }
 
@@ -411,8 +661,14 @@ const executeNextflowWorkflow = async (
       console.log(`Results available in: ${mainOutputDir}`);
 
       // Send completion messages to frontend
-      res.write("\nNextflow execution completed successfully\n");
-      res.write(`Results available in: ${mainOutputDir}\n`);
+      publishRunEvent(runId, {
+        type: "log",
+        line: "Nextflow execution completed successfully",
+      });
+      publishRunEvent(runId, {
+        type: "log",
+        line: `Results available in: ${mainOutputDir}`,
+      });
 
       // Move Nextflow metadata files to nextflow directory
       const nextflowMetadataDir = path.join(mainOutputDir, ".nextflow");
@@ -447,19 +703,50 @@ const executeNextflowWorkflow = async (
       }
 
       console.log(`Execution ${executionId} completed successfully`);
-      res.end();
+      publishRunEvent(runId, {
+        type: "complete",
+        status: "succeeded",
+        exitCode: code,
+        outputDir: mainOutputDir,
+        resumable,
+      });
     });
 
     childProcess.on("error", (error) => {
       // Remove from tracking
-      runningProcesses.delete(executionId);
+      runningProcesses.delete(runId);
+      clearTimeout(executionTimer);
 
       console.error(`Execution ${executionId} failed with error:`, error);
-      res.write(`\nExecution error: ${error.message}\n`);
-      res.end();
+      void updateRunRecord(runId, {
+        status: "failed",
+        error: error.message,
+        endedAt: new Date(),
+        tasks: stopTraceWatch(),
+      });
+      publishRunEvent(runId, {
+        type: "log",
+        line: `Execution error: ${error.message}`,
+      });
+      publishRunEvent(runId, {
+        type: "complete",
+        status: "failed",
+        outputDir: mainOutputDir,
+        error: error.message,
+      });
     });
   } catch (error: any) {
     console.error(`Setup error:`, error);
+    if (run) {
+      await updateRunRecord(String(run._id), {
+        status: "failed",
+        error: error.message,
+        endedAt: new Date(),
+      });
+    }
+    if (res.headersSent) {
+      return;
+    }
     res.status(500).json({
       error: `Failed to setup workflow execution: ${error.message}`,
     });
@@ -571,6 +858,237 @@ export const checkDockerStatus = (req: Request, res: Response): void => {
   });
 };
 
+// Child process output arrives in arbitrary chunks; split it into whole lines
+// before publishing so task parsing never sees half a progress line.
+const createLineForwarder = (
+  runId: string,
+  echo: (output: string) => void
+): { push: (data: Buffer | string) => void; flush: () => void } => {
+  let pending = "";
+
+  const publishLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+    publishRunEvent(runId, { type: "log", line });
+    const taskEvent = parseTaskEvent(line);
+    if (taskEvent) {
+      publishRunEvent(runId, taskEvent);
+    }
+  };
+
+  return {
+    push: (data) => {
+      const output = data.toString();
+      echo(output);
+
+      const lines = (pending + output).split(/\r?\n|\r/);
+      pending = lines.pop() ?? "";
+      lines.forEach(publishLine);
+    },
+    flush: () => {
+      publishLine(pending);
+      pending = "";
+    },
+  };
+};
+
+// Ask Nextflow to shut down (SIGTERM), wait for it to exit and only then
+// force-kill whatever is left.
+const stopRunningExecution = async (
+  execution: RunningExecution
+): Promise<void> => {
+  const { childProcess, containerName } = execution;
+  if (childProcess.exitCode !== null || !childProcess.pid) {
+    return;
+  }
+  const pid = childProcess.pid;
+
+  const exited = new Promise<void>((resolve) =>
+    childProcess.once("close", () => resolve())
+  );
+
+  if (containerName) {
+    // `docker stop` sends SIGTERM to the Nextflow container and escalates to
+    // SIGKILL after the timeout
+    await execOutput(
+      `docker stop --time ${GRACEFUL_STOP_TIMEOUT_MS / 1000} ${shellQuote(containerName)}`
+    ).catch((error) =>
+      console.warn(`Failed to stop container ${containerName}: ${error.message}`)
+    );
+  } else if (process.platform === "win32") {
+    // On Windows, use taskkill to kill the process tree
+    await execOutput(`taskkill /pid ${pid} /t /f`).catch((error) =>
+      console.warn(`Failed to kill process tree: ${error.message}`)
+    );
+  } else {
+    // On Unix-like systems, signal the whole process group
+    signalProcessGroup(pid, "SIGTERM");
+  }
+
+  const stoppedGracefully = await Promise.race([
+    exited.then(() => true),
+    new Promise<boolean>((resolve) =>
+      setTimeout(() => resolve(false), GRACEFUL_STOP_TIMEOUT_MS)
+    ),
+  ]);
+
+  if (!stoppedGracefully) {
+    console.warn(`Process ${pid} did not stop in time, killing it`);
+    if (process.platform === "win32") {
+      childProcess.kill("SIGKILL");
+    } else {
+      signalProcessGroup(pid, "SIGKILL");
+    }
+    await exited;
+  }
+};
+
+const signalProcessGroup = (pid: number, signal: NodeJS.Signals): void => {
+  try {
+    process.kill(-pid, signal);
+  } catch (error: any) {
+    // ESRCH: the group has already exited
+    if (error.code !== "ESRCH") {
+      throw error;
+    }
+  }
+};
+
+// Run bookkeeping must never take down an execution, so failures are only logged
+const updateRunRecord = async (
+  runId: string,
+  update: Partial<
+    Pick<
+      IRun,
+      "status" | "exitCode" | "endedAt" | "error" | "tasks" | "sessionId"
+    >
+  >
+): Promise<void> => {
+  try {
+    await RunModel.findByIdAndUpdate(runId, update);
+  } catch (error) {
+    console.warn(`Could not update run record ${runId}:`, error);
+  }
+};
+
+const SESSION_ID_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+/**
+ * Session id of the latest run launched from a directory. Nextflow appends a
+ * tab-separated line per run to .nextflow/history, which a successful run has
+ * already had moved into nextflow/.
+ */
+const readNextflowSessionId = (launchDir: string): string | null => {
+  const historyFile = [
+    path.join(launchDir, ".nextflow", "history"),
+    path.join(launchDir, "nextflow", ".nextflow", "history"),
+  ].find((candidate) => fs.existsSync(candidate));
+  if (!historyFile) {
+    return null;
+  }
+
+  try {
+    const lines = fs.readFileSync(historyFile, "utf8").trim().split("\n");
+    return lines[lines.length - 1]?.match(SESSION_ID_PATTERN)?.[0] ?? null;
+  } catch (error) {
+    console.warn(`Could not read Nextflow history ${historyFile}:`, error);
+    return null;
+  }
+};
+
+// Nextflow looks for its cache in the launch directory, where the last
+// successful run no longer left it
+const restoreNextflowMetadata = (launchDir: string): void => {
+  const metadataDir = path.join(launchDir, ".nextflow");
+  const movedMetadataDir = path.join(launchDir, "nextflow", ".nextflow");
+  if (!fs.existsSync(metadataDir) && fs.existsSync(movedMetadataDir)) {
+    fs.renameSync(movedMetadataDir, metadataDir);
+  }
+};
+
+/**
+ * Uploaded inputs are sent again with every run. Rewriting an unchanged file
+ * would bump its modification time, which Nextflow hashes, and invalidate
+ * every cached task that read it.
+ */
+const writeInputFileIfChanged = (
+  filePath: string,
+  content: string | Buffer
+): boolean => {
+  if (
+    fs.existsSync(filePath) &&
+    fs.readFileSync(filePath).equals(Buffer.from(content))
+  ) {
+    return false;
+  }
+  fs.writeFileSync(filePath, content);
+  return true;
+};
+
+/**
+ * Saved workflows keep their resume state on the workflow document; built-in
+ * workflows are not stored, so their latest resumable run is used instead.
+ */
+const findResumeState = async (
+  ownerId: string,
+  workflowId?: string
+): Promise<WorkflowResumeState | null> => {
+  if (!workflowId) {
+    return null;
+  }
+
+  let resumeState: WorkflowResumeState | null = null;
+  if (mongoose.Types.ObjectId.isValid(workflowId)) {
+    const access = await findAccessibleWorkflow(workflowId, ownerId);
+    resumeState = access?.workflow.resumeState ?? null;
+  }
+  if (!resumeState) {
+    // Built-in workflows are shared, but each user resumes their own runs
+    const lastRun = await RunModel.findOne({
+      workflowId,
+      ...ownedBy(ownerId),
+      sessionId: { $ne: null },
+    }).sort({ startedAt: -1 });
+    resumeState =
+      lastRun?.sessionId && lastRun.outputDir
+        ? {
+            runId: String(lastRun._id),
+            sessionId: lastRun.sessionId,
+            outputDir: lastRun.outputDir,
+          }
+        : null;
+  }
+
+  if (resumeState && !fs.existsSync(resumeState.outputDir)) {
+    throw new Error(
+      `The previous run's directory ${resumeState.outputDir} no longer exists, so it cannot be resumed.`
+    );
+  }
+  return resumeState;
+};
+
+// Like the run record, resume bookkeeping must never fail a run
+const saveResumeState = async (
+  workflowId: string | undefined,
+  resumeState: WorkflowResumeState
+): Promise<void> => {
+  if (!workflowId || !mongoose.Types.ObjectId.isValid(workflowId)) {
+    return;
+  }
+  try {
+    // Not an edit: leave updatedAt alone so open editors can still save
+    await WorkflowModel.findByIdAndUpdate(
+      workflowId,
+      { resumeState },
+      { timestamps: false }
+    );
+  } catch (error) {
+    console.warn(`Could not save resume state for ${workflowId}:`, error);
+  }
+};
+
 const ensureDockerAvailable = async (reason: string): Promise<void> => {
   try {
     await new Promise((resolve, reject) => {
@@ -589,12 +1107,53 @@ const ensureDockerAvailable = async (reason: string): Promise<void> => {
   }
 };
 
+// Ids of the uploaded files a stored workflow's input nodes point at
+const getReferencedFileIds = (workflow?: IWorkflow): Set<string> => {
+  const fileIds = new Set<string>();
+  (workflow?.nodes ?? []).forEach((node: any) => {
+    (Array.isArray(node?.data?.files) ? node.data.files : []).forEach(
+      (file: any) => {
+        if (file?._id) fileIds.add(String(file._id));
+      }
+    );
+  });
+  return fileIds;
+};
+
 const buildExecutionConfig = (
   generatedConfig: string,
-  enableDocker: boolean
+  enableDocker: boolean,
+  executionSettings: ExecutionSettings
 ): string => {
   const configBlocks = [generatedConfig.trim()].filter(Boolean);
 
+  // Output directories can be reused between runs, and Nextflow refuses to
+  // start when a trace/timeline/report file is already there.
+  const reportScopes = [
+    executionSettings.enableTrace && "trace",
+    executionSettings.enableTimeline && "timeline",
+    executionSettings.enableReport && "report",
+  ].filter(Boolean);
+  reportScopes.forEach((scope) => {
+    configBlocks.push(`${scope} {\n  overwrite = true\n}`);
+  });
+
+  const envScope = buildEnvScope(executionSettings.environmentVariables);
+  if (envScope) {
+    configBlocks.push(envScope);
+  }
+
+  // Workflow-wide defaults; nodes that override them use withName selectors,
+  // which take precedence
+  const errorStrategyLines = buildErrorStrategyConfig(executionSettings);
+  if (errorStrategyLines.length > 0) {
+    configBlocks.push(
+      ["process {", ...errorStrategyLines.map((line) => `  ${line}`), "}"].join(
+        "\n"
+      )
+    );
+  }
+
   if (enableDocker) {
     configBlocks.push(
       [
@@ -612,6 +1171,77 @@ const buildExecutionConfig = (
   return configBlocks.join("\n\n");
 };
 
+const ERROR_STRATEGIES = ["ignore", "retry", "finish", "terminate"];
+
+// Milliseconds to wait before attempt n + 1, matching the node-level
+// settings the frontend generates
+const BACKOFF_DELAYS: Map<string, string> = new Map([
+  ["exponential", "Math.pow(2, task.attempt - 1) * 1000"],
+  ["linear", "task.attempt * 1000"],
+  ["fixed", "1000"],
+]);
+
+// Unknown values are rejected rather than run with a different strategy
+const validateErrorHandling = (
+  executionSettings: ExecutionSettings
+): string | null => {
+  const { errorStrategy, maxRetries, backoffStrategy } = executionSettings;
+  if (errorStrategy !== undefined && !ERROR_STRATEGIES.includes(errorStrategy)) {
+    return `Unknown errorStrategy "${errorStrategy}"; use one of ${ERROR_STRATEGIES.join(", ")}`;
+  }
+  if (backoffStrategy !== undefined && !BACKOFF_DELAYS.has(backoffStrategy)) {
+    return `Unknown backoffStrategy "${backoffStrategy}"; use one of ${Array.from(
+      BACKOFF_DELAYS.keys()
+    ).join(", ")}`;
+  }
+  if (
+    maxRetries !== undefined &&
+    !(Number.isInteger(maxRetries) && maxRetries >= 0)
+  ) {
+    return "maxRetries must be a whole number of at least 0";
+  }
+  return null;
+};
+
+/**
+ * Nextflow already terminates on the first error, so only other strategies
+ * are written. Retries sleep in the strategy closure before resubmitting.
+ */
+const buildErrorStrategyConfig = (
+  executionSettings: ExecutionSettings
+): string[] => {
+  const strategy = executionSettings.errorStrategy;
+  if (!ERROR_STRATEGIES.includes(strategy) || strategy === "terminate") {
+    return [];
+  }
+  if (strategy !== "retry") {
+    return [`errorStrategy = '${strategy}'`];
+  }
+
+  const maxRetries = Math.max(
+    0,
+    Math.floor(Number(executionSettings.maxRetries) || 0)
+  );
+  const delay =
+    BACKOFF_DELAYS.get(executionSettings.backoffStrategy ?? "exponential") ??
+    BACKOFF_DELAYS.get("exponential");
+  return [
+    `errorStrategy = { sleep((${delay}) as long); return 'retry' }`,
+    `maxRetries = ${maxRetries}`,
+  ];
+};
+
+// Files land in the run's nextflow/ directory, next to .nextflow.log
+const buildReportingOptions = (executionSettings: ExecutionSettings): string =>
+  [
+    executionSettings.enableTrace && "-with-trace nextflow/trace.txt",
+    executionSettings.enableTimeline && "-with-timeline nextflow/timeline.html",
+    executionSettings.enableReport && "-with-report nextflow/report.html",
+  ]
+    .filter(Boolean)
+    .map((option) => `${option} `)
+    .join("");
+
 const resolveContainerMount = async (
   containerName: string,
   destination: string
@@ -1183,56 +1813,102 @@ const sanitizeVarName = (name: string): string => {
   return sanitized;
 };
 
-// New endpoint for cancelling execution
-export const cancelExecution = (req: Request, res: Response): void => {
-  const { executionId } = req.body;
+// Server-Sent Events stream for a run: log lines, task status changes and a
+// final completion event. Finished runs that are no longer buffered in memory
+// (e.g. after a backend restart) are answered from the stored run record.
+export const streamRunEvents = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const runId = req.params.id;
 
-  if (!executionId) {
-    res.status(400).json({ error: "Execution ID is required" });
-    return;
-  }
+    if (!runId) {
+      res.status(400).json({ error: "Run ID is required" });
+      return;
+    }
 
-  const childProcess = runningProcesses.get(executionId);
-
-  if (childProcess) {
-    try {
-      // Kill the process and all its children
-      if (childProcess.pid) {
-        // On Windows, use taskkill to kill the process tree
-        if (process.platform === "win32") {
-          exec(`taskkill /pid ${childProcess.pid} /t /f`, (error) => {
-            if (error) {
-              console.warn(`Failed to kill process tree: ${error.message}`);
-            }
-          });
-        } else {
-          // On Unix-like systems, kill the process group
-          childProcess.kill("SIGTERM");
-          setTimeout(() => {
-            if (!childProcess.killed) {
-              childProcess.kill("SIGKILL");
-            }
-          }, 5000);
-        }
-      }
+    const run = mongoose.Types.ObjectId.isValid(runId)
+      ? await RunModel.findById(runId)
+      : null;
+    if (!run || !(await getRunRole(run, getAuthUser(req).id))) {
+      res.status(404).json({ error: "Run not found", runId });
+      return;
+    }
 
-      runningProcesses.delete(executionId);
+    const lastEventId = Number(req.header("Last-Event-ID")) || 0;
+    if (hasRunChannel(runId) && subscribeToRun(runId, res, lastEventId)) {
+      return;
+    }
 
-      res.json({
-        message: "Execution cancelled successfully",
-        executionId,
-      });
-    } catch (error: any) {
-      console.error("Failed to cancel execution:", error);
+    sendFinishedRunEvent(res, {
+      type: "complete",
+      status: run.status === "running" ? "failed" : run.status,
+      exitCode: run.exitCode,
+      outputDir: run.outputDir,
+      error:
+        run.status === "running"
+          ? "Run is no longer tracked by the backend"
+          : run.error,
+    });
+  } catch (error: any) {
+    console.error(`Error streaming run ${req.params.id}:`, error);
+    if (!res.headersSent) {
       res.status(500).json({
-        error: "Failed to cancel execution",
+        error: "Failed to stream run events",
         details: error.message,
       });
     }
-  } else {
+  }
+};
+
+// New endpoint for cancelling execution. Nextflow is sent SIGTERM so it can
+// stop its running tasks; the run is recorded as cancelled once it exits.
+export const cancelExecution = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const runId: string | undefined = req.body.runId || req.body.executionId;
+
+  if (!runId) {
+    res.status(400).json({ error: "Run ID is required" });
+    return;
+  }
+
+  const userId = getAuthUser(req).id;
+  const execution = runningProcesses.get(runId);
+  const run = mongoose.Types.ObjectId.isValid(runId)
+    ? await RunModel.findById(runId).select("workflowId owner")
+    : null;
+  const role = run ? await getRunRole(run, userId) : null;
+
+  if (!execution || !run || !role) {
     res.status(404).json({
       error: "Execution not found or already completed",
-      executionId,
+      runId,
+    });
+    return;
+  }
+  const cancelRole = getRunCancelRole(run, userId);
+  if (!hasWorkflowRole(role, cancelRole)) {
+    res.status(403).json({ error: roleRequiredMessage(cancelRole), runId });
+    return;
+  }
+
+  try {
+    execution.cancelRequested = true;
+    publishRunEvent(runId, { type: "log", line: "Cancelling execution..." });
+    await stopRunningExecution(execution);
+
+    res.json({
+      message: "Execution cancelled successfully",
+      runId,
+    });
+  } catch (error: any) {
+    console.error("Failed to cancel execution:", error);
+    res.status(500).json({
+      error: "Failed to cancel execution",
+      details: error.message,
     });
   }
 };
@@ -1274,3 +1950,12 @@ export const checkNextflowStatus = (req: Request, res: Response): void => {
     });
   });
 };
+
+const decodeInputFile = (content: InputFileContent): string | Buffer => {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content.encoding === "base64"
+    ? Buffer.from(content.content, "base64")
+    : content.content;
+};
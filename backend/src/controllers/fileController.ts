@@ -0,0 +1,241 @@
+import { Request, Response } from "express";
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import File, { IFile } from "../models/File";
+import {
+  getDataRoots,
+  listDataRootDirectory,
+  resolveDataRootPath,
+} from "../services/dataRoots";
+import {
+  getStoredFilePath,
+  removeStoredFile,
+  storeUploadedFile,
+} from "../services/fileStore";
+import { ownedBy } from "../services/workflowAccess";
+import { getAuthUser } from "../middleware/auth";
+
+export const uploadFile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ message: "No file provided." });
+      return;
+    }
+
+    const { originalname, mimetype, size, path: tempPath } = req.file;
+    const tags = req.body.tags ? req.body.tags.split(",") : [];
+    const hash = await storeUploadedFile(tempPath);
+    const userId = getAuthUser(req).id;
+
+    // Uploading the same file again reuses its existing record
+    const existingFile = await File.findOne({
+      hash,
+      originalName: originalname,
+      ...ownedBy(userId),
+    });
+    if (existingFile) {
+      res.status(200).json(toFileResponse(existingFile));
+      return;
+    }
+
+    // Generate unique filename for metadata tracking
+    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+    const newFile = new File({
+      originalName: originalname,
+      mimetype,
+      size,
+      filename: "file-" + uniqueSuffix,
+      hash,
+      tags,
+      owner: userId,
+    });
+
+    // Detect and set file type
+    newFile.detectFileType();
+
+    await newFile.save();
+
+    res.status(201).json(toFileResponse(newFile));
+  } catch (error: any) {
+    console.error("Error storing file:", error);
+    if (req.file?.path) {
+      fs.rmSync(req.file.path, { force: true });
+    }
+    res.status(500).json({
+      message: "Server error while storing file",
+      error: error.message,
+    });
+  }
+};
+
+export const listFiles = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Records without a hash predate the file store and have no content
+    const files: IFile[] = await File.find({
+      hash: { $exists: true },
+      ...ownedBy(getAuthUser(req).id),
+    }).sort({
+      createdAt: -1,
+    });
+
+    res.status(200).json(files.map(toFileResponse));
+  } catch (error: any) {
+    console.error("Error fetching files:", error);
+    res.status(500).json({
+      message: "Server error while fetching files",
+      error: error.message,
+    });
+  }
+};
+
+export const downloadFile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const file = await findStoredFile(req, res);
+    if (!file) return;
+
+    const storedPath = getStoredFilePath(file.hash);
+    if (!fs.existsSync(storedPath)) {
+      res.status(404).json({ message: "File content is missing from storage" });
+      return;
+    }
+
+    res.download(storedPath, file.originalName);
+  } catch (error: any) {
+    console.error(`Error downloading file ${req.params.id}:`, error);
+    res.status(500).json({
+      message: "Server error while downloading file",
+      error: error.message,
+    });
+  }
+};
+
+export const deleteFile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const file = await findStoredFile(req, res);
+    if (!file) return;
+
+    await File.findByIdAndDelete(file._id);
+
+    // Identical content uploaded under another name shares the stored blob
+    if (file.hash && !(await File.exists({ hash: file.hash }))) {
+      removeStoredFile(file.hash);
+    }
+
+    res.status(200).json({ message: "File deleted successfully" });
+  } catch (error: any) {
+    console.error(`Error deleting file ${req.params.id}:`, error);
+    res.status(500).json({
+      message: "Server error while deleting file",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Browse host directories for path-mode File Input nodes. Only paths inside
+ * the allow-listed NWAVE_DATA_ROOTS are listed; without a path the roots
+ * themselves are returned.
+ */
+export const browseDataRoots = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const requestedPath =
+      typeof req.query.path === "string" ? req.query.path.trim() : "";
+    const roots = getDataRoots();
+
+    if (!requestedPath) {
+      res.status(200).json({
+        path: null,
+        parent: null,
+        roots,
+        entries: roots.map((root) => ({
+          name: root,
+          path: root,
+          type: "directory",
+          size: null,
+        })),
+      });
+      return;
+    }
+
+    const directory = resolveDataRootPath(requestedPath);
+    if (!directory) {
+      res
+        .status(403)
+        .json({ message: "Path is outside the configured data roots" });
+      return;
+    }
+    if (!fs.statSync(directory).isDirectory()) {
+      res.status(400).json({ message: "Path is not a directory" });
+      return;
+    }
+
+    const parentDirectory = path.dirname(directory);
+    res.status(200).json({
+      path: directory,
+      parent:
+        parentDirectory !== directory && resolveDataRootPath(parentDirectory)
+          ? parentDirectory
+          : null,
+      roots,
+      entries: listDataRootDirectory(directory),
+    });
+  } catch (error: any) {
+    console.error(`Error browsing ${req.query.path}:`, error);
+    res.status(500).json({
+      message: "Server error while browsing data roots",
+      error: error.message,
+    });
+  }
+};
+
+const findStoredFile = async (
+  req: Request,
+  res: Response
+): Promise<IFile | null> => {
+  const fileId = req.params.id;
+
+  if (!fileId || !mongoose.Types.ObjectId.isValid(fileId)) {
+    res.status(400).json({ message: "Invalid file ID format" });
+    return null;
+  }
+
+  // Other users' files are reported as missing, like their workflows
+  const file = await File.findOne({
+    _id: fileId,
+    ...ownedBy(getAuthUser(req).id),
+  });
+  if (!file) {
+    res.status(404).json({ message: "File not found" });
+    return null;
+  }
+
+  return file;
+};
+
+const toFileResponse = (file: IFile) => ({
+  _id: file._id,
+  filename: file.filename,
+  originalName: file.originalName,
+  mimetype: file.mimetype,
+  size: file.size,
+  fileType: file.fileType,
+  hash: file.hash,
+  tags: file.tags,
+  createdAt: file.createdAt,
+});
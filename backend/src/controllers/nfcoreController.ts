@@ -2,79 +2,16 @@ import { Request, Response } from "express";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
-
-type SupportLevel = "full" | "candidate" | "needs_review" | "unsupported";
-
-interface NfCoreCatalogEntry {
-  id: string;
-  moduleName: string;
-  modulePath: string;
-  label: string;
-  description: string;
-  processName: string;
-  source: {
-    repository: string;
-    ref: string;
-    commit: string;
-    path: string;
-  };
-  files: {
-    main: boolean;
-    meta: boolean;
-    environment: boolean;
-  };
-  keywords: string[];
-  tools: string[];
-  inputs: string[];
-  inputDeclarations?: string[];
-  inputGroups?: Array<{
-    argumentIndex: number;
-    handle: string;
-    tuple: boolean;
-    metaName: string | null;
-    fields: string[];
-  }>;
-  outputs: string[];
-  emits: string[];
-  containers: string[];
-  settings?: {
-    extArgs: boolean;
-    extArgNames?: string[];
-    argumentReferences?: Array<{
-      type: string;
-      url: string;
-    }>;
-    resources: boolean;
-  };
-  installedByDefault: boolean;
-  support: SupportLevel;
-  installability?: {
-    automatic: boolean;
-    requiresReview: boolean;
-    reasons: string[];
-  };
-}
-
-interface NfCoreCatalog {
-  schemaVersion: number;
-  generatedAt: string;
-  source: {
-    repository: string;
-    ref: string;
-    commit: string;
-  };
-  counts: Record<string, number>;
-  modules: NfCoreCatalogEntry[];
-}
-
-interface InstalledModuleIndexEntry {
-  id: string;
-  installedAt: string;
-  moduleDir: string;
-  manifestPath: string;
-  sourceCommit: string;
-  support: SupportLevel;
-}
+import {
+  getInstalledModuleIds,
+  getNwaveDataRoot,
+  loadCatalog,
+  loadInstalledIndex,
+  InstalledModuleIndexEntry,
+  NfCoreCatalogEntry,
+  readJsonIfExists,
+  writeInstalledIndex,
+} from "../services/nfcoreModules";
 
 interface GitHubContentEntry {
   name: string;
@@ -83,20 +20,10 @@ interface GitHubContentEntry {
   download_url: string | null;
 }
 
-const catalogCache = {
-  value: null as NfCoreCatalog | null,
-};
-
 export const listNfCoreCatalog = (_req: Request, res: Response): void => {
   try {
     const catalog = loadCatalog();
-    const installed = loadInstalledIndex();
-    const installedIds = new Set([
-      ...Object.keys(installed),
-      ...catalog.modules
-        .filter((entry) => entry.installedByDefault)
-        .map((entry) => entry.id),
-    ]);
+    const installedIds = getInstalledModuleIds();
 
     res.json({
       ...catalog,
@@ -220,35 +147,6 @@ export const installNfCoreModule = async (
   }
 };
 
-const loadCatalog = (): NfCoreCatalog => {
-  if (catalogCache.value) return catalogCache.value;
-
-  const catalogPath = resolveCatalogPath();
-  const catalog = JSON.parse(fs.readFileSync(catalogPath, "utf8")) as NfCoreCatalog;
-  catalogCache.value = catalog;
-  return catalog;
-};
-
-const resolveCatalogPath = (): string => {
-  const candidates = [
-    path.join(process.cwd(), "dist", "workflows", "library", "assets", "nf-core", "catalog.json"),
-    path.join(process.cwd(), "src", "workflows", "library", "assets", "nf-core", "catalog.json"),
-  ];
-
-  const catalogPath = candidates.find((candidate) => fs.existsSync(candidate));
-  if (!catalogPath) {
-    throw new Error(`nf-core catalog not found. Checked: ${candidates.join(", ")}`);
-  }
-
-  return catalogPath;
-};
-
-const getNwaveDataRoot = (): string =>
-  path.resolve(process.env.NWAVE_DATA_DIR || path.join(process.cwd(), "results", ".nwave"));
-
-const getInstalledIndexPath = (): string =>
-  path.join(getNwaveDataRoot(), "nf-core", "installed.json");
-
 const getInstalledModuleRoot = (entry: NfCoreCatalogEntry): string =>
   path.join(
     getNwaveDataRoot(),
@@ -258,29 +156,6 @@ const getInstalledModuleRoot = (entry: NfCoreCatalogEntry): string =>
     ...entry.modulePath.split("/")
   );
 
-const loadInstalledIndex = (): Record<string, InstalledModuleIndexEntry> => {
-  const indexPath = getInstalledIndexPath();
-  if (!fs.existsSync(indexPath)) return {};
-
-  return JSON.parse(fs.readFileSync(indexPath, "utf8")) as Record<
-    string,
-    InstalledModuleIndexEntry
-  >;
-};
-
-const writeInstalledIndex = (
-  index: Record<string, InstalledModuleIndexEntry>
-): void => {
-  const indexPath = getInstalledIndexPath();
-  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
-  fs.writeFileSync(indexPath, `${JSON.stringify(index, null, 2)}\n`);
-};
-
-const readJsonIfExists = (filePath: string): unknown | null => {
-  if (!fs.existsSync(filePath)) return null;
-  return JSON.parse(fs.readFileSync(filePath, "utf8"));
-};
-
 const enrichInstalledManifest = (
   manifest: unknown | null,
   catalogEntry?: NfCoreCatalogEntry
@@ -0,0 +1,198 @@
+import { Request, Response } from "express";
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import RunModel, { IRun } from "../models/RunModel";
+import {
+  getRunResultsDir,
+  listRunResults,
+  resolveRunResultPath,
+} from "../services/runResults";
+import WorkflowModel from "../models/WorkflowModel";
+import {
+  findAccessibleWorkflow,
+  getRunRole,
+  ownedBy,
+} from "../services/workflowAccess";
+import { getAuthUser } from "../middleware/auth";
+
+export const listWorkflowRuns = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const workflowId = req.params.id;
+
+    if (!workflowId) {
+      res.status(400).json({ message: "Invalid workflow ID format" });
+      return;
+    }
+
+    // Everyone with a role on a stored workflow sees all of its runs; runs
+    // of built-in (and deleted) workflows stay with whoever started them
+    const userId = getAuthUser(req).id;
+    let runFilter: Record<string, unknown> = { workflowId, ...ownedBy(userId) };
+    if (
+      mongoose.Types.ObjectId.isValid(workflowId) &&
+      (await WorkflowModel.exists({ _id: workflowId }))
+    ) {
+      if (!(await findAccessibleWorkflow(workflowId, userId))) {
+        res.status(404).json({ message: "Workflow not found" });
+        return;
+      }
+      runFilter = { workflowId };
+    }
+
+    // The generated script can be large, so the listing leaves it out
+    const runs: IRun[] = await RunModel.find(runFilter)
+      .select("-script")
+      .sort({ startedAt: -1 });
+
+    res.status(200).json(runs);
+  } catch (error: any) {
+    console.error(`Error fetching runs for workflow ${req.params.id}:`, error);
+    res.status(500).json({
+      message: "Server error while fetching workflow runs",
+      error: error.message,
+    });
+  }
+};
+
+export const getRunById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const runId = req.params.runId;
+
+    if (!runId || !mongoose.Types.ObjectId.isValid(runId)) {
+      res.status(400).json({ message: "Invalid run ID format" });
+      return;
+    }
+
+    const run: IRun | null = await RunModel.findById(runId);
+
+    if (!run || !(await getRunRole(run, getAuthUser(req).id))) {
+      res.status(404).json({ message: "Run not found" });
+      return;
+    }
+
+    res.status(200).json(run);
+  } catch (error: any) {
+    console.error(`Error fetching run by ID ${req.params.runId}:`, error);
+    res.status(500).json({
+      message: "Server error while fetching run",
+      error: error.message,
+    });
+  }
+};
+
+export const getRunResults = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const run = await findRun(req, res);
+    if (!run) return;
+
+    const resultsDir = run.outputDir ? getRunResultsDir(run.outputDir) : null;
+    if (!resultsDir || !fs.existsSync(resultsDir)) {
+      res.status(200).json({ runId: run._id, status: run.status, entries: [] });
+      return;
+    }
+
+    res.status(200).json({
+      runId: run._id,
+      status: run.status,
+      entries: listRunResults(resultsDir),
+    });
+  } catch (error: any) {
+    console.error(`Error listing results of run ${req.params.runId}:`, error);
+    res.status(500).json({
+      message: "Server error while listing run results",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Stream a single published result file. `path` is relative to the run's
+ * results directory; `download=1` sends it as an attachment.
+ */
+export const getRunResultFile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const run = await findRun(req, res);
+    if (!run) return;
+
+    const relativePath =
+      typeof req.query.path === "string" ? req.query.path.trim() : "";
+    if (!relativePath) {
+      res.status(400).json({ message: "A result file path is required" });
+      return;
+    }
+
+    const filePath = run.outputDir
+      ? resolveRunResultPath(getRunResultsDir(run.outputDir), relativePath)
+      : null;
+    if (!filePath || !fs.statSync(filePath).isFile()) {
+      res.status(404).json({ message: "Result file not found" });
+      return;
+    }
+
+    // The path has been checked against the results directory already
+    if (req.query.download === "1") {
+      res.download(filePath, path.basename(filePath), { dotfiles: "allow" });
+    } else {
+      res.sendFile(filePath, { dotfiles: "allow" });
+    }
+  } catch (error: any) {
+    console.error(`Error sending result of run ${req.params.runId}:`, error);
+    res.status(500).json({
+      message: "Server error while sending run result",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Runs are tracked in memory while they execute, so anything still marked as
+ * running when the backend starts was interrupted by a restart.
+ */
+export const markInterruptedRuns = async (): Promise<void> => {
+  try {
+    const result = await RunModel.updateMany(
+      { status: "running" },
+      {
+        status: "failed",
+        error: "Backend restarted before the run finished",
+        endedAt: new Date(),
+      }
+    );
+
+    if (result.modifiedCount > 0) {
+      console.log(`Marked ${result.modifiedCount} interrupted run(s) as failed`);
+    }
+  } catch (error) {
+    console.warn("Could not mark interrupted runs:", error);
+  }
+};
+
+const findRun = async (req: Request, res: Response): Promise<IRun | null> => {
+  const runId = req.params.runId;
+
+  if (!runId || !mongoose.Types.ObjectId.isValid(runId)) {
+    res.status(400).json({ message: "Invalid run ID format" });
+    return null;
+  }
+
+  const run: IRun | null = await RunModel.findById(runId).select("-script");
+  if (!run || !(await getRunRole(run, getAuthUser(req).id))) {
+    res.status(404).json({ message: "Run not found" });
+    return null;
+  }
+
+  return run;
+};
@@ -0,0 +1,167 @@
+import { Request, Response } from "express";
+import fs from "fs";
+import mongoose from "mongoose";
+import WorkflowModel, { IWorkflow } from "../models/WorkflowModel";
+import RunModel from "../models/RunModel";
+import { isBuiltinWorkflowId, toWorkflowDescriptor } from "../workflows";
+import { recordWorkflowRevision } from "../services/workflowRevisions";
+import { findAccessibleWorkflow } from "../services/workflowAccess";
+import {
+  buildWorkflowBundle,
+  decodeWorkflowBundle,
+  encodeWorkflowBundle,
+  findMissingNfCoreModules,
+  linkBundleFiles,
+  restoreBundleCustomNodes,
+  restoreBundleFiles,
+  WorkflowBundleError,
+  WorkflowBundleImportReport,
+} from "../services/workflowBundle";
+import { getAuthUser } from "../middleware/auth";
+
+// Imported Nextflow source is the script itself; for visual workflows the
+// latest run's script counts only if the workflow was not edited after it.
+// Every role on the workflow sees its runs, whoever started them.
+const findExportScript = async (
+  workflow: IWorkflow
+): Promise<string | null> => {
+  if (workflow.sourceFormat === "nextflow" && workflow.rawSource) {
+    return workflow.rawSource;
+  }
+  const lastRun = await RunModel.findOne({
+    workflowId: String(workflow._id),
+  }).sort({ startedAt: -1 });
+  if (!lastRun?.script) return null;
+  return workflow.updatedAt && lastRun.startedAt < workflow.updatedAt
+    ? null
+    : lastRun.script;
+};
+
+const toBundleFileName = (name: string): string =>
+  `${name.trim().replace(/[^A-Za-z0-9_.-]+/g, "_") || "workflow"}.nwave`;
+
+export const exportWorkflowBundle = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const workflowId = req.params.id;
+
+    if (!workflowId) {
+      res.status(400).json({ message: "Invalid workflow ID format" });
+      return;
+    }
+
+    if (isBuiltinWorkflowId(workflowId)) {
+      res.status(400).json({
+        message:
+          "Built-in workflows ship with every N-WAVE instance. Duplicate the workflow to export a copy.",
+      });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(workflowId)) {
+      res.status(400).json({ message: "Invalid workflow ID format" });
+      return;
+    }
+
+    // Anyone who can open a workflow can already duplicate it, so any role
+    // may export it
+    const access = await findAccessibleWorkflow(
+      workflowId,
+      getAuthUser(req).id
+    );
+    if (!access) {
+      res.status(404).json({ message: "Workflow not found" });
+      return;
+    }
+
+    const bundle = buildWorkflowBundle(access.workflow, {
+      script: await findExportScript(access.workflow),
+      includeFiles: req.query.files === "1" || req.query.files === "true",
+    });
+
+    res.attachment(toBundleFileName(bundle.workflow.name));
+    res.type("application/gzip");
+    res.status(200).send(encodeWorkflowBundle(bundle));
+  } catch (error: any) {
+    console.error(`Error exporting workflow ${req.params.id}:`, error);
+    res.status(500).json({
+      message: "Server error while exporting workflow",
+      error: error.message,
+    });
+  }
+};
+
+export const importWorkflowBundle = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  if (!req.file) {
+    res.status(400).json({ message: "No bundle provided." });
+    return;
+  }
+
+  try {
+    const bundle = decodeWorkflowBundle(fs.readFileSync(req.file.path));
+    const customNodes = restoreBundleCustomNodes(bundle);
+    const restoredFiles = await restoreBundleFiles(bundle);
+    const userId = getAuthUser(req).id;
+    const { nodes, missing: missingFiles } = await linkBundleFiles(
+      bundle,
+      userId
+    );
+
+    const workflow = await new WorkflowModel({
+      name: bundle.workflow.name,
+      description: bundle.workflow.description,
+      nodes,
+      edges: bundle.workflow.edges,
+      executionSettings: bundle.workflow.executionSettings ?? undefined,
+      originType: "imported",
+      sourceFormat: bundle.workflow.sourceFormat ?? "visual",
+      sourceKey: req.file.originalname,
+      rawSource: bundle.workflow.rawSource ?? null,
+      importWarnings: bundle.workflow.importWarnings ?? [],
+      isBuiltin: false,
+      isReadOnly: false,
+      owner: userId,
+    }).save();
+
+    try {
+      await recordWorkflowRevision(workflow, {
+        note: "Imported from bundle",
+        author: userId,
+      });
+    } catch (error) {
+      console.error(`Error recording revision of workflow ${workflow._id}:`, error);
+    }
+
+    const report: WorkflowBundleImportReport = {
+      customNodes,
+      nfCoreModules: findMissingNfCoreModules(bundle),
+      files: {
+        restored: restoredFiles,
+        missing: missingFiles,
+      },
+      warnings: bundle.warnings,
+    };
+
+    res.status(201).json({
+      workflow: toWorkflowDescriptor(workflow, "owner"),
+      report,
+    });
+  } catch (error: any) {
+    if (error instanceof WorkflowBundleError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    console.error("Error importing workflow bundle:", error);
+    res.status(500).json({
+      message: "Server error while importing workflow bundle",
+      error: error.message,
+    });
+  } finally {
+    fs.rmSync(req.file.path, { force: true });
+  }
+};
@@ -7,6 +7,40 @@ import {
   listBuiltinWorkflows,
   toWorkflowDescriptor,
 } from "../workflows";
+import {
+  deleteWorkflowRevisions,
+  recordBaselineRevision,
+  recordWorkflowRevision,
+} from "../services/workflowRevisions";
+import {
+  accessibleBy,
+  findAccessibleWorkflow,
+  getWorkflowRole,
+  hasWorkflowRole,
+  ownedBy,
+  roleRequiredMessage,
+} from "../services/workflowAccess";
+import { getAuthUser } from "../middleware/auth";
+
+// A failed revision must not fail the save it belongs to
+const recordRevisionSafely = async (
+  workflow: IWorkflow,
+  author: string,
+  note?: string | null
+): Promise<void> => {
+  try {
+    await recordWorkflowRevision(workflow, { note, author });
+  } catch (error) {
+    console.error(`Error recording revision of workflow ${workflow._id}:`, error);
+  }
+};
+
+// The updatedAt a client loaded, sent back with its update
+const parseBaseUpdatedAt = (value: unknown): Date | null => {
+  if (typeof value !== "string" || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
 
 export const saveWorkflow = async (
   req: Request,
@@ -47,10 +81,12 @@ export const saveWorkflow = async (
       importWarnings,
       isBuiltin,
       isReadOnly,
+      owner: getAuthUser(req).id,
     });
 
     const savedWorkflow = await newWorkflow.save();
-    res.status(201).json(toWorkflowDescriptor(savedWorkflow));
+    await recordRevisionSafely(savedWorkflow, getAuthUser(req).id);
+    res.status(201).json(toWorkflowDescriptor(savedWorkflow, "owner"));
   } catch (error: any) {
     console.error("Error saving workflow:", error);
     res.status(500).json({
@@ -83,14 +119,17 @@ export const getWorkflowById = async (
       return;
     }
 
-    const workflow: IWorkflow | null = await WorkflowModel.findById(workflowId);
+    const access = await findAccessibleWorkflow(
+      workflowId,
+      getAuthUser(req).id
+    );
 
-    if (!workflow) {
+    if (!access) {
       res.status(404).json({ message: "Workflow not found" });
       return;
     }
 
-    res.status(200).json(toWorkflowDescriptor(workflow));
+    res.status(200).json(toWorkflowDescriptor(access.workflow, access.role));
   } catch (error: any) {
     console.error(`Error fetching workflow by ID ${req.params.id}:`, error);
     res.status(500).json({
@@ -105,11 +144,17 @@ export const getAllWorkflows = async (
   res: Response
 ): Promise<void> => {
   try {
-    const workflows: IWorkflow[] = await WorkflowModel.find({});
+    const userId = getAuthUser(req).id;
+    const workflows: IWorkflow[] = await WorkflowModel.find(
+      accessibleBy(userId)
+    );
     const builtinWorkflows = listBuiltinWorkflows();
-    res
-      .status(200)
-      .json([...builtinWorkflows, ...workflows.map((workflow) => toWorkflowDescriptor(workflow))]);
+    res.status(200).json([
+      ...builtinWorkflows,
+      ...workflows.map((workflow) =>
+        toWorkflowDescriptor(workflow, getWorkflowRole(workflow, userId) ?? "viewer")
+      ),
+    ]);
   } catch (error: any) {
     console.error("Error fetching all workflows:", error);
     res.status(500).json({
@@ -125,7 +170,15 @@ export const updateWorkflow = async (
 ): Promise<void> => {
   try {
     const workflowId = req.params.id;
-    const { name, description, nodes, edges, executionSettings } = req.body;
+    const {
+      name,
+      description,
+      nodes,
+      edges,
+      executionSettings,
+      revisionNote,
+      baseUpdatedAt,
+    } = req.body;
 
     if (!workflowId) {
       res.status(400).json({ message: "Invalid workflow ID format" });
@@ -162,19 +215,58 @@ export const updateWorkflow = async (
       return;
     }
 
+    // Optimistic concurrency: a save must name the version it was based on
+    const baseVersion = parseBaseUpdatedAt(baseUpdatedAt);
+    if (!baseVersion) {
+      res.status(400).json({
+        message:
+          "baseUpdatedAt is required: send the updatedAt of the workflow as it was loaded",
+      });
+      return;
+    }
+
+    const userId = getAuthUser(req).id;
+    const access = await findAccessibleWorkflow(workflowId, userId);
+    if (!access) {
+      res.status(404).json({ message: "Workflow not found for update" });
+      return;
+    }
+    if (!hasWorkflowRole(access.role, "editor")) {
+      res.status(403).json({ message: roleRequiredMessage("editor") });
+      return;
+    }
+
+    // Matching on updatedAt makes the check and the write one atomic step
     const updatedWorkflow: IWorkflow | null =
-      await WorkflowModel.findByIdAndUpdate(
-        workflowId,
+      await WorkflowModel.findOneAndUpdate(
+        { _id: workflowId, updatedAt: baseVersion },
         updateData,
         { new: true, runValidators: true } // new: true returns the modified document
       );
 
     if (!updatedWorkflow) {
-      res.status(404).json({ message: "Workflow not found for update" });
+      const current = await findAccessibleWorkflow(workflowId, userId);
+      if (!current) {
+        res.status(404).json({ message: "Workflow not found for update" });
+        return;
+      }
+      res.status(409).json({
+        message:
+          "The workflow was changed by someone else since you loaded it.",
+        workflow: toWorkflowDescriptor(current.workflow, current.role),
+      });
       return;
     }
 
-    res.status(200).json(toWorkflowDescriptor(updatedWorkflow));
+    // Only a save that went through is recorded; access.workflow still holds
+    // the content it replaced
+    try {
+      await recordBaselineRevision(access.workflow);
+    } catch (error) {
+      console.error(`Error recording baseline revision of ${workflowId}:`, error);
+    }
+    await recordRevisionSafely(updatedWorkflow, userId, revisionNote);
+    res.status(200).json(toWorkflowDescriptor(updatedWorkflow, access.role));
   } catch (error: any) {
     console.error(`Error updating workflow ${req.params.id}:`, error);
     res.status(500).json({
@@ -209,14 +301,30 @@ export const deleteWorkflow = async (
       return;
     }
 
+    const userId = getAuthUser(req).id;
+    const access = await findAccessibleWorkflow(workflowId, userId);
+    if (!access) {
+      res.status(404).json({ message: "Workflow not found for deletion" });
+      return;
+    }
+    if (access.role !== "owner") {
+      res.status(403).json({ message: roleRequiredMessage("owner") });
+      return;
+    }
+
     const deletedWorkflow: IWorkflow | null =
-      await WorkflowModel.findByIdAndDelete(workflowId);
+      await WorkflowModel.findOneAndDelete({
+        _id: workflowId,
+        ...ownedBy(userId),
+      });
 
     if (!deletedWorkflow) {
       res.status(404).json({ message: "Workflow not found for deletion" });
       return;
     }
 
+    await deleteWorkflowRevisions(workflowId);
+
     res.status(200).json({ message: "Workflow deleted successfully" });
   } catch (error: any) {
     console.error(`Error deleting workflow ${req.params.id}:`, error);
@@ -254,10 +362,12 @@ export const duplicateWorkflow = async (
         importWarnings: builtinWorkflow.importWarnings ?? [],
         isBuiltin: false,
         isReadOnly: false,
+        owner: getAuthUser(req).id,
       });
 
       const savedWorkflow = await duplicatedWorkflow.save();
-      res.status(201).json(toWorkflowDescriptor(savedWorkflow));
+      await recordRevisionSafely(savedWorkflow, getAuthUser(req).id);
+      res.status(201).json(toWorkflowDescriptor(savedWorkflow, "owner"));
       return;
     }
 
@@ -266,13 +376,18 @@ export const duplicateWorkflow = async (
       return;
     }
 
-    const workflow: IWorkflow | null = await WorkflowModel.findById(workflowId);
+    // Any role may duplicate; the copy belongs to the caller
+    const access = await findAccessibleWorkflow(
+      workflowId,
+      getAuthUser(req).id
+    );
 
-    if (!workflow) {
+    if (!access) {
       res.status(404).json({ message: "Workflow not found" });
       return;
     }
 
+    const { workflow } = access;
     const duplicatedWorkflow = new WorkflowModel({
       name: `${workflow.name ?? "Untitled Workflow"} Copy`,
       description: workflow.description ?? "",
@@ -286,10 +401,12 @@ export const duplicateWorkflow = async (
       importWarnings: workflow.importWarnings ?? [],
       isBuiltin: false,
       isReadOnly: false,
+      owner: getAuthUser(req).id,
     });
 
     const savedWorkflow = await duplicatedWorkflow.save();
-    res.status(201).json(toWorkflowDescriptor(savedWorkflow));
+    await recordRevisionSafely(savedWorkflow, getAuthUser(req).id);
+    res.status(201).json(toWorkflowDescriptor(savedWorkflow, "owner"));
   } catch (error: any) {
     console.error(`Error duplicating workflow ${req.params.id}:`, error);
     res.status(500).json({
@@ -0,0 +1,214 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import WorkflowModel, { IWorkflow } from "../models/WorkflowModel";
+import WorkflowRevisionModel, {
+  IWorkflowRevision,
+} from "../models/WorkflowRevisionModel";
+import UserModel from "../models/UserModel";
+import { isBuiltinWorkflowId, toWorkflowDescriptor } from "../workflows";
+import { recordWorkflowRevision } from "../services/workflowRevisions";
+import {
+  findAccessibleWorkflow,
+  hasWorkflowRole,
+  roleRequiredMessage,
+} from "../services/workflowAccess";
+import { getAuthUser } from "../middleware/auth";
+
+// Summary fields only; the graph of every revision would make the list heavy
+const toRevisionSummary = (
+  revision: IWorkflowRevision,
+  usernames: Map<string, string>
+) => ({
+  _id: revision._id,
+  workflowId: revision.workflowId,
+  revision: revision.revision,
+  name: revision.name ?? "",
+  note: revision.note ?? null,
+  restoredFrom: revision.restoredFrom ?? null,
+  author: revision.author
+    ? usernames.get(String(revision.author)) ?? "(deleted user)"
+    : null,
+  nodeCount: revision.nodes?.length ?? 0,
+  edgeCount: revision.edges?.length ?? 0,
+  createdAt: revision.createdAt,
+});
+
+const parseRevisionNumber = (value: string | undefined): number | null => {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+};
+
+export const listWorkflowRevisions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const workflowId = req.params.id;
+
+    if (!workflowId) {
+      res.status(400).json({ message: "Invalid workflow ID format" });
+      return;
+    }
+
+    // Built-in workflows are read-only and never get revisions, so only
+    // stored workflows the user has a role on have any
+    if (!(await findAccessibleWorkflow(workflowId, getAuthUser(req).id))) {
+      res.status(404).json({ message: "Workflow not found" });
+      return;
+    }
+
+    const revisions: IWorkflowRevision[] = await WorkflowRevisionModel.find({
+      workflowId,
+    })
+      .select("-executionSettings")
+      .sort({ revision: -1 });
+
+    const authors = await UserModel.find({
+      _id: { $in: revisions.map((revision) => revision.author).filter(Boolean) },
+    });
+    const usernames = new Map(
+      authors.map((user) => [String(user._id), user.username])
+    );
+
+    res
+      .status(200)
+      .json(revisions.map((revision) => toRevisionSummary(revision, usernames)));
+  } catch (error: any) {
+    console.error(
+      `Error fetching revisions for workflow ${req.params.id}:`,
+      error
+    );
+    res.status(500).json({
+      message: "Server error while fetching workflow revisions",
+      error: error.message,
+    });
+  }
+};
+
+export const getWorkflowRevision = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const workflowId = req.params.id;
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+
+    if (!workflowId || revisionNumber === null) {
+      res.status(400).json({ message: "Invalid workflow revision" });
+      return;
+    }
+
+    if (!(await findAccessibleWorkflow(workflowId, getAuthUser(req).id))) {
+      res.status(404).json({ message: "Workflow not found" });
+      return;
+    }
+
+    const revision: IWorkflowRevision | null =
+      await WorkflowRevisionModel.findOne({
+        workflowId,
+        revision: revisionNumber,
+      });
+
+    if (!revision) {
+      res.status(404).json({ message: "Workflow revision not found" });
+      return;
+    }
+
+    res.status(200).json(revision);
+  } catch (error: any) {
+    console.error(
+      `Error fetching revision ${req.params.revision} of workflow ${req.params.id}:`,
+      error
+    );
+    res.status(500).json({
+      message: "Server error while fetching workflow revision",
+      error: error.message,
+    });
+  }
+};
+
+export const restoreWorkflowRevision = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const workflowId = req.params.id;
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+
+    if (!workflowId || revisionNumber === null) {
+      res.status(400).json({ message: "Invalid workflow revision" });
+      return;
+    }
+
+    if (isBuiltinWorkflowId(workflowId)) {
+      res.status(403).json({
+        message:
+          "Built-in workflows are read-only. Duplicate the workflow to create an editable copy.",
+      });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(workflowId)) {
+      res.status(400).json({ message: "Invalid workflow ID format" });
+      return;
+    }
+
+    const userId = getAuthUser(req).id;
+    const access = await findAccessibleWorkflow(workflowId, userId);
+    if (!access) {
+      res.status(404).json({ message: "Workflow not found" });
+      return;
+    }
+    if (!hasWorkflowRole(access.role, "editor")) {
+      res.status(403).json({ message: roleRequiredMessage("editor") });
+      return;
+    }
+
+    const revision: IWorkflowRevision | null =
+      await WorkflowRevisionModel.findOne({
+        workflowId,
+        revision: revisionNumber,
+      });
+
+    if (!revision) {
+      res.status(404).json({ message: "Workflow revision not found" });
+      return;
+    }
+
+    // Restoring moves the workflow forward to a copy of the old content, so
+    // the revisions in between stay available
+    const restoredWorkflow: IWorkflow | null =
+      await WorkflowModel.findOneAndUpdate(
+        { _id: workflowId },
+        {
+          name: revision.name,
+          nodes: revision.nodes,
+          edges: revision.edges,
+          executionSettings: revision.executionSettings,
+        },
+        { new: true, runValidators: true }
+      );
+
+    if (!restoredWorkflow) {
+      res.status(404).json({ message: "Workflow not found for restore" });
+      return;
+    }
+
+    await recordWorkflowRevision(restoredWorkflow, {
+      note: `Restored revision ${revisionNumber}`,
+      restoredFrom: revisionNumber,
+      author: userId,
+    });
+
+    res.status(200).json(toWorkflowDescriptor(restoredWorkflow, access.role));
+  } catch (error: any) {
+    console.error(
+      `Error restoring revision ${req.params.revision} of workflow ${req.params.id}:`,
+      error
+    );
+    res.status(500).json({
+      message: "Server error while restoring workflow revision",
+      error: error.message,
+    });
+  }
+};
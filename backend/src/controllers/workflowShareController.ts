@@ -0,0 +1,170 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import WorkflowModel, {
+  IWorkflow,
+  WorkflowShareRole,
+} from "../models/WorkflowModel";
+import UserModel from "../models/UserModel";
+import { isBuiltinWorkflowId } from "../workflows";
+import {
+  findAccessibleWorkflow,
+  roleRequiredMessage,
+} from "../services/workflowAccess";
+import { getAuthUser } from "../middleware/auth";
+
+const SHARE_ROLES = new Set<WorkflowShareRole>(["viewer", "runner", "editor"]);
+
+const isShareRole = (value: unknown): value is WorkflowShareRole =>
+  typeof value === "string" && SHARE_ROLES.has(value as WorkflowShareRole);
+
+// Shares with the usernames resolved, for listing to the owner
+const toShareDescriptors = async (workflow: IWorkflow) => {
+  const shares = workflow.shares ?? [];
+  const users = await UserModel.find({
+    _id: { $in: shares.map((share) => share.user) },
+  });
+  const usernames = new Map(
+    users.map((user) => [String(user._id), user.username])
+  );
+  return shares.map((share) => ({
+    userId: String(share.user),
+    username: usernames.get(String(share.user)) ?? "(deleted user)",
+    role: share.role,
+  }));
+};
+
+// Shared handling of the workflow id for all share routes: only the owner
+// sees or changes who else has access
+const findWorkflowForSharing = async (
+  req: Request,
+  res: Response
+): Promise<IWorkflow | null> => {
+  const workflowId = req.params.id;
+
+  if (!workflowId) {
+    res.status(400).json({ message: "Invalid workflow ID format" });
+    return null;
+  }
+
+  if (isBuiltinWorkflowId(workflowId)) {
+    res.status(403).json({
+      message: "Built-in workflows are available to everyone and cannot be shared.",
+    });
+    return null;
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(workflowId)) {
+    res.status(400).json({ message: "Invalid workflow ID format" });
+    return null;
+  }
+
+  const access = await findAccessibleWorkflow(workflowId, getAuthUser(req).id);
+  if (!access) {
+    res.status(404).json({ message: "Workflow not found" });
+    return null;
+  }
+  if (access.role !== "owner") {
+    res.status(403).json({ message: roleRequiredMessage("owner") });
+    return null;
+  }
+  return access.workflow;
+};
+
+export const listWorkflowShares = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const workflow = await findWorkflowForSharing(req, res);
+    if (!workflow) return;
+
+    res.status(200).json(await toShareDescriptors(workflow));
+  } catch (error: any) {
+    console.error(`Error fetching shares of workflow ${req.params.id}:`, error);
+    res.status(500).json({
+      message: "Server error while fetching workflow shares",
+      error: error.message,
+    });
+  }
+};
+
+export const shareWorkflow = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const username = String(req.body.username ?? "").trim().toLowerCase();
+    const { role } = req.body;
+
+    if (!username) {
+      res.status(400).json({ message: "A username is required" });
+      return;
+    }
+    if (!isShareRole(role)) {
+      res.status(400).json({
+        message: "Role must be one of viewer, runner or editor",
+      });
+      return;
+    }
+
+    const workflow = await findWorkflowForSharing(req, res);
+    if (!workflow) return;
+
+    const user = await UserModel.findOne({ username });
+    if (!user) {
+      res.status(404).json({ message: `No user named "${username}"` });
+      return;
+    }
+    if (String(user._id) === String(workflow.owner)) {
+      res.status(400).json({ message: "You already own this workflow" });
+      return;
+    }
+
+    // Sharing again with the same user changes their role
+    const shares = (workflow.shares ?? []).filter(
+      (share) => String(share.user) !== String(user._id)
+    );
+    shares.push({ user: user._id as mongoose.Types.ObjectId, role });
+    workflow.shares = shares;
+    // Not an edit of the workflow: open editors can still save
+    await workflow.save({ timestamps: false });
+
+    res.status(200).json(await toShareDescriptors(workflow));
+  } catch (error: any) {
+    console.error(`Error sharing workflow ${req.params.id}:`, error);
+    res.status(500).json({
+      message: "Server error while sharing workflow",
+      error: error.message,
+    });
+  }
+};
+
+export const unshareWorkflow = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const workflow = await findWorkflowForSharing(req, res);
+    if (!workflow) return;
+
+    const shares = workflow.shares ?? [];
+    const remaining = shares.filter(
+      (share) => String(share.user) !== req.params.userId
+    );
+    if (remaining.length === shares.length) {
+      res.status(404).json({ message: "The workflow is not shared with this user" });
+      return;
+    }
+
+    workflow.shares = remaining;
+    await workflow.save({ timestamps: false });
+
+    res.status(200).json(await toShareDescriptors(workflow));
+  } catch (error: any) {
+    console.error(`Error unsharing workflow ${req.params.id}:`, error);
+    res.status(500).json({
+      message: "Server error while unsharing workflow",
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,55 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import UserModel from "../models/UserModel";
+import { getRequestToken, readSessionToken } from "../services/auth";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Rejects requests without a valid session with 401 and attaches req.user
+export const requireAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const token = getRequestToken(req);
+    const userId = token ? readSessionToken(token) : null;
+    const user =
+      userId && mongoose.Types.ObjectId.isValid(userId)
+        ? await UserModel.findById(userId).select("username")
+        : null;
+
+    if (!user) {
+      res.status(401).json({ message: "Authentication required" });
+      return;
+    }
+
+    req.user = { id: String(user._id), username: user.username };
+    next();
+  } catch (error: any) {
+    console.error("Error authenticating request:", error);
+    res.status(500).json({
+      message: "Server error while authenticating",
+      error: error.message,
+    });
+  }
+};
+
+/** The signed-in user; only valid behind requireAuth. */
+export const getAuthUser = (req: Request): AuthUser => {
+  if (!req.user) {
+    throw new Error("getAuthUser called on a route without requireAuth");
+  }
+  return req.user;
+};
@@ -1,4 +1,4 @@
-import { Schema, model, Document } from "mongoose";
+import mongoose, { Schema, model, Document } from "mongoose";
 
 export interface IFile extends Document {
   filename: string;
@@ -6,9 +6,10 @@ export interface IFile extends Document {
   mimetype: string;
   size: number;
   fileType: string; // Detected file type (fastq, fasta, etc.)
+  hash: string; // SHA-256 of the content, names the blob in the file store
   tags: string[];
+  owner?: mongoose.Types.ObjectId | null; // User who uploaded the file
   createdAt: Date;
-  // Note: No content field - files are handled in browser storage
 
   // Methods
   detectFileType(): string;
@@ -20,15 +21,32 @@ const fileSchema = new Schema<IFile>({
   mimetype: { type: String, required: true },
   size: { type: Number, required: true },
   fileType: { type: String }, // Optional detected file type
+  hash: { type: String, required: true, index: true },
   tags: [{ type: String }],
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: false,
+    default: null,
+    index: true,
+  },
   createdAt: { type: Date, default: Date.now },
 });
 
-// Helper method to detect file type from extension
+// Compression suffixes that belong to the extension before them
+const COMPRESSION_EXTENSIONS = ["gz", "bgz", "bz2", "xz", "zst"];
+
+// Helper method to detect file type from extension, keeping double
+// extensions such as "fastq.gz" or "vcf.bgz" together
 fileSchema.methods.detectFileType = function () {
-  const extension = this.originalName.toLowerCase().split(".").pop() || "";
-  this.fileType = extension;
-  return extension;
+  const parts = this.originalName.toLowerCase().split(".");
+  const extension = parts.pop() || "";
+  const previous = parts.length > 1 ? parts[parts.length - 1] : undefined;
+  this.fileType =
+    previous && COMPRESSION_EXTENSIONS.includes(extension)
+      ? `${previous}.${extension}`
+      : extension;
+  return this.fileType;
 };
 
 const File = model<IFile>("File", fileSchema);
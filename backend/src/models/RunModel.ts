@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { TaskMetrics } from "../services/traceMetrics";
+
+export type RunStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface IRun extends Document {
+  workflowId?: string | null; // Mongo id or builtin id of the source workflow
+  workflowName: string;
+  executionId: string; // Names the Nextflow container when it runs in Docker
+  script: string; // Generated Nextflow script as submitted
+  settings?: any; // Snapshot of the execution settings used for this run
+  inputFiles: string[];
+  status: RunStatus;
+  startedAt: Date;
+  endedAt?: Date | null;
+  exitCode?: number | null;
+  outputDir?: string | null;
+  error?: string | null;
+  sessionId?: string | null; // Nextflow session id, used to resume the run
+  resumedFrom?: string | null; // Run whose cache this run resumed
+  tasks: TaskMetrics[]; // Per-task metrics from trace.txt, when tracing is on
+  owner?: mongoose.Types.ObjectId | null; // User who started the run
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const RunSchema: Schema = new Schema(
+  {
+    workflowId: {
+      type: String,
+      required: false,
+      default: null,
+      index: true,
+    },
+    workflowName: {
+      type: String,
+      required: true,
+    },
+    executionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    script: {
+      type: String,
+      required: true,
+    },
+    settings: {
+      type: Schema.Types.Mixed,
+      required: false,
+      default: null,
+    },
+    inputFiles: {
+      type: [String],
+      required: true,
+      default: [],
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ["running", "succeeded", "failed", "cancelled"],
+      default: "running",
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    endedAt: {
+      type: Date,
+      required: false,
+      default: null,
+    },
+    exitCode: {
+      type: Number,
+      required: false,
+      default: null,
+    },
+    outputDir: {
+      type: String,
+      required: false,
+      default: null,
+    },
+    error: {
+      type: String,
+      required: false,
+      default: null,
+    },
+    sessionId: {
+      type: String,
+      required: false,
+      default: null,
+    },
+    resumedFrom: {
+      type: String,
+      required: false,
+      default: null,
+    },
+    tasks: {
+      type: [Schema.Types.Mixed],
+      required: false,
+      default: [],
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+      default: null,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const RunModel = mongoose.model<IRun>("Run", RunSchema);
+
+export default RunModel;
@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// A local account; workflows and runs are owned by one
+export interface IUser extends Document {
+  username: string; // Stored lower-case, unique
+  passwordHash: string; // scrypt, see services/auth.ts
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const UserSchema: Schema = new Schema(
+  {
+    username: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    passwordHash: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const UserModel = mongoose.model<IUser>("User", UserSchema);
+
+export default UserModel;
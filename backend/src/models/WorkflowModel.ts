@@ -3,6 +3,22 @@ import mongoose, { Document, Schema } from "mongoose";
 // We can use Schema.Types.Mixed for flexible array elements like nodes and edges.
 // For stricter typing, you could define sub-schemas for NodeData and EdgeData.
 
+// Where the latest run left Nextflow's cache, so the next run can -resume it
+export interface WorkflowResumeState {
+  runId: string;
+  sessionId: string; // Nextflow session id from .nextflow/history
+  outputDir: string; // Launch directory holding .nextflow and nextflow/work
+}
+
+// What a user the workflow is shared with may do: view it, also run it, or
+// also edit it. Only the owner can delete it or change its shares.
+export type WorkflowShareRole = "viewer" | "runner" | "editor";
+
+export interface IWorkflowShare {
+  user: mongoose.Types.ObjectId;
+  role: WorkflowShareRole;
+}
+
 export interface IWorkflow extends Document {
   name?: string;
   description?: string;
@@ -16,6 +32,9 @@ export interface IWorkflow extends Document {
   importWarnings?: string[];
   isBuiltin?: boolean;
   isReadOnly?: boolean;
+  resumeState?: WorkflowResumeState | null;
+  owner?: mongoose.Types.ObjectId | null; // User who created the workflow
+  shares: IWorkflowShare[];
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -81,12 +100,43 @@ const WorkflowSchema: Schema = new Schema(
       required: false,
       default: false,
     },
+    resumeState: {
+      type: Schema.Types.Mixed,
+      required: false,
+      default: null,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+      default: null,
+      index: true,
+    },
+    shares: {
+      type: [
+        new Schema(
+          {
+            user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+            role: {
+              type: String,
+              required: true,
+              enum: ["viewer", "runner", "editor"],
+            },
+          },
+          { _id: false }
+        ),
+      ],
+      required: false,
+      default: [],
+    },
   },
   {
     timestamps: true, // Adds createdAt and updatedAt timestamps automatically
   }
 );
 
+WorkflowSchema.index({ "shares.user": 1 });
+
 const WorkflowModel = mongoose.model<IWorkflow>("Workflow", WorkflowSchema);
 
 export default WorkflowModel;
@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Immutable snapshot of a workflow, appended on every save that changes it
+export interface IWorkflowRevision extends Document {
+  workflowId: string;
+  revision: number; // 1-based, increasing per workflow
+  name?: string;
+  nodes: any[];
+  edges: any[];
+  executionSettings?: any;
+  note?: string | null; // Author's note, e.g. "Restored revision 3"
+  restoredFrom?: number | null; // Revision this one was restored from
+  author?: mongoose.Types.ObjectId | null; // Unknown for baseline revisions
+  createdAt?: Date;
+}
+
+const WorkflowRevisionSchema: Schema = new Schema(
+  {
+    workflowId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: false,
+    },
+    nodes: {
+      type: [Schema.Types.Mixed],
+      required: true,
+      default: [],
+    },
+    edges: {
+      type: [Schema.Types.Mixed],
+      required: true,
+      default: [],
+    },
+    executionSettings: {
+      type: Schema.Types.Mixed,
+      required: false,
+      default: null,
+    },
+    note: {
+      type: String,
+      required: false,
+      default: null,
+    },
+    restoredFrom: {
+      type: Number,
+      required: false,
+      default: null,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+      default: null,
+    },
+  },
+  {
+    // Revisions are never updated, so only the creation time is kept
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+WorkflowRevisionSchema.index({ workflowId: 1, revision: 1 }, { unique: true });
+
+const WorkflowRevisionModel = mongoose.model<IWorkflowRevision>(
+  "WorkflowRevision",
+  WorkflowRevisionSchema
+);
+
+export default WorkflowRevisionModel;
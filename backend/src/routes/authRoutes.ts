@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  getCurrentUser,
+  login,
+  logout,
+  register,
+} from "../controllers/authController";
+import { requireAuth } from "../middleware/auth";
+
+const router: Router = Router();
+
+// @route   POST /api/auth/register
+// @desc    Create a local account and sign it in
+// @access  Public (the first account always; more only with ALLOW_REGISTRATION=true)
+router.post("/register", register);
+
+// @route   POST /api/auth/login
+// @desc    Sign in with username and password; sets the session cookie
+// @access  Public
+router.post("/login", login);
+
+// @route   POST /api/auth/logout
+// @desc    Clear the session cookie
+// @access  Public
+router.post("/logout", logout);
+
+// @route   GET /api/auth/me
+// @desc    The signed-in user, or 401
+// @access  Private
+router.get("/me", requireAuth, getCurrentUser);
+
+export default router;
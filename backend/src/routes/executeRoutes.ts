@@ -4,12 +4,14 @@ import {
   checkDockerStatus,
   checkNextflowStatus,
   cancelExecution,
+  streamRunEvents,
 } from "../controllers/executeController";
 
 const router: Router = Router();
 
 router.post("/execute", executeProcess);
 router.post("/cancel", cancelExecution);
+router.get("/runs/:id/events", streamRunEvents);
 router.get("/docker-status", checkDockerStatus);
 router.get("/nextflow-status", checkNextflowStatus);
 
@@ -1,75 +1,42 @@
 import express, { Router } from "express";
 import multer from "multer";
-import File from "../models/File";
+import {
+  browseDataRoots,
+  deleteFile,
+  downloadFile,
+  listFiles,
+  uploadFile,
+} from "../controllers/fileController";
+import { getFileStoreUploadDir } from "../services/fileStore";
 
 const router: Router = express.Router();
 
-// Use memory storage since files stay in browser
-const storage = multer.memoryStorage();
-const upload = multer({ storage: storage });
-
-// Route to handle file metadata registration (files stored in browser)
-router.post("/register", upload.single("file"), async (req, res) => {
-  try {
-    if (!req.file) {
-      res.status(400).send({ message: "No file metadata provided." });
-      return;
-    }
-
-    const { originalname, mimetype, size } = req.file;
-    const tags = req.body.tags ? req.body.tags.split(",") : [];
-
-    // Generate unique filename for metadata tracking
-    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-    const filename = "file-" + uniqueSuffix;
-
-    const newFile = new File({
-      originalName: originalname,
-      mimetype,
-      size,
-      filename,
-      tags,
-    });
-
-    // Detect and set file type
-    newFile.detectFileType();
+// Uploads are streamed to disk, then hashed and moved into the file store
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, callback) =>
+      callback(null, getFileStoreUploadDir()),
+  }),
+});
 
-    await newFile.save();
+// @route   POST /api/files
+// @desc    Upload an input file into the content-addressed file store
+router.post("/", upload.single("file"), uploadFile);
 
-    // Return metadata only (no content)
-    res.status(201).send({
-      _id: newFile._id,
-      filename: newFile.filename,
-      originalName: newFile.originalName,
-      mimetype: newFile.mimetype,
-      size: newFile.size,
-      fileType: newFile.fileType,
-      tags: newFile.tags,
-      createdAt: newFile.createdAt,
-    });
-  } catch (error) {
-    console.error("Error registering file:", error);
-    res.status(500).send({ message: "Error registering file.", error });
-  }
-});
+// @route   GET /api/files
+// @desc    List stored input files, newest first
+router.get("/", listFiles);
 
-// Route to delete file metadata
-router.delete("/:id", async (req, res) => {
-  try {
-    const fileId = req.params.id;
-    const deletedFile = await File.findByIdAndDelete(fileId);
+// @route   GET /api/files/browse?path=
+// @desc    Browse host directories under the allow-listed NWAVE_DATA_ROOTS
+router.get("/browse", browseDataRoots);
 
-    if (!deletedFile) {
-      return res.status(404).send({ message: "File not found." });
-    }
+// @route   GET /api/files/:id/download
+// @desc    Download the content of a stored file
+router.get("/:id/download", downloadFile);
 
-    return res
-      .status(200)
-      .send({ message: "File metadata deleted successfully." });
-  } catch (error) {
-    console.error("Error deleting file:", error);
-    return res.status(500).send({ message: "Error deleting file.", error });
-  }
-});
+// @route   DELETE /api/files/:id
+// @desc    Delete a stored file (its content goes once nothing references it)
+router.delete("/:id", deleteFile);
 
 export default router;
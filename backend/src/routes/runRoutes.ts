@@ -0,0 +1,22 @@
+import { Router } from "express";
+import {
+  getRunById,
+  getRunResultFile,
+  getRunResults,
+} from "../controllers/runController";
+
+const router: Router = Router();
+
+// @route   GET /api/runs/:runId
+// @desc    Get a single execution run record, including its generated script
+router.get("/:runId", getRunById);
+
+// @route   GET /api/runs/:runId/results
+// @desc    Tree listing of the files a run published to its results directory
+router.get("/:runId/results", getRunResults);
+
+// @route   GET /api/runs/:runId/results/file?path=&download=
+// @desc    Stream (or download) one published result file
+router.get("/:runId/results/file", getRunResultFile);
+
+export default router;
@@ -1,4 +1,5 @@
-import express, { Router } from "express";
+import express, { RequestHandler, Router } from "express";
+import multer from "multer";
 import {
   saveWorkflow,
   getWorkflowById,
@@ -7,34 +8,118 @@ import {
   deleteWorkflow,
   duplicateWorkflow,
 } from "../controllers/workflowController";
+import { listWorkflowRuns } from "../controllers/runController";
+import {
+  getWorkflowRevision,
+  listWorkflowRevisions,
+  restoreWorkflowRevision,
+} from "../controllers/workflowRevisionController";
+import {
+  listWorkflowShares,
+  shareWorkflow,
+  unshareWorkflow,
+} from "../controllers/workflowShareController";
+import {
+  exportWorkflowBundle,
+  importWorkflowBundle,
+} from "../controllers/workflowBundleController";
+import { getFileStoreUploadDir } from "../services/fileStore";
+import {
+  BUNDLE_TOO_LARGE_MESSAGE,
+  MAX_BUNDLE_BYTES,
+} from "../services/workflowBundle";
 
 const router: Router = express.Router();
 
+// Bundles are written to the file store's temp directory, then unpacked
+const bundleUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, callback) =>
+      callback(null, getFileStoreUploadDir()),
+  }),
+  limits: { fileSize: MAX_BUNDLE_BYTES },
+});
+
+// An oversized bundle is the importer's mistake, not a server error
+const receiveBundle: RequestHandler = (req, res, next) => {
+  bundleUpload.single("bundle")(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      res.status(400).json({ message: BUNDLE_TOO_LARGE_MESSAGE });
+      return;
+    }
+    next(error);
+  });
+};
+
 // @route   POST /api/workflows
 // @desc    Save a new workflow
-// @access  Public (for now, can add auth later)
+// @access  Private
 router.post("/", saveWorkflow);
 
+// @route   POST /api/workflows/import
+// @desc    Create a workflow from a .nwave bundle (multipart field `bundle`)
+// @access  Private
+router.post("/import", receiveBundle, importWorkflowBundle);
+
 // @route   GET /api/workflows
 // @desc    Get all workflows
-// @access  Public
+// @access  Private (own and shared workflows, and built-ins)
 router.get("/", getAllWorkflows);
 
 // @route   GET /api/workflows/:id
 // @desc    Get a specific workflow by its ID
-// @access  Public
+// @access  Private (any role on the workflow; read-only below editor)
 router.get("/:id", getWorkflowById);
 
+// @route   GET /api/workflows/:id/runs
+// @desc    List execution runs of a workflow, newest first
+router.get("/:id/runs", listWorkflowRuns);
+
+// @route   GET /api/workflows/:id/revisions
+// @desc    List saved revisions of a workflow, newest first
+router.get("/:id/revisions", listWorkflowRevisions);
+
+// @route   GET /api/workflows/:id/revisions/:revision
+// @desc    Get one revision, including its nodes and edges
+router.get("/:id/revisions/:revision", getWorkflowRevision);
+
+// @route   POST /api/workflows/:id/revisions/:revision/restore
+// @desc    Make a revision's content current again, recorded as a new revision
+// @access  Private (editor or owner)
+router.post("/:id/revisions/:revision/restore", restoreWorkflowRevision);
+
+// @route   GET /api/workflows/:id/shares
+// @desc    List the users a workflow is shared with and their roles
+// @access  Private (owner)
+router.get("/:id/shares", listWorkflowShares);
+
+// @route   POST /api/workflows/:id/shares
+// @desc    Share a workflow with { username, role: viewer | runner | editor }
+// @access  Private (owner)
+router.post("/:id/shares", shareWorkflow);
+
+// @route   DELETE /api/workflows/:id/shares/:userId
+// @desc    Stop sharing a workflow with a user
+// @access  Private (owner)
+router.delete("/:id/shares/:userId", unshareWorkflow);
+
+// @route   GET /api/workflows/:id/export?files=1
+// @desc    Download a .nwave bundle of a workflow; files=1 adds its input files
+// @access  Private (any role on the workflow)
+router.get("/:id/export", exportWorkflowBundle);
+
 // @route   POST /api/workflows/:id/duplicate
 // @desc    Duplicate a workflow into an editable Mongo-backed record
 router.post("/:id/duplicate", duplicateWorkflow);
 
 // @route   PUT /api/workflows/:id
-// @desc    Update an existing workflow
+// @desc    Update an existing workflow; 409 if it changed since baseUpdatedAt
+// @access  Private (editor or owner)
 router.put("/:id", updateWorkflow);
 
 // @route   DELETE /api/workflows/:id
 // @desc    Delete a workflow
+// @access  Private (owner)
 router.delete("/:id", deleteWorkflow);
 
 // We will add other routes like GET / etc. later
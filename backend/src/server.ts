@@ -9,6 +9,10 @@ import executeRoutes from "./routes/executeRoutes";
 import fileRoutes from "./routes/fileRoutes"; // Import the new file routes
 import nfcoreRoutes from "./routes/nfcoreRoutes";
 import customNodeRoutes from "./routes/customNodeRoutes";
+import runRoutes from "./routes/runRoutes";
+import authRoutes from "./routes/authRoutes";
+import { requireAuth } from "./middleware/auth";
+import { markInterruptedRuns } from "./controllers/runController";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -17,7 +21,7 @@ dotenv.config();
 const app: Express = express();
 
 // Connect to Database
-connectDB(); // Uncommented
+connectDB().then(markInterruptedRuns);
 
 // Define allowed origins for CORS (comma separated via CORS_ORIGIN env var)
 const allowedOrigins = (
@@ -43,6 +47,8 @@ const corsOptions: CorsOptions = {
 
 // Middlewares
 app.use(cors(corsOptions)); // Use CORS with options
+// Input files and bundles are uploaded through multer and referenced by id,
+// but older nodes and failed uploads still send file contents inline
 app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ extended: true, limit: "50mb" }));
 
@@ -51,12 +57,15 @@ app.get("/", (req: Request, res: Response) => {
   res.send("Backend server is running!");
 });
 
-// API Routes
+// API Routes. Everything but signing in needs a session
+app.use("/api/auth", authRoutes);
+app.use("/api", requireAuth);
 app.use("/api/files", fileRoutes);
 app.use("/api/workflows", workflowRoutes);
 app.use("/api/execute", executeRoutes);
 app.use("/api/nfcore", nfcoreRoutes);
 app.use("/api/custom-nodes", customNodeRoutes);
+app.use("/api/runs", runRoutes);
 
 const PORT = process.env.PORT || 5001;
 
@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+
+// Local password auth. Passwords are hashed with scrypt; a signed session
+// token (an HS256 JWT) travels in an httpOnly cookie, so EventSource streams
+// and download links are authenticated like API calls. Scripts can send the
+// cookie's value as "Authorization: Bearer <token>" instead.
+
+export const SESSION_COOKIE = "nwave_session";
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const SCRYPT_KEY_LENGTH = 64;
+
+let generatedSecret: string | null = null;
+
+const getAuthSecret = (): string => {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (!generatedSecret) {
+    console.warn(
+      "AUTH_SECRET is not set; using a random secret, so sessions end when the backend restarts."
+    );
+    generatedSecret = crypto.randomBytes(32).toString("hex");
+  }
+  return generatedSecret;
+};
+
+const scrypt = (password: string, salt: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+
+/** "scrypt$<salt>$<hash>", both hex. */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const key = await scrypt(password, salt);
+  return `scrypt$${salt}$${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (
+  password: string,
+  passwordHash: string
+): Promise<boolean> => {
+  const [scheme, salt, hash] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scrypt(password, salt);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
+
+const base64url = (value: string | Buffer): string =>
+  Buffer.from(value).toString("base64url");
+
+const sign = (data: string): string =>
+  crypto.createHmac("sha256", getAuthSecret()).update(data).digest("base64url");
+
+export const createSessionToken = (userId: string): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({ sub: userId, iat: now, exp: now + SESSION_TTL_SECONDS })
+  );
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+};
+
+/** The user id of a valid, unexpired token, or null. */
+export const readSessionToken = (token: string): string | null => {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof claims.sub !== "string" || typeof claims.exp !== "number") {
+      return null;
+    }
+    return claims.exp > Date.now() / 1000 ? claims.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Token from the session cookie, or from a Bearer Authorization header. */
+export const getRequestToken = (req: Request): string | null => {
+  const authorization = req.header("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || null;
+  }
+
+  const cookies = req.header("Cookie") ?? "";
+  for (const cookie of cookies.split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join("=")) || null;
+    }
+  }
+  return null;
+};
+
+// Set AUTH_COOKIE_SECURE=true when the app is served over HTTPS
+const cookieOptions = () => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.AUTH_COOKIE_SECURE === "true",
+  path: "/",
+});
+
+export const setSessionCookie = (res: Response, token: string): void => {
+  res.cookie(SESSION_COOKIE, token, {
+    ...cookieOptions(),
+    maxAge: SESSION_TTL_SECONDS * 1000,
+  });
+};
+
+export const clearSessionCookie = (res: Response): void => {
+  res.clearCookie(SESSION_COOKIE, cookieOptions());
+};
@@ -0,0 +1,116 @@
+import fs from "fs";
+import path from "path";
+
+// Custom node definitions are stored one JSON file per node in a registry
+// directory shared with the frontend build.
+
+export interface CustomNodeRegistry {
+  schemaVersion: number;
+  nodes: unknown[];
+}
+
+export const loadRegistry = (): CustomNodeRegistry => {
+  const nodeDirectory = getNodeDirectory();
+  fs.mkdirSync(nodeDirectory, { recursive: true });
+  migrateLegacyRegistry(nodeDirectory);
+
+  const nodes = fs
+    .readdirSync(nodeDirectory, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+    .map((entry) => path.join(nodeDirectory, entry.name))
+    .map((nodePath) => JSON.parse(fs.readFileSync(nodePath, "utf8")))
+    .filter((node) => node && typeof node === "object")
+    .sort((a: any, b: any) =>
+      String(a.label ?? a.id ?? "").localeCompare(String(b.label ?? b.id ?? ""))
+    );
+
+  return {
+    schemaVersion: 1,
+    nodes,
+  };
+};
+
+export const writeNodeFile = (nodePath: string, node: unknown): void => {
+  fs.mkdirSync(path.dirname(nodePath), { recursive: true });
+  fs.writeFileSync(`${nodePath}.tmp`, `${JSON.stringify(node, null, 2)}\n`);
+  fs.renameSync(`${nodePath}.tmp`, nodePath);
+};
+
+const migrateLegacyRegistry = (nodeDirectory: string): void => {
+  const legacyPath = getLegacyRegistryPath();
+  if (!fs.existsSync(legacyPath)) return;
+
+  const parsed = JSON.parse(fs.readFileSync(legacyPath, "utf8"));
+  const nodes = Array.isArray(parsed.nodes) ? parsed.nodes : [];
+  for (const node of nodes) {
+    const nodeId = String(node?.id ?? "").trim();
+    if (!nodeId) continue;
+    const nodePath = path.join(nodeDirectory, `${toFileBaseName(nodeId)}.json`);
+    if (!fs.existsSync(nodePath)) {
+      writeNodeFile(nodePath, node);
+    }
+  }
+};
+
+export const getNodeFilePath = (nodeId: string): string =>
+  path.join(getNodeDirectory(), `${toFileBaseName(nodeId)}.json`);
+
+const getNodeDirectory = (): string => {
+  if (process.env.NWAVE_CUSTOM_NODE_DIR) {
+    return path.resolve(process.env.NWAVE_CUSTOM_NODE_DIR);
+  }
+
+  if (process.env.NWAVE_CUSTOM_NODE_REGISTRY) {
+    const configured = path.resolve(process.env.NWAVE_CUSTOM_NODE_REGISTRY);
+    return path.extname(configured)
+      ? path.join(path.dirname(configured), "nodes")
+      : configured;
+  }
+
+  const repoRelativeCandidate = path.resolve(
+    __dirname,
+    "..",
+    "..",
+    "..",
+    "frontend",
+    "src",
+    "registry",
+    "custom",
+    "nodes"
+  );
+  const candidates = [
+    path.resolve(
+      process.cwd(),
+      "..",
+      "frontend",
+      "src",
+      "registry",
+      "custom",
+      "nodes"
+    ),
+    path.resolve(
+      process.cwd(),
+      "frontend",
+      "src",
+      "registry",
+      "custom",
+      "nodes"
+    ),
+    path.resolve(process.cwd(), "src", "registry", "custom", "nodes"),
+    repoRelativeCandidate,
+  ];
+
+  return candidates.find((candidate) => fs.existsSync(candidate)) ?? repoRelativeCandidate;
+};
+
+const getLegacyRegistryPath = (): string =>
+  path.resolve(getNodeDirectory(), "..", "userCustomNodes.json");
+
+const toFileBaseName = (value: string): string => {
+  const safeName = value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return safeName || "custom-node";
+};
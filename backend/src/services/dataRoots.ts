@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+
+export interface DataRootEntry {
+  name: string;
+  path: string;
+  type: "directory" | "file";
+  size: number | null;
+}
+
+/**
+ * Host directories File Input nodes may read from directly, configured as a
+ * comma-separated NWAVE_DATA_ROOTS list. Nothing is browsable by default.
+ */
+export const getDataRoots = (): string[] =>
+  (process.env.NWAVE_DATA_ROOTS || "")
+    .split(",")
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => path.resolve(root))
+    .filter((root) => fs.existsSync(root));
+
+export const isPathWithin = (root: string, target: string): boolean => {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+};
+
+/**
+ * Resolve a requested path, following symlinks, and return it only when it
+ * stays inside one of the allow-listed roots.
+ */
+export const resolveDataRootPath = (requestedPath: string): string | null => {
+  let resolvedPath: string;
+  try {
+    resolvedPath = fs.realpathSync(path.resolve(requestedPath));
+  } catch {
+    return null;
+  }
+
+  const allowed = getDataRoots().some((root) => {
+    try {
+      return isPathWithin(fs.realpathSync(root), resolvedPath);
+    } catch {
+      return false;
+    }
+  });
+  return allowed ? resolvedPath : null;
+};
+
+export const listDataRootDirectory = (directory: string): DataRootEntry[] =>
+  fs
+    .readdirSync(directory, { withFileTypes: true })
+    .filter((entry) => !entry.name.startsWith("."))
+    .flatMap((entry): DataRootEntry[] => {
+      const entryPath = path.join(directory, entry.name);
+      // Symlinks pointing outside the data roots are not offered
+      if (!resolveDataRootPath(entryPath)) {
+        return [];
+      }
+      try {
+        const stats = fs.statSync(entryPath);
+        return [
+          {
+            name: entry.name,
+            path: entryPath,
+            type: stats.isDirectory() ? "directory" : "file",
+            size: stats.isDirectory() ? null : stats.size,
+          },
+        ];
+      } catch {
+        // Unreadable entries are skipped
+        return [];
+      }
+    })
+    .sort(
+      (a, b) =>
+        Number(b.type === "directory") - Number(a.type === "directory") ||
+        a.name.localeCompare(b.name)
+    );
@@ -0,0 +1,82 @@
+// Custom params and environment variables from the execution settings. The
+// frontend validates them as they are edited; the same rules are enforced
+// here because the run request can be sent by anything.
+
+// Passed on the command line or defined by the generator for every run
+const RESERVED_PARAM_NAMES = [
+  "outdir",
+  "inputdir",
+  "max_cpus",
+  "max_memory",
+  "run_timestamp",
+  "run_date",
+];
+
+// Set by the task's shell or container runtime rather than by the workflow
+const RESERVED_ENV_VAR_NAMES = ["HOME", "PWD", "USER", "SHELL"];
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type ParamValue = string | number | boolean;
+
+/**
+ * Contents of the params.json passed with -params-file, or null when there
+ * are no custom params. Throws on names that cannot be used.
+ */
+export const buildParamsFile = (
+  customParams: Record<string, unknown> | undefined
+): string | null => {
+  const entries = Object.entries(customParams ?? {});
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const params: Record<string, ParamValue> = {};
+  entries.forEach(([name, value]) => {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`"${name}" is not a valid parameter name`);
+    }
+    if (RESERVED_PARAM_NAMES.includes(name)) {
+      throw new Error(`params.${name} is reserved and set by N-WAVE`);
+    }
+    params[name] =
+      typeof value === "number" || typeof value === "boolean"
+        ? value
+        : String(value ?? "");
+  });
+
+  return `${JSON.stringify(params, null, 2)}\n`;
+};
+
+/**
+ * Nextflow `env {}` scope exporting the variables into every task, or null
+ * when there are none. Throws on names that cannot be used.
+ */
+export const buildEnvScope = (
+  environmentVariables: Record<string, unknown> | undefined
+): string | null => {
+  const entries = Object.entries(environmentVariables ?? {});
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const lines = entries.map(([name, value]) => {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`"${name}" is not a valid environment variable name`);
+    }
+    if (name.startsWith("NXF_") || RESERVED_ENV_VAR_NAMES.includes(name)) {
+      throw new Error(`Environment variable ${name} is reserved`);
+    }
+    return `  ${name} = ${toGroovyString(String(value ?? ""))}`;
+  });
+
+  return ["env {", ...lines, "}"].join("\n");
+};
+
+// Single-quoted Groovy strings interpolate nothing
+const toGroovyString = (value: string): string =>
+  `'${value
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")}'`;
@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Uploaded input files are stored once per distinct content, named by their
+ * SHA-256 hash and fanned out by the first two hex characters.
+ */
+export const getFileStoreRoot = (): string =>
+  path.join(
+    path.resolve(
+      process.env.NWAVE_DATA_DIR ||
+        path.join(process.cwd(), "results", ".nwave")
+    ),
+    "files"
+  );
+
+// Multer writes incoming uploads here before they are hashed
+export const getFileStoreUploadDir = (): string => {
+  const uploadDir = path.join(getFileStoreRoot(), "tmp");
+  fs.mkdirSync(uploadDir, { recursive: true });
+  return uploadDir;
+};
+
+export const getStoredFilePath = (hash: string): string => {
+  if (!/^[a-f0-9]{64}$/.test(hash)) {
+    throw new Error(`Invalid file hash: ${hash}`);
+  }
+  return path.join(getFileStoreRoot(), hash.slice(0, 2), hash);
+};
+
+// Unlike getStoredFilePath, an invalid hash counts as not stored
+export const hasStoredFile = (hash: string): boolean =>
+  /^[a-f0-9]{64}$/.test(hash) && fs.existsSync(getStoredFilePath(hash));
+
+const hashFile = (filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+
+/**
+ * Move an uploaded temp file into the store. If the same content is already
+ * stored, the temp file is discarded and the existing copy is reused.
+ */
+export const storeUploadedFile = async (tempPath: string): Promise<string> => {
+  const hash = await hashFile(tempPath);
+  const storedPath = getStoredFilePath(hash);
+
+  if (fs.existsSync(storedPath)) {
+    fs.rmSync(tempPath, { force: true });
+  } else {
+    fs.mkdirSync(path.dirname(storedPath), { recursive: true });
+    fs.renameSync(tempPath, storedPath);
+  }
+
+  return hash;
+};
+
+export const removeStoredFile = (hash: string): void => {
+  fs.rmSync(getStoredFilePath(hash), { force: true });
+};
+
+/**
+ * Place a stored file in a run's inputs directory. A hard link keeps large
+ * datasets from being duplicated and, unlike a symlink, still resolves inside
+ * Docker mounts; across filesystems it falls back to a copy.
+ */
+export const stageStoredFile = (hash: string, targetPath: string): void => {
+  const storedPath = getStoredFilePath(hash);
+  if (!fs.existsSync(storedPath)) {
+    throw new Error(`Stored file ${hash} is missing from the file store`);
+  }
+
+  fs.rmSync(targetPath, { force: true });
+  try {
+    fs.linkSync(storedPath, targetPath);
+  } catch {
+    fs.copyFileSync(storedPath, targetPath);
+  }
+};
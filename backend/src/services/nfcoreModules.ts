@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+
+// The bundled nf-core catalog and the modules installed from it under
+// NWAVE_DATA_DIR/nf-core.
+
+export type SupportLevel = "full" | "candidate" | "needs_review" | "unsupported";
+
+export interface NfCoreCatalogEntry {
+  id: string;
+  moduleName: string;
+  modulePath: string;
+  label: string;
+  description: string;
+  processName: string;
+  source: {
+    repository: string;
+    ref: string;
+    commit: string;
+    path: string;
+  };
+  files: {
+    main: boolean;
+    meta: boolean;
+    environment: boolean;
+  };
+  keywords: string[];
+  tools: string[];
+  inputs: string[];
+  inputDeclarations?: string[];
+  inputGroups?: Array<{
+    argumentIndex: number;
+    handle: string;
+    tuple: boolean;
+    metaName: string | null;
+    fields: string[];
+  }>;
+  outputs: string[];
+  emits: string[];
+  containers: string[];
+  settings?: {
+    extArgs: boolean;
+    extArgNames?: string[];
+    argumentReferences?: Array<{
+      type: string;
+      url: string;
+    }>;
+    resources: boolean;
+  };
+  installedByDefault: boolean;
+  support: SupportLevel;
+  installability?: {
+    automatic: boolean;
+    requiresReview: boolean;
+    reasons: string[];
+  };
+}
+
+export interface NfCoreCatalog {
+  schemaVersion: number;
+  generatedAt: string;
+  source: {
+    repository: string;
+    ref: string;
+    commit: string;
+  };
+  counts: Record<string, number>;
+  modules: NfCoreCatalogEntry[];
+}
+
+export interface InstalledModuleIndexEntry {
+  id: string;
+  installedAt: string;
+  moduleDir: string;
+  manifestPath: string;
+  sourceCommit: string;
+  support: SupportLevel;
+}
+
+const catalogCache = {
+  value: null as NfCoreCatalog | null,
+};
+
+export const loadCatalog = (): NfCoreCatalog => {
+  if (catalogCache.value) return catalogCache.value;
+
+  const catalogPath = resolveCatalogPath();
+  const catalog = JSON.parse(fs.readFileSync(catalogPath, "utf8")) as NfCoreCatalog;
+  catalogCache.value = catalog;
+  return catalog;
+};
+
+const resolveCatalogPath = (): string => {
+  const candidates = [
+    path.join(process.cwd(), "dist", "workflows", "library", "assets", "nf-core", "catalog.json"),
+    path.join(process.cwd(), "src", "workflows", "library", "assets", "nf-core", "catalog.json"),
+  ];
+
+  const catalogPath = candidates.find((candidate) => fs.existsSync(candidate));
+  if (!catalogPath) {
+    throw new Error(`nf-core catalog not found. Checked: ${candidates.join(", ")}`);
+  }
+
+  return catalogPath;
+};
+
+export const getNwaveDataRoot = (): string =>
+  path.resolve(process.env.NWAVE_DATA_DIR || path.join(process.cwd(), "results", ".nwave"));
+
+const getInstalledIndexPath = (): string =>
+  path.join(getNwaveDataRoot(), "nf-core", "installed.json");
+
+export const loadInstalledIndex = (): Record<string, InstalledModuleIndexEntry> => {
+  const indexPath = getInstalledIndexPath();
+  if (!fs.existsSync(indexPath)) return {};
+
+  return JSON.parse(fs.readFileSync(indexPath, "utf8")) as Record<
+    string,
+    InstalledModuleIndexEntry
+  >;
+};
+
+export const writeInstalledIndex = (
+  index: Record<string, InstalledModuleIndexEntry>
+): void => {
+  const indexPath = getInstalledIndexPath();
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  fs.writeFileSync(indexPath, `${JSON.stringify(index, null, 2)}\n`);
+};
+
+export const readJsonIfExists = (filePath: string): unknown | null => {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+};
+
+/** Modules usable without installing: installed ones and those bundled by default. */
+export const getInstalledModuleIds = (): Set<string> =>
+  new Set([
+    ...Object.keys(loadInstalledIndex()),
+    ...loadCatalog()
+      .modules.filter((entry) => entry.installedByDefault)
+      .map((entry) => entry.id),
+  ]);
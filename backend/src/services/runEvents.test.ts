@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { Response } from "express";
+import { describe, it } from "node:test";
+import { openRunChannel, publishRunEvent, subscribeToRun } from "./runEvents";
+
+// Records the SSE messages written to it as { id, type, data }
+const createRecordingResponse = () => {
+  const messages: Array<{ id: number; type: string; data: any }> = [];
+  const res = {
+    writeHead: () => res,
+    write: (chunk: string) => {
+      const [id, type, data] = chunk.trim().split("\n");
+      messages.push({
+        id: Number(id!.slice("id: ".length)),
+        type: type!.slice("event: ".length),
+        data: JSON.parse(data!.slice("data: ".length)),
+      });
+      return true;
+    },
+    end: () => res,
+    on: () => res,
+  };
+  return { res: res as unknown as Response, messages };
+};
+
+// A finished run whose first events (ids 1-6) fell out of the buffer
+const publishLongRun = (runId: string) => {
+  openRunChannel(runId);
+  publishRunEvent(runId, {
+    type: "task",
+    process: "FASTQC",
+    status: "running",
+    completed: 0,
+    total: 2,
+  });
+  for (let line = 1; line <= 5004; line += 1) {
+    publishRunEvent(runId, { type: "log", line: `line ${line}` });
+  }
+  publishRunEvent(runId, { type: "complete", status: "succeeded" });
+};
+
+describe("run events", () => {
+  it("replays a snapshot in place of events dropped from the buffer", () => {
+    publishLongRun("run-snapshot");
+    const { res, messages } = createRecordingResponse();
+
+    assert.equal(subscribeToRun("run-snapshot", res), true);
+
+    assert.equal(messages[0]!.id, 6);
+    assert.equal(messages[0]!.type, "log");
+    assert.match(messages[0]!.data.line, /^\[5 earlier lines not shown/);
+    assert.deepEqual(messages[1], {
+      id: 6,
+      type: "task",
+      data: {
+        type: "task",
+        process: "FASTQC",
+        status: "running",
+        completed: 0,
+        total: 2,
+      },
+    });
+    assert.equal(messages[2]!.id, 7);
+    assert.equal(messages.at(-1)!.type, "complete");
+  });
+
+  it("replays only buffered events when none after Last-Event-ID were dropped", () => {
+    publishLongRun("run-buffered");
+    const { res, messages } = createRecordingResponse();
+
+    subscribeToRun("run-buffered", res, 6);
+
+    assert.equal(messages[0]!.id, 7);
+    assert.equal(messages[0]!.data.line, "line 6");
+    assert.equal(messages.length, 5000);
+  });
+});
@@ -0,0 +1,251 @@
+import { Response } from "express";
+import { RunStatus } from "../models/RunModel";
+import { TaskMetrics } from "./traceMetrics";
+
+export type TaskStatus = "running" | "success" | "error";
+
+export type RunEvent =
+  | { type: "log"; line: string }
+  | {
+      type: "task";
+      process: string;
+      status: TaskStatus;
+      completed?: number;
+      total?: number;
+      cached?: number; // Tasks taken from the cache of a resumed run
+      // A task failed but the error strategy retried or ignored it
+      errorAction?: "retried" | "ignored";
+      task?: string; // Task name, e.g. "FASTQC_n1 (sample1)"
+    }
+  | { type: "trace"; tasks: TaskMetrics[] }
+  | {
+      type: "complete";
+      status: RunStatus;
+      exitCode?: number | null;
+      outputDir?: string | null;
+      error?: string | null;
+      resumable?: boolean; // The run left a session that -resume can pick up
+    };
+
+type RunEventEntry = { id: number; event: RunEvent };
+
+// What the events dropped from a channel's buffer add up to
+interface RunSnapshot {
+  droppedLogLines: number;
+  errorActions: Map<string, RunEvent>; // By action and task name
+  taskProgress: Map<string, RunEvent>; // Latest event by process
+  traceRows: Map<string, TaskMetrics>; // Latest row by task id
+}
+
+interface RunChannel {
+  events: RunEventEntry[];
+  nextId: number;
+  snapshot: RunSnapshot;
+  subscribers: Set<Response>;
+  finished: boolean;
+}
+
+// Keep finished channels around long enough for a reloaded tab to replay them
+const FINISHED_CHANNEL_TTL_MS = 10 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Events kept for replay per run; older ones are folded into the snapshot
+const MAX_BUFFERED_EVENTS = 5000;
+
+const channels: Map<string, RunChannel> = new Map();
+
+export const openRunChannel = (runId: string): void => {
+  channels.set(runId, {
+    events: [],
+    nextId: 1,
+    snapshot: {
+      droppedLogLines: 0,
+      errorActions: new Map(),
+      taskProgress: new Map(),
+      traceRows: new Map(),
+    },
+    subscribers: new Set(),
+    finished: false,
+  });
+};
+
+export const hasRunChannel = (runId: string): boolean => channels.has(runId);
+
+const foldIntoSnapshot = (snapshot: RunSnapshot, event: RunEvent): void => {
+  if (event.type === "log") {
+    snapshot.droppedLogLines += 1;
+  } else if (event.type === "task") {
+    if (event.errorAction) {
+      snapshot.errorActions.set(`${event.errorAction}:${event.task}`, event);
+    } else {
+      snapshot.taskProgress.set(event.process, event);
+    }
+  } else if (event.type === "trace") {
+    event.tasks.forEach((task) => snapshot.traceRows.set(task.taskId, task));
+  }
+};
+
+/**
+ * Events standing in for the dropped ones. Task and trace events are safe to
+ * apply twice, so a client that saw some of them already is not confused.
+ */
+const getSnapshotEvents = (snapshot: RunSnapshot): RunEvent[] => {
+  const events: RunEvent[] = [
+    {
+      type: "log",
+      line: `[${snapshot.droppedLogLines} earlier lines not shown; the full log is nextflow/.nextflow.log in the run's output]`,
+    },
+    // Retries and ignored errors first, so the latest progress wins
+    ...snapshot.errorActions.values(),
+    ...snapshot.taskProgress.values(),
+  ];
+  if (snapshot.traceRows.size > 0) {
+    events.push({ type: "trace", tasks: Array.from(snapshot.traceRows.values()) });
+  }
+  return events;
+};
+
+export const publishRunEvent = (runId: string, event: RunEvent): void => {
+  const channel = channels.get(runId);
+  if (!channel || channel.finished) {
+    return;
+  }
+
+  const entry = { id: channel.nextId++, event };
+  channel.events.push(entry);
+  if (channel.events.length > MAX_BUFFERED_EVENTS) {
+    foldIntoSnapshot(channel.snapshot, channel.events.shift()!.event);
+  }
+  channel.subscribers.forEach((subscriber) => writeEvent(subscriber, entry));
+
+  if (event.type === "complete") {
+    channel.finished = true;
+    channel.subscribers.forEach((subscriber) => subscriber.end());
+    channel.subscribers.clear();
+    setTimeout(() => channels.delete(runId), FINISHED_CHANNEL_TTL_MS).unref();
+  }
+};
+
+/**
+ * Attach an SSE response to a run. Buffered events after `lastEventId` are
+ * replayed first, so both EventSource retries and fresh page loads catch up.
+ * When some of the events after `lastEventId` were already dropped from the
+ * buffer, a snapshot of the run's state is sent in their place.
+ */
+export const subscribeToRun = (
+  runId: string,
+  res: Response,
+  lastEventId = 0
+): boolean => {
+  const channel = channels.get(runId);
+  if (!channel) {
+    return false;
+  }
+
+  startEventStream(res);
+  const firstBufferedId = channel.events[0]?.id ?? channel.nextId;
+  if (lastEventId < firstBufferedId - 1) {
+    // Numbered as the last dropped event, so a retry resumes after it
+    getSnapshotEvents(channel.snapshot).forEach((event) =>
+      writeEvent(res, { id: firstBufferedId - 1, event })
+    );
+  }
+  channel.events
+    .filter((entry) => entry.id > lastEventId)
+    .forEach((entry) => writeEvent(res, entry));
+
+  if (channel.finished) {
+    res.end();
+    return true;
+  }
+
+  channel.subscribers.add(res);
+  const heartbeat = setInterval(
+    () => res.write(": heartbeat\n\n"),
+    HEARTBEAT_INTERVAL_MS
+  );
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    channel.subscribers.delete(res);
+  });
+  return true;
+};
+
+/** Send a single terminal event for runs that are no longer held in memory. */
+export const sendFinishedRunEvent = (res: Response, event: RunEvent): void => {
+  startEventStream(res);
+  writeEvent(res, { id: 1, event });
+  res.end();
+};
+
+/**
+ * Turn Nextflow console lines into task status changes. Both the plain
+ * "Submitted process >" log lines and the ANSI progress summary
+ * ("[ab/123456] NAME | 1 of 2, cached: 1 ✔") are recognised, as are the
+ * notes Nextflow prints when an error strategy retries or ignores a task.
+ */
+export const parseTaskEvent = (line: string): RunEvent | null => {
+  const errorNoteMatch = line.match(
+    /NOTE: Process `(([^\s(`]+)[^`]*)`.*--\s*(Execution is retried|Error is ignored)/
+  );
+  if (errorNoteMatch) {
+    return {
+      type: "task",
+      process: errorNoteMatch[2]!,
+      status: "running",
+      errorAction: errorNoteMatch[3]!.startsWith("Execution")
+        ? "retried"
+        : "ignored",
+      task: errorNoteMatch[1]!,
+    };
+  }
+
+  const submittedMatch = line.match(
+    /\[[\w/]+\]\s+Submitted process\s+>\s+([^\s(]+)/
+  );
+  if (submittedMatch) {
+    return { type: "task", process: submittedMatch[1]!, status: "running" };
+  }
+
+  const progressMatch = line.match(
+    /\[([\w/-]+)\]\s+(?:process\s+>\s+)?([^\s|]+)(?:\s+\([^)]*\))?(?:\s+\[\s*\d+%\])?\s*\|?\s*(\d+)\s+of\s+(\d+)(?:,\s*cached:\s*(\d+))?(?:,[^✔✘❌⚠]*)?\s*(✔|✘|❌|⚠)?/
+  );
+  if (progressMatch) {
+    const completed = Number.parseInt(progressMatch[3]!, 10);
+    const total = Number.parseInt(progressMatch[4]!, 10);
+    const cached = progressMatch[5]
+      ? Number.parseInt(progressMatch[5], 10)
+      : undefined;
+    const symbol = progressMatch[6];
+    return {
+      type: "task",
+      process: progressMatch[2]!.replace(/…/g, ""),
+      status:
+        symbol === "✘" || symbol === "❌"
+          ? "error"
+          : completed === total
+            ? "success"
+            : "running",
+      completed,
+      total,
+      ...(cached ? { cached } : {}),
+    };
+  }
+
+  return null;
+};
+
+const startEventStream = (res: Response): void => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stop nginx from buffering the stream in the Docker deployment
+    "X-Accel-Buffering": "no",
+  });
+};
+
+const writeEvent = (res: Response, entry: RunEventEntry): void => {
+  res.write(
+    `id: ${entry.id}\nevent: ${entry.event.type}\ndata: ${JSON.stringify(entry.event)}\n\n`
+  );
+};
@@ -0,0 +1,89 @@
+import fs from "fs";
+import path from "path";
+import { isPathWithin } from "./dataRoots";
+
+export interface RunResultEntry {
+  name: string;
+  path: string; // Relative to the run's results directory, "/"-separated
+  type: "directory" | "file";
+  size: number | null;
+  modifiedAt: Date;
+  children?: RunResultEntry[];
+}
+
+// Output Display processes publish into <outputDir>/results (--outdir results)
+export const getRunResultsDir = (outputDir: string): string =>
+  path.join(outputDir, "results");
+
+/**
+ * Recursive listing of a run's published results, directories first. Hidden
+ * entries and symlinks leaving the results directory are skipped.
+ */
+export const listRunResults = (
+  resultsDir: string,
+  relativeDir = ""
+): RunResultEntry[] => {
+  const directory = path.join(resultsDir, relativeDir);
+
+  return fs
+    .readdirSync(directory, { withFileTypes: true })
+    .filter((entry) => !entry.name.startsWith("."))
+    .flatMap((entry): RunResultEntry[] => {
+      const relativePath = path.posix.join(
+        relativeDir.split(path.sep).join("/"),
+        entry.name
+      );
+      if (!resolveRunResultPath(resultsDir, relativePath)) {
+        return [];
+      }
+      try {
+        const stats = fs.statSync(path.join(directory, entry.name));
+        if (stats.isDirectory()) {
+          return [
+            {
+              name: entry.name,
+              path: relativePath,
+              type: "directory",
+              size: null,
+              modifiedAt: stats.mtime,
+              children: listRunResults(resultsDir, relativePath),
+            },
+          ];
+        }
+        return [
+          {
+            name: entry.name,
+            path: relativePath,
+            type: "file",
+            size: stats.size,
+            modifiedAt: stats.mtime,
+          },
+        ];
+      } catch {
+        // Unreadable entries are skipped
+        return [];
+      }
+    })
+    .sort(
+      (a, b) =>
+        Number(b.type === "directory") - Number(a.type === "directory") ||
+        a.name.localeCompare(b.name)
+    );
+};
+
+/**
+ * Resolve a path relative to the results directory, following symlinks, and
+ * return it only when it stays inside that directory.
+ */
+export const resolveRunResultPath = (
+  resultsDir: string,
+  relativePath: string
+): string | null => {
+  try {
+    const root = fs.realpathSync(resultsDir);
+    const resolvedPath = fs.realpathSync(path.resolve(root, relativePath));
+    return isPathWithin(root, resolvedPath) ? resolvedPath : null;
+  } catch {
+    return null;
+  }
+};
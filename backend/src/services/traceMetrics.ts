@@ -0,0 +1,94 @@
+import fs from "fs";
+
+// Per-task metrics taken from Nextflow's trace.txt (default trace fields)
+export interface TaskMetrics {
+  taskId: string;
+  hash: string;
+  name: string;
+  process: string;
+  status: string; // COMPLETED, FAILED, CACHED, ABORTED
+  exit: number | null;
+  realtime: string | null;
+  cpu: string | null; // %cpu
+  peakRss: string | null;
+}
+
+/**
+ * Parse the tab-separated trace file. Columns are looked up by header name so
+ * custom `trace.fields` orderings still work; missing values ("-") become null.
+ */
+export const parseTraceFile = (content: string): TaskMetrics[] => {
+  const [headerLine, ...rows] = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+  if (!headerLine) {
+    return [];
+  }
+
+  const headers = headerLine.split("\t");
+  const column = (cells: string[], name: string): string | null => {
+    const index = headers.indexOf(name);
+    const value = index === -1 ? undefined : cells[index]?.trim();
+    return value && value !== "-" ? value : null;
+  };
+
+  return rows.map((row) => {
+    const cells = row.split("\t");
+    const name = column(cells, "name") ?? "";
+    const exit = column(cells, "exit");
+
+    return {
+      taskId: column(cells, "task_id") ?? "",
+      hash: column(cells, "hash") ?? "",
+      name,
+      // "filter_node_1 (2)" -> "filter_node_1"
+      process: (
+        column(cells, "process") ?? name.replace(/\s*\(.*\)$/, "")
+      ).trim(),
+      status: column(cells, "status") ?? "UNKNOWN",
+      exit: exit !== null && /^-?\d+$/.test(exit) ? Number(exit) : null,
+      realtime: column(cells, "realtime"),
+      cpu: column(cells, "%cpu"),
+      peakRss: column(cells, "peak_rss"),
+    };
+  });
+};
+
+export const readTraceFile = (tracePath: string): TaskMetrics[] => {
+  try {
+    return fs.existsSync(tracePath)
+      ? parseTraceFile(fs.readFileSync(tracePath, "utf8"))
+      : [];
+  } catch (error) {
+    console.warn(`Could not read trace file ${tracePath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Poll a trace file while Nextflow appends to it and hand newly finished tasks
+ * to `onTasks`. Returns a stop function that performs one last read.
+ */
+export const watchTraceFile = (
+  tracePath: string,
+  onTasks: (tasks: TaskMetrics[]) => void,
+  intervalMs = 2000
+): (() => TaskMetrics[]) => {
+  let reportedCount = 0;
+
+  const poll = (): TaskMetrics[] => {
+    const tasks = readTraceFile(tracePath);
+    if (tasks.length > reportedCount) {
+      onTasks(tasks.slice(reportedCount));
+      reportedCount = tasks.length;
+    }
+    return tasks;
+  };
+
+  const timer = setInterval(poll, intervalMs);
+
+  return () => {
+    clearInterval(timer);
+    return poll();
+  };
+};
@@ -0,0 +1,91 @@
+import mongoose from "mongoose";
+import WorkflowModel, { IWorkflow } from "../models/WorkflowModel";
+import { IRun } from "../models/RunModel";
+import { WorkflowRole } from "../workflows/types";
+
+// Stored workflows belong to the user who created them, who can share them
+// with other users as viewer, runner or editor. Users without any role get
+// 404 rather than 403, so ids of foreign workflows are not confirmed to exist.
+
+const ROLE_RANK = new Map<WorkflowRole, number>([
+  ["viewer", 1],
+  ["runner", 2],
+  ["editor", 3],
+  ["owner", 4],
+]);
+
+/** Query filter for the workflows (and runs) a user owns. */
+export const ownedBy = (userId: string) => ({
+  owner: new mongoose.Types.ObjectId(userId),
+});
+
+/** Query filter for the workflows a user owns or has been given a role on. */
+export const accessibleBy = (userId: string) => ({
+  $or: [
+    ownedBy(userId),
+    { "shares.user": new mongoose.Types.ObjectId(userId) },
+  ],
+});
+
+/** The user's role on a stored workflow, or null without access. */
+export const getWorkflowRole = (
+  workflow: IWorkflow,
+  userId: string
+): WorkflowRole | null => {
+  if (workflow.owner && String(workflow.owner) === userId) return "owner";
+  const share = (workflow.shares ?? []).find(
+    (candidate) => String(candidate.user) === userId
+  );
+  return share?.role ?? null;
+};
+
+/** True when `role` allows at least what `required` allows. */
+export const hasWorkflowRole = (
+  role: WorkflowRole,
+  required: WorkflowRole
+): boolean => (ROLE_RANK.get(role) ?? 0) >= (ROLE_RANK.get(required) ?? 0);
+
+export const roleRequiredMessage = (required: WorkflowRole): string =>
+  required === "owner"
+    ? "Only the owner of this workflow can do this."
+    : `This needs the ${required} role on this workflow.`;
+
+export const findAccessibleWorkflow = async (
+  workflowId: string,
+  userId: string
+): Promise<{ workflow: IWorkflow; role: WorkflowRole } | null> => {
+  if (!mongoose.Types.ObjectId.isValid(workflowId)) return null;
+  const workflow = await WorkflowModel.findOne({
+    _id: workflowId,
+    ...accessibleBy(userId),
+  }).exec();
+  const role = workflow ? getWorkflowRole(workflow, userId) : null;
+  return workflow && role ? { workflow, role } : null;
+};
+
+/**
+ * The user's role for a run. Runs of a stored workflow follow the role on
+ * that workflow, whoever started them; runs of built-in or deleted workflows
+ * stay with the user who started them.
+ */
+export const getRunRole = async (
+  run: Pick<IRun, "workflowId" | "owner">,
+  userId: string
+): Promise<WorkflowRole | null> => {
+  const workflowId = run.workflowId;
+  if (
+    workflowId &&
+    mongoose.Types.ObjectId.isValid(workflowId) &&
+    (await WorkflowModel.exists({ _id: workflowId }))
+  ) {
+    return (await findAccessibleWorkflow(workflowId, userId))?.role ?? null;
+  }
+  return run.owner && String(run.owner) === userId ? "owner" : null;
+};
+
+/** Any role can see a run; cancelling needs runner for one's own, else editor. */
+export const getRunCancelRole = (
+  run: Pick<IRun, "owner">,
+  userId: string
+): WorkflowRole =>
+  run.owner && String(run.owner) === userId ? "runner" : "editor";
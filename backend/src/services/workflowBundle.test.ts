@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_SCHEMA_VERSION,
+  BUNDLE_TOO_LARGE_MESSAGE,
+  decodeWorkflowBundle,
+  encodeWorkflowBundle,
+  MAX_BUNDLE_BYTES,
+  restoreBundleFiles,
+  WorkflowBundle,
+  WorkflowBundleError,
+} from "./workflowBundle";
+import { getFileStoreRoot, hasStoredFile } from "./fileStore";
+
+const sha256 = (content: string): string =>
+  crypto.createHash("sha256").update(content).digest("hex");
+
+const bundledFile = (name: string, content: string, hash = sha256(content)) => ({
+  hash,
+  name,
+  size: content.length,
+  content: Buffer.from(content).toString("base64"),
+});
+
+const makeBundle = (files: WorkflowBundle["files"]): WorkflowBundle => ({
+  format: BUNDLE_FORMAT,
+  schemaVersion: BUNDLE_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  workflow: {
+    name: "Test",
+    description: "",
+    nodes: [],
+    edges: [],
+    executionSettings: null,
+    sourceFormat: "visual",
+    rawSource: null,
+    importWarnings: [],
+  },
+  script: null,
+  customNodes: [],
+  nfCoreModules: [],
+  files,
+  warnings: [],
+});
+
+// Blobs in the store, leaving out the upload temp directory
+const listStoredBlobs = (): string[] => {
+  const root = getFileStoreRoot();
+  if (!fs.existsSync(root)) return [];
+  return fs
+    .readdirSync(root)
+    .filter((entry) => entry !== "tmp")
+    .flatMap((entry) => fs.readdirSync(path.join(root, entry)));
+};
+
+describe("workflow bundles", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "nwave-bundle-"));
+    process.env.NWAVE_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    delete process.env.NWAVE_DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("round-trips a bundle through encode and decode", () => {
+    const bundle = makeBundle([bundledFile("reads.fastq", "ACGT")]);
+    assert.deepEqual(decodeWorkflowBundle(encodeWorkflowBundle(bundle)), bundle);
+  });
+
+  it("rejects data that is not a bundle", () => {
+    assert.throws(
+      () => decodeWorkflowBundle(Buffer.from("not a bundle")),
+      WorkflowBundleError
+    );
+  });
+
+  it("rejects bundles that unpack beyond the size limit", () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(MAX_BUNDLE_BYTES + 1, " "));
+    assert.throws(
+      () => decodeWorkflowBundle(bomb),
+      (error) =>
+        error instanceof WorkflowBundleError &&
+        error.message === BUNDLE_TOO_LARGE_MESSAGE
+    );
+  });
+
+  it("stores bundled files under their hash", async () => {
+    const file = bundledFile("reads.fastq", "ACGT");
+    const restored = await restoreBundleFiles(makeBundle([file]));
+
+    assert.deepEqual(restored, ["reads.fastq"]);
+    assert.ok(hasStoredFile(file.hash));
+  });
+
+  it("stores nothing when a bundled file does not match its hash", async () => {
+    const tampered = bundledFile("samples.csv", "tampered", sha256("original"));
+    const bundle = makeBundle([bundledFile("reads.fastq", "ACGT"), tampered]);
+
+    await assert.rejects(restoreBundleFiles(bundle), WorkflowBundleError);
+    assert.deepEqual(listStoredBlobs(), []);
+  });
+});
@@ -0,0 +1,409 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import File from "../models/File";
+import { IWorkflow } from "../models/WorkflowModel";
+import {
+  getNodeFilePath,
+  loadRegistry,
+  writeNodeFile,
+} from "./customNodeRegistry";
+import {
+  getInstalledModuleIds,
+  loadCatalog,
+  loadInstalledIndex,
+  readJsonIfExists,
+} from "./nfcoreModules";
+import {
+  getFileStoreUploadDir,
+  getStoredFilePath,
+  hasStoredFile,
+  storeUploadedFile,
+} from "./fileStore";
+import { ownedBy } from "./workflowAccess";
+
+/**
+ * A .nwave bundle is a gzip-compressed JSON document that carries a workflow
+ * to another N-WAVE instance together with what it depends on: custom node
+ * definitions, the manifests of the nf-core modules it uses and, optionally,
+ * the content of its uploaded input files.
+ */
+
+export const BUNDLE_FORMAT = "nwave-workflow-bundle";
+export const BUNDLE_SCHEMA_VERSION = 1;
+
+// Input files beyond this total stay out of the bundle; the importer is told
+// which ones to upload again
+const MAX_BUNDLED_FILE_BYTES = 100 * 1024 * 1024;
+
+// Largest bundle accepted, packed or unpacked: the files base64-encoded plus
+// room for the graph, the script and the definitions
+export const MAX_BUNDLE_BYTES =
+  Math.ceil((MAX_BUNDLED_FILE_BYTES * 4) / 3) + 16 * 1024 * 1024;
+
+const toMegabytes = (bytes: number): number => Math.round(bytes / 1024 / 1024);
+
+export const BUNDLE_TOO_LARGE_MESSAGE = `The bundle is larger than ${toMegabytes(
+  MAX_BUNDLE_BYTES
+)} MB.`;
+
+export interface BundledFile {
+  hash: string; // SHA-256, as in the file store
+  name: string;
+  size: number;
+  content: string; // base64
+}
+
+export interface BundledNfCoreModule {
+  id: string;
+  sourceCommit: string | null;
+  manifest: unknown | null; // nwave.adapter.json of the installed module
+}
+
+export interface WorkflowBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  workflow: {
+    name: string;
+    description: string;
+    nodes: any[];
+    edges: any[];
+    executionSettings: unknown;
+    sourceFormat: "visual" | "nextflow";
+    rawSource: string | null;
+    importWarnings: string[];
+  };
+  // The .nf script: the imported source, or the one the latest run used when
+  // no edit came after it. The graph stays authoritative on import.
+  script: string | null;
+  customNodes: any[];
+  nfCoreModules: BundledNfCoreModule[];
+  files: BundledFile[];
+  warnings: string[];
+}
+
+export interface WorkflowBundleImportReport {
+  customNodes: { registered: string[]; existing: string[] };
+  // Modules used by the workflow that this instance has not installed
+  nfCoreModules: Array<{ id: string; label: string; installable: boolean }>;
+  files: { restored: string[]; missing: string[] };
+  warnings: string[];
+}
+
+// The bundle could not be read; the message is shown to the importer
+export class WorkflowBundleError extends Error {}
+
+const getNodeData = (node: any): Record<string, any> => node?.data ?? {};
+
+const collectCustomNodes = (nodes: any[]): any[] => {
+  const registered = new Map(
+    loadRegistry().nodes.map((definition: any) => [
+      String(definition?.id ?? ""),
+      definition,
+    ])
+  );
+  const definitions = new Map<string, any>();
+  nodes.forEach((node) => {
+    const data = getNodeData(node);
+    const id = data.customNodeId ? String(data.customNodeId) : "";
+    if (!id || definitions.has(id)) return;
+    // Nodes keep a copy of their definition, used if it left the registry
+    const definition = registered.get(id) ?? data.customNodeDefinition;
+    if (definition) definitions.set(id, definition);
+  });
+  return Array.from(definitions.values());
+};
+
+const collectNfCoreModules = (nodes: any[]): BundledNfCoreModule[] => {
+  const moduleIds = new Set<string>();
+  nodes.forEach((node) => {
+    const moduleId = getNodeData(node).nwaveNfCoreModuleId;
+    if (moduleId) moduleIds.add(String(moduleId));
+  });
+  if (moduleIds.size === 0) return [];
+
+  const installed = loadInstalledIndex();
+  const catalog = new Map(loadCatalog().modules.map((entry) => [entry.id, entry]));
+  return Array.from(moduleIds).map((id) => {
+    const installedEntry = installed[id];
+    return {
+      id,
+      sourceCommit:
+        installedEntry?.sourceCommit ?? catalog.get(id)?.source.commit ?? null,
+      manifest: installedEntry
+        ? readJsonIfExists(installedEntry.manifestPath)
+        : null,
+    };
+  });
+};
+
+const collectFiles = (
+  nodes: any[],
+  warnings: string[]
+): BundledFile[] => {
+  const files = new Map<string, { name: string; size: number }>();
+  nodes.forEach((node) => {
+    (getNodeData(node).files ?? []).forEach((file: any) => {
+      if (file?.hash && !files.has(file.hash)) {
+        files.set(file.hash, { name: file.name ?? file.hash, size: file.size ?? 0 });
+      }
+    });
+  });
+
+  let totalBytes = 0;
+  const bundled: BundledFile[] = [];
+  files.forEach((file, hash) => {
+    const storedPath = getStoredFilePath(hash);
+    if (!fs.existsSync(storedPath)) {
+      warnings.push(`${file.name} is missing from the file store and was left out.`);
+      return;
+    }
+    const size = fs.statSync(storedPath).size;
+    if (totalBytes + size > MAX_BUNDLED_FILE_BYTES) {
+      warnings.push(`${file.name} was left out to keep the bundle small.`);
+      return;
+    }
+    totalBytes += size;
+    bundled.push({
+      hash,
+      name: file.name,
+      size,
+      content: fs.readFileSync(storedPath).toString("base64"),
+    });
+  });
+  return bundled;
+};
+
+export const buildWorkflowBundle = (
+  workflow: IWorkflow,
+  options: { script: string | null; includeFiles: boolean }
+): WorkflowBundle => {
+  const nodes = workflow.nodes ?? [];
+  const warnings: string[] = [];
+  if (!options.script) {
+    warnings.push(
+      "No up-to-date Nextflow script: run the workflow before exporting to include one."
+    );
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      name: workflow.name ?? "Untitled Workflow",
+      description: workflow.description ?? "",
+      nodes,
+      edges: workflow.edges ?? [],
+      executionSettings: workflow.executionSettings ?? null,
+      sourceFormat: workflow.sourceFormat ?? "visual",
+      rawSource: workflow.rawSource ?? null,
+      importWarnings: workflow.importWarnings ?? [],
+    },
+    script: options.script,
+    customNodes: collectCustomNodes(nodes),
+    nfCoreModules: collectNfCoreModules(nodes),
+    files: options.includeFiles ? collectFiles(nodes, warnings) : [],
+    warnings,
+  };
+};
+
+export const encodeWorkflowBundle = (bundle: WorkflowBundle): Buffer =>
+  zlib.gzipSync(JSON.stringify(bundle));
+
+export const decodeWorkflowBundle = (data: Buffer): WorkflowBundle => {
+  let bundle: any;
+  if (data.length > MAX_BUNDLE_BYTES) {
+    throw new WorkflowBundleError(BUNDLE_TOO_LARGE_MESSAGE);
+  }
+  try {
+    bundle = JSON.parse(
+      zlib
+        .gunzipSync(data, { maxOutputLength: MAX_BUNDLE_BYTES })
+        .toString("utf8")
+    );
+  } catch (error: any) {
+    if (error?.code === "ERR_BUFFER_TOO_LARGE") {
+      throw new WorkflowBundleError(BUNDLE_TOO_LARGE_MESSAGE);
+    }
+    throw new WorkflowBundleError("The file is not a .nwave workflow bundle.");
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !bundle.workflow) {
+    throw new WorkflowBundleError("The file is not a .nwave workflow bundle.");
+  }
+  if (bundle.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new WorkflowBundleError(
+      "The bundle was made by a newer N-WAVE; update this instance to import it."
+    );
+  }
+  if (!Array.isArray(bundle.workflow.nodes) || !Array.isArray(bundle.workflow.edges)) {
+    throw new WorkflowBundleError("The bundle has no workflow graph.");
+  }
+  return {
+    ...bundle,
+    customNodes: Array.isArray(bundle.customNodes) ? bundle.customNodes : [],
+    nfCoreModules: Array.isArray(bundle.nfCoreModules) ? bundle.nfCoreModules : [],
+    files: Array.isArray(bundle.files) ? bundle.files : [],
+    warnings: Array.isArray(bundle.warnings) ? bundle.warnings : [],
+  };
+};
+
+/**
+ * Registers the bundle's custom nodes this instance does not have. Existing
+ * definitions with the same id are kept, so local changes are not lost.
+ */
+export const restoreBundleCustomNodes = (
+  bundle: WorkflowBundle
+): WorkflowBundleImportReport["customNodes"] => {
+  const report = { registered: [] as string[], existing: [] as string[] };
+  bundle.customNodes.forEach((definition) => {
+    const id = String(definition?.id ?? "").trim();
+    if (!id) return;
+    const nodePath = getNodeFilePath(id);
+    if (fs.existsSync(nodePath)) {
+      report.existing.push(id);
+      return;
+    }
+    writeNodeFile(nodePath, definition);
+    report.registered.push(id);
+  });
+  return report;
+};
+
+/** The bundle's nf-core modules that still need to be installed here. */
+export const findMissingNfCoreModules = (
+  bundle: WorkflowBundle
+): WorkflowBundleImportReport["nfCoreModules"] => {
+  const installedIds = getInstalledModuleIds();
+  const catalog = new Map(loadCatalog().modules.map((entry) => [entry.id, entry]));
+  return bundle.nfCoreModules
+    .filter((module) => !installedIds.has(module.id))
+    .map((module) => {
+      const entry = catalog.get(module.id);
+      return {
+        id: module.id,
+        label: entry?.label ?? module.id,
+        installable: Boolean(
+          entry &&
+            entry.support !== "unsupported" &&
+            entry.installability?.automatic !== false
+        ),
+      };
+    });
+};
+
+/**
+ * Puts bundled input files into the file store. Returns the names of the
+ * files whose content came along. Every file is checked against its hash
+ * first, so a corrupted bundle leaves nothing behind in the store.
+ */
+export const restoreBundleFiles = async (
+  bundle: WorkflowBundle
+): Promise<string[]> => {
+  const contents = bundle.files.map((file) => {
+    const content = Buffer.from(String(file.content ?? ""), "base64");
+    const hash = crypto.createHash("sha256").update(content).digest("hex");
+    if (hash !== file.hash) {
+      throw new WorkflowBundleError(`${file.name} in the bundle is corrupted.`);
+    }
+    return content;
+  });
+
+  for (const content of contents) {
+    const tempPath = path.join(
+      getFileStoreUploadDir(),
+      `bundle-${Date.now()}-${Math.round(Math.random() * 1e9)}`
+    );
+    fs.writeFileSync(tempPath, content);
+    await storeUploadedFile(tempPath);
+  }
+  return bundle.files.map((file) => file.name);
+};
+
+// The importer's record of a stored file. Only content that came in the
+// bundle gets a new record; anything else must be one the importer has.
+const findImporterFileRecord = async (
+  hash: string,
+  name: string,
+  ownerId: string,
+  bundled: boolean
+): Promise<string | null> => {
+  const ownFiles = await File.find({ hash, ...ownedBy(ownerId) });
+  const existingFile =
+    ownFiles.find((file) => file.originalName === name) ?? ownFiles[0];
+  if (existingFile) return String(existingFile._id);
+  if (!bundled) return null;
+
+  const newFile = new File({
+    originalName: name,
+    mimetype: "application/octet-stream",
+    size: fs.statSync(getStoredFilePath(hash)).size,
+    filename: `file-${Date.now()}-${Math.round(Math.random() * 1e9)}`,
+    hash,
+    tags: ["imported"],
+    owner: ownerId,
+  });
+  newFile.detectFileType();
+  await newFile.save();
+  return String(newFile._id);
+};
+
+/**
+ * Points the file references of imported nodes at the importer's records,
+ * after restoreBundleFiles has checked and stored the bundled content.
+ * Knowing a hash is not enough to get at content stored here: files that
+ * were neither bundled nor uploaded by the importer are reported missing.
+ */
+export const linkBundleFiles = async (
+  bundle: WorkflowBundle,
+  ownerId: string
+): Promise<{ nodes: any[]; missing: string[] }> => {
+  const bundledHashes = new Set(bundle.files.map((file) => file.hash));
+  const fileIds = new Map<string, string | null>();
+  const missing = new Set<string>();
+
+  const linkedNodes = [];
+  for (const node of bundle.workflow.nodes) {
+    if (!Array.isArray(node?.data?.files)) {
+      linkedNodes.push(node);
+      continue;
+    }
+    const files = [];
+    for (const file of node.data.files) {
+      if (!file?.hash) {
+        files.push(file);
+        continue;
+      }
+      const hash = String(file.hash);
+      const name = String(file.name ?? hash);
+      const key = `${hash}/${name}`;
+      if (!fileIds.has(key)) {
+        fileIds.set(
+          key,
+          hasStoredFile(hash)
+            ? await findImporterFileRecord(
+                hash,
+                name,
+                ownerId,
+                bundledHashes.has(hash)
+              )
+            : null
+        );
+      }
+      const fileId = fileIds.get(key);
+      if (!fileId) {
+        missing.add(name);
+        // The reference must not keep pointing at the exporter's record
+        const { _id, ...unlinkedFile } = file;
+        files.push(unlinkedFile);
+        continue;
+      }
+      files.push({ ...file, _id: fileId });
+    }
+    linkedNodes.push({ ...node, data: { ...node.data, files } });
+  }
+
+  return { nodes: linkedNodes, missing: Array.from(missing) };
+};
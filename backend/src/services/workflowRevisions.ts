@@ -0,0 +1,71 @@
+import { IWorkflow } from "../models/WorkflowModel";
+import WorkflowRevisionModel, {
+  IWorkflowRevision,
+} from "../models/WorkflowRevisionModel";
+
+// The parts of a workflow a revision captures; metadata such as the resume
+// state changes on every run and is not part of the pipeline itself.
+const getRevisionContent = (
+  workflow: Pick<IWorkflow, "name" | "nodes" | "edges" | "executionSettings">
+) => ({
+  name: workflow.name ?? "",
+  nodes: workflow.nodes ?? [],
+  edges: workflow.edges ?? [],
+  executionSettings: workflow.executionSettings ?? null,
+});
+
+/**
+ * Appends a revision for the workflow's current content. Unchanged saves
+ * (auto-save after a no-op edit) return the latest revision instead, unless
+ * they carry a note: a noted save is a deliberate checkpoint.
+ */
+export const recordWorkflowRevision = async (
+  workflow: IWorkflow,
+  options: {
+    note?: string | null;
+    restoredFrom?: number | null;
+    author?: string | null; // Id of the user who saved
+  } = {}
+): Promise<IWorkflowRevision> => {
+  const workflowId = String(workflow._id);
+  const content = getRevisionContent(workflow);
+  const latest = await WorkflowRevisionModel.findOne({ workflowId }).sort({
+    revision: -1,
+  });
+
+  const note = options.note?.trim() || null;
+  if (
+    latest &&
+    !note &&
+    JSON.stringify(getRevisionContent(latest)) === JSON.stringify(content)
+  ) {
+    return latest;
+  }
+
+  return WorkflowRevisionModel.create({
+    workflowId,
+    revision: (latest?.revision ?? 0) + 1,
+    ...content,
+    note,
+    restoredFrom: options.restoredFrom ?? null,
+    author: options.author ?? null,
+  });
+};
+
+/**
+ * Workflows saved before revisions existed have none; once the first update
+ * has gone through, the content it replaced becomes revision 1.
+ */
+export const recordBaselineRevision = async (
+  replacedWorkflow: IWorkflow
+): Promise<void> => {
+  const workflowId = String(replacedWorkflow._id);
+  if (await WorkflowRevisionModel.exists({ workflowId })) return;
+  await recordWorkflowRevision(replacedWorkflow);
+};
+
+export const deleteWorkflowRevisions = async (
+  workflowId: string
+): Promise<void> => {
+  await WorkflowRevisionModel.deleteMany({ workflowId });
+};
@@ -1,7 +1,7 @@
 import { IWorkflow } from "../models/WorkflowModel";
 import { materializeWorkflow } from "./materializeWorkflow";
 import { getDemoWorkflowDescriptor, demoWorkflowId } from "./library/demoWorkflow";
-import { WorkflowDescriptor } from "./types";
+import { WorkflowDescriptor, WorkflowRole } from "./types";
 
 const builtinWorkflowFactories = [getDemoWorkflowDescriptor];
 
@@ -15,7 +15,11 @@ export const getBuiltinWorkflowById = (
 
 export const isBuiltinWorkflowId = (id: string): boolean => id === demoWorkflowId;
 
-export const toWorkflowDescriptor = (workflow: IWorkflow): WorkflowDescriptor => {
+// Callers below the editor role get the workflow read-only
+export const toWorkflowDescriptor = (
+  workflow: IWorkflow,
+  role: WorkflowRole
+): WorkflowDescriptor => {
   const workflowObject = workflow.toObject ? workflow.toObject() : workflow;
 
   return materializeWorkflow({
@@ -30,8 +34,12 @@ export const toWorkflowDescriptor = (workflow: IWorkflow): WorkflowDescriptor =>
     sourceType: workflowObject.originType ?? "database",
     sourceFormat: workflowObject.sourceFormat ?? "visual",
     sourceKey: workflowObject.sourceKey ?? null,
-    isReadOnly: workflowObject.isReadOnly ?? false,
+    isReadOnly:
+      (workflowObject.isReadOnly ?? false) ||
+      (role !== "owner" && role !== "editor"),
     isBuiltin: workflowObject.isBuiltin ?? false,
+    resumeState: workflowObject.resumeState ?? null,
+    role,
     createdAt: workflowObject.createdAt,
     updatedAt: workflowObject.updatedAt,
   });
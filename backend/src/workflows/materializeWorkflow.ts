@@ -28,6 +28,8 @@ export const materializeWorkflow = (
       readOnly: isReadOnly,
       canDuplicate: true,
     },
+    resumeState: input.resumeState ?? null,
+    role: input.role ?? null,
     createdAt: input.createdAt,
     updatedAt: input.updatedAt,
   };
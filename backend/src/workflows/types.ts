@@ -1,3 +1,11 @@
+import {
+  WorkflowResumeState,
+  WorkflowShareRole,
+} from "../models/WorkflowModel";
+
+// The caller's role on a stored workflow
+export type WorkflowRole = "owner" | WorkflowShareRole;
+
 export interface WorkflowOriginDescriptor {
   type: "database" | "builtin" | "imported";
   sourceFormat: "visual" | "nextflow";
@@ -18,6 +26,8 @@ export interface WorkflowDescriptor {
   isBuiltin: boolean;
   isReadOnly: boolean;
   origin: WorkflowOriginDescriptor;
+  resumeState?: WorkflowResumeState | null;
+  role?: WorkflowRole | null; // Null for built-ins, which nobody owns
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -36,6 +46,8 @@ export interface MaterializeWorkflowInput {
   sourceKey?: string | null;
   isReadOnly?: boolean;
   isBuiltin?: boolean;
+  resumeState?: WorkflowResumeState | null;
+  role?: WorkflowRole | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
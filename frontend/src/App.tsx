@@ -3,6 +3,7 @@ import { useEffect } from "react";
 import { Outlet } from "react-router-dom";
 import { isDemoMode } from "./api";
 import DemoBanner from "./demo/DemoBanner";
+import { AuthProvider } from "./context/AuthContext";
 
 const App: React.FC = () => {
   useEffect(() => {
@@ -19,7 +20,9 @@ const App: React.FC = () => {
 
   return (
     <>
-      <Outlet />
+      <AuthProvider>
+        <Outlet />
+      </AuthProvider>
       {isDemoMode && <DemoBanner />}
     </>
   );
@@ -9,6 +9,9 @@ export const isDemoMode = import.meta.env.VITE_DEMO_MODE === "true";
 
 const axiosApi = axios.create({
   baseURL: import.meta.env.VITE_API_BASE_URL || "/api",
+  // The session lives in an httpOnly cookie, also when the API is on another
+  // origin (VITE_API_BASE_URL)
+  withCredentials: true,
 });
 
 // In demo mode all requests resolve against in-browser storage (see
@@ -20,3 +23,20 @@ const api = isDemoMode
   : axiosApi;
 
 export default api;
+
+/**
+ * Calls `handler` whenever the backend answers 401, i.e. the session expired
+ * or was never started. Returns the unsubscribe function; the demo never
+ * answers 401.
+ */
+export const onUnauthorized = (handler: () => void): (() => void) => {
+  if (isDemoMode) return () => {};
+  const interceptor = axiosApi.interceptors.response.use(
+    (response) => response,
+    (error) => {
+      if (error?.response?.status === 401) handler();
+      return Promise.reject(error);
+    }
+  );
+  return () => axiosApi.interceptors.response.eject(interceptor);
+};
@@ -0,0 +1,39 @@
+import api from "../api";
+import type { AuthUser } from "../types/backend";
+
+/** The signed-in user, or null when there is no valid session. */
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+  try {
+    const response = await api.get<{ user: AuthUser }>("/auth/me");
+    return response.data.user;
+  } catch (error: any) {
+    if (error?.response?.status === 401) return null;
+    throw error;
+  }
+};
+
+export const login = async (
+  username: string,
+  password: string
+): Promise<AuthUser> => {
+  const response = await api.post<{ user: AuthUser }>("/auth/login", {
+    username,
+    password,
+  });
+  return response.data.user;
+};
+
+export const register = async (
+  username: string,
+  password: string
+): Promise<AuthUser> => {
+  const response = await api.post<{ user: AuthUser }>("/auth/register", {
+    username,
+    password,
+  });
+  return response.data.user;
+};
+
+export const logout = async (): Promise<void> => {
+  await api.post("/auth/logout");
+};
@@ -30,15 +30,34 @@ export const persistCustomNode = async (
   return response.data.node;
 };
 
-export const deleteCustomNode = async (nodeId: string): Promise<void> => {
+export interface CustomNodeDeleteResult {
+  // Saved workflows the node was removed from; the others could not be edited
+  updatedWorkflowIds: string[];
+  blockedWorkflows: number;
+}
+
+export const deleteCustomNode = async (
+  nodeId: string
+): Promise<CustomNodeDeleteResult> => {
+  let result: CustomNodeDeleteResult = {
+    updatedWorkflowIds: [],
+    blockedWorkflows: 0,
+  };
   try {
-    await api.delete(`/custom-nodes/${encodeURIComponent(nodeId)}`);
+    const response = await api.delete<Partial<CustomNodeDeleteResult>>(
+      `/custom-nodes/${encodeURIComponent(nodeId)}`
+    );
+    result = {
+      updatedWorkflowIds: response.data.updatedWorkflowIds ?? [],
+      blockedWorkflows: response.data.blockedWorkflows ?? 0,
+    };
   } catch (error: any) {
     if (error?.response?.status !== 404) {
       throw error;
     }
   }
   unregisterCustomNode(nodeId);
+  return result;
 };
 
 export const migrateLegacyCustomNodes = async (): Promise<number> => {
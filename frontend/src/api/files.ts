@@ -0,0 +1,42 @@
+import api from "../api";
+import type { DataRootListing, IFile } from "../types/backend";
+
+export const uploadStoredFile = async (file: File): Promise<IFile> => {
+  const formData = new FormData();
+  formData.append("file", file);
+  const response = await api.post<IFile>("/files", formData);
+  return response.data;
+};
+
+export const listStoredFiles = async (): Promise<IFile[]> => {
+  const response = await api.get<IFile[]>("/files");
+  return Array.isArray(response.data) ? response.data : [];
+};
+
+export const deleteStoredFile = async (fileId: string): Promise<void> => {
+  await api.delete(`/files/${encodeURIComponent(fileId)}`);
+};
+
+export const fetchStoredFileContent = async (
+  fileId: string
+): Promise<string> => {
+  const response = await api.get<string>(
+    `/files/${encodeURIComponent(fileId)}/download`,
+    { responseType: "text" }
+  );
+  return response.data;
+};
+
+export const getStoredFileDownloadUrl = (fileId: string): string => {
+  const baseURL = (api.defaults?.baseURL || "/api").replace(/\/+$/, "");
+  return `${baseURL}/files/${encodeURIComponent(fileId)}/download`;
+};
+
+export const browseServerPath = async (
+  path?: string
+): Promise<DataRootListing> => {
+  const response = await api.get<DataRootListing>("/files/browse", {
+    params: path ? { path } : undefined,
+  });
+  return response.data;
+};
@@ -0,0 +1,44 @@
+import api from "../api";
+import type { RunResultListing } from "../types/backend";
+
+/**
+ * EventSource cannot go through axios, so the SSE URL is built from the same
+ * base URL the axios instance uses.
+ */
+export const getRunEventsUrl = (runId: string): string => {
+  const baseURL = (api.defaults?.baseURL || "/api").replace(/\/+$/, "");
+  return `${baseURL}/execute/runs/${encodeURIComponent(runId)}/events`;
+};
+
+export const getRunResults = async (
+  runId: string
+): Promise<RunResultListing> => {
+  const response = await api.get<RunResultListing>(
+    `/runs/${encodeURIComponent(runId)}/results`
+  );
+  return response.data;
+};
+
+export const fetchRunResultFile = async (
+  runId: string,
+  path: string
+): Promise<string> => {
+  const response = await api.get<string>(
+    `/runs/${encodeURIComponent(runId)}/results/file`,
+    { params: { path }, responseType: "text" }
+  );
+  return response.data;
+};
+
+export const getRunResultFileUrl = (
+  runId: string,
+  path: string,
+  download = false
+): string => {
+  const baseURL = (api.defaults?.baseURL || "/api").replace(/\/+$/, "");
+  const query = new URLSearchParams({ path });
+  if (download) {
+    query.set("download", "1");
+  }
+  return `${baseURL}/runs/${encodeURIComponent(runId)}/results/file?${query}`;
+};
@@ -0,0 +1,30 @@
+import api from "../api";
+import type {
+  WorkflowBundleImportReport,
+  WorkflowDescriptor,
+} from "../types/backend";
+
+// The session cookie authorizes the plain download link
+export const getWorkflowExportUrl = (
+  workflowId: string,
+  includeFiles = false,
+): string => {
+  const baseURL = (api.defaults?.baseURL || "/api").replace(/\/+$/, "");
+  const query = includeFiles ? "?files=1" : "";
+  return `${baseURL}/workflows/${encodeURIComponent(workflowId)}/export${query}`;
+};
+
+export const importWorkflowBundle = async (
+  bundle: File,
+): Promise<{
+  workflow: WorkflowDescriptor;
+  report: WorkflowBundleImportReport;
+}> => {
+  const formData = new FormData();
+  formData.append("bundle", bundle);
+  const response = await api.post<{
+    workflow: WorkflowDescriptor;
+    report: WorkflowBundleImportReport;
+  }>("/workflows/import", formData);
+  return response.data;
+};
@@ -0,0 +1,38 @@
+import api from "../api";
+import type {
+  WorkflowDescriptor,
+  WorkflowRevision,
+  WorkflowRevisionSummary,
+} from "../types/backend";
+
+const revisionsUrl = (workflowId: string): string =>
+  `/workflows/${encodeURIComponent(workflowId)}/revisions`;
+
+export const listWorkflowRevisions = async (
+  workflowId: string
+): Promise<WorkflowRevisionSummary[]> => {
+  const response = await api.get<WorkflowRevisionSummary[]>(
+    revisionsUrl(workflowId)
+  );
+  return response.data;
+};
+
+export const getWorkflowRevision = async (
+  workflowId: string,
+  revision: number
+): Promise<WorkflowRevision> => {
+  const response = await api.get<WorkflowRevision>(
+    `${revisionsUrl(workflowId)}/${revision}`
+  );
+  return response.data;
+};
+
+export const restoreWorkflowRevision = async (
+  workflowId: string,
+  revision: number
+): Promise<WorkflowDescriptor> => {
+  const response = await api.post<WorkflowDescriptor>(
+    `${revisionsUrl(workflowId)}/${revision}/restore`
+  );
+  return response.data;
+};
@@ -0,0 +1,35 @@
+import api from "../api";
+import type { WorkflowShare, WorkflowShareRole } from "../types/backend";
+
+const sharesUrl = (workflowId: string): string =>
+  `/workflows/${encodeURIComponent(workflowId)}/shares`;
+
+export const listWorkflowShares = async (
+  workflowId: string
+): Promise<WorkflowShare[]> => {
+  const response = await api.get<WorkflowShare[]>(sharesUrl(workflowId));
+  return response.data;
+};
+
+// Sharing with a user who already has a role changes it
+export const shareWorkflow = async (
+  workflowId: string,
+  username: string,
+  role: WorkflowShareRole
+): Promise<WorkflowShare[]> => {
+  const response = await api.post<WorkflowShare[]>(sharesUrl(workflowId), {
+    username,
+    role,
+  });
+  return response.data;
+};
+
+export const unshareWorkflow = async (
+  workflowId: string,
+  userId: string
+): Promise<WorkflowShare[]> => {
+  const response = await api.delete<WorkflowShare[]>(
+    `${sharesUrl(workflowId)}/${encodeURIComponent(userId)}`
+  );
+  return response.data;
+};
@@ -8,8 +8,11 @@ import {
   Download,
   Loader,
   Play,
+  RotateCcw,
   Settings,
   Container,
+  History,
+  Users,
 } from "lucide-react";
 import { ConfirmDialog } from "../common";
 import ExecutionSettingsComponent from "../common/workflow/ExecutionSettings";
@@ -20,11 +23,16 @@ interface BottomBarProps {
   onWorkflowNameChange: (newName: string) => void;
   onSave: () => void;
   onDownload: () => void;
+  onShowHistory?: () => void; // Opens the revision browser
+  onShare?: () => void; // Opens the share dialog; owners only
   onRun?: (settings: ExecutionSettings) => void;
+  onResume?: (settings: ExecutionSettings) => void; // Run with -resume
+  canResume?: boolean; // A previous run left a session to resume
   isSaved: boolean;
   isSaving: boolean;
   isRunning?: boolean;
   canExecute?: boolean; // Whether the workflow can be executed (no missing files)
+  cannotExecuteReason?: string; // Shown on the Run buttons when canExecute is false
   isLoading?: boolean; // Whether the workflow is being loaded
   executionSettings: ExecutionSettings;
   onExecutionSettingsChange: (settings: ExecutionSettings) => void;
@@ -35,11 +43,16 @@ const BottomBar: React.FC<BottomBarProps> = ({
   onWorkflowNameChange,
   onSave,
   onDownload,
+  onShowHistory,
+  onShare,
   onRun,
+  onResume,
+  canResume = false,
   isSaved,
   isSaving,
   isRunning = false,
   canExecute = true,
+  cannotExecuteReason = "Cannot run: Some files are missing content",
   isLoading = false,
   executionSettings,
   onExecutionSettingsChange,
@@ -155,6 +168,12 @@ const BottomBar: React.FC<BottomBarProps> = ({
     }
   };
 
+  const handleResume = () => {
+    if (onResume) {
+      onResume(executionSettings);
+    }
+  };
+
   const handleSettingsChange = (newSettings: Partial<ExecutionSettings>) => {
     onExecutionSettingsChange({ ...executionSettings, ...newSettings });
     setSettingsChanged(true);
@@ -312,7 +331,7 @@ const BottomBar: React.FC<BottomBarProps> = ({
                       className="px-4 py-2 text-white bg-nextflow-green hover:bg-nextflow-green/90 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                       title={
                         !canExecute
-                          ? "Cannot run: Some files are missing content"
+                          ? cannotExecuteReason
                           : isRunning
                           ? "Workflow is currently running"
                           : "Run workflow"
@@ -398,7 +417,7 @@ const BottomBar: React.FC<BottomBarProps> = ({
             aria-label="Run Workflow"
             title={
               !canExecute
-                ? "Cannot run: Some files are missing content"
+                ? cannotExecuteReason
                 : isRunning
                 ? "Workflow is currently running"
                 : executionSettings.container?.enabled
@@ -414,6 +433,47 @@ const BottomBar: React.FC<BottomBarProps> = ({
           </button>
         )}
 
+        {/* Resume Button: reruns only what changed since the last run */}
+        {onResume && canResume && (
+          <button
+            onClick={handleResume}
+            disabled={isRunning || !canExecute}
+            className="p-1.5 text-text hover:bg-accent rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Resume Workflow"
+            title={
+              !canExecute
+                ? cannotExecuteReason
+                : isRunning
+                ? "Workflow is currently running"
+                : "Resume: reuse cached results from the last run"
+            }
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+
+        {onShowHistory && (
+          <button
+            onClick={onShowHistory}
+            className="p-1.5 text-text hover:bg-accent rounded-md transition-colors"
+            aria-label="Version History"
+            title="Version history"
+          >
+            <History className="w-4 h-4" />
+          </button>
+        )}
+
+        {onShare && (
+          <button
+            onClick={onShare}
+            className="p-1.5 text-text hover:bg-accent rounded-md transition-colors"
+            aria-label="Share Workflow"
+            title="Share"
+          >
+            <Users className="w-4 h-4" />
+          </button>
+        )}
+
         <button
           onClick={onDownload}
           className="p-1.5 text-text hover:bg-accent rounded-md transition-colors"
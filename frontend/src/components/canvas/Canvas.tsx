@@ -17,6 +17,8 @@ import CustomControls from "./CustomControls";
 import CustomEdge from "./CustomEdge";
 import BaseNode from "../nodes/BaseNode";
 import FileInputNode from "../nodes/input/FileInputNode";
+import SampleSheetNode from "../nodes/input/SampleSheetNode";
+import ParameterNode from "../nodes/input/ParameterNode";
 import OutputDisplayNode from "../nodes/output/OutputDisplayNode";
 import OperatorNode from "../nodes/OperatorNode";
 import ProcessNode from "../nodes/process/ProcessNode";
@@ -24,6 +26,8 @@ import ProcessNode from "../nodes/process/ProcessNode";
 const nodeTypes = {
   default: BaseNode,
   fileInput: FileInputNode,
+  sampleSheet: SampleSheetNode,
+  parameter: ParameterNode,
   outputDisplay: OutputDisplayNode,
   filter: OperatorNode,
   operator: OperatorNode,
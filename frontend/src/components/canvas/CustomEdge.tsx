@@ -2,6 +2,7 @@ import type React from "react";
 import { useState } from "react";
 import { getBezierPath, EdgeLabelRenderer, BaseEdge } from "reactflow";
 import type { EdgeProps } from "reactflow";
+import { DynamicIcon } from "../common";
 
 const CustomEdge: React.FC<EdgeProps> = ({
   id,
@@ -25,6 +26,11 @@ const CustomEdge: React.FC<EdgeProps> = ({
     targetPosition,
   });
 
+  // Set by the workflow validator when the channel shapes do not line up
+  const channelIssue: { severity: "error" | "warning"; message: string } | undefined =
+    data?._channelIssue;
+  const issueColor = channelIssue?.severity === "error" ? "#ef4444" : "#f59e0b";
+
   const onEdgeClick = (evt: React.MouseEvent) => {
     evt.stopPropagation();
     data.onDelete(id);
@@ -38,9 +44,17 @@ const CustomEdge: React.FC<EdgeProps> = ({
       {/* Invisible, wider path for easier hovering */}
       <path d={edgePath} fill="none" stroke="transparent" strokeWidth={20} />
       {/* The visible edge */}
-      <BaseEdge path={edgePath} markerEnd={markerEnd} style={style} />
+      <BaseEdge
+        path={edgePath}
+        markerEnd={markerEnd}
+        style={
+          channelIssue
+            ? { ...style, stroke: issueColor, strokeDasharray: "6 4" }
+            : style
+        }
+      />
 
-      {isHovered && (
+      {(isHovered || channelIssue) && (
         <EdgeLabelRenderer>
           <div
             style={{
@@ -48,11 +62,22 @@ const CustomEdge: React.FC<EdgeProps> = ({
               transform: `translate(-50%, -50%) translate(${labelX}px,${labelY}px)`,
               pointerEvents: "all",
             }}
-            className="nodrag nopan"
+            className="nodrag nopan flex items-center gap-1"
           >
-            <button onClick={onEdgeClick} className="edge-delete-button">
-              &times;
-            </button>
+            {channelIssue && (
+              <div
+                className="bg-white rounded-full p-0.5 shadow-sm"
+                style={{ color: issueColor }}
+                title={channelIssue.message}
+              >
+                <DynamicIcon name="TriangleAlert" className="w-3.5 h-3.5" />
+              </div>
+            )}
+            {isHovered && (
+              <button onClick={onEdgeClick} className="edge-delete-button">
+                &times;
+              </button>
+            )}
           </div>
         </EdgeLabelRenderer>
       )}
@@ -1,6 +1,9 @@
 import type React from "react";
 import CsvViewer from "./CsvViewer";
 import JsonViewer from "./JsonViewer";
+import { detectFileType, isBinaryFileType } from "../../../utils/inputFiles";
+
+export { detectFileType };
 
 interface FileViewerProps {
   content: string;
@@ -8,10 +11,6 @@ interface FileViewerProps {
   fileType?: string;
 }
 
-export const detectFileType = (fileName: string): string => {
-  return fileName.toLowerCase().split(".").pop() || "text";
-};
-
 const FastqViewer: React.FC<{ content: string }> = ({ content }) => {
   const lines = content.split("\n");
   const reads = [];
@@ -179,7 +178,10 @@ const FileViewer: React.FC<FileViewerProps> = ({
     zip: BinaryViewer,
   };
 
-  const ViewerComponent = viewerMap[extension] || TextViewer;
+  // Compressed and binary inputs (e.g. "fastq.gz", "bcf") are base64 data
+  const ViewerComponent: React.ComponentType<any> = isBinaryFileType(extension)
+    ? BinaryViewer
+    : viewerMap[extension] || TextViewer;
 
   // Pass appropriate props based on viewer type
   if (ViewerComponent === BinaryViewer) {
@@ -0,0 +1,133 @@
+import type React from "react";
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+
+export interface KeyValueTableProps {
+  /** Saved entries; rows with an invalid or duplicate key are left out */
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+  /** Returns why a key cannot be used, or null */
+  validateKey?: (key: string) => string | null;
+  keyLabel?: string;
+  valueLabel?: string;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  addLabel?: string;
+}
+
+interface Row {
+  key: string;
+  value: string;
+}
+
+const getRowError = (
+  rows: Row[],
+  index: number,
+  validateKey?: (key: string) => string | null
+): string | null => {
+  const { key } = rows[index];
+  if (!key) return null; // Blank rows are still being filled in
+  if (rows.findIndex((row) => row.key === key) !== index) {
+    return `"${key}" is already defined above.`;
+  }
+  return validateKey?.(key) ?? null;
+};
+
+const inputClassName =
+  "w-full px-2 py-1.5 bg-background border border-panel-border rounded-md text-sm text-text font-mono focus:outline-none focus:ring-1 focus:ring-nextflow-green focus:border-nextflow-green";
+
+const KeyValueTable: React.FC<KeyValueTableProps> = ({
+  value,
+  onChange,
+  validateKey,
+  keyLabel = "Name",
+  valueLabel = "Value",
+  keyPlaceholder,
+  valuePlaceholder,
+  addLabel = "Add",
+}) => {
+  // Rows are local so blank, duplicate or invalid keys can be edited
+  // without being saved
+  const [rows, setRows] = useState<Row[]>(() =>
+    Object.entries(value).map(([key, rowValue]) => ({
+      key,
+      value: String(rowValue ?? ""),
+    }))
+  );
+
+  const updateRows = (nextRows: Row[]) => {
+    setRows(nextRows);
+    const saved: Record<string, string> = {};
+    nextRows.forEach((row, index) => {
+      if (row.key && !getRowError(nextRows, index, validateKey)) {
+        saved[row.key] = row.value;
+      }
+    });
+    onChange(saved);
+  };
+
+  const updateRow = (index: number, changes: Partial<Row>) =>
+    updateRows(
+      rows.map((row, rowIndex) =>
+        rowIndex === index ? { ...row, ...changes } : row
+      )
+    );
+
+  return (
+    <div className="space-y-2">
+      {rows.length > 0 && (
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-text-light">
+          <span>{keyLabel}</span>
+          <span>{valueLabel}</span>
+          <span className="w-7" />
+        </div>
+      )}
+      {rows.map((row, index) => {
+        const error = getRowError(rows, index, validateKey);
+        return (
+          // biome-ignore lint/suspicious/noArrayIndexKey: keys are edited in place
+          <div key={index} className="space-y-1">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+              <input
+                type="text"
+                value={row.key}
+                onChange={(e) => updateRow(index, { key: e.target.value.trim() })}
+                placeholder={keyPlaceholder}
+                aria-invalid={Boolean(error)}
+                className={`${inputClassName} ${error ? "border-red-500" : ""}`}
+              />
+              <input
+                type="text"
+                value={row.value}
+                onChange={(e) => updateRow(index, { value: e.target.value })}
+                placeholder={valuePlaceholder}
+                className={inputClassName}
+              />
+              <button
+                onClick={() =>
+                  updateRows(rows.filter((_, rowIndex) => rowIndex !== index))
+                }
+                title="Remove"
+                className="p-1.5 text-text-light hover:text-red-500"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {error && (
+              <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={() => setRows([...rows, { key: "", value: "" }])}
+        className="flex items-center gap-1 px-2 py-1 text-sm text-text-light hover:text-text border border-panel-border rounded-md"
+      >
+        <Plus className="w-4 h-4" />
+        {addLabel}
+      </button>
+    </div>
+  );
+};
+
+export default KeyValueTable;
@@ -11,6 +11,7 @@ export { default as ProcessDropdown } from "./ProcessDropdown";
 export { default as NfCoreLibraryModal } from "./NfCoreLibraryModal";
 export { default as TimeInput } from "./TimeInput";
 export { default as MemoryInput } from "./MemoryInput";
+export { default as KeyValueTable } from "./KeyValueTable";
 
 // Re-export component types
 export type * from "./FileInput";
@@ -18,3 +19,4 @@ export type * from "./SearchInput";
 export type * from "./InlineEdit";
 export type * from "./FormComponents";
 export type * from "./ProcessDropdown";
+export type * from "./KeyValueTable";
@@ -0,0 +1,135 @@
+import type React from "react";
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { Check, Loader } from "lucide-react";
+import Modal from "../dialogs/Modal";
+import {
+  installNfCoreModule,
+  refreshInstalledNfCoreNodes,
+} from "../../../api/nfcore";
+import type { WorkflowBundleImportReport } from "../../../types/backend";
+
+export interface BundleImportReportDialogProps {
+  workflowName: string;
+  report: WorkflowBundleImportReport;
+  onOpenWorkflow: () => void;
+}
+
+// Shown after a .nwave import: what was added here and what is still missing
+const BundleImportReportDialog: React.FC<BundleImportReportDialogProps> = ({
+  workflowName,
+  report,
+  onOpenWorkflow,
+}) => {
+  const [installing, setInstalling] = useState<string | null>(null);
+  const [installed, setInstalled] = useState<Set<string>>(() => new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInstall = async (moduleId: string) => {
+    setInstalling(moduleId);
+    setError(null);
+    try {
+      await installNfCoreModule(moduleId);
+      await refreshInstalledNfCoreNodes();
+      setInstalled((current) => new Set(current).add(moduleId));
+    } catch (err: any) {
+      console.error(`Failed to install ${moduleId}:`, err);
+      setError(
+        err?.response?.data?.message ||
+          err?.message ||
+          `Failed to install ${moduleId}.`,
+      );
+    } finally {
+      setInstalling(null);
+    }
+  };
+
+  const footer = (
+    <button
+      onClick={onOpenWorkflow}
+      disabled={installing !== null}
+      className="px-4 py-2 rounded-md bg-nextflow-green hover:bg-nextflow-green/90 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      Open workflow
+    </button>
+  );
+
+  const content = (
+    <Modal
+      isOpen
+      onClose={onOpenWorkflow}
+      title={`Imported "${workflowName}"`}
+      footer={footer}
+    >
+      <div className="space-y-4 text-sm">
+        {report.nfCoreModules.length > 0 && (
+          <section>
+            <h3 className="font-medium">nf-core modules to install</h3>
+            <p className="text-xs text-text-light">
+              Nodes of these modules cannot run until they are installed.
+            </p>
+            <ul className="mt-2 space-y-1">
+              {report.nfCoreModules.map((module) => (
+                <li key={module.id} className="flex items-center gap-2">
+                  <span className="flex-1 truncate" title={module.id}>
+                    {module.label}
+                  </span>
+                  {installed.has(module.id) ? (
+                    <span className="flex items-center gap-1 text-nextflow-green">
+                      <Check className="w-4 h-4" /> Installed
+                    </span>
+                  ) : module.installable ? (
+                    <button
+                      onClick={() => handleInstall(module.id)}
+                      disabled={installing !== null}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-accent hover:bg-accent-hover disabled:opacity-50"
+                    >
+                      {installing === module.id && (
+                        <Loader className="w-3 h-3 animate-spin" />
+                      )}
+                      Install
+                    </button>
+                  ) : (
+                    <span className="text-xs text-text-light">
+                      Install manually
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {report.customNodes.registered.length > 0 && (
+          <section>
+            <h3 className="font-medium">Custom nodes added</h3>
+            <p className="text-text-light">
+              {report.customNodes.registered.join(", ")}
+            </p>
+          </section>
+        )}
+
+        {report.files.missing.length > 0 && (
+          <section>
+            <h3 className="font-medium">Input files to upload again</h3>
+            <p className="text-text-light">{report.files.missing.join(", ")}</p>
+          </section>
+        )}
+
+        {report.warnings.length > 0 && (
+          <ul className="list-disc pl-5 text-xs text-yellow-600 dark:text-yellow-400">
+            {report.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default BundleImportReportDialog;
@@ -12,9 +12,18 @@ import {
   ChevronDown,
   ChevronRight,
   HelpCircle,
+  Variable,
 } from "lucide-react";
-import { MemoryInput } from "../forms";
+import { KeyValueTable, MemoryInput } from "../forms";
 import api from "../../../api";
+import type {
+  BackoffStrategy,
+  ErrorStrategy,
+} from "../../../types/execution";
+import {
+  getEnvVarNameError,
+  getParamNameError,
+} from "../../../utils/executionEnvironment";
 
 interface DockerStatus {
   dockerAvailable: boolean;
@@ -39,7 +48,11 @@ export interface ExecutionSettings {
   maxCpus: number;
   maxMemory: string;
   executionTimeout: number;
-  errorStrategy: string;
+  errorHandling?: {
+    strategy: ErrorStrategy;
+    maxRetries: number;
+    backoffStrategy: BackoffStrategy;
+  };
   publishMode: string;
   cleanupOnFailure: boolean;
   nextflowVersion?: string;
@@ -47,6 +60,16 @@ export interface ExecutionSettings {
     directory: string;
     namingPattern: string;
   };
+  nextflow?: {
+    enableTrace?: boolean;
+    enableTimeline?: boolean;
+    enableReport?: boolean;
+  };
+  environment?: {
+    profile?: string;
+    customParams?: Record<string, any>;
+    environmentVariables?: Record<string, string>;
+  };
 }
 
 interface ExecutionSettingsProps {
@@ -118,10 +141,43 @@ const ExecutionSettingsComponent: React.FC<ExecutionSettingsProps> = ({
     { value: "finish", label: "Finish running tasks then stop" },
   ];
 
+  const backoffStrategies = [
+    { value: "exponential", label: "Exponential (1s, 2s, 4s, ...)" },
+    { value: "linear", label: "Linear (1s, 2s, 3s, ...)" },
+    { value: "fixed", label: "Fixed (1s between attempts)" },
+  ];
+
+  const errorHandling = {
+    strategy: "terminate" as ErrorStrategy,
+    maxRetries: 0,
+    backoffStrategy: "exponential" as BackoffStrategy,
+    ...settings.errorHandling,
+  };
+
+  const reportOptions = [
+    {
+      key: "enableTrace",
+      label: "Trace",
+      description:
+        "Record per-task metrics (runtime, CPU, peak memory, exit status) and show them in the execution panel",
+    },
+    {
+      key: "enableTimeline",
+      label: "Timeline",
+      description: "Write an HTML timeline of all tasks to nextflow/timeline.html",
+    },
+    {
+      key: "enableReport",
+      label: "Execution Report",
+      description: "Write the Nextflow HTML execution report to nextflow/report.html",
+    },
+  ] as const;
+
   const tabs = [
     { id: "execution", label: "Execution", icon: Settings },
     { id: "output", label: "Output", icon: FolderOpen },
     { id: "resources", label: "Resources", icon: Cpu },
+    { id: "environment", label: "Environment", icon: Variable },
     { id: "advanced", label: "Advanced", icon: AlertTriangle },
   ];
 
@@ -576,6 +632,8 @@ const ExecutionSettingsComponent: React.FC<ExecutionSettingsProps> = ({
                 , <span className="text-nextflow-green">{"{timestamp}"}</span>,{" "}
                 <span className="text-nextflow-green">{"{date}"}</span>,{" "}
                 <span className="text-nextflow-green">{"{process_name}"}</span>
+                . Timestamp and date are taken when the run starts, so the
+                generated script stays the same between runs.
               </p>
             </div>
           </div>
@@ -691,9 +749,19 @@ const ExecutionSettingsComponent: React.FC<ExecutionSettingsProps> = ({
                 Error Handling Strategy
               </label>
               <select
-                value={settings.errorStrategy}
+                value={errorHandling.strategy}
                 onChange={(e) =>
-                  onSettingsChange({ errorStrategy: e.target.value })
+                  onSettingsChange({
+                    errorHandling: {
+                      ...errorHandling,
+                      strategy: e.target.value as ErrorStrategy,
+                      // Retrying without any retries would change nothing
+                      maxRetries:
+                        e.target.value === "retry"
+                          ? Math.max(errorHandling.maxRetries, 1)
+                          : errorHandling.maxRetries,
+                    },
+                  })
                 }
                 className="w-full px-3 py-2 bg-background border border-panel-border rounded-md text-text focus:outline-none focus:ring-1 focus:ring-nextflow-green focus:border-nextflow-green"
               >
@@ -708,10 +776,66 @@ const ExecutionSettingsComponent: React.FC<ExecutionSettingsProps> = ({
                 ))}
               </select>
               <p className="text-xs text-text-light mt-2">
-                How the workflow should behave when a process fails.
+                How the workflow should behave when a process fails. Nodes can
+                override this in their settings.
               </p>
             </div>
 
+            {errorHandling.strategy === "retry" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-text mb-2">
+                    Max Retries
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    value={errorHandling.maxRetries}
+                    onChange={(e) =>
+                      onSettingsChange({
+                        errorHandling: {
+                          ...errorHandling,
+                          maxRetries: Math.max(
+                            0,
+                            Number.parseInt(e.target.value) || 0
+                          ),
+                        },
+                      })
+                    }
+                    className="w-full px-3 py-2 bg-background border border-panel-border rounded-md text-text focus:outline-none focus:ring-1 focus:ring-nextflow-green focus:border-nextflow-green"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-text mb-2">
+                    Backoff
+                  </label>
+                  <select
+                    value={errorHandling.backoffStrategy}
+                    onChange={(e) =>
+                      onSettingsChange({
+                        errorHandling: {
+                          ...errorHandling,
+                          backoffStrategy: e.target.value as BackoffStrategy,
+                        },
+                      })
+                    }
+                    className="w-full px-3 py-2 bg-background border border-panel-border rounded-md text-text focus:outline-none focus:ring-1 focus:ring-nextflow-green focus:border-nextflow-green"
+                  >
+                    {backoffStrategies.map((strategy) => (
+                      <option
+                        key={strategy.value}
+                        value={strategy.value}
+                        className="bg-background text-text"
+                      >
+                        {strategy.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
             {/* Cleanup on Failure */}
             <div className="flex items-start justify-between">
               <div className="flex-1">
@@ -735,6 +859,44 @@ const ExecutionSettingsComponent: React.FC<ExecutionSettingsProps> = ({
               </label>
             </div>
 
+            {/* Nextflow Reports */}
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">
+                Nextflow Reports
+              </label>
+              <div className="space-y-3">
+                {reportOptions.map((option) => (
+                  <div
+                    key={option.key}
+                    className="flex items-start justify-between"
+                  >
+                    <div className="flex-1">
+                      <div className="text-sm text-text">{option.label}</div>
+                      <p className="text-xs text-text-light mt-1">
+                        {option.description}
+                      </p>
+                    </div>
+                    <label className="relative inline-flex items-center cursor-pointer ml-4">
+                      <input
+                        type="checkbox"
+                        checked={settings.nextflow?.[option.key] ?? false}
+                        onChange={(e) =>
+                          onSettingsChange({
+                            nextflow: {
+                              ...settings.nextflow,
+                              [option.key]: e.target.checked,
+                            },
+                          })
+                        }
+                        className="sr-only peer"
+                      />
+                      <div className="w-9 h-5 bg-accent peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-nextflow-green/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-nextflow-green" />
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
             {/* Warning Messages */}
             {(dockerStatus?.error || nextflowStatus?.error) && (
               <div className="p-4 bg-red-900/20 border border-red-500/30 rounded-md">
@@ -767,6 +929,62 @@ const ExecutionSettingsComponent: React.FC<ExecutionSettingsProps> = ({
           </div>
         );
 
+      case "environment":
+        return (
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">
+                Pipeline Parameters
+              </label>
+              <p className="text-xs text-text-light mb-3">
+                Written to params.json and passed with -params-file, so
+                scripts can read them as <code>params.name</code>. Numbers and
+                true/false keep their type.
+              </p>
+              <KeyValueTable
+                value={Object.fromEntries(
+                  Object.entries(
+                    settings.environment?.customParams ?? {}
+                  ).map(([name, value]) => [name, String(value)])
+                )}
+                onChange={(customParams) =>
+                  onSettingsChange({
+                    environment: { ...settings.environment, customParams },
+                  })
+                }
+                validateKey={getParamNameError}
+                keyPlaceholder="genome"
+                valuePlaceholder="GRCh38"
+                addLabel="Add parameter"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">
+                Environment Variables
+              </label>
+              <p className="text-xs text-text-light mb-3">
+                Exported into every task through the Nextflow env scope.
+              </p>
+              <KeyValueTable
+                value={settings.environment?.environmentVariables ?? {}}
+                onChange={(environmentVariables) =>
+                  onSettingsChange({
+                    environment: {
+                      ...settings.environment,
+                      environmentVariables,
+                    },
+                  })
+                }
+                validateKey={getEnvVarNameError}
+                keyPlaceholder="OMP_NUM_THREADS"
+                valuePlaceholder="4"
+                addLabel="Add variable"
+              />
+            </div>
+          </div>
+        );
+
       default:
         return null;
     }
@@ -8,9 +8,11 @@ import {
   Activity,
   Cpu,
   HardDrive,
+  Square,
 } from "lucide-react";
 import type { Node } from "reactflow";
 import type { NodeData } from "../../nodes/BaseNode";
+import type { TaskMetrics } from "../../../types/backend";
 
 export interface NodeExecutionStatus {
   nodeId: string;
@@ -28,6 +30,10 @@ export interface NodeExecutionStatus {
     actualCpuUsage?: number;
     actualMemoryUsage?: number;
   };
+  tasks?: TaskMetrics[]; // Filled from trace.txt when tracing is enabled
+  cachedTasks?: number; // Tasks a resumed run took from the cache
+  retriedTasks?: string[]; // Failed tasks the error strategy resubmitted
+  ignoredTasks?: string[]; // Failed tasks the error strategy skipped
 }
 
 export interface WorkflowExecutionStatus {
@@ -54,6 +60,7 @@ interface ExecutionStatusPanelProps {
 
 const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({
   status,
+  onCancel,
   onClose,
   isVisible,
 }) => {
@@ -111,7 +118,16 @@ const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({
           </h3>
         </div>
         <div className="flex items-center gap-2">
-          {/* Cancel button removed - cancellation not fully working */}
+          {onCancel && status.isRunning && (
+            <button
+              onClick={onCancel}
+              className="flex items-center gap-1 text-xs text-white hover:text-gray-200 transition-colors px-1.5 py-0.5 rounded hover:bg-white/20"
+              title="Cancel workflow run"
+            >
+              <Square className="w-3 h-3" />
+              Cancel
+            </button>
+          )}
           {onClose && (
             <button
               onClick={onClose}
@@ -187,6 +203,30 @@ const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({
                 <span className="font-medium text-sm truncate text-gray-800">
                   {nodeStatus.nodeName}
                 </span>
+                {nodeStatus.cachedTasks ? (
+                  <span
+                    className="text-[10px] px-1.5 rounded bg-gray-200 text-gray-700"
+                    title="Reused from the previous run instead of recomputed"
+                  >
+                    {nodeStatus.cachedTasks} cached
+                  </span>
+                ) : null}
+                {nodeStatus.retriedTasks?.length ? (
+                  <span
+                    className="text-[10px] px-1.5 rounded bg-yellow-100 text-yellow-800"
+                    title={`Retried: ${nodeStatus.retriedTasks.join(", ")}`}
+                  >
+                    {nodeStatus.retriedTasks.length} retried
+                  </span>
+                ) : null}
+                {nodeStatus.ignoredTasks?.length ? (
+                  <span
+                    className="text-[10px] px-1.5 rounded bg-orange-100 text-orange-800"
+                    title={`Failed and ignored: ${nodeStatus.ignoredTasks.join(", ")}`}
+                  >
+                    {nodeStatus.ignoredTasks.length} ignored
+                  </span>
+                ) : null}
               </div>
               <span className="text-xs text-gray-700">
                 {formatDuration(nodeStatus.startTime, nodeStatus.endTime)}
@@ -236,6 +276,42 @@ const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({
               </div>
             )}
 
+            {/* Per-task metrics from the Nextflow trace */}
+            {nodeStatus.tasks && nodeStatus.tasks.length > 0 && (
+              <table className="w-full text-[11px] text-gray-700 mt-1">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="font-normal">Task</th>
+                    <th className="font-normal">Time</th>
+                    <th className="font-normal">CPU</th>
+                    <th className="font-normal">Peak RSS</th>
+                    <th className="font-normal">Exit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {nodeStatus.tasks.map((task) => (
+                    <tr
+                      key={task.taskId || task.hash}
+                      className={
+                        task.status === "FAILED" ? "text-red-600" : undefined
+                      }
+                      title={`${task.name} [${task.hash}] ${task.status}`}
+                    >
+                      <td className="truncate max-w-[7rem]">{task.name}</td>
+                      <td>{task.realtime ?? "--"}</td>
+                      <td>{task.cpu ?? "--"}</td>
+                      <td>{task.peakRss ?? "--"}</td>
+                      <td>
+                        {task.status === "CACHED"
+                          ? "cached"
+                          : (task.exit ?? "--")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
             {/* Error message */}
             {nodeStatus.status === "error" && nodeStatus.error && (
               <div className="text-xs text-red-600 mt-1 bg-red-50 p-1 rounded">
@@ -0,0 +1,247 @@
+import type React from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { Loader, RotateCcw } from "lucide-react";
+import Modal from "../dialogs/Modal";
+import {
+  getWorkflowRevision,
+  listWorkflowRevisions,
+} from "../../../api/workflowRevisions";
+import type {
+  WorkflowRevision,
+  WorkflowRevisionSummary,
+} from "../../../types/backend";
+import {
+  diffWorkflowGraphs,
+  isEmptyWorkflowDiff,
+} from "../../../utils/workflowDiff";
+import WorkflowDiffList from "./WorkflowDiffList";
+
+export interface RevisionBrowserProps {
+  workflowId: string;
+  readOnly?: boolean; // Built-in workflows can be browsed but not changed
+  onClose: () => void;
+  onSaveCheckpoint: (note: string) => Promise<void>;
+  onRestore: (revision: number) => Promise<void>;
+}
+
+const selectClassName =
+  "flex-1 p-1.5 text-sm border border-accent rounded-md bg-background focus:ring-2 focus:ring-nextflow-green focus:border-transparent";
+
+const formatRevision = (revision: WorkflowRevisionSummary): string =>
+  `#${revision.revision} · ${new Date(revision.createdAt).toLocaleString()}${
+    revision.author ? ` · ${revision.author}` : ""
+  }${revision.note ? ` · ${revision.note}` : ""}`;
+
+// Lists a workflow's revisions and diffs any two of them
+const RevisionBrowser: React.FC<RevisionBrowserProps> = ({
+  workflowId,
+  readOnly = false,
+  onClose,
+  onSaveCheckpoint,
+  onRestore,
+}) => {
+  const [revisions, setRevisions] = useState<WorkflowRevisionSummary[]>([]);
+  const [baseRevision, setBaseRevision] = useState<number | null>(null);
+  const [compareRevision, setCompareRevision] = useState<number | null>(null);
+  const [loaded, setLoaded] = useState<Map<number, WorkflowRevision>>(
+    () => new Map()
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const list = await listWorkflowRevisions(workflowId);
+      setRevisions(list);
+      // Newest first: compare the latest revision with the one before it
+      setCompareRevision(list[0]?.revision ?? null);
+      setBaseRevision(list[1]?.revision ?? list[0]?.revision ?? null);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load workflow revisions:", err);
+      setError("Failed to load the revision history.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workflowId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    const missing = [baseRevision, compareRevision].filter(
+      (revision): revision is number =>
+        revision !== null && !loaded.has(revision)
+    );
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      missing.map((revision) => getWorkflowRevision(workflowId, revision))
+    )
+      .then((fetched) => {
+        if (cancelled) return;
+        setLoaded((current) => {
+          const next = new Map(current);
+          fetched.forEach((revision) => next.set(revision.revision, revision));
+          return next;
+        });
+      })
+      .catch((err) => {
+        console.error("Failed to load workflow revision:", err);
+        if (!cancelled) setError("Failed to load the selected revisions.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workflowId, baseRevision, compareRevision, loaded]);
+
+  const base = baseRevision !== null ? loaded.get(baseRevision) : undefined;
+  const compare =
+    compareRevision !== null ? loaded.get(compareRevision) : undefined;
+  const diff = useMemo(
+    () =>
+      base && compare
+        ? diffWorkflowGraphs(
+            { nodes: base.nodes ?? [], edges: base.edges ?? [] },
+            { nodes: compare.nodes ?? [], edges: compare.edges ?? [] }
+          )
+        : null,
+    [base, compare]
+  );
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadRevisions();
+    } catch (err: any) {
+      console.error("Revision action failed:", err);
+      setError(
+        err?.response?.data?.message || err?.message || "The action failed."
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const revisionSelect = (
+    value: number | null,
+    onChange: (revision: number) => void
+  ) => (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={selectClassName}
+    >
+      {revisions.map((revision) => (
+        <option key={revision.revision} value={revision.revision}>
+          {formatRevision(revision)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const footer = (
+    <div className="flex space-x-2">
+      <button
+        onClick={onClose}
+        className="px-4 py-2 rounded-md bg-accent hover:bg-accent-hover text-text"
+      >
+        Close
+      </button>
+      {!readOnly && compareRevision !== null && (
+        <button
+          onClick={() => runAction(() => onRestore(compareRevision))}
+          disabled={isBusy || compareRevision === revisions[0]?.revision}
+          title={
+            compareRevision === revisions[0]?.revision
+              ? "This is the current revision"
+              : undefined
+          }
+          className="flex items-center gap-2 px-4 py-2 rounded-md bg-nextflow-green hover:bg-nextflow-green/90 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Restore #{compareRevision}
+        </button>
+      )}
+    </div>
+  );
+
+  const content = (
+    <Modal isOpen onClose={onClose} title="Version history" footer={footer}>
+      <div className="space-y-4">
+        {!readOnly && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for a new checkpoint, e.g. before changing trimming"
+              className={selectClassName}
+            />
+            <button
+              onClick={() =>
+                runAction(async () => {
+                  await onSaveCheckpoint(note);
+                  setNote("");
+                })
+              }
+              disabled={isBusy || !note.trim()}
+              className="px-3 py-1.5 text-sm rounded-md bg-accent hover:bg-accent-hover text-text disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save checkpoint
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {isLoading ? (
+          <p className="flex items-center gap-2 text-sm text-text-light">
+            <Loader className="w-4 h-4 animate-spin" /> Loading revisions...
+          </p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-text-light">
+            No revisions yet. Every save of this workflow adds one.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="w-16 text-text-light">From</span>
+                {revisionSelect(baseRevision, setBaseRevision)}
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="w-16 text-text-light">To</span>
+                {revisionSelect(compareRevision, setCompareRevision)}
+              </div>
+            </div>
+
+            {!diff ? (
+              <p className="text-sm text-text-light">Loading changes...</p>
+            ) : isEmptyWorkflowDiff(diff) ? (
+              <p className="text-sm text-text-light">
+                No structural changes between these revisions.
+              </p>
+            ) : (
+              <WorkflowDiffList diff={diff} />
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default RevisionBrowser;
@@ -0,0 +1,130 @@
+import type React from "react";
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import Modal from "../dialogs/Modal";
+import {
+  PARAMETER_TYPE_LABELS,
+  getParameterValueError,
+  type WorkflowParameter,
+} from "../../../utils/workflowParameters";
+
+export interface RunParametersDialogProps {
+  parameters: WorkflowParameter[];
+  // Values from the previous run win over the defaults
+  initialValues?: Record<string, string>;
+  onClose: () => void;
+  onRun: (values: Record<string, string>) => void;
+}
+
+const inputClassName =
+  "w-full p-2 border border-accent rounded-md bg-background focus:ring-2 focus:ring-nextflow-green focus:border-transparent";
+
+// Asks for the value of every Parameter node before a run is submitted
+const RunParametersDialog: React.FC<RunParametersDialogProps> = ({
+  parameters,
+  initialValues = {},
+  onClose,
+  onRun,
+}) => {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      parameters.map((parameter) => [
+        parameter.name,
+        initialValues[parameter.name] ?? parameter.defaultValue,
+      ])
+    )
+  );
+  const errors = new Map(
+    parameters.map((parameter) => [
+      parameter.name,
+      getParameterValueError(parameter.type, values[parameter.name] ?? ""),
+    ])
+  );
+  const hasErrors = Array.from(errors.values()).some(Boolean);
+
+  const setValue = (name: string, value: string) =>
+    setValues((current) => ({ ...current, [name]: value }));
+
+  const footer = (
+    <div className="flex space-x-2">
+      <button
+        onClick={onClose}
+        className="px-4 py-2 rounded-md bg-accent hover:bg-accent-hover text-text"
+      >
+        Cancel
+      </button>
+      <button
+        onClick={() => onRun(values)}
+        disabled={hasErrors}
+        className="px-4 py-2 rounded-md bg-nextflow-green hover:bg-nextflow-green/90 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Run
+      </button>
+    </div>
+  );
+
+  const content = (
+    <Modal isOpen onClose={onClose} title="Run with parameters" footer={footer}>
+      <div className="space-y-4">
+        {parameters.map((parameter) => {
+          const id = `run-param-${parameter.nodeId}`;
+          const error = errors.get(parameter.name);
+          return (
+            <div key={parameter.nodeId}>
+              {parameter.type === "boolean" ? (
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id={id}
+                    checked={values[parameter.name] === "true"}
+                    onChange={(e) =>
+                      setValue(parameter.name, String(e.target.checked))
+                    }
+                    className="h-4 w-4 rounded border-gray-300 text-nextflow-green focus:ring-nextflow-green"
+                  />
+                  <label htmlFor={id} className="ml-2 text-sm font-mono">
+                    params.{parameter.name}
+                  </label>
+                </div>
+              ) : (
+                <>
+                  <label
+                    htmlFor={id}
+                    className="flex items-baseline justify-between text-sm mb-1"
+                  >
+                    <span className="font-mono">params.{parameter.name}</span>
+                    <span className="text-xs text-text-light">
+                      {PARAMETER_TYPE_LABELS[parameter.type]}
+                    </span>
+                  </label>
+                  <input
+                    type={parameter.type === "number" ? "number" : "text"}
+                    id={id}
+                    value={values[parameter.name] ?? ""}
+                    onChange={(e) => setValue(parameter.name, e.target.value)}
+                    aria-invalid={Boolean(error)}
+                    className={inputClassName}
+                  />
+                </>
+              )}
+              {parameter.description && (
+                <p className="mt-1 text-xs text-text-light">
+                  {parameter.description}
+                </p>
+              )}
+              {error && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                  {error}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default RunParametersDialog;
@@ -0,0 +1,80 @@
+import type React from "react";
+import { createPortal } from "react-dom";
+import Modal from "../dialogs/Modal";
+import {
+  isEmptyWorkflowDiff,
+  type WorkflowDiff,
+} from "../../../utils/workflowDiff";
+import WorkflowDiffList from "./WorkflowDiffList";
+
+export interface SaveConflictDialogProps {
+  // What was saved elsewhere since this editor loaded the workflow
+  serverChanges: WorkflowDiff;
+  onMerge: () => void;
+  onOverwrite: () => void;
+  onReload: () => void;
+  onClose: () => void;
+}
+
+// Shown when a save is rejected because the workflow changed on the server
+const SaveConflictDialog: React.FC<SaveConflictDialogProps> = ({
+  serverChanges,
+  onMerge,
+  onOverwrite,
+  onReload,
+  onClose,
+}) => {
+  const footer = (
+    <div className="flex space-x-2">
+      <button
+        onClick={onReload}
+        title="Discard your unsaved changes and load the saved copy"
+        className="px-4 py-2 rounded-md bg-accent hover:bg-accent-hover text-text"
+      >
+        Reload
+      </button>
+      <button
+        onClick={onOverwrite}
+        title="Save your copy over the other changes"
+        className="px-4 py-2 rounded-md bg-red-600 hover:bg-red-700 text-white"
+      >
+        Overwrite
+      </button>
+      <button
+        onClick={onMerge}
+        title="Keep both sets of changes; yours win where both edited the same node"
+        className="px-4 py-2 rounded-md bg-nextflow-green hover:bg-nextflow-green/90 text-white"
+      >
+        Merge
+      </button>
+    </div>
+  );
+
+  const content = (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title="Workflow changed elsewhere"
+      footer={footer}
+    >
+      <div className="space-y-4">
+        <p className="text-sm">
+          Someone else saved this workflow after you opened it, so your
+          changes were not saved. Merge both sets of changes, overwrite theirs
+          with yours, or reload their version.
+        </p>
+        {isEmptyWorkflowDiff(serverChanges) ? (
+          <p className="text-sm text-text-light">
+            Their save changed only the name, settings or layout.
+          </p>
+        ) : (
+          <WorkflowDiffList diff={serverChanges} />
+        )}
+      </div>
+    </Modal>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default SaveConflictDialog;
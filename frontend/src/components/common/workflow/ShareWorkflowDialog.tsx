@@ -0,0 +1,179 @@
+import type React from "react";
+import { useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Loader, X } from "lucide-react";
+import Modal from "../dialogs/Modal";
+import {
+  listWorkflowShares,
+  shareWorkflow,
+  unshareWorkflow,
+} from "../../../api/workflowShares";
+import type { WorkflowShare, WorkflowShareRole } from "../../../types/backend";
+
+export interface ShareWorkflowDialogProps {
+  workflowId: string;
+  onClose: () => void;
+}
+
+const SHARE_ROLE_LABELS: Record<WorkflowShareRole, string> = {
+  viewer: "Viewer · open and duplicate",
+  runner: "Runner · also run",
+  editor: "Editor · also edit",
+};
+
+const inputClassName =
+  "p-1.5 text-sm border border-accent rounded-md bg-background focus:ring-2 focus:ring-nextflow-green focus:border-transparent";
+
+// Lets the owner of a workflow give other users a role on it
+const ShareWorkflowDialog: React.FC<ShareWorkflowDialogProps> = ({
+  workflowId,
+  onClose,
+}) => {
+  const [shares, setShares] = useState<WorkflowShare[]>([]);
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<WorkflowShareRole>("viewer");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadShares = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setShares(await listWorkflowShares(workflowId));
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load workflow shares:", err);
+      setError("Failed to load who this workflow is shared with.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workflowId]);
+
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  const runAction = async (action: () => Promise<WorkflowShare[]>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setShares(await action());
+      return true;
+    } catch (err: any) {
+      console.error("Share action failed:", err);
+      setError(
+        err?.response?.data?.message || err?.message || "The action failed."
+      );
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleShare = async () => {
+    const shared = await runAction(() =>
+      shareWorkflow(workflowId, username.trim(), role)
+    );
+    if (shared) setUsername("");
+  };
+
+  const roleSelect = (
+    value: WorkflowShareRole,
+    onChange: (role: WorkflowShareRole) => void
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as WorkflowShareRole)}
+      disabled={isBusy}
+      className={inputClassName}
+    >
+      {Object.entries(SHARE_ROLE_LABELS).map(([value, label]) => (
+        <option key={value} value={value}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+
+  const footer = (
+    <button
+      onClick={onClose}
+      className="px-4 py-2 rounded-md bg-accent hover:bg-accent-hover text-text"
+    >
+      Close
+    </button>
+  );
+
+  const content = (
+    <Modal isOpen onClose={onClose} title="Share workflow" footer={footer}>
+      <div className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleShare();
+          }}
+        >
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            aria-label="Username"
+            className={`flex-1 ${inputClassName}`}
+          />
+          {roleSelect(role, setRole)}
+          <button
+            type="submit"
+            disabled={isBusy || !username.trim()}
+            className="px-3 py-1.5 text-sm rounded-md bg-nextflow-green hover:bg-nextflow-green/90 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Share
+          </button>
+        </form>
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {isLoading ? (
+          <p className="flex items-center gap-2 text-sm text-text-light">
+            <Loader className="w-4 h-4 animate-spin" /> Loading...
+          </p>
+        ) : shares.length === 0 ? (
+          <p className="text-sm text-text-light">
+            Only you have access to this workflow.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {shares.map((share) => (
+              <li key={share.userId} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate">{share.username}</span>
+                {roleSelect(share.role, (nextRole) =>
+                  runAction(() =>
+                    shareWorkflow(workflowId, share.username, nextRole)
+                  )
+                )}
+                <button
+                  onClick={() =>
+                    runAction(() => unshareWorkflow(workflowId, share.userId))
+                  }
+                  disabled={isBusy}
+                  aria-label={`Stop sharing with ${share.username}`}
+                  title="Stop sharing"
+                  className="p-1.5 rounded-md hover:bg-accent-hover text-text-light disabled:opacity-50"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default ShareWorkflowDialog;
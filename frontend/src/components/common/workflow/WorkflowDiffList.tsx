@@ -0,0 +1,80 @@
+import type React from "react";
+import type {
+  WorkflowDiff,
+  WorkflowDiffEntry,
+} from "../../../utils/workflowDiff";
+
+export interface WorkflowDiffListProps {
+  diff: WorkflowDiff;
+}
+
+const DiffGroup: React.FC<{
+  title: string;
+  entries: WorkflowDiffEntry[];
+  className: string;
+  symbol: string;
+}> = ({ title, entries, className, symbol }) =>
+  entries.length === 0 ? null : (
+    <div>
+      <h5 className="text-xs font-semibold text-text-light uppercase">
+        {title}
+      </h5>
+      <ul className="mt-1 space-y-0.5 text-sm">
+        {entries.map((entry) => (
+          <li key={entry.id} className={className}>
+            <span className="font-mono">{symbol}</span> {entry.label}
+            {entry.changes.length > 0 && (
+              <span className="text-xs text-text-light">
+                {" "}
+                ({entry.changes.join(", ")})
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+// Added, removed and changed nodes and connections of a workflow diff
+const WorkflowDiffList: React.FC<WorkflowDiffListProps> = ({ diff }) => (
+  <div className="space-y-3 max-h-72 overflow-auto">
+    <DiffGroup
+      title="Added nodes"
+      entries={diff.nodes.added}
+      className="text-green-700 dark:text-green-400"
+      symbol="+"
+    />
+    <DiffGroup
+      title="Removed nodes"
+      entries={diff.nodes.removed}
+      className="text-red-600 dark:text-red-400"
+      symbol="−"
+    />
+    <DiffGroup
+      title="Changed nodes"
+      entries={diff.nodes.changed}
+      className="text-yellow-700 dark:text-yellow-400"
+      symbol="~"
+    />
+    <DiffGroup
+      title="Added connections"
+      entries={diff.edges.added}
+      className="text-green-700 dark:text-green-400"
+      symbol="+"
+    />
+    <DiffGroup
+      title="Removed connections"
+      entries={diff.edges.removed}
+      className="text-red-600 dark:text-red-400"
+      symbol="−"
+    />
+    <DiffGroup
+      title="Changed connections"
+      entries={diff.edges.changed}
+      className="text-yellow-700 dark:text-yellow-400"
+      symbol="~"
+    />
+  </div>
+);
+
+export default WorkflowDiffList;
@@ -2,8 +2,20 @@
 export { default as DockerSettings } from "./ExecutionSettings";
 export { default as WorkflowExecutionErrorNotification } from "./WorkflowExecutionErrorNotification";
 export { default as ExecutionStatusPanel } from "./ExecutionStatusPanel";
+export { default as RunParametersDialog } from "./RunParametersDialog";
+export { default as RevisionBrowser } from "./RevisionBrowser";
+export { default as SaveConflictDialog } from "./SaveConflictDialog";
+export { default as WorkflowDiffList } from "./WorkflowDiffList";
+export { default as ShareWorkflowDialog } from "./ShareWorkflowDialog";
+export { default as BundleImportReportDialog } from "./BundleImportReportDialog";
 
 // Re-export component types
 export type * from "./ExecutionSettings";
 export type * from "./WorkflowExecutionErrorNotification";
 export type * from "./ExecutionStatusPanel";
+export type * from "./RunParametersDialog";
+export type * from "./RevisionBrowser";
+export type * from "./SaveConflictDialog";
+export type * from "./WorkflowDiffList";
+export type * from "./ShareWorkflowDialog";
+export type * from "./BundleImportReportDialog";
@@ -3,6 +3,12 @@ import { memo, type ReactNode } from "react";
 import { DynamicIcon } from "../common";
 import clsx from "clsx";
 import type { SelectedFile } from "../../data/types";
+import type { BackoffStrategy, ErrorStrategy } from "../../types/execution";
+import type { ParameterType } from "../../utils/workflowParameters";
+import {
+  CHANNEL_SHAPE_LABELS,
+  type ChannelShape,
+} from "../../registry/channelShapes";
 
 export interface PortData {
   name: string;
@@ -10,6 +16,8 @@ export interface PortData {
   label?: string; // Display label for the port
   fileType?: string;
   filePattern?: string;
+  channelShape?: ChannelShape; // What each item on the channel looks like
+  optional?: boolean; // May stay unconnected, e.g. a setting with a value
 }
 
 export interface FileObject {
@@ -17,7 +25,9 @@ export interface FileObject {
   content: string;
   size: number;
   fileType?: string; // Detected file type
-  _id?: string; // Backend metadata ID (optional)
+  encoding?: "utf8" | "base64"; // base64 for binary/compressed inputs
+  _id?: string; // Backend file ID (optional)
+  hash?: string; // Set once the content is in the server-side file store
   order?: number; // Stable display/merge ordering metadata
 }
 
@@ -34,21 +44,43 @@ export interface NodeData {
   memoryUsage?: number;
   // Custom data properties
   files?: FileObject[];
+  inputMode?: "upload" | "path"; // File Input: browser uploads or a host path
+  serverPath?: string; // Path mode: directory on the backend host
+  pathGlob?: string; // Path mode: glob within serverPath, e.g. "*_R{1,2}.fastq.gz"
+  pairedReads?: boolean; // Path mode: emit read pairs via Channel.fromFilePairs
   selectedFiles?: SelectedFile[];
   selectedFilterFiles?: FileObject[]; // Files selected for filter operations
   fileContent?: string;
   processedContent?: string;
   // Operator-specific properties
   operatorType?: string; // Specifies which operator: 'filter', 'map', 'reduce'
+  operatorForm?: "process" | "native"; // Container process or channel operator
+  joinBy?: number; // Join: tuple index of the matching key
+  joinRemainder?: boolean; // Join: also emit unmatched items
+  combineBy?: number | ""; // Combine: key index, "" for all combinations
+  groupBy?: number; // Group Tuple: tuple index of the grouping key
+  groupSize?: number | ""; // Group Tuple: emit once a group has this many items
+  groupSort?: boolean; // Group Tuple: sort grouped items
+  collectFlat?: boolean; // Collect: flatten nested lists (default true)
+  branches?: { name: string; condition: string }[]; // Branch: one output per entry
   filterText?: string;
   isHighlight?: boolean;
   _hasWarning?: boolean; // Warning state (e.g., missing file content)
+  _validationErrors?: string[]; // Pre-run validation errors for this node
   previewUnavailable?: boolean;
   previewUnavailableReason?: string;
+  resultsRunId?: string; // Output Display: run whose published files are shown
+  paramName?: string; // Parameter: declared as params.<paramName>
+  paramType?: ParameterType;
+  paramDefault?: string; // Parameter: script default, edited as text
+  paramDescription?: string; // Parameter: shown in the Run with parameters dialog
   [key: string]: any; // Allow other properties
 
   // Process-specific properties
   processInputs?: { type: string; name: string }[];
+  errorStrategy?: ErrorStrategy; // Unset: the workflow's error handling applies
+  maxRetries?: number;
+  backoffStrategy?: BackoffStrategy;
 }
 
 const onMouseDown = (event: React.MouseEvent) => {
@@ -87,8 +119,16 @@ const BaseNode = ({
     "ease-in-out",
   ];
 
+  const validationErrors = data._validationErrors ?? [];
+
   // Conditional classes based on node state
-  if (data._hasWarning) {
+  if (validationErrors.length > 0) {
+    // Validation errors block Run, so they outrank warnings
+    nodeClasses.push("ring-2", "ring-red-500", "border-red-500");
+    if (selected || data.isHighlight) {
+      nodeClasses.push("shadow-lg", "shadow-red-500/50");
+    }
+  } else if (data._hasWarning) {
     // Warning state takes precedence: missing files or content
     nodeClasses.push(
       "ring-2",
@@ -148,9 +188,15 @@ const BaseNode = ({
           {port.label && (
             <div className="absolute right-3 top-1/2 -translate-y-1/2 whitespace-nowrap pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity bg-white px-1 py-0.5 rounded shadow-sm border z-10">
               <div className="text-xs text-gray-600">{port.label}</div>
-              {(port.fileType || port.filePattern) && (
+              {(port.fileType || port.filePattern || port.channelShape) && (
                 <div className="text-[10px] text-gray-400">
-                  {[port.fileType, port.filePattern].filter(Boolean).join(" ")}
+                  {[
+                    port.fileType,
+                    port.filePattern,
+                    port.channelShape && CHANNEL_SHAPE_LABELS[port.channelShape],
+                  ]
+                    .filter(Boolean)
+                    .join(" ")}
                 </div>
               )}
             </div>
@@ -205,6 +251,16 @@ const BaseNode = ({
         </div>
       )}
 
+      {/* Validation Error Indicator */}
+      {validationErrors.length > 0 && (
+        <div
+          className="absolute top-1.5 left-2 text-red-500"
+          title={validationErrors.join("\n")}
+        >
+          <DynamicIcon name="TriangleAlert" className="w-3.5 h-3.5" />
+        </div>
+      )}
+
       {/* Render children if they exist */}
       {children}
 
@@ -226,9 +282,15 @@ const BaseNode = ({
           {port.label && (
             <div className="absolute left-3 top-1/2 -translate-y-1/2 whitespace-nowrap pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity bg-white px-1 py-0.5 rounded shadow-sm border z-10">
               <div className="text-xs text-gray-600">{port.label}</div>
-              {(port.fileType || port.filePattern) && (
+              {(port.fileType || port.filePattern || port.channelShape) && (
                 <div className="text-[10px] text-gray-400">
-                  {[port.fileType, port.filePattern].filter(Boolean).join(" ")}
+                  {[
+                    port.fileType,
+                    port.filePattern,
+                    port.channelShape && CHANNEL_SHAPE_LABELS[port.channelShape],
+                  ]
+                    .filter(Boolean)
+                    .join(" ")}
                 </div>
               )}
             </div>
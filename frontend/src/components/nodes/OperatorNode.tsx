@@ -5,6 +5,7 @@ import BaseNode, { type NodeData } from "./BaseNode";
 import { useWorkflowContext } from "../../context/WorkflowContext";
 import { useOperatorLogic } from "../../hooks";
 import { getIncomingFiles } from "../../utils/workflowConnections";
+import { getNodeDefinitionByOperatorType } from "../../registry";
 
 const portsEqual = (
   current: NodeData["inputs"] | NodeData["outputs"],
@@ -45,9 +46,15 @@ const OperatorNode = (props: NodeProps<NodeData>) => {
   // Run operator logic to process files automatically using the registry
   useOperatorLogic(incomingFiles, data, operatorType, handleOperatorSave);
 
+  // Ports come from the operator's definition; some depend on its settings
+  const definition = operatorType
+    ? getNodeDefinitionByOperatorType(operatorType)
+    : undefined;
+
   useEffect(() => {
-    const nextInputs = [{ name: "in" }];
-    const nextOutputs = [{ name: "out", isConnectable: true }];
+    const nextInputs = definition?.inputs ?? [{ name: "in" }];
+    const nextOutputs = definition?.resolveOutputs?.(data) ??
+      definition?.outputs ?? [{ name: "out", isConnectable: true }];
 
     if (!portsEqual(data.inputs, nextInputs) || !portsEqual(data.outputs, nextOutputs)) {
       updateNodeData(id, {
@@ -55,7 +62,7 @@ const OperatorNode = (props: NodeProps<NodeData>) => {
         outputs: nextOutputs,
       });
     }
-  }, [data.inputs, data.outputs, id, updateNodeData]);
+  }, [data.inputs, data.outputs, data.branches, definition, id, updateNodeData]);
 
   // Set initial subtitle if it doesn't exist
   useEffect(() => {
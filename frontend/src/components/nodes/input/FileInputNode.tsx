@@ -3,27 +3,22 @@ import { useRef, useEffect, type ChangeEvent } from "react";
 import type { NodeProps } from "reactflow";
 import { useWorkflowContext } from "../../../context/WorkflowContext";
 import BaseNode, { type NodeData } from "../BaseNode";
-import { detectFileType } from "../../common";
 import clsx from "clsx";
-
-interface FileObject {
-  name: string;
-  content: string;
-  size: number;
-  fileType?: string; // Detected file type
-  _id?: string; // Backend metadata ID (optional)
-}
+import { hasFileData, loadInputFile } from "../../../utils/inputFiles";
 
 const FileInputNode: React.FC<NodeProps<NodeData>> = (props) => {
   const { id, data } = props;
   const { updateNodeData } = useWorkflowContext();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const isConnectable = !!data.files && data.files.length > 0;
+  const isPathMode = data.inputMode === "path";
+  const isConnectable = isPathMode
+    ? Boolean(data.serverPath)
+    : !!data.files && data.files.length > 0;
 
   // Check if files are missing content (reupload needed)
-  const filesWithoutContent = (data.files || []).filter(
-    (file) => !file.content || file.content.trim() === ""
-  );
+  const filesWithoutContent = isPathMode
+    ? []
+    : (data.files || []).filter((file) => !hasFileData(file));
   const hasFilesWithoutContent = filesWithoutContent.length > 0;
 
   useEffect(() => {
@@ -39,23 +34,7 @@ const FileInputNode: React.FC<NodeProps<NodeData>> = (props) => {
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = event.target.files;
     if (selectedFiles && selectedFiles.length > 0) {
-      const filePromises = Array.from(selectedFiles).map((file) => {
-        return new Promise<FileObject>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (e) => {
-            const content = e.target?.result as string;
-            const fileType = detectFileType(file.name);
-            resolve({
-              name: file.name,
-              content: content,
-              size: file.size,
-              fileType: fileType,
-            });
-          };
-          reader.onerror = reject;
-          reader.readAsText(file);
-        });
-      });
+      const filePromises = Array.from(selectedFiles).map(loadInputFile);
 
       Promise.all(filePromises)
         .then((newFiles) => {
@@ -111,7 +90,10 @@ const FileInputNode: React.FC<NodeProps<NodeData>> = (props) => {
   return (
     <BaseNode {...props} data={displayData}>
       <div className="nodrag nopan p-2 text-center">
-        {data.files && data.files.length > 0 ? (
+        {isPathMode ? (
+          // Path mode is configured in the properties panel
+          <span className="text-xs text-gray-500">Reads files on server</span>
+        ) : data.files && data.files.length > 0 ? (
           <button
             onClick={handleButtonClick}
             className="text-xs text-gray-500 hover:text-nextflow-green font-medium"
@@ -0,0 +1,29 @@
+import type React from "react";
+import type { NodeProps } from "reactflow";
+import BaseNode, { type NodeData } from "../BaseNode";
+import { PARAMETER_TYPE_LABELS } from "../../../utils/workflowParameters";
+
+const ParameterNode: React.FC<NodeProps<NodeData>> = (props) => {
+  const { data } = props;
+  const paramName = data.paramName?.trim();
+
+  const displayData = {
+    ...data,
+    label: paramName ? `params.${paramName}` : "Parameter",
+    subtitle: PARAMETER_TYPE_LABELS[data.paramType ?? "string"],
+    note: data.paramDefault ? `Default: ${data.paramDefault}` : undefined,
+    icon: "SlidersHorizontal",
+  };
+
+  return (
+    <BaseNode {...props} data={displayData}>
+      {!paramName && (
+        <div className="p-2 text-center">
+          <span className="text-xs text-gray-500">Open to name it</span>
+        </div>
+      )}
+    </BaseNode>
+  );
+};
+
+export default ParameterNode;
@@ -0,0 +1,29 @@
+import type React from "react";
+import type { NodeProps } from "reactflow";
+import BaseNode, { type NodeData } from "../BaseNode";
+import { hasFileData } from "../../../utils/inputFiles";
+
+const SampleSheetNode: React.FC<NodeProps<NodeData>> = (props) => {
+  const { data } = props;
+  const sheetFile = data.files?.[0];
+
+  const displayData = {
+    ...data,
+    label: data.label || "Sample Sheet",
+    icon: "Table",
+    // A saved sheet without stored content has to be uploaded again
+    _hasWarning: sheetFile ? !hasFileData(sheetFile) : false,
+  };
+
+  return (
+    <BaseNode {...props} data={displayData}>
+      {!sheetFile && (
+        <div className="p-2 text-center">
+          <span className="text-xs text-gray-500">Open to upload a CSV</span>
+        </div>
+      )}
+    </BaseNode>
+  );
+};
+
+export default SampleSheetNode;
@@ -0,0 +1,134 @@
+import type React from "react";
+import type { Node } from "reactflow";
+import type { NodeData } from "../../nodes/BaseNode";
+import { useWorkflowContext } from "../../../context/WorkflowContext";
+import { CheckboxField, InputField, SelectField } from "../../common";
+import {
+  PARAMETER_TYPE_LABELS,
+  getParameterNameError,
+  getParameterValueError,
+  getWorkflowParameters,
+  type ParameterType,
+} from "../../../utils/workflowParameters";
+
+const ParameterPanel: React.FC<{
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}> = ({ node, onSave }) => {
+  const { nodes } = useWorkflowContext();
+  const {
+    paramName = "",
+    paramType = "string",
+    paramDefault = "",
+    paramDescription = "",
+  } = node.data;
+  const nameError = getParameterNameError(
+    getWorkflowParameters(nodes),
+    node.id
+  );
+  const defaultError = paramDefault
+    ? getParameterValueError(paramType, paramDefault)
+    : null;
+
+  const handleTypeChange = (nextType: ParameterType) => {
+    onSave(node.id, {
+      paramType: nextType,
+      // A boolean default is stored as "true"/"false"
+      paramDefault:
+        nextType === "boolean"
+          ? String(paramDefault === "true")
+          : paramType === "boolean"
+          ? ""
+          : paramDefault,
+    });
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <p className="text-xs text-text-light">
+        Declares a workflow parameter that is asked for when the workflow is
+        run. Connect it to a custom node setting, or use{" "}
+        <code>params.{paramName || "name"}</code> in your own processes.
+      </p>
+
+      <div>
+        <InputField
+          label="Name"
+          id={`paramName-${node.id}`}
+          name="paramName"
+          value={paramName}
+          onChange={(e) => onSave(node.id, { paramName: e.target.value.trim() })}
+          placeholder="min_quality"
+        />
+        {nameError && (
+          <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+            {nameError}
+          </p>
+        )}
+      </div>
+
+      <SelectField
+        label="Type"
+        id={`paramType-${node.id}`}
+        name="paramType"
+        value={paramType}
+        onChange={(e) => handleTypeChange(e.target.value as ParameterType)}
+      >
+        {Object.entries(PARAMETER_TYPE_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </SelectField>
+
+      {paramType === "boolean" ? (
+        <CheckboxField
+          label="Enabled by default"
+          id={`paramDefault-${node.id}`}
+          name="paramDefault"
+          checked={paramDefault === "true"}
+          onChange={(e) =>
+            onSave(node.id, { paramDefault: String(e.target.checked) })
+          }
+        />
+      ) : (
+        <div>
+          <InputField
+            label="Default value"
+            id={`paramDefault-${node.id}`}
+            name="paramDefault"
+            type={paramType === "number" ? "number" : "text"}
+            value={paramDefault}
+            onChange={(e) => onSave(node.id, { paramDefault: e.target.value })}
+            placeholder={
+              paramType === "path" ? "/data/adapters/TruSeq3-PE.fa" : ""
+            }
+          />
+          {defaultError && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+              {defaultError}
+            </p>
+          )}
+        </div>
+      )}
+
+      <InputField
+        label="Description"
+        id={`paramDescription-${node.id}`}
+        name="paramDescription"
+        value={paramDescription}
+        onChange={(e) => onSave(node.id, { paramDescription: e.target.value })}
+        placeholder="Shown when the workflow is run"
+      />
+
+      {paramType === "path" && (
+        <p className="text-xs text-text-light">
+          Paths are read on the server (inside NWAVE_DATA_ROOTS when running in
+          Docker) and must exist when the run starts.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ParameterPanel;
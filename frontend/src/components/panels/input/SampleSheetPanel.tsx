@@ -0,0 +1,179 @@
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+import type { Node } from "reactflow";
+import { AlertTriangle, CheckCircle, Table, UploadCloud } from "lucide-react";
+import { useDropzone } from "react-dropzone";
+import type { NodeData } from "../../nodes/BaseNode";
+import { useWorkflowContext } from "../../../context/WorkflowContext";
+import { CsvViewer } from "../../common";
+import { loadInputFile } from "../../../utils/inputFiles";
+import {
+  SAMPLE_SHEET_STANDARD_COLUMNS,
+  parseSampleSheet,
+} from "../../../utils/sampleSheet";
+import { fetchStoredFileContent } from "../../../api/files";
+
+const SampleSheetPanel: React.FC<{
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}> = ({ node }) => {
+  const { updateNodeData } = useWorkflowContext();
+  const sheetFile = node.data.files?.[0];
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  // Saved workflows keep only the stored file reference, not its content
+  const [storedContent, setStoredContent] = useState<string | null>(null);
+
+  const sheetContent = sheetFile?.content || storedContent || "";
+
+  useEffect(() => {
+    setStoredContent(null);
+    if (!sheetFile?._id || sheetFile.content) return;
+
+    let cancelled = false;
+    fetchStoredFileContent(sheetFile._id)
+      .then((content) => {
+        if (!cancelled) setStoredContent(content);
+      })
+      .catch((err) => {
+        console.error("Failed to load the stored sample sheet:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sheetFile?._id, sheetFile?.content]);
+
+  const parsedSheet = useMemo(
+    () => (sheetContent ? parseSampleSheet(sheetContent) : null),
+    [sheetContent]
+  );
+  const pairedCount =
+    parsedSheet?.rows.filter((row) =>
+      row.single_end ? row.single_end.toLowerCase() === "false" : Boolean(row.fastq_2)
+    ).length ?? 0;
+  const metaColumns =
+    parsedSheet?.columns.filter(
+      (column) => !SAMPLE_SHEET_STANDARD_COLUMNS.includes(column)
+    ) ?? [];
+
+  const onDrop = async (acceptedFiles: File[]) => {
+    const [file] = acceptedFiles;
+    if (!file) return;
+
+    setError(null);
+    setIsUploading(true);
+    try {
+      const loadedFile = await loadInputFile(file);
+      const { rows, errors } = parseSampleSheet(loadedFile.content);
+      updateNodeData(node.id, {
+        files: [loadedFile],
+        label: `${rows.length} sample${rows.length === 1 ? "" : "s"}`,
+        subtitle: loadedFile.name,
+        outputs: [{ name: "samples", isConnectable: errors.length === 0 }],
+      });
+    } catch (err) {
+      setError("An error occurred while reading the sample sheet.");
+      console.error(err);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
+    onDrop,
+    noClick: true,
+    multiple: false,
+    accept: { "text/csv": [".csv"] },
+  });
+
+  return (
+    <div className="p-4 space-y-4">
+      <div
+        {...getRootProps()}
+        className={`flex flex-col items-center gap-2 p-4 rounded-lg border-2 border-dashed transition-colors ${
+          isDragActive
+            ? "border-nextflow-green bg-nextflow-green/10"
+            : "border-accent"
+        }`}
+      >
+        <input {...getInputProps()} />
+        <Table size={24} className="text-text-light" />
+        <p className="text-sm text-text-light text-center">
+          CSV with <code>sample</code>, <code>fastq_1</code>,{" "}
+          <code>fastq_2</code> and <code>single_end</code> columns. Extra
+          columns are added to each sample's meta map.
+        </p>
+        <button
+          onClick={open}
+          disabled={isUploading}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-nextflow-green-dark rounded-md hover:bg-nextflow-green disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <UploadCloud size={16} />
+          {isUploading
+            ? "Uploading..."
+            : sheetFile
+            ? "Replace Sample Sheet"
+            : "Upload Sample Sheet"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg dark:bg-red-900/20 dark:border-red-800">
+          <p className="text-red-600 text-sm dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {sheetFile && !sheetContent && (
+        <p className="text-sm text-text-light">Loading {sheetFile.name}...</p>
+      )}
+
+      {parsedSheet && parsedSheet.errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg dark:bg-red-900/20 dark:border-red-800">
+          <p className="flex items-center gap-2 text-red-600 text-sm font-medium dark:text-red-400">
+            <AlertTriangle size={14} />
+            {sheetFile?.name} is not a valid sample sheet
+          </p>
+          <ul className="mt-1 list-disc pl-5 text-xs text-red-600 dark:text-red-400">
+            {parsedSheet.errors.slice(0, 10).map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+          {parsedSheet.errors.length > 10 && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+              ...and {parsedSheet.errors.length - 10} more
+            </p>
+          )}
+        </div>
+      )}
+
+      {parsedSheet && parsedSheet.errors.length === 0 && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg dark:bg-green-900/20 dark:border-green-800">
+          <p className="flex items-center gap-2 text-green-700 text-sm dark:text-green-400">
+            <CheckCircle size={14} />
+            {parsedSheet.rows.length} sample
+            {parsedSheet.rows.length === 1 ? "" : "s"} ({pairedCount} paired-end)
+          </p>
+          {metaColumns.length > 0 && (
+            <p className="mt-1 text-xs text-green-700 dark:text-green-400">
+              Meta columns: {metaColumns.join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {sheetContent && (
+        <div className="max-h-64 overflow-auto bg-background-darker rounded-md">
+          <CsvViewer content={sheetContent} />
+        </div>
+      )}
+
+      <p className="text-xs text-text-light">
+        Read paths may be absolute paths on the server (inside
+        NWAVE_DATA_ROOTS when running in Docker), URLs, or names of files
+        uploaded through a File Input node.
+      </p>
+    </div>
+  );
+};
+
+export default SampleSheetPanel;
@@ -0,0 +1,169 @@
+import type React from "react";
+import { useState } from "react";
+import type { Node } from "reactflow";
+import { ArrowUp, File, Folder, FolderOpen } from "lucide-react";
+import type { NodeData } from "../../nodes/BaseNode";
+import { useWorkflowContext } from "../../../context/WorkflowContext";
+import { CheckboxField, InputField } from "../../common";
+import { browseServerPath } from "../../../api/files";
+import { isDemoMode } from "../../../api";
+import type { DataRootListing } from "../../../types/backend";
+
+/**
+ * Path mode of the File Input node: data that already lives on the backend
+ * host is read in place from a directory plus glob instead of being uploaded.
+ */
+const ServerPathInput: React.FC<{ node: Node<NodeData> }> = ({ node }) => {
+  const { updateNodeData } = useWorkflowContext();
+  const serverPath = node.data.serverPath || "";
+  const pathGlob = node.data.pathGlob || "";
+  const pairedReads = node.data.pairedReads ?? false;
+
+  const [listing, setListing] = useState<DataRootListing | null>(null);
+  const [isBrowsing, setIsBrowsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updatePathSettings = (changes: Partial<NodeData>) => {
+    const nextPath = changes.serverPath ?? serverPath;
+    const nextGlob = changes.pathGlob ?? pathGlob;
+    updateNodeData(node.id, {
+      ...changes,
+      label: nextPath ? "Server path" : "Select File(s)",
+      subtitle: nextPath
+        ? [nextPath.replace(/\/+$/, ""), nextGlob].filter(Boolean).join("/")
+        : undefined,
+      outputs: [{ name: "ch_files_out", isConnectable: Boolean(nextPath) }],
+    });
+  };
+
+  const browse = async (path?: string) => {
+    setIsBrowsing(true);
+    setError(null);
+    try {
+      setListing(await browseServerPath(path));
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.message || "Could not browse the server path."
+      );
+      console.error(err);
+    } finally {
+      setIsBrowsing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <InputField
+        label="Server Directory"
+        id={`serverPath-${node.id}`}
+        name="serverPath"
+        value={serverPath}
+        onChange={(e) => updatePathSettings({ serverPath: e.target.value })}
+        placeholder="/data/run42"
+      />
+      <InputField
+        label="File Pattern (glob)"
+        id={`pathGlob-${node.id}`}
+        name="pathGlob"
+        value={pathGlob}
+        onChange={(e) => updatePathSettings({ pathGlob: e.target.value })}
+        placeholder="*_R{1,2}.fastq.gz"
+      />
+      <CheckboxField
+        label="Paired reads (Channel.fromFilePairs)"
+        id={`pairedReads-${node.id}`}
+        name="pairedReads"
+        checked={pairedReads}
+        onChange={(e) => updatePathSettings({ pairedReads: e.target.checked })}
+      />
+
+      {!isDemoMode && (
+        <div className="space-y-2">
+          <button
+            onClick={() => browse(serverPath || undefined)}
+            disabled={isBrowsing}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-accent text-text rounded-lg hover:border-nextflow-green/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            <FolderOpen size={16} />
+            {isBrowsing ? "Loading..." : "Browse Server"}
+          </button>
+
+          {listing && (
+            <div className="bg-background-light rounded-lg border border-accent">
+              <div className="flex items-center justify-between gap-2 p-2 border-b border-accent">
+                <span
+                  className="text-xs text-text-light truncate"
+                  title={listing.path ?? undefined}
+                >
+                  {listing.path ?? "Data roots"}
+                </span>
+                {listing.path && (
+                  <button
+                    onClick={() => {
+                      updatePathSettings({ serverPath: listing.path ?? "" });
+                      setListing(null);
+                    }}
+                    className="text-xs text-nextflow-green hover:underline flex-shrink-0"
+                  >
+                    Use this directory
+                  </button>
+                )}
+              </div>
+              <div className="max-h-56 overflow-y-auto p-1">
+                {listing.path && (
+                  <button
+                    onClick={() => browse(listing.parent ?? undefined)}
+                    className="w-full flex items-center gap-2 px-2 py-1 text-sm text-text hover:bg-background rounded"
+                  >
+                    <ArrowUp size={14} />
+                    ..
+                  </button>
+                )}
+                {listing.entries.length === 0 && (
+                  <p className="text-xs text-text-light p-2">
+                    {listing.path
+                      ? "This directory is empty."
+                      : "No data roots are configured (NWAVE_DATA_ROOTS)."}
+                  </p>
+                )}
+                {listing.entries.map((entry) =>
+                  entry.type === "directory" ? (
+                    <button
+                      key={entry.path}
+                      onClick={() => browse(entry.path)}
+                      className="w-full flex items-center gap-2 px-2 py-1 text-sm text-text hover:bg-background rounded"
+                    >
+                      <Folder size={14} className="text-nextflow-green" />
+                      <span className="truncate">{entry.name}</span>
+                    </button>
+                  ) : (
+                    <div
+                      key={entry.path}
+                      className="flex items-center gap-2 px-2 py-1 text-sm text-text-light"
+                    >
+                      <File size={14} />
+                      <span className="truncate">{entry.name}</span>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg dark:bg-red-900/20 dark:border-red-800">
+          <p className="text-red-600 text-sm dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      <p className="text-xs text-text-light">
+        Files are read in place on the server when the workflow runs; nothing
+        is uploaded.
+      </p>
+    </div>
+  );
+};
+
+export default ServerPathInput;
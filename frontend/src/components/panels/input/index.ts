@@ -1,5 +1,7 @@
 // Input panel components
 export { default as FileInputPanel } from "./FileInputPanel";
+export { default as SampleSheetPanel } from "./SampleSheetPanel";
+export { default as ParameterPanel } from "./ParameterPanel";
 
 // Re-export types if any
 export type * from "./FileInputPanel";
@@ -0,0 +1,135 @@
+import type React from "react";
+import type { Node } from "reactflow";
+import { Plus, Trash2 } from "lucide-react";
+import type { NodeData } from "../../nodes/BaseNode";
+import { InputField } from "../../common";
+import {
+  BRANCH_NAME_PATTERN,
+  type BranchDefinition,
+} from "../../../generators/templates/channelOperators";
+import BaseOperatorPanel, {
+  type InjectedOperatorProps,
+} from "./BaseOperatorPanel";
+
+interface BranchPanelProps {
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}
+
+const getBranchNameError = (
+  branches: BranchDefinition[],
+  index: number
+): string | null => {
+  const { name } = branches[index];
+  if (!BRANCH_NAME_PATTERN.test(name)) {
+    return "Use letters, digits and underscores, starting with a letter.";
+  }
+  if (branches.findIndex((branch) => branch.name === name) !== index) {
+    return `"${name}" is already used by another branch.`;
+  }
+  return null;
+};
+
+const BranchPanelContent: React.FC<InjectedOperatorProps> = ({
+  nodeData = {},
+  handleDataChange = () => {},
+  node,
+}) => {
+  const branches: BranchDefinition[] = nodeData.branches || [];
+  const nodeId = node?.id || "unknown";
+
+  // Output ports follow the branch list (see the branch node definition)
+  const updateBranches = (nextBranches: BranchDefinition[]) =>
+    handleDataChange("branches", nextBranches);
+
+  const updateBranch = (index: number, changes: Partial<BranchDefinition>) =>
+    updateBranches(
+      branches.map((branch, branchIndex) =>
+        branchIndex === index ? { ...branch, ...changes } : branch
+      )
+    );
+
+  return (
+    <>
+      <p className="text-xs text-text-light">
+        Sends each item to the first branch whose Groovy condition is true, e.g.{" "}
+        <code>it.size() &lt; 1000000</code>. Use <code>true</code> for a
+        catch-all branch. Items matching no branch are dropped.
+      </p>
+
+      {branches.map((branch, index) => {
+        const nameError = getBranchNameError(branches, index);
+        return (
+          <div
+            // biome-ignore lint/suspicious/noArrayIndexKey: names are edited in place
+            key={index}
+            className="space-y-2 p-3 rounded-lg border border-accent"
+          >
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <InputField
+                  label="Output Name"
+                  id={`branchName-${nodeId}-${index}`}
+                  name="branchName"
+                  value={branch.name}
+                  onChange={(e) => updateBranch(index, { name: e.target.value })}
+                  placeholder="small"
+                />
+              </div>
+              <button
+                onClick={() =>
+                  updateBranches(
+                    branches.filter((_, branchIndex) => branchIndex !== index)
+                  )
+                }
+                disabled={branches.length <= 1}
+                title="Remove branch"
+                className="p-2 text-text-light hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            {nameError && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                {nameError}
+              </p>
+            )}
+            <InputField
+              label="Condition"
+              id={`branchCondition-${nodeId}-${index}`}
+              name="branchCondition"
+              value={branch.condition}
+              onChange={(e) =>
+                updateBranch(index, { condition: e.target.value })
+              }
+              placeholder="it.size() < 1000000"
+            />
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() =>
+          updateBranches([
+            ...branches,
+            { name: `branch_${branches.length + 1}`, condition: "true" },
+          ])
+        }
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-accent text-text rounded-lg hover:border-nextflow-green/50 transition-colors text-sm"
+      >
+        <Plus size={16} />
+        Add Branch
+      </button>
+    </>
+  );
+};
+
+const BranchPanel: React.FC<BranchPanelProps> = ({ node, onSave }) => {
+  return (
+    <BaseOperatorPanel node={node} onSave={onSave} title="Branch">
+      <BranchPanelContent />
+    </BaseOperatorPanel>
+  );
+};
+
+export default BranchPanel;
@@ -0,0 +1,47 @@
+import type React from "react";
+import type { Node } from "reactflow";
+import type { NodeData } from "../../nodes/BaseNode";
+import { CheckboxField } from "../../common";
+import BaseOperatorPanel, {
+  type InjectedOperatorProps,
+} from "./BaseOperatorPanel";
+
+interface CollectPanelProps {
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}
+
+const CollectPanelContent: React.FC<InjectedOperatorProps> = ({
+  nodeData = {},
+  handleDataChange = () => {},
+  node,
+}) => {
+  const { collectFlat = true } = nodeData;
+  const nodeId = node?.id || "unknown";
+
+  return (
+    <>
+      <p className="text-xs text-text-light">
+        Waits for every item and emits them as a single list, e.g. all reports
+        for a MultiQC-style summary step.
+      </p>
+      <CheckboxField
+        label="Flatten nested lists"
+        id={`collectFlat-${nodeId}`}
+        name="collectFlat"
+        checked={collectFlat}
+        onChange={(e) => handleDataChange("collectFlat", e.target.checked)}
+      />
+    </>
+  );
+};
+
+const CollectPanel: React.FC<CollectPanelProps> = ({ node, onSave }) => {
+  return (
+    <BaseOperatorPanel node={node} onSave={onSave} title="Collect">
+      <CollectPanelContent />
+    </BaseOperatorPanel>
+  );
+};
+
+export default CollectPanel;
@@ -0,0 +1,54 @@
+import type React from "react";
+import type { Node } from "reactflow";
+import type { NodeData } from "../../nodes/BaseNode";
+import { InputField } from "../../common";
+import BaseOperatorPanel, {
+  type InjectedOperatorProps,
+} from "./BaseOperatorPanel";
+
+interface CombinePanelProps {
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}
+
+const CombinePanelContent: React.FC<InjectedOperatorProps> = ({
+  nodeData = {},
+  handleDataChange = () => {},
+  node,
+}) => {
+  const { combineBy = "" } = nodeData;
+  const nodeId = node?.id || "unknown";
+
+  return (
+    <>
+      <p className="text-xs text-text-light">
+        Emits every pairing of left and right items, e.g. each sample with
+        each reference. Set a key index to only pair items sharing that key.
+      </p>
+      <InputField
+        label="Key Index (optional)"
+        id={`combineBy-${nodeId}`}
+        name="combineBy"
+        type="number"
+        value={String(combineBy)}
+        onChange={(e) =>
+          handleDataChange(
+            "combineBy",
+            e.target.value === "" ? "" : Number(e.target.value)
+          )
+        }
+        placeholder="All combinations"
+      />
+    </>
+  );
+};
+
+const CombinePanel: React.FC<CombinePanelProps> = ({ node, onSave }) => {
+  return (
+    <BaseOperatorPanel node={node} onSave={onSave} title="Combine">
+      <CombinePanelContent />
+    </BaseOperatorPanel>
+  );
+};
+
+export default CombinePanel;
@@ -0,0 +1,28 @@
+import type React from "react";
+import type { Node } from "reactflow";
+import type { NodeData } from "../../nodes/BaseNode";
+import BaseOperatorPanel, {
+  type InjectedOperatorProps,
+} from "./BaseOperatorPanel";
+
+interface FlattenPanelProps {
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}
+
+const FlattenPanelContent: React.FC<InjectedOperatorProps> = () => (
+  <p className="text-xs text-text-light">
+    Emits every element of incoming lists and tuples as a separate item, e.g.
+    to turn paired reads into individual files. There is nothing to configure.
+  </p>
+);
+
+const FlattenPanel: React.FC<FlattenPanelProps> = ({ node, onSave }) => {
+  return (
+    <BaseOperatorPanel node={node} onSave={onSave} title="Flatten">
+      <FlattenPanelContent />
+    </BaseOperatorPanel>
+  );
+};
+
+export default FlattenPanel;
@@ -0,0 +1,69 @@
+import type React from "react";
+import type { Node } from "reactflow";
+import type { NodeData } from "../../nodes/BaseNode";
+import { CheckboxField, InputField } from "../../common";
+import BaseOperatorPanel, {
+  type InjectedOperatorProps,
+} from "./BaseOperatorPanel";
+
+interface GroupTuplePanelProps {
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}
+
+const GroupTuplePanelContent: React.FC<InjectedOperatorProps> = ({
+  nodeData = {},
+  handleDataChange = () => {},
+  node,
+}) => {
+  const { groupBy = 0, groupSize = "", groupSort = false } = nodeData;
+  const nodeId = node?.id || "unknown";
+
+  return (
+    <>
+      <p className="text-xs text-text-light">
+        Collects tuples with the same key into one, e.g. all lanes of a
+        sample.
+      </p>
+      <InputField
+        label="Key Index"
+        id={`groupBy-${nodeId}`}
+        name="groupBy"
+        type="number"
+        value={String(groupBy)}
+        onChange={(e) => handleDataChange("groupBy", Number(e.target.value))}
+      />
+      <InputField
+        label="Group Size (optional)"
+        id={`groupSize-${nodeId}`}
+        name="groupSize"
+        type="number"
+        value={String(groupSize)}
+        onChange={(e) =>
+          handleDataChange(
+            "groupSize",
+            e.target.value === "" ? "" : Number(e.target.value)
+          )
+        }
+        placeholder="Emit when the channel completes"
+      />
+      <CheckboxField
+        label="Sort grouped items"
+        id={`groupSort-${nodeId}`}
+        name="groupSort"
+        checked={groupSort}
+        onChange={(e) => handleDataChange("groupSort", e.target.checked)}
+      />
+    </>
+  );
+};
+
+const GroupTuplePanel: React.FC<GroupTuplePanelProps> = ({ node, onSave }) => {
+  return (
+    <BaseOperatorPanel node={node} onSave={onSave} title="Group Tuple">
+      <GroupTuplePanelContent />
+    </BaseOperatorPanel>
+  );
+};
+
+export default GroupTuplePanel;
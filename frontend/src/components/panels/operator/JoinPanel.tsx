@@ -0,0 +1,55 @@
+import type React from "react";
+import type { Node } from "reactflow";
+import type { NodeData } from "../../nodes/BaseNode";
+import { CheckboxField, InputField } from "../../common";
+import BaseOperatorPanel, {
+  type InjectedOperatorProps,
+} from "./BaseOperatorPanel";
+
+interface JoinPanelProps {
+  node: Node<NodeData>;
+  onSave: (nodeId: string, data: Partial<NodeData>) => void;
+}
+
+const JoinPanelContent: React.FC<InjectedOperatorProps> = ({
+  nodeData = {},
+  handleDataChange = () => {},
+  node,
+}) => {
+  const { joinBy = 0, joinRemainder = false } = nodeData;
+  const nodeId = node?.id || "unknown";
+
+  return (
+    <>
+      <p className="text-xs text-text-light">
+        Pairs tuples from the left and right channels that share the same key,
+        e.g. reads and their index by sample id.
+      </p>
+      <InputField
+        label="Key Index"
+        id={`joinBy-${nodeId}`}
+        name="joinBy"
+        type="number"
+        value={String(joinBy)}
+        onChange={(e) => handleDataChange("joinBy", Number(e.target.value))}
+      />
+      <CheckboxField
+        label="Keep unmatched items (remainder)"
+        id={`joinRemainder-${nodeId}`}
+        name="joinRemainder"
+        checked={joinRemainder}
+        onChange={(e) => handleDataChange("joinRemainder", e.target.checked)}
+      />
+    </>
+  );
+};
+
+const JoinPanel: React.FC<JoinPanelProps> = ({ node, onSave }) => {
+  return (
+    <BaseOperatorPanel node={node} onSave={onSave} title="Join">
+      <JoinPanelContent />
+    </BaseOperatorPanel>
+  );
+};
+
+export default JoinPanel;
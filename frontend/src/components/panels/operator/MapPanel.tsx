@@ -21,6 +21,7 @@ const MapPanelContent: React.FC<InjectedOperatorProps> = ({
     mapChangeCase = "toUpperCase",
     mapReplaceFind = "",
     mapReplaceWith = "",
+    mapReplaceMode = "regex",
   } = nodeData;
 
   return (
@@ -59,6 +60,16 @@ const MapPanelContent: React.FC<InjectedOperatorProps> = ({
             onChange={(e) => handleDataChange("mapReplaceFind", e.target.value)}
             placeholder="Text to find"
           />
+          <SelectField
+            label="Match"
+            id="mapReplaceMode"
+            name="mapReplaceMode"
+            value={mapReplaceMode}
+            onChange={(e) => handleDataChange("mapReplaceMode", e.target.value)}
+          >
+            <option value="regex">Regular expression</option>
+            <option value="literal">Exact text</option>
+          </SelectField>
           <InputField
             label="Replace With"
             id="mapReplaceWith"
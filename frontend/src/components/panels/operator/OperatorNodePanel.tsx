@@ -2,6 +2,7 @@ import type React from "react";
 import type { Node } from "reactflow";
 import type { NodeData } from "../../nodes/BaseNode";
 import { getNodeDefinitionByOperatorType } from "../../../registry";
+import { SelectField } from "../../common";
 
 interface OperatorNodePanelProps {
   node: Node<NodeData>;
@@ -16,9 +17,11 @@ const OperatorNodePanel: React.FC<OperatorNodePanelProps> = ({
   // New nodes have type: "operator" with operatorType field
   const operatorType =
     node.type === "filter" ? "filter" : node.data.operatorType;
-  const PanelComponent = operatorType
-    ? getNodeDefinitionByOperatorType(operatorType)?.panel
+  const definition = operatorType
+    ? getNodeDefinitionByOperatorType(operatorType)
     : undefined;
+  const PanelComponent = definition?.panel;
+  const operatorForms = definition?.operatorForms ?? [];
 
   const renderOperatorContent = () => {
     if (PanelComponent) {
@@ -36,7 +39,37 @@ const OperatorNodePanel: React.FC<OperatorNodePanelProps> = ({
     );
   };
 
-  return <div className="space-y-6">{renderOperatorContent()}</div>;
+  return (
+    <div className="space-y-6">
+      {operatorForms.length > 1 && (
+        <div className="space-y-1">
+          <SelectField
+            label="Run As"
+            id={`operatorForm-${node.id}`}
+            name="operatorForm"
+            value={node.data.operatorForm || operatorForms[0]}
+            onChange={(e) =>
+              onSave(node.id, {
+                operatorForm: e.target.value as NodeData["operatorForm"],
+              })
+            }
+          >
+            {operatorForms.includes("process") && (
+              <option value="process">Process (container task)</option>
+            )}
+            {operatorForms.includes("native") && (
+              <option value="native">Native channel operator</option>
+            )}
+          </SelectField>
+          <p className="text-xs text-text-light">
+            Native operators run inside the workflow itself, without starting a
+            container for each file.
+          </p>
+        </div>
+      )}
+      {renderOperatorContent()}
+    </div>
+  );
 };
 
 export default OperatorNodePanel;
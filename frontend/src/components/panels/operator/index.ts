@@ -4,6 +4,12 @@ export { default as BaseOperatorPanel } from "./BaseOperatorPanel";
 export { default as FilterPanel } from "./FilterPanel";
 export { default as MapPanel } from "./MapPanel";
 export { default as MergePanel } from "./MergePanel";
+export { default as JoinPanel } from "./JoinPanel";
+export { default as CombinePanel } from "./CombinePanel";
+export { default as GroupTuplePanel } from "./GroupTuplePanel";
+export { default as CollectPanel } from "./CollectPanel";
+export { default as FlattenPanel } from "./FlattenPanel";
+export { default as BranchPanel } from "./BranchPanel";
 
 // Re-export types if any
 export type * from "./OperatorNodePanel";
@@ -11,3 +17,9 @@ export type * from "./BaseOperatorPanel";
 export type * from "./FilterPanel";
 export type * from "./MapPanel";
 export type * from "./MergePanel";
+export type * from "./JoinPanel";
+export type * from "./CombinePanel";
+export type * from "./GroupTuplePanel";
+export type * from "./CollectPanel";
+export type * from "./FlattenPanel";
+export type * from "./BranchPanel";
@@ -2,8 +2,16 @@ import type React from "react";
 import { useState, useMemo, useEffect } from "react";
 import type { Node } from "reactflow";
 import { Download, Info } from "lucide-react";
-import type { NodeData } from "../../nodes/BaseNode";
+import type { FileObject, NodeData } from "../../nodes/BaseNode";
 import { FileViewer, detectFileType } from "../../common";
+import { isBinaryFileType } from "../../../utils/inputFiles";
+import { getOutputDisplayResultsDir } from "../../../generators/templates/outputs";
+import {
+  fetchRunResultFile,
+  getRunResultFileUrl,
+  getRunResults,
+} from "../../../api/runs";
+import type { RunResultEntry } from "../../../types/backend";
 
 interface OutputDisplayPanelContentProps {
   node: Node<NodeData> | null;
@@ -14,6 +22,19 @@ const getContentTypeForFile = (fileName: string): string => {
   return detectFileType(fileName);
 };
 
+// Larger published files are offered for download instead of being previewed
+const MAX_RESULT_PREVIEW_BYTES = 5 * 1024 * 1024;
+
+interface RunResultFile extends FileObject {
+  path: string; // Relative to the run's results directory
+  previewable: boolean;
+}
+
+const collectResultFiles = (entries: RunResultEntry[]): RunResultEntry[] =>
+  entries.flatMap((entry) =>
+    entry.type === "directory" ? collectResultFiles(entry.children ?? []) : [entry]
+  );
+
 const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
   node,
   onNodeDataChange,
@@ -26,8 +47,90 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
     node?.data?.downloadFormat || "txt"
   );
 
-  const files = node?.data?.files || [];
-  const previewUnavailable = Boolean(node?.data?.previewUnavailable);
+  // Set by the workflow page after a successful run
+  const resultsRunId: string | undefined = node?.data?.resultsRunId;
+  const nodeId = node?.id;
+  const [runFiles, setRunFiles] = useState<RunResultFile[] | null>(null);
+  const [isLoadingResults, setIsLoadingResults] = useState(false);
+  const [resultsError, setResultsError] = useState<string | null>(null);
+  // Run results are browsed separately so the choice does not change how the
+  // node is generated (selectedFileName picks collected vs. per-file output)
+  const [selectedResultName, setSelectedResultName] = useState("all");
+
+  useEffect(() => {
+    if (!resultsRunId || !nodeId) {
+      setRunFiles(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRunResults = async () => {
+      setIsLoadingResults(true);
+      setResultsError(null);
+      try {
+        const listing = await getRunResults(resultsRunId);
+        const resultsDir = getOutputDisplayResultsDir(nodeId);
+        const nodeDirectory = listing.entries.find(
+          (entry) => entry.type === "directory" && entry.path === resultsDir
+        );
+        const loadedFiles = await Promise.all(
+          collectResultFiles(nodeDirectory?.children ?? []).map(
+            async (entry, index): Promise<RunResultFile> => {
+              const name = entry.path.slice(resultsDir.length + 1);
+              const fileType = detectFileType(name);
+              const previewable =
+                !isBinaryFileType(fileType) &&
+                (entry.size ?? 0) <= MAX_RESULT_PREVIEW_BYTES;
+              return {
+                name,
+                path: entry.path,
+                size: entry.size ?? 0,
+                fileType,
+                order: index,
+                previewable,
+                content: previewable
+                  ? await fetchRunResultFile(resultsRunId, entry.path)
+                  : "",
+              };
+            }
+          )
+        );
+        if (!cancelled) {
+          setRunFiles(loadedFiles);
+          setSelectedResultName("all");
+        }
+      } catch (err: any) {
+        console.error("Failed to load run results:", err);
+        if (!cancelled) {
+          setRunFiles(null);
+          setResultsError(
+            err?.response?.data?.message || "Could not load the run results."
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoadingResults(false);
+        }
+      }
+    };
+
+    loadRunResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [resultsRunId, nodeId]);
+
+  const showingRunResults = runFiles !== null;
+  const activeSelection = showingRunResults
+    ? selectedResultName
+    : selectedFileName;
+  const setActiveSelection = showingRunResults
+    ? setSelectedResultName
+    : setSelectedFileName;
+
+  const files: FileObject[] = runFiles ?? node?.data?.files ?? [];
+  const previewUnavailable =
+    !showingRunResults && Boolean(node?.data?.previewUnavailable);
   const previewUnavailableReason =
     node?.data?.previewUnavailableReason ||
     "The connected upstream node does not provide browser preview output. Run the workflow to produce real results.";
@@ -58,34 +161,51 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
     }
   }, [selectedFileName, downloadFormat, node, onNodeDataChange]);
 
+  const selectedRunFile =
+    activeSelection === "all"
+      ? undefined
+      : runFiles?.find((file) => file.name === activeSelection);
+
   const displayedContent = useMemo(() => {
-    if (selectedFileName === "all") {
+    if (activeSelection === "all") {
       return orderedFiles
+        .filter((file) => (file as RunResultFile).previewable !== false)
         .map((file) => `--- FILE: ${file.name} ---\n\n${file.content}`)
         .join("\n\n");
     }
-    const selectedFile = orderedFiles.find((file) => file.name === selectedFileName);
+    const selectedFile = orderedFiles.find((file) => file.name === activeSelection);
     return selectedFile?.content || "";
-  }, [orderedFiles, selectedFileName]);
+  }, [orderedFiles, activeSelection]);
 
   const contentType = useMemo(() => {
-    if (selectedFileName === "all") {
+    if (activeSelection === "all") {
       return "text";
     }
-    const selectedFile = orderedFiles.find((file) => file.name === selectedFileName);
+    const selectedFile = orderedFiles.find((file) => file.name === activeSelection);
     return selectedFile ? getContentTypeForFile(selectedFile.name) : "text";
-  }, [displayedContent, selectedFileName, orderedFiles]);
+  }, [displayedContent, activeSelection, orderedFiles]);
 
   const handleDownload = () => {
     if (!node) return;
 
+    // Published files are downloaded as they are from the server
+    if (resultsRunId && selectedRunFile) {
+      const link = document.createElement("a");
+      link.href = getRunResultFileUrl(resultsRunId, selectedRunFile.path, true);
+      link.download = selectedRunFile.name.split("/").pop() || "result";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      return;
+    }
+
     let blob: Blob;
     const fileExtension = downloadFormat;
     const contentToDownload = displayedContent;
     let fileName = `${node.data.label || `output_${node.id}`}`;
 
-    if (selectedFileName !== "all") {
-      fileName += `_${selectedFileName}`;
+    if (activeSelection !== "all") {
+      fileName += `_${activeSelection}`;
     }
     fileName += `.${fileExtension}`;
 
@@ -136,6 +256,31 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
       );
     }
 
+    if (isLoadingResults) {
+      return (
+        <div className="p-4 text-center text-text-light">
+          Loading run results...
+        </div>
+      );
+    }
+
+    if (selectedRunFile && !selectedRunFile.previewable) {
+      return (
+        <div className="p-4 text-center text-text-light">
+          {selectedRunFile.name} is too large or not text, so it is not
+          previewed. Use the download button to get it.
+        </div>
+      );
+    }
+
+    if (showingRunResults && files.length === 0) {
+      return (
+        <div className="p-4 text-center text-text-light">
+          The last run published no files for this node.
+        </div>
+      );
+    }
+
     if (!displayedContent) {
       return (
         <div className="p-4 text-center text-text-light">
@@ -145,7 +290,7 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
     }
 
     const fileName =
-      selectedFileName === "all" ? "combined.txt" : selectedFileName;
+      activeSelection === "all" ? "combined.txt" : activeSelection;
     return (
       <FileViewer
         content={displayedContent}
@@ -161,6 +306,15 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
 
   return (
     <div className="h-full flex flex-col space-y-4">
+      {(showingRunResults || resultsError) && (
+        <p
+          className={`flex-shrink-0 text-xs ${
+            resultsError ? "text-red-500" : "text-text-light"
+          }`}
+        >
+          {resultsError ?? "Showing the files published by the last run."}
+        </p>
+      )}
       <div className="flex-shrink-0 grid grid-cols-2 gap-4">
         <div>
           <label htmlFor="file-selector" className="text-sm mb-1 block">
@@ -168,8 +322,8 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
           </label>
           <select
             id="file-selector"
-            value={selectedFileName}
-            onChange={(e) => setSelectedFileName(e.target.value)}
+            value={activeSelection}
+            onChange={(e) => setActiveSelection(e.target.value)}
             className="w-full rounded-md border-gray-600 bg-accent text-text p-2 focus:border-nextflow-green focus:ring-nextflow-green"
             disabled={previewUnavailable || files.length === 0}
           >
@@ -194,10 +348,10 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
               disabled={previewUnavailable}
             >
               <option value="txt">Text</option>
-              <option value="csv" disabled={selectedFileName === "all"}>
+              <option value="csv" disabled={activeSelection === "all"}>
                 CSV
               </option>
-              <option value="json" disabled={selectedFileName === "all"}>
+              <option value="json" disabled={activeSelection === "all"}>
                 JSON
               </option>
             </select>
@@ -205,7 +359,9 @@ const OutputDisplayPanelContent: React.FC<OutputDisplayPanelContentProps> = ({
               onClick={handleDownload}
               className="p-2 text-text bg-accent hover:bg-accent-hover rounded-r-md"
               aria-label="Download Output"
-              disabled={previewUnavailable || !displayedContent}
+              disabled={
+                previewUnavailable || (!displayedContent && !selectedRunFile)
+              }
             >
               <Download size={18} />
             </button>
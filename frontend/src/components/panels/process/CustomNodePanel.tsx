@@ -2,6 +2,7 @@ import type React from "react";
 import type { Node } from "reactflow";
 import type { NodeData } from "../../nodes/BaseNode";
 import type { CustomNodeInput } from "../../../registry/customNodes";
+import { useWorkflowContext } from "../../../context/WorkflowContext";
 
 interface CustomNodePanelProps {
   node: Node<NodeData>;
@@ -13,6 +14,18 @@ const CustomNodePanel: React.FC<CustomNodePanelProps> = ({ node, onSave }) => {
     ? (node.data.customNodeValueInputs as CustomNodeInput[])
     : [];
   const values = node.data.customNodeValues ?? {};
+  const { nodes, edges } = useWorkflowContext();
+
+  // Parameter node connected to a setting's port, if any
+  const getConnectedParameter = (name: string): Node<NodeData> | undefined => {
+    const edge = edges.find(
+      (candidate) =>
+        candidate.target === node.id && candidate.targetHandle === name
+    );
+    return edge
+      ? nodes.find((candidate) => candidate.id === edge.source)
+      : undefined;
+  };
 
   const handleValueChange = (name: string, value: string) => {
     onSave(node.id, {
@@ -37,18 +50,34 @@ const CustomNodePanel: React.FC<CustomNodePanelProps> = ({ node, onSave }) => {
       {valueInputs.length > 0 ? (
         <div className="space-y-3">
           <h4 className="text-sm font-semibold text-text">Settings</h4>
-          {valueInputs.map((input) => (
-            <div key={input.name}>
-              <label className="mb-1 block text-sm font-medium text-text">
-                {input.label || input.name}
-              </label>
-              <CustomSettingControl
-                input={input}
-                value={String(values[input.name] ?? input.defaultValue ?? "")}
-                onChange={(value) => handleValueChange(input.name, value)}
-              />
-            </div>
-          ))}
+          {valueInputs.map((input) => {
+            const parameter = getConnectedParameter(input.name);
+            return (
+              <div key={input.name}>
+                <label className="mb-1 block text-sm font-medium text-text">
+                  {input.label || input.name}
+                </label>
+                {parameter ? (
+                  <p className="rounded-md border border-accent bg-background/60 p-2 text-sm text-text-light">
+                    Set at run time by{" "}
+                    <code>
+                      {parameter.data.paramName
+                        ? `params.${parameter.data.paramName}`
+                        : parameter.data.label || parameter.id}
+                    </code>
+                  </p>
+                ) : (
+                  <CustomSettingControl
+                    input={input}
+                    value={String(
+                      values[input.name] ?? input.defaultValue ?? ""
+                    )}
+                    onChange={(value) => handleValueChange(input.name, value)}
+                  />
+                )}
+              </div>
+            );
+          })}
         </div>
       ) : (
         <p className="rounded-md border border-accent bg-background/60 p-3 text-sm text-text-light">
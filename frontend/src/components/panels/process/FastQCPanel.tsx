@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import ResourceSettingsPanel from "../shared/ResourceSettingsPanel";
+import type { NodeErrorHandling } from "../shared/ErrorHandlingSettings";
 import type { Node } from "reactflow";
 import { ClipboardCheck, Info, FileText, Archive } from "lucide-react";
 import type { NodeData } from "../../nodes/BaseNode";
@@ -28,6 +29,11 @@ const FastQCPanel: React.FC<FastQCPanelProps> = ({ node, onSave }) => {
   const [overrideResources, setOverrideResources] = useState<boolean>(
     node.data.overrideResources || false
   );
+  const [errorHandling, setErrorHandling] = useState<NodeErrorHandling>({
+    errorStrategy: node.data.errorStrategy,
+    maxRetries: node.data.maxRetries,
+    backoffStrategy: node.data.backoffStrategy,
+  });
 
   const handleSave = () => {
     const updateData = {
@@ -43,6 +49,9 @@ const FastQCPanel: React.FC<FastQCPanelProps> = ({ node, onSave }) => {
       cpus: overrideResources ? cpus : undefined,
       memory: overrideResources ? memory : undefined,
       timeLimit: overrideResources ? timeLimit : undefined,
+      errorStrategy: errorHandling.errorStrategy,
+      maxRetries: errorHandling.maxRetries,
+      backoffStrategy: errorHandling.backoffStrategy,
       // Update labels based on configuration
       label: "FastQC",
       subtitle: `Quality Control${
@@ -69,6 +78,7 @@ const FastQCPanel: React.FC<FastQCPanelProps> = ({ node, onSave }) => {
     memory,
     timeLimit,
     overrideResources,
+    errorHandling,
   ]);
 
   return (
@@ -206,6 +216,8 @@ const FastQCPanel: React.FC<FastQCPanelProps> = ({ node, onSave }) => {
         setTimeLimit={setTimeLimit}
         overrideResources={overrideResources}
         setOverrideResources={setOverrideResources}
+        errorHandling={errorHandling}
+        setErrorHandling={setErrorHandling}
       />
 
       {/* Output Information */}
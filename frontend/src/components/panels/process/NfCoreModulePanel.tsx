@@ -2,6 +2,9 @@ import React, { useState } from "react";
 import type { Node } from "reactflow";
 import type { NodeData } from "../../nodes/BaseNode";
 import { MemoryInput, TimeInput } from "../../common/forms";
+import ErrorHandlingSettings, {
+  type NodeErrorHandling,
+} from "../shared/ErrorHandlingSettings";
 
 interface NfCoreModulePanelProps {
   node: Node<NodeData>;
@@ -29,6 +32,11 @@ const NfCoreModulePanel: React.FC<NfCoreModulePanelProps> = ({
   const [overrideResources, setOverrideResources] = useState(
     Boolean(node.data.overrideResources)
   );
+  const [errorHandling, setErrorHandling] = useState<NodeErrorHandling>({
+    errorStrategy: node.data.errorStrategy,
+    maxRetries: node.data.maxRetries,
+    backoffStrategy: node.data.backoffStrategy,
+  });
 
   React.useEffect(() => {
     onSave(node.id, {
@@ -38,12 +46,16 @@ const NfCoreModulePanel: React.FC<NfCoreModulePanelProps> = ({
       memory: supportsResources && overrideResources ? memory : undefined,
       timeLimit:
         supportsResources && overrideResources ? timeLimit : undefined,
+      errorStrategy: errorHandling.errorStrategy,
+      maxRetries: errorHandling.maxRetries,
+      backoffStrategy: errorHandling.backoffStrategy,
       subtitle: node.data.nwaveNfCoreNeedsReview
         ? "nf-core module - review adapter"
         : "nf-core module",
     });
   }, [
     cpus,
+    errorHandling,
     extArgs,
     memory,
     node.data.nwaveNfCoreNeedsReview,
@@ -163,6 +175,14 @@ const NfCoreModulePanel: React.FC<NfCoreModulePanelProps> = ({
           )}
         </div>
       )}
+
+      <div className="border-t border-accent pt-4 space-y-3">
+        <h4 className="text-sm font-semibold text-text">Error handling</h4>
+        <ErrorHandlingSettings
+          value={errorHandling}
+          onChange={setErrorHandling}
+        />
+      </div>
     </div>
   );
 };
@@ -4,6 +4,9 @@ import type { Node } from "reactflow";
 import type { NodeData } from "../../nodes/BaseNode";
 import MemoryInput from "../../common/forms/MemoryInput";
 import TimeInput from "../../common/forms/TimeInput";
+import ErrorHandlingSettings, {
+  type NodeErrorHandling,
+} from "../shared/ErrorHandlingSettings";
 
 interface TrimmomaticPanelProps {
   node: Node<NodeData>;
@@ -33,6 +36,11 @@ const TrimmomaticPanel: React.FC<TrimmomaticPanelProps> = ({
   const [cpus, setCpus] = useState(node.data.cpus ?? 4);
   const [memory, setMemory] = useState(node.data.memory ?? "4.GB");
   const [timeLimit, setTimeLimit] = useState(node.data.timeLimit ?? "4.h");
+  const [errorHandling, setErrorHandling] = useState<NodeErrorHandling>({
+    errorStrategy: node.data.errorStrategy,
+    maxRetries: node.data.maxRetries,
+    backoffStrategy: node.data.backoffStrategy,
+  });
 
   const handleSave = () => {
     const updateData = {
@@ -48,6 +56,9 @@ const TrimmomaticPanel: React.FC<TrimmomaticPanelProps> = ({
       cpus,
       memory,
       timeLimit,
+      errorStrategy: errorHandling.errorStrategy,
+      maxRetries: errorHandling.maxRetries,
+      backoffStrategy: errorHandling.backoffStrategy,
       // Update labels based on configuration
       label: "Trimmomatic",
       subtitle: `Quality Trimming | MinLen: ${minlen} | ${memory} RAM`,
@@ -72,6 +83,7 @@ const TrimmomaticPanel: React.FC<TrimmomaticPanelProps> = ({
     cpus,
     memory,
     timeLimit,
+    errorHandling,
   ]);
 
   return (
@@ -277,6 +289,10 @@ const TrimmomaticPanel: React.FC<TrimmomaticPanelProps> = ({
               Maximum execution time before timeout
             </p>
           </div>
+          <ErrorHandlingSettings
+            value={errorHandling}
+            onChange={setErrorHandling}
+          />
         </div>
       </div>
 
@@ -0,0 +1,118 @@
+import type React from "react";
+import type { NodeData } from "../../nodes/BaseNode";
+import type { BackoffStrategy, ErrorStrategy } from "../../../types/execution";
+
+export type NodeErrorHandling = Pick<
+  NodeData,
+  "errorStrategy" | "maxRetries" | "backoffStrategy"
+>;
+
+interface ErrorHandlingSettingsProps {
+  value: NodeErrorHandling;
+  onChange: (value: NodeErrorHandling) => void;
+}
+
+const ERROR_STRATEGY_OPTIONS: { value: ErrorStrategy; label: string }[] = [
+  { value: "terminate", label: "Terminate on first error" },
+  { value: "ignore", label: "Ignore errors and continue" },
+  { value: "retry", label: "Retry failed tasks" },
+  { value: "finish", label: "Finish running tasks then stop" },
+];
+
+const BACKOFF_OPTIONS: { value: BackoffStrategy; label: string }[] = [
+  { value: "exponential", label: "Exponential (1s, 2s, 4s, ...)" },
+  { value: "linear", label: "Linear (1s, 2s, 3s, ...)" },
+  { value: "fixed", label: "Fixed (1s)" },
+];
+
+const fieldClassName =
+  "w-full p-2 border border-accent rounded-md bg-background focus:ring-2 focus:ring-nextflow-green focus:border-transparent";
+
+// Per-node override of the workflow's error handling execution settings
+const ErrorHandlingSettings: React.FC<ErrorHandlingSettingsProps> = ({
+  value,
+  onChange,
+}) => {
+  const handleStrategyChange = (strategy: string) => {
+    if (!strategy) {
+      onChange({});
+      return;
+    }
+    onChange({
+      errorStrategy: strategy as ErrorStrategy,
+      maxRetries: strategy === "retry" ? (value.maxRetries ?? 2) : undefined,
+      backoffStrategy:
+        strategy === "retry"
+          ? (value.backoffStrategy ?? "exponential")
+          : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-text mb-1">
+          On task failure
+        </label>
+        <select
+          value={value.errorStrategy ?? ""}
+          onChange={(e) => handleStrategyChange(e.target.value)}
+          className={fieldClassName}
+        >
+          <option value="">Workflow default</option>
+          {ERROR_STRATEGY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {value.errorStrategy === "retry" && (
+        <div className="flex flex-row flex-wrap gap-2">
+          <div className="flex-1 min-w-[120px]">
+            <label className="block text-sm font-medium text-text mb-1">
+              Max retries
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="10"
+              value={value.maxRetries ?? 2}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  maxRetries: Math.max(0, Number.parseInt(e.target.value) || 0),
+                })
+              }
+              className={fieldClassName}
+            />
+          </div>
+          <div className="flex-1 min-w-[120px]">
+            <label className="block text-sm font-medium text-text mb-1">
+              Backoff
+            </label>
+            <select
+              value={value.backoffStrategy ?? "exponential"}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  backoffStrategy: e.target.value as BackoffStrategy,
+                })
+              }
+              className={fieldClassName}
+            >
+              {BACKOFF_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorHandlingSettings;
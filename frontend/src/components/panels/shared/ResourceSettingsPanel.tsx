@@ -1,5 +1,8 @@
 import type React from "react";
 import { MemoryInput, TimeInput } from "../../common/forms";
+import ErrorHandlingSettings, {
+  type NodeErrorHandling,
+} from "./ErrorHandlingSettings";
 
 interface ResourceSettingsPanelProps {
   containerImage: string;
@@ -12,6 +15,8 @@ interface ResourceSettingsPanelProps {
   setTimeLimit: (v: string) => void;
   overrideResources: boolean;
   setOverrideResources: (v: boolean) => void;
+  errorHandling?: NodeErrorHandling; // Shown when a setter is passed too
+  setErrorHandling?: (v: NodeErrorHandling) => void;
 }
 
 const ResourceSettingsPanel: React.FC<ResourceSettingsPanelProps> = ({
@@ -25,6 +30,8 @@ const ResourceSettingsPanel: React.FC<ResourceSettingsPanelProps> = ({
   setTimeLimit,
   overrideResources,
   setOverrideResources,
+  errorHandling,
+  setErrorHandling,
 }) => {
   return (
     <div className="border-t border-accent pt-4 space-y-3">
@@ -86,6 +93,13 @@ const ResourceSettingsPanel: React.FC<ResourceSettingsPanelProps> = ({
           </div>
         </div>
       )}
+
+      {errorHandling && setErrorHandling && (
+        <ErrorHandlingSettings
+          value={errorHandling}
+          onChange={setErrorHandling}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,79 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  type FC,
+  type PropsWithChildren,
+} from "react";
+import { Loader } from "lucide-react";
+import { isDemoMode, onUnauthorized } from "../api";
+import { getCurrentUser, logout as endSession } from "../api/auth";
+import type { AuthUser } from "../types/backend";
+import LoginPage from "../pages/LoginPage";
+import PageLayout from "../components/layout/PageLayout";
+
+interface IAuthContext {
+  user: AuthUser | null; // Always null in demo mode, which has no accounts
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<IAuthContext | undefined>(undefined);
+
+/** Access the auth context. Throws if used outside an AuthProvider. */
+export const useAuth = (): IAuthContext => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
+
+/**
+ * Shows the sign-in page until there is a session, then the app. The demo
+ * build has no backend and renders the app straight away.
+ */
+export const AuthProvider: FC<PropsWithChildren> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isChecking, setIsChecking] = useState(!isDemoMode);
+
+  useEffect(() => {
+    if (isDemoMode) return;
+    getCurrentUser()
+      .then(setUser)
+      .catch((err) => console.error("Failed to check the session:", err))
+      .finally(() => setIsChecking(false));
+  }, []);
+
+  // An expired session sends the user back to the sign-in page
+  useEffect(() => onUnauthorized(() => setUser(null)), []);
+
+  const logout = useCallback(async () => {
+    try {
+      await endSession();
+    } finally {
+      setUser(null);
+    }
+  }, []);
+
+  if (!isDemoMode && isChecking) {
+    return (
+      <PageLayout>
+        <div className="flex h-screen items-center justify-center">
+          <Loader className="w-8 h-8 animate-spin text-nextflow-green" />
+        </div>
+      </PageLayout>
+    );
+  }
+
+  if (!isDemoMode && !user) {
+    return <LoginPage onSignedIn={setUser} />;
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -20,7 +20,10 @@ import {
 } from "reactflow";
 import type { NodeData } from "../components/nodes/BaseNode";
 import type { ToastType } from "../components/common";
-import { validateConnectionWithNodeDefinitions } from "../registry";
+import {
+  checkConnectionChannelShapes,
+  validateConnectionWithNodeDefinitions,
+} from "../registry";
 
 interface ToastState {
   message: string;
@@ -130,6 +133,17 @@ export const WorkflowProvider: FC<PropsWithChildren> = ({ children }) => {
       const targetIncomingCount = params.target
         ? getEdges().filter((edge) => edge.target === params.target).length
         : 0;
+      // Links the generator adapts are allowed; the edge itself keeps the
+      // explanation (see validateWorkflow), the toast points it out once
+      const currentNodes = getNodes();
+      const { warning } = checkConnectionChannelShapes(
+        params,
+        currentNodes.find((node) => node.id === params.source),
+        currentNodes.find((node) => node.id === params.target)
+      );
+      if (warning) {
+        showToast(warning, "warning");
+      }
       const newEdge = {
         ...params,
         id: `e-${params.source || "N/A"}-${params.target || "N/A"}`,
@@ -144,7 +158,7 @@ export const WorkflowProvider: FC<PropsWithChildren> = ({ children }) => {
       setEdges((els) => addEdge(newEdge, els));
       setIsDirty(true);
     },
-    [getEdges, setEdges]
+    [getNodes, getEdges, setEdges, showToast]
   );
 
   const updateNodeData = useCallback(
@@ -12,6 +12,7 @@ export interface NextflowProcess {
   filterValue?: string;
   mapReplaceFind?: string;
   mapReplaceWith?: string;
+  mapReplaceMode?: "regex" | "literal";
   mergeOperation?: "join";
   mergeJoinSeparator?: string;
   joinType?: string;
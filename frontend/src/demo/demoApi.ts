@@ -15,21 +15,31 @@ interface DemoResponse<T = any> {
 
 /** An error shaped like an axios error so existing catch blocks keep working. */
 class DemoApiError extends Error {
-  response: { status: number; data: { message: string; error: string } };
+  response: {
+    status: number;
+    data: { message: string; error: string; [key: string]: unknown };
+  };
   code: number;
-  constructor(status: number, message: string) {
+  constructor(
+    status: number,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
     super(message);
     this.name = "DemoApiError";
     this.code = status;
-    this.response = { status, data: { message, error: message } };
+    this.response = { status, data: { ...details, message, error: message } };
   }
 }
 
 const ok = <T>(data: T, status = 200): Promise<DemoResponse<T>> =>
   Promise.resolve({ data, status });
 
-const fail = (status: number, message: string): Promise<never> =>
-  Promise.reject(new DemoApiError(status, message));
+const fail = (
+  status: number,
+  message: string,
+  details?: Record<string, unknown>
+): Promise<never> => Promise.reject(new DemoApiError(status, message, details));
 
 // Normalize "/api/workflows" and "/workflows" to a common form, drop querystring.
 const normalize = (url: string): string =>
@@ -40,7 +50,7 @@ const runStore = <T>(fn: () => T): Promise<DemoResponse<T>> => {
     return ok(fn());
   } catch (error) {
     if (error instanceof DemoStoreError) {
-      return fail(error.status, error.message);
+      return fail(error.status, error.message, error.details);
     }
     const message = error instanceof Error ? error.message : "Demo store error";
     return fail(500, message);
@@ -63,6 +73,36 @@ const demoApi = {
         ? ok(workflow as T)
         : fail(404, "Workflow not found");
     }
+    const revisionsMatch = path.match(/^\/workflows\/([^/]+)\/revisions$/);
+    if (revisionsMatch) {
+      return ok(
+        demoStore.listRevisions(decodeURIComponent(revisionsMatch[1])) as T
+      );
+    }
+    const revisionMatch = path.match(/^\/workflows\/([^/]+)\/revisions\/(\d+)$/);
+    if (revisionMatch) {
+      const revision = demoStore.getRevision(
+        decodeURIComponent(revisionMatch[1]),
+        Number(revisionMatch[2])
+      );
+      return revision
+        ? ok(revision as T)
+        : fail(404, "Workflow revision not found");
+    }
+    // The demo has no server-side file store, so nothing is ever stored.
+    if (path === "/files") {
+      return ok([] as T);
+    }
+    if (path === "/files/browse") {
+      return ok({ path: null, parent: null, roots: [], entries: [] } as T);
+    }
+    // Nothing ever executes in the demo, so every workflow has an empty history.
+    if (/^\/workflows\/[^/]+\/runs$/.test(path)) {
+      return ok([] as T);
+    }
+    if (/^\/runs\/[^/]+(\/results(\/file)?)?$/.test(path)) {
+      return fail(404, "Run not found");
+    }
 
     // No backend runtime in the demo, so Docker/Nextflow are simply unavailable.
     // Returning the same shape as the real endpoints keeps the settings UI happy
@@ -97,6 +137,19 @@ const demoApi = {
       );
     }
 
+    const restoreMatch = path.match(
+      /^\/workflows\/([^/]+)\/revisions\/(\d+)\/restore$/
+    );
+    if (restoreMatch) {
+      return runStore(
+        () =>
+          demoStore.restoreRevision(
+            decodeURIComponent(restoreMatch[1]),
+            Number(restoreMatch[2])
+          ) as T
+      );
+    }
+
     // Execution can't run in a static, backend-less demo.
     if (path === "/execute") {
       return fail(501, EXECUTION_DISABLED_MESSAGE);
@@ -105,10 +158,10 @@ const demoApi = {
     if (path === "/execute/cancel") {
       return ok({ message: "No active execution in demo mode" } as T);
     }
-    // File "registration" is only backend persistence; the file content already
-    // lives on the node, so return a synthetic id and move on.
-    if (path === "/files/register") {
-      return ok({ _id: `demo-file-${Date.now().toString(36)}` } as T);
+    // There is no server-side file store in the demo; the upload fails and
+    // the file content simply stays on the node.
+    if (path === "/files") {
+      return fail(501, "File storage is not available in the demo");
     }
 
     return fail(404, `No demo handler for POST ${path}`);
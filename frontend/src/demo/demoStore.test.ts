@@ -55,6 +55,44 @@ describe("demoStore", () => {
     expect(() => demoStore.remove(DEMO_WORKFLOW_ID)).toThrow(DemoStoreError);
   });
 
+  it("records a revision per changed save and restores old ones", () => {
+    const created = demoStore.create({ name: "Flow" });
+    demoStore.update(created._id, { name: "Flow" }); // unchanged: no revision
+    demoStore.update(created._id, { nodes: [{ id: "a" }] });
+    demoStore.update(created._id, { revisionNote: "checkpoint" });
+
+    const revisions = demoStore.listRevisions(created._id);
+    expect(revisions.map((r) => r.revision)).toEqual([3, 2, 1]);
+    expect(revisions[0].note).toBe("checkpoint");
+    expect(revisions[1].nodeCount).toBe(1);
+
+    const restored = demoStore.restoreRevision(created._id, 1);
+    expect(restored.nodes).toEqual([]);
+    const latest = demoStore.listRevisions(created._id)[0];
+    expect(latest.revision).toBe(4);
+    expect(latest.restoredFrom).toBe(1);
+
+    demoStore.remove(created._id);
+    expect(demoStore.listRevisions(created._id)).toEqual([]);
+  });
+
+  it("rejects a save based on an outdated copy with the current one", () => {
+    const created = demoStore.create({ name: "Shared" });
+    const loadedAt = created.updatedAt;
+    const saved = demoStore.update(created._id, {
+      name: "Mine",
+      baseUpdatedAt: loadedAt,
+    });
+
+    try {
+      demoStore.update(created._id, { name: "Theirs", baseUpdatedAt: "stale" });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as DemoStoreError).status).toBe(409);
+      expect((error as DemoStoreError).details?.workflow).toEqual(saved);
+    }
+  });
+
   it("persists workflows across store reads (localStorage-backed)", () => {
     demoStore.create({ name: "Persisted" });
     // A fresh read goes back to localStorage.
@@ -6,11 +6,16 @@
 // slice of backend/src/controllers/workflowController.ts that the frontend
 // actually uses, returning the exact same WorkflowDescriptor shape.
 
-import type { WorkflowDescriptor } from "../types/backend";
+import type {
+  WorkflowDescriptor,
+  WorkflowRevision,
+  WorkflowRevisionSummary,
+} from "../types/backend";
 import { defaultExecutionSettings } from "../workflows/defaultExecutionSettings";
 import { DEMO_WORKFLOW_ID, demoWorkflowSeed } from "./demoWorkflow";
 
 const STORAGE_KEY = "nwave.demo.workflows";
+const REVISIONS_STORAGE_KEY = "nwave.demo.revisions";
 
 /** Internal persisted record. Materialized into a WorkflowDescriptor on read. */
 interface StoredWorkflow {
@@ -54,6 +59,72 @@ const writeStore = (workflows: StoredWorkflow[]): void => {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(workflows));
 };
 
+const readRevisions = (): WorkflowRevision[] => {
+  try {
+    const raw = localStorage.getItem(REVISIONS_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as WorkflowRevision[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeRevisions = (revisions: WorkflowRevision[]): void => {
+  localStorage.setItem(REVISIONS_STORAGE_KEY, JSON.stringify(revisions));
+};
+
+const getRevisionContent = (workflow: {
+  name?: string;
+  nodes?: any[];
+  edges?: any[];
+  executionSettings?: any;
+}) => ({
+  name: workflow.name ?? "",
+  nodes: workflow.nodes ?? [],
+  edges: workflow.edges ?? [],
+  executionSettings: workflow.executionSettings ?? null,
+});
+
+/** Mirrors backend recordWorkflowRevision(), including the unchanged-save dedupe. */
+const recordRevision = (
+  stored: StoredWorkflow,
+  options: { note?: string | null; restoredFrom?: number | null } = {}
+): void => {
+  const revisions = readRevisions();
+  const content = getRevisionContent(stored);
+  const latest = revisions
+    .filter((revision) => revision.workflowId === stored._id)
+    .reduce<WorkflowRevision | null>(
+      (newest, revision) =>
+        !newest || revision.revision > newest.revision ? revision : newest,
+      null
+    );
+
+  const note = options.note?.trim() || null;
+  if (
+    latest &&
+    !note &&
+    JSON.stringify(getRevisionContent(latest)) === JSON.stringify(content)
+  ) {
+    return;
+  }
+
+  const revision = (latest?.revision ?? 0) + 1;
+  writeRevisions([
+    ...revisions,
+    {
+      _id: `${stored._id}-r${revision}`,
+      workflowId: stored._id,
+      revision,
+      ...content,
+      note,
+      restoredFrom: options.restoredFrom ?? null,
+      createdAt: new Date().toISOString(),
+    },
+  ]);
+};
+
 /** Mirrors backend materializeWorkflow(): a stored record -> API descriptor. */
 const materialize = (stored: StoredWorkflow): WorkflowDescriptor => ({
   _id: stored._id,
@@ -73,6 +144,8 @@ const materialize = (stored: StoredWorkflow): WorkflowDescriptor => ({
     readOnly: false,
     canDuplicate: true,
   },
+  createdAt: stored.createdAt,
+  updatedAt: stored.updatedAt,
 });
 
 /** The read-only built-in demo, materialized. Never persisted. */
@@ -98,6 +171,38 @@ const getBuiltinDemoDescriptor = (): WorkflowDescriptor => ({
 
 const isBuiltinId = (id: string): boolean => id === DEMO_WORKFLOW_ID;
 
+const updateStored = (
+  id: string,
+  payload: Partial<StoredWorkflow>,
+  revisionOptions: { note?: string | null; restoredFrom?: number | null }
+): WorkflowDescriptor => {
+  if (isBuiltinId(id)) {
+    throw new DemoStoreError(
+      403,
+      "Built-in workflows are read-only. Duplicate the workflow to create an editable copy."
+    );
+  }
+  const workflows = readStore();
+  const index = workflows.findIndex((workflow) => workflow._id === id);
+  if (index === -1) {
+    throw new DemoStoreError(404, "Workflow not found for update");
+  }
+  const existing = workflows[index];
+  const updated: StoredWorkflow = {
+    ...existing,
+    name: payload.name ?? existing.name,
+    description: payload.description ?? existing.description,
+    nodes: payload.nodes ?? existing.nodes,
+    edges: payload.edges ?? existing.edges,
+    executionSettings: payload.executionSettings ?? existing.executionSettings,
+    updatedAt: new Date().toISOString(),
+  };
+  workflows[index] = updated;
+  writeStore(workflows);
+  recordRevision(updated, revisionOptions);
+  return materialize(updated);
+};
+
 export const demoStore = {
   /** GET /workflows — built-in first, then the visitor's saved workflows. */
   list(): WorkflowDescriptor[] {
@@ -130,35 +235,35 @@ export const demoStore = {
       updatedAt: now,
     };
     writeStore([...readStore(), stored]);
+    recordRevision(stored);
     return materialize(stored);
   },
 
-  /** PUT /workflows/:id */
-  update(id: string, payload: Partial<StoredWorkflow>): WorkflowDescriptor {
-    if (isBuiltinId(id)) {
+  /**
+   * PUT /workflows/:id — a `revisionNote` makes the save a checkpoint. A
+   * `baseUpdatedAt` older than the stored copy is rejected with 409, carrying
+   * that copy, like the backend does.
+   */
+  update(
+    id: string,
+    payload: Partial<StoredWorkflow> & {
+      revisionNote?: string;
+      baseUpdatedAt?: string;
+    }
+  ): WorkflowDescriptor {
+    const current = isBuiltinId(id) ? null : this.get(id);
+    if (
+      current &&
+      payload.baseUpdatedAt &&
+      payload.baseUpdatedAt !== current.updatedAt
+    ) {
       throw new DemoStoreError(
-        403,
-        "Built-in workflows are read-only. Duplicate the workflow to create an editable copy."
+        409,
+        "The workflow was changed by someone else since you loaded it.",
+        { workflow: current }
       );
     }
-    const workflows = readStore();
-    const index = workflows.findIndex((workflow) => workflow._id === id);
-    if (index === -1) {
-      throw new DemoStoreError(404, "Workflow not found for update");
-    }
-    const existing = workflows[index];
-    const updated: StoredWorkflow = {
-      ...existing,
-      name: payload.name ?? existing.name,
-      description: payload.description ?? existing.description,
-      nodes: payload.nodes ?? existing.nodes,
-      edges: payload.edges ?? existing.edges,
-      executionSettings: payload.executionSettings ?? existing.executionSettings,
-      updatedAt: new Date().toISOString(),
-    };
-    workflows[index] = updated;
-    writeStore(workflows);
-    return materialize(updated);
+    return updateStored(id, payload, { note: payload.revisionNote });
   },
 
   /** DELETE /workflows/:id */
@@ -170,6 +275,9 @@ export const demoStore = {
       );
     }
     writeStore(readStore().filter((workflow) => workflow._id !== id));
+    writeRevisions(
+      readRevisions().filter((revision) => revision.workflowId !== id)
+    );
   },
 
   /** POST /workflows/:id/duplicate */
@@ -191,14 +299,73 @@ export const demoStore = {
       sourceKey: source.origin?.sourceKey ?? id,
     });
   },
+
+  /** GET /workflows/:id/revisions — newest first, without the graphs. */
+  listRevisions(id: string): WorkflowRevisionSummary[] {
+    return readRevisions()
+      .filter((revision) => revision.workflowId === id)
+      .sort((a, b) => b.revision - a.revision)
+      .map((revision) => ({
+        _id: revision._id,
+        workflowId: revision.workflowId,
+        revision: revision.revision,
+        name: revision.name ?? "",
+        note: revision.note,
+        restoredFrom: revision.restoredFrom,
+        author: null, // The demo has no accounts
+        nodeCount: revision.nodes.length,
+        edgeCount: revision.edges.length,
+        createdAt: revision.createdAt,
+      }));
+  },
+
+  /** GET /workflows/:id/revisions/:revision */
+  getRevision(id: string, revision: number): WorkflowRevision | null {
+    return (
+      readRevisions().find(
+        (candidate) =>
+          candidate.workflowId === id && candidate.revision === revision
+      ) ?? null
+    );
+  },
+
+  /** POST /workflows/:id/revisions/:revision/restore */
+  restoreRevision(id: string, revision: number): WorkflowDescriptor {
+    if (isBuiltinId(id)) {
+      throw new DemoStoreError(
+        403,
+        "Built-in workflows are read-only. Duplicate the workflow to create an editable copy."
+      );
+    }
+    const target = this.getRevision(id, revision);
+    if (!target) {
+      throw new DemoStoreError(404, "Workflow revision not found");
+    }
+    return updateStored(
+      id,
+      {
+        name: target.name,
+        nodes: target.nodes,
+        edges: target.edges,
+        executionSettings: target.executionSettings,
+      },
+      { note: `Restored revision ${revision}`, restoredFrom: revision }
+    );
+  },
 };
 
 /** Carries an HTTP-like status so the demo API client can mimic axios errors. */
 export class DemoStoreError extends Error {
   status: number;
-  constructor(status: number, message: string) {
+  details?: Record<string, unknown>; // Extra response body fields
+  constructor(
+    status: number,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
     super(message);
     this.name = "DemoStoreError";
     this.status = status;
+    this.details = details;
   }
 }
@@ -2,6 +2,13 @@ import { describe, it, expect, vi } from "vitest";
 import type { Edge, Node } from "reactflow";
 import { generateNextflowScript } from "./generateNextflowScript";
 import { demoWorkflowSeed } from "../../demo/demoWorkflow";
+import { getNodeDefinitionById } from "../../registry/nodeDefinitions";
+import {
+  createStoredCustomNode,
+  parseCustomNodeSource,
+  registerCustomNodes,
+  unregisterCustomNode,
+} from "../../registry/customNodes";
 
 // The built-in demo graph is a realistic input: file input -> two filter
 // branches (one mapped to uppercase) -> merge -> display output.
@@ -32,7 +39,16 @@ describe("generateNextflowScript", () => {
   });
 
   it("references the input channel from the file input node", () => {
-    expect(script).toContain("ch_files");
+    expect(script).toContain("params.demo_file_input_files = ['sample.txt']");
+    expect(script).toContain(
+      "ch_demo_file_input_files = Channel.fromList(params.demo_file_input_files)"
+    );
+  });
+
+  it("publishes each output display node into its own results folder", () => {
+    expect(script).toContain(
+      "publishDir \"${params.outdir}/demo-output\", mode: 'copy'"
+    );
   });
 
   it("does not warn about the file-input channel as an unresolved variable", () => {
@@ -55,18 +71,584 @@ describe("generateNextflowScript", () => {
     }
   });
 
-  it("is deterministic for the same graph within a run", () => {
-    const again = generateNextflowScript(
-      nodes,
+  it("generates byte-identical scripts for the same graph at any time", () => {
+    const generateAt = (time: string) => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(time));
+      try {
+        return generateNextflowScript(
+          nodes,
+          edges,
+          "Demo Workflow",
+          "results",
+          "{workflow_name}_{date}_{timestamp}"
+        );
+      } finally {
+        vi.useRealTimers();
+      }
+    };
+
+    const first = generateAt("2024-01-01T08:00:00Z");
+    expect(generateAt("2025-06-30T23:59:59Z")).toBe(first);
+    // Run timestamps are resolved by Nextflow, not baked into the script
+    expect(first).toContain("params.run_timestamp = System.currentTimeMillis()");
+    expect(first).toContain("params.run_date = ");
+    expect(first).toContain(
+      'Demo_Workflow_${params.run_date}_${params.run_timestamp}_01_'
+    );
+  });
+
+  it("gives each file input node its own params list and channel", () => {
+    const referenceInput = {
+      ...nodes[0],
+      id: "demo-reference-input",
+      data: {
+        ...nodes[0]?.data,
+        files: [{ name: "reference.txt", size: 0, fileType: "txt" }],
+      },
+    } as Node;
+    // Feed the "Bee" branch from the second input instead of the first
+    const twoInputEdges = edges.map((edge) =>
+      edge.target === "demo-filter-bee"
+        ? { ...edge, source: "demo-reference-input" }
+        : edge
+    );
+    const twoInputScript = generateNextflowScript(
+      [...nodes, referenceInput],
+      twoInputEdges,
+      "Demo Workflow",
+      "results",
+      "{workflow_name}"
+    );
+
+    expect(twoInputScript).toContain(
+      "params.demo_file_input_files = ['sample.txt']"
+    );
+    expect(twoInputScript).toContain(
+      "params.demo_reference_input_files = ['reference.txt']"
+    );
+    expect(twoInputScript.match(/params\.inputdir =/g)).toHaveLength(1);
+    expect(twoInputScript).not.toContain("params.selected_files");
+    expect(twoInputScript).toMatch(/\(ch_demo_reference_input_files\)/);
+    expect(twoInputScript).toMatch(/\(ch_demo_file_input_files\)/);
+  });
+
+  it("reads path-mode file inputs in place with fromPath/fromFilePairs", () => {
+    const pathInput = (pairedReads: boolean) =>
+      ({
+        ...nodes[0],
+        data: {
+          ...nodes[0]?.data,
+          inputMode: "path",
+          serverPath: "/data/run42/",
+          pathGlob: "*_R{1,2}.fastq.gz",
+          pairedReads,
+        },
+      }) as Node;
+    const generate = (pairedReads: boolean) =>
+      generateNextflowScript(
+        [pathInput(pairedReads), ...nodes.slice(1)],
+        edges,
+        "Demo Workflow",
+        "results",
+        "{workflow_name}"
+      );
+
+    const paired = generate(true);
+    expect(paired).toContain(
+      "params.demo_file_input_path = '/data/run42/*_R{1,2}.fastq.gz'"
+    );
+    expect(paired).toContain(
+      "ch_demo_file_input_files = Channel.fromFilePairs(params.demo_file_input_path, checkIfExists: true)"
+    );
+    expect(paired).not.toContain("params.demo_file_input_files");
+
+    expect(generate(false)).toContain(
+      "ch_demo_file_input_files = Channel.fromPath(params.demo_file_input_path, checkIfExists: true)"
+    );
+  });
+
+  it("emits native channel operators instead of processes when asked", () => {
+    const nativeNodes = nodes.map((node) =>
+      node.type === "operator"
+        ? { ...node, data: { ...node.data, operatorForm: "native" } }
+        : node
+    );
+    const nativeScript = generateNextflowScript(
+      nativeNodes,
       edges,
       "Demo Workflow",
       "results",
       "{workflow_name}"
     );
-    // Process names embed a timestamp, so compare structure rather than exact
-    // text: both runs should have the same number of process blocks.
-    const count = (s: string) => (s.match(/process\s+\w+/g) || []).length;
-    expect(count(again)).toBe(count(script));
-    expect(count(script)).toBeGreaterThan(0);
+
+    expect(nativeScript).not.toMatch(/process (filter|map|merge)_/);
+    expect(nativeScript).not.toContain("grep");
+    expect(nativeScript).toContain(".splitText(elem: 1)");
+    expect(nativeScript).toMatch(/text\.contains\('(Barry|Bee)'\)/);
+    expect(nativeScript).toContain("tuple(name, line.toUpperCase())");
+    expect(nativeScript).toContain(".collectFile(name: 'merged.txt', sort: false)");
+    // The display output still runs as a process on the native results
+    expect(nativeScript).toMatch(/process outputDisplay_/);
+  });
+
+  it("turns a sample sheet into a tuple(meta, reads) channel for nf-core modules", () => {
+    const sheetNodes = [
+      {
+        id: "sheet",
+        type: "sampleSheet",
+        position: { x: 0, y: 0 },
+        data: {
+          files: [{ name: "samplesheet.csv", size: 0, fileType: "csv" }],
+          outputs: [{ name: "samples", isConnectable: true }],
+        },
+      },
+      {
+        id: "qc",
+        type: "process",
+        position: { x: 300, y: 0 },
+        data: { ...getNodeDefinitionById("fastqc")?.defaults },
+      },
+    ] as Node[];
+    const sheetEdges = [
+      {
+        id: "sheet-qc",
+        source: "sheet",
+        sourceHandle: "samples",
+        target: "qc",
+        targetHandle: "reads",
+      },
+    ] as Edge[];
+
+    const sheetScript = generateNextflowScript(
+      sheetNodes,
+      sheetEdges,
+      "Sheet Workflow",
+      "results",
+      "{workflow_name}"
+    );
+
+    expect(sheetScript).toContain(
+      'params.sheet_samplesheet = "${params.inputdir}/samplesheet.csv"'
+    );
+    expect(sheetScript).toContain(
+      "ch_sheet_samples = Channel.fromPath(params.sheet_samplesheet, checkIfExists: true)"
+    );
+    expect(sheetScript).toContain(".splitCsv(header: true, strip: true)");
+    expect(sheetScript).toContain("[id: row.sample, single_end: singleEnd]");
+    expect(sheetScript).toContain("tuple(meta, reads)");
+    expect(sheetScript).toMatch(/= ch_sheet_samples\.map \{ item ->/);
+  });
+
+  it("writes per-node error strategy overrides into the module config", () => {
+    const retryNodes = [
+      {
+        id: "reads",
+        type: "fileInput",
+        position: { x: 0, y: 0 },
+        data: {
+          files: [{ name: "a.fastq.gz", size: 0, fileType: "fastq" }],
+          outputs: [{ name: "ch_files_out", isConnectable: true }],
+        },
+      },
+      {
+        id: "qc",
+        type: "process",
+        position: { x: 300, y: 0 },
+        data: {
+          ...getNodeDefinitionById("fastqc")?.defaults,
+          errorStrategy: "retry",
+          maxRetries: 3,
+          backoffStrategy: "linear",
+        },
+      },
+    ] as Node[];
+    const retryEdges = [
+      {
+        id: "reads-qc",
+        source: "reads",
+        sourceHandle: "ch_files_out",
+        target: "qc",
+        targetHandle: "reads",
+      },
+    ] as Edge[];
+
+    const retryScript = generateNextflowScript(
+      retryNodes,
+      retryEdges,
+      "Retry Workflow",
+      "results",
+      "{workflow_name}"
+    );
+
+    expect(retryScript).toMatch(
+      /withName: 'FASTQC_QC' \{[^}]*\n\s+errorStrategy = \{ sleep\(\(task\.attempt \* 1000\) as long\); return 'retry' \}\n\s+maxRetries = 3\n/
+    );
+    // Without an override the workflow-wide execution settings apply
+    expect(script).not.toContain("errorStrategy");
+  });
+
+  it("declares Parameter nodes as params and feeds them into custom node settings", () => {
+    const source = [
+      "process TRIM_READS {",
+      "  input:",
+      "  path reads",
+      "  val min_quality",
+      "  val adapter",
+      "  output:",
+      "  path 'trimmed.txt', emit: trimmed",
+      "  script:",
+      "  \"trim -q ${min_quality} -a ${adapter} ${reads} > trimmed.txt\"",
+      "}",
+    ].join("\n");
+    const customNode = createStoredCustomNode(
+      { label: "Trim Reads", description: "", icon: "Code", source },
+      parseCustomNodeSource(source),
+      {
+        inputs: parseCustomNodeSource(source).inputs,
+        outputs: parseCustomNodeSource(source).outputs,
+      }
+    );
+    registerCustomNodes([customNode]);
+
+    try {
+      const definition = getNodeDefinitionById(customNode.id);
+      expect(definition?.inputs?.map((port) => port.name)).toEqual([
+        "reads",
+        "min_quality",
+        "adapter",
+      ]);
+
+      const paramNodes = [
+        {
+          id: "reads",
+          type: "fileInput",
+          position: { x: 0, y: 0 },
+          data: {
+            files: [{ name: "a.txt", size: 0 }],
+            outputs: [{ name: "ch_files_out", isConnectable: true }],
+          },
+        },
+        {
+          id: "quality",
+          type: "parameter",
+          position: { x: 0, y: 200 },
+          data: { paramName: "min_quality", paramType: "number", paramDefault: "20" },
+        },
+        {
+          id: "trim",
+          type: "process",
+          position: { x: 300, y: 0 },
+          data: {
+            ...definition?.defaults,
+            customNodeValues: { min_quality: "5", adapter: "AGATCG" },
+          },
+        },
+      ] as Node[];
+      const paramEdges = [
+        {
+          id: "reads-trim",
+          source: "reads",
+          sourceHandle: "ch_files_out",
+          target: "trim",
+          targetHandle: "reads",
+        },
+        {
+          id: "quality-trim",
+          source: "quality",
+          sourceHandle: "value",
+          target: "trim",
+          targetHandle: "min_quality",
+        },
+      ] as Edge[];
+
+      const paramScript = generateNextflowScript(
+        paramNodes,
+        paramEdges,
+        "Param Workflow",
+        "results",
+        "{workflow_name}"
+      );
+
+      expect(paramScript).toContain("params.min_quality = 20\n");
+      expect(paramScript).toContain(
+        "ch_quality_param = Channel.value(params.min_quality)"
+      );
+      // The connected setting uses the parameter, the other keeps its value
+      expect(paramScript).toContain(
+        `${customNode.processType}_trim(ch_reads_files, ch_quality_param, 'AGATCG')`
+      );
+    } finally {
+      unregisterCustomNode(customNode.id);
+    }
+  });
+
+  it("wires branch, join and collect as channel operators in dependency order", () => {
+    const shapingNodes = [
+      {
+        id: "sheet",
+        type: "sampleSheet",
+        position: { x: 0, y: 0 },
+        data: {
+          files: [{ name: "samplesheet.csv", size: 0, fileType: "csv" }],
+          outputs: [{ name: "samples", isConnectable: true }],
+        },
+      },
+      {
+        id: "collect-all",
+        type: "operator",
+        position: { x: 900, y: 0 },
+        data: { ...getNodeDefinitionById("collect")?.defaults, collectFlat: false },
+      },
+      {
+        id: "pair",
+        type: "operator",
+        position: { x: 600, y: 0 },
+        data: {
+          ...getNodeDefinitionById("join")?.defaults,
+          joinBy: 0,
+          joinRemainder: true,
+        },
+      },
+      {
+        id: "size-split",
+        type: "operator",
+        position: { x: 300, y: 0 },
+        data: {
+          ...getNodeDefinitionById("branch")?.defaults,
+          branches: [
+            { name: "small", condition: "it[1].size() < 1000" },
+            { name: "large", condition: "true" },
+          ],
+        },
+      },
+    ] as Node[];
+    const shapingEdges = [
+      {
+        id: "sheet-split",
+        source: "sheet",
+        sourceHandle: "samples",
+        target: "size-split",
+        targetHandle: "in",
+      },
+      {
+        id: "small-pair",
+        source: "size-split",
+        sourceHandle: "small",
+        target: "pair",
+        targetHandle: "left",
+      },
+      {
+        id: "large-pair",
+        source: "size-split",
+        sourceHandle: "large",
+        target: "pair",
+        targetHandle: "right",
+      },
+      {
+        id: "pair-collect",
+        source: "pair",
+        sourceHandle: "out",
+        target: "collect-all",
+        targetHandle: "in",
+      },
+    ] as Edge[];
+
+    const shapingScript = generateNextflowScript(
+      shapingNodes,
+      shapingEdges,
+      "Shaping Workflow",
+      "results",
+      "{workflow_name}"
+    );
+
+    expect(shapingScript).not.toMatch(/process (branch|join|collect)_/);
+    expect(shapingScript).toContain(
+      "size_split_branch_result = ch_sheet_samples.branch {"
+    );
+    expect(shapingScript).toContain("small: it[1].size() < 1000");
+    expect(shapingScript).toContain(
+      "size_split_small = size_split_branch_result.small"
+    );
+    expect(shapingScript).toContain(
+      "pair_out = size_split_small.join(size_split_large, remainder: true)"
+    );
+    expect(shapingScript).toContain(
+      "collect_all_out = pair_out.collect(flat: false)"
+    );
+    expect(shapingScript.indexOf("size_split_large =")).toBeLessThan(
+      shapingScript.indexOf("pair_out =")
+    );
+    expect(shapingScript.indexOf("pair_out =")).toBeLessThan(
+      shapingScript.indexOf("collect_all_out =")
+    );
+  });
+
+  describe("hostile user text", () => {
+    // Quotes, `$`, backslashes, backticks and a closing `"""` all at once
+    const hostile = `a/b"c'd$HOME\\e\`id\`"""`;
+    const buildHostileGraph = (operatorData: Record<string, unknown>) => {
+      const definitionId = operatorData.operatorType as string;
+      return {
+        nodes: [
+          {
+            id: "in",
+            type: "fileInput",
+            position: { x: 0, y: 0 },
+            data: {
+              files: [{ name: "it's.txt", size: 1 }],
+              outputs: [{ name: "out", isConnectable: true }],
+            },
+          },
+          {
+            id: "op",
+            type: "operator",
+            position: { x: 300, y: 0 },
+            data: {
+              ...getNodeDefinitionById(definitionId)?.defaults,
+              ...operatorData,
+            },
+          },
+        ] as Node[],
+        edges: [
+          {
+            id: "in-op",
+            source: "in",
+            sourceHandle: "out",
+            target: "op",
+            targetHandle: "in",
+          },
+        ] as Edge[],
+      };
+    };
+    const generate = (operatorData: Record<string, unknown>) => {
+      const graph = buildHostileGraph(operatorData);
+      return generateNextflowScript(
+        graph.nodes,
+        graph.edges,
+        "Evil\nname",
+        "res'ults",
+        "{workflow_name}"
+      );
+    };
+
+    it("passes filter text to grep as a single quoted, escaped argument", () => {
+      const filterScript = generate({
+        operatorType: "filter",
+        filterText: hostile,
+        filterMode: "contains",
+      });
+
+      expect(filterScript).toContain(
+        `grep -F -e 'a/b\\"c'\\\\''d\\$HOME\\\\e\`id\`\\"\\"\\"' \${input_file}`
+      );
+      // Nothing may end the script block early
+      expect(filterScript.match(/"""/g)).toHaveLength(2);
+    });
+
+    it("matches startsWith/endsWith text literally", () => {
+      expect(
+        generate({
+          operatorType: "filter",
+          filterText: "1.5*",
+          filterMode: "startsWith",
+          filterNegate: true,
+        })
+      ).toContain("grep -v -e '^1\\\\.5\\\\*' ${input_file}");
+      expect(
+        generate({ operatorType: "filter", filterText: "-v", filterMode: "endsWith" })
+      ).toContain("grep -e '-v\\$' ${input_file}");
+    });
+
+    it("escapes the sed delimiter and replacement specials in map replace", () => {
+      const mapScript = generate({
+        operatorType: "map",
+        mapOperation: "replaceText",
+        mapReplaceFind: "a/b",
+        mapReplaceWith: `&/\\1'$x`,
+      });
+
+      expect(mapScript).toContain(
+        `sed -E 's/a\\\\/b/\\\\&\\\\/\\\\\\\\1'\\\\''\\$x/g' \${input_file}`
+      );
+    });
+
+    it("keeps map replace text a regex unless the node asks for literal matching", () => {
+      expect(
+        generate({
+          operatorType: "map",
+          mapOperation: "replaceText",
+          mapReplaceFind: "a+\\/b\\",
+          mapReplaceWith: "c",
+        })
+      ).toContain("sed -E 's/a+\\\\/b\\\\\\\\/c/g' ${input_file}");
+    });
+
+    it("matches map replace text literally with basic sed", () => {
+      expect(
+        generate({
+          operatorType: "map",
+          mapOperation: "replaceText",
+          mapReplaceMode: "literal",
+          mapReplaceFind: "a+b",
+          mapReplaceWith: "c",
+        })
+      ).toContain("sed s/a+b/c/g ${input_file}");
+      expect(
+        generate({
+          operatorType: "map",
+          mapOperation: "replaceText",
+          mapReplaceMode: "literal",
+          mapReplaceFind: "1.5*",
+          mapReplaceWith: "x",
+        })
+      ).toContain("sed 's/1\\\\.5\\\\*/x/g' ${input_file}");
+    });
+
+    it("replaces a regex with literal text in the native map operator", () => {
+      const mapScript = generate({
+        operatorType: "map",
+        mapOperation: "replaceText",
+        mapReplaceFind: "\\d+",
+        mapReplaceWith: "$0",
+        operatorForm: "native",
+      });
+
+      expect(mapScript).toContain(
+        "tuple(name, line.replaceAll('\\\\d+', java.util.regex.Matcher.quoteReplacement('$0')))"
+      );
+    });
+
+    it("replaces text literally in the native map operator", () => {
+      const mapScript = generate({
+        operatorType: "map",
+        mapOperation: "replaceText",
+        mapReplaceMode: "literal",
+        mapReplaceFind: `$1\\d'"`,
+        mapReplaceWith: `$0\\n'"`,
+        operatorForm: "native",
+      });
+
+      expect(mapScript).toContain(
+        `tuple(name, line.replace('$1\\\\d\\'"', '$0\\\\n\\'"'))`
+      );
+      expect(mapScript).not.toContain("replaceAll");
+    });
+
+    it("keeps names and paths inside Groovy literals and comments", () => {
+      const filterScript = generate({
+        operatorType: "filter",
+        filterText: hostile,
+        filterMode: "regex",
+        operatorForm: "native",
+      });
+
+      expect(filterScript).toContain("// Workflow Script for Evil name\n");
+      expect(filterScript).toContain("params.outdir = 'res\\'ults'");
+      expect(filterScript).toContain("params.in_files = ['it\\'s.txt']");
+      expect(filterScript).toContain(
+        `text.find('a/b"c\\'d$HOME\\\\e\`id\`"""') != null`
+      );
+    });
   });
 });
@@ -1,6 +1,9 @@
 import type { Node, Edge } from "reactflow";
 import { sortIncomingEdges } from "../../utils/workflowConnections";
 import { getNodeDefinitionForNode } from "../../registry/nodeDefinitions";
+import { escapeGString, toCommentText, toGroovyString } from "./quoting";
+import { getOutputNamingParams } from "../templates/outputs";
+import { getParamNameError } from "../../utils/executionEnvironment";
 
 /**
  * Generates a Nextflow script from the current workflow nodes.
@@ -12,7 +15,7 @@ import { getNodeDefinitionForNode } from "../../registry/nodeDefinitions";
  * - Process nodes (FastQC, Trimmomatic, Generic) → generateProcessCode()
  * - Operator nodes (Filter, Map, Merge) → generateOperatorCode()
  * - Output nodes → generateOutputCode()
- * - File inputs remain inline (simple, no escaping issues)
+ * - File inputs remain inline, quoted through the shared helpers in ./quoting
  *
  * @param nodes An array of nodes from the React Flow instance.
  * @param edges An array of edges from the React Flow instance.
@@ -28,15 +31,16 @@ export const generateNextflowScript = (
   outputDirectory: string,
   outputNamingPattern: string
 ): string => {
-  // Add timestamp to ensure unique process names
-  const timestamp = Date.now();
-  const now = new Date();
-  const dateStr = now.toISOString().split("T")[0]; // YYYY-MM-DD
-
   // Convert outputDirectory to use forward slashes for Nextflow compatibility
   const nfOutputDirectory = outputDirectory.replace(/\\/g, "/");
 
-  let paramsScript = `params.outdir = '${nfOutputDirectory}'\n\n`;
+  // Output only depends on the graph and settings; run timestamps used in
+  // output names are params evaluated when the run starts
+  let paramsScript = `params.outdir = ${toGroovyString(nfOutputDirectory)}\n`;
+  if (nodes.some((node) => node.type === "outputDisplay")) {
+    paramsScript += getOutputNamingParams(outputNamingPattern);
+  }
+  paramsScript += "\n";
   let firstPassScript = "";
   const processScripts: { [key: string]: string } = {};
   const executionOrder: string[] = [];
@@ -48,15 +52,21 @@ export const generateNextflowScript = (
   const processInvocations: string[] = [];
   const includeStatements: string[] = [];
   const nextflowConfigBlocks: string[] = [];
-  // Top-level input channels defined by file-input nodes (e.g. "ch_files").
+  // Top-level input channels defined by file-input nodes (e.g. "ch_node_1_files").
   // These are legitimate workflow inputs, not process outputs, so they must be
   // recognised as "resolved" during dependency validation.
   const definedInputChannels = new Set<string>();
+  let hasInputDirParam = false;
+  // Names declared by Parameter nodes; the validator reports duplicates
+  const declaredParams = new Set<string>();
 
   // First pass: Define file inputs and map all node outputs to channel names
   nodes.forEach((node) => {
     if (node.type === "fileInput") {
-      const channelName = "ch_files";
+      // Each File Input node gets its own params list and channel so several
+      // inputs (e.g. reads and a reference) stay separate.
+      const fileParamName = `${sanitizeVarName(node.id)}_files`;
+      const channelName = `ch_${fileParamName}`;
       const legacyFileOutputChannelName = sanitizeVarName(
         `${node.id}_ch_files_out`
       );
@@ -70,24 +80,92 @@ export const generateNextflowScript = (
         (file: any) => file.name || file.originalName || "unknown_file"
       );
 
-      if (filenames.length > 0) {
-        // Add parameters for input directory and selected files
+      if (!hasInputDirParam) {
         paramsScript += `params.inputdir = "./inputs"\n`;
-        paramsScript += `params.selected_files = [${filenames
-          .map((name: string) => `'${name}'`)
+        hasInputDirParam = true;
+      }
+
+      if (node.data.inputMode === "path") {
+        // Data already on the host is read in place from a path/glob
+        const pathParamName = `${sanitizeVarName(node.id)}_path`;
+        const pathPattern = getServerPathPattern(
+          node.data.serverPath,
+          node.data.pathGlob
+        );
+        paramsScript += `params.${pathParamName} = ${toGroovyString(pathPattern)}\n\n`;
+
+        if (!pathPattern) {
+          firstPassScript += `${channelName} = Channel.empty()\n\n`;
+        } else if (node.data.pairedReads) {
+          // Emits tuple(sample_id, [read1, read2]) for each matched pair
+          firstPassScript += `${channelName} = Channel.fromFilePairs(params.${pathParamName}, checkIfExists: true)\n\n`;
+        } else {
+          firstPassScript += `${channelName} = Channel.fromPath(params.${pathParamName}, checkIfExists: true)\n\n`;
+        }
+        firstPassScript += `${legacyFileOutputChannelName} = ${channelName}\n\n`;
+      } else if (filenames.length > 0) {
+        paramsScript += `params.${fileParamName} = [${filenames
+          .map((name: string) => toGroovyString(name))
           .join(", ")}]\n\n`;
 
         // Create channel from file list with proper file staging
-        firstPassScript += `${channelName} = Channel.fromList(params.selected_files)\n`;
+        firstPassScript += `${channelName} = Channel.fromList(params.${fileParamName})\n`;
         firstPassScript += `    .map { filename -> file("\${params.inputdir}/\${filename}") }\n\n`;
         firstPassScript += `${legacyFileOutputChannelName} = ${channelName}\n\n`;
       } else {
         // Fallback if no files
-        paramsScript += `params.inputdir = "./inputs"\n`;
-        paramsScript += "params.selected_files = []\n\n";
+        paramsScript += `params.${fileParamName} = []\n\n`;
         firstPassScript += `${channelName} = Channel.empty()\n\n`;
         firstPassScript += `${legacyFileOutputChannelName} = ${channelName}\n\n`;
       }
+    } else if (node.type === "sampleSheet") {
+      // Each sample sheet row becomes tuple(meta, reads), the shape nf-core
+      // modules expect, with the sample id and any extra columns in meta.
+      const sheetParamName = `${sanitizeVarName(node.id)}_samplesheet`;
+      const channelName = `ch_${sanitizeVarName(node.id)}_samples`;
+      channelNameMap.set(`${node.id}.samples`, channelName);
+      channelNameMap.set(`${node.id}.out`, channelName);
+      definedInputChannels.add(channelName);
+
+      if (!hasInputDirParam) {
+        paramsScript += `params.inputdir = "./inputs"\n`;
+        hasInputDirParam = true;
+      }
+
+      const sheetFileName = node.data.files?.[0]?.name;
+      if (sheetFileName) {
+        paramsScript += `params.${sheetParamName} = "\${params.inputdir}/${escapeGString(
+          sheetFileName
+        )}"\n\n`;
+        firstPassScript += buildSampleSheetChannel(channelName, sheetParamName);
+      } else {
+        paramsScript += `params.${sheetParamName} = ''\n\n`;
+        firstPassScript += `${channelName} = Channel.empty()\n\n`;
+      }
+    } else if (node.type === "parameter") {
+      // The default is written into the script; values entered before a run
+      // arrive through params.json and take precedence over it.
+      const channelName = `ch_${sanitizeVarName(node.id)}_param`;
+      channelNameMap.set(`${node.id}.value`, channelName);
+      channelNameMap.set(`${node.id}.out`, channelName);
+      definedInputChannels.add(channelName);
+
+      const paramName = (node.data.paramName ?? "").trim();
+      if (!paramName || getParamNameError(paramName)) {
+        firstPassScript += `${channelName} = Channel.empty()\n\n`;
+      } else {
+        if (!declaredParams.has(paramName)) {
+          declaredParams.add(paramName);
+          paramsScript += `params.${paramName} = ${toParameterLiteral(
+            node.data.paramType,
+            node.data.paramDefault
+          )}\n\n`;
+        }
+        firstPassScript +=
+          node.data.paramType === "path"
+            ? `${channelName} = Channel.value(file(params.${paramName}, checkIfExists: true))\n\n`
+            : `${channelName} = Channel.value(params.${paramName})\n\n`;
+      }
     } else {
       node.data.outputs?.forEach((output: { name: string }) => {
         // Use the actual output name for better mapping, especially for processes like FastQC
@@ -129,11 +207,7 @@ export const generateNextflowScript = (
     ) {
       if (invokedNodes.has(node.id)) return;
       invokedNodes.add(node.id);
-      // Robust process name generation
-      let type = node.data.processType || node.data.operatorType || node.type;
-      if (!type || typeof type !== "string" || type === "undefined")
-        type = "process";
-      const processName = `${type}_${node.id.replace(/[\s-]+/g, "_")}`;
+      const processName = getProcessNameForNode(node);
       const incomingEdges = sortIncomingEdges(
         edges.filter((edge) => edge.target === node.id)
       );
@@ -169,8 +243,6 @@ export const generateNextflowScript = (
         outputDisplayCounter,
         outputNamingPattern,
         workflowName,
-        timestamp,
-        date: dateStr,
         resolveChannelNameForEdge,
         buildMixedChannelExpression,
         sanitizeVarName,
@@ -203,7 +275,7 @@ export const generateNextflowScript = (
   });
 
   // Final Script Assembly
-  let finalScript = `// Workflow Script for ${workflowName}\n`;
+  let finalScript = `// Workflow Script for ${toCommentText(workflowName)}\n`;
   finalScript += "// N-WAVE generator: registry-nfcore-v1\n\n";
   finalScript += "nextflow.enable.dsl = 2\n\n";
   finalScript += paramsScript;
@@ -519,7 +591,8 @@ function getInvocationArguments(invocation: string): string[] {
     return [];
   }
 
-  const rhs = getInvocationExpression(trimmed);
+  // Text inside string literals (file names, filter patterns) is not a channel
+  const rhs = stripStringLiterals(getInvocationExpression(trimmed));
   const candidatePattern = /\b[A-Za-z_][A-Za-z0-9_]*(?:_[A-Za-z0-9_]+)*\b/g;
   const lhsDefinitions = new Set<string>();
   const tupleDefinitionMatch = trimmed.match(/^\(\s*([^)]+?)\s*\)\s*=\s*\w+\(/);
@@ -564,6 +637,11 @@ function getInvocationArguments(invocation: string): string[] {
       continue;
     }
 
+    // Exclude branch labels and named options like `low_quality: ...`.
+    if (nextNonWhitespaceChar === ":") {
+      continue;
+    }
+
     // Exclude process aliases in module output references like `FASTQC_1.out.html`.
     if (rhs.slice(endIndex).match(/^\s*\.out\./)) {
       continue;
@@ -629,6 +707,58 @@ function getInvocationExpression(trimmedInvocation: string): string {
   return trimmedInvocation;
 }
 
+function stripStringLiterals(expression: string): string {
+  return expression.replace(/'(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*"/g, "''");
+}
+
+function getServerPathPattern(directory?: string, glob?: string): string {
+  const trimmedDirectory = (directory || "").trim().replace(/\/+$/, "");
+  const trimmedGlob = (glob || "").trim().replace(/^\/+/, "");
+  if (!trimmedDirectory) return trimmedGlob;
+  return trimmedGlob ? `${trimmedDirectory}/${trimmedGlob}` : trimmedDirectory;
+}
+
+// Read paths in the sheet may be absolute, remote URLs or names of files
+// staged into the run's inputs directory.
+function buildSampleSheetChannel(
+  channelName: string,
+  sheetParamName: string
+): string {
+  return `${channelName} = Channel.fromPath(params.${sheetParamName}, checkIfExists: true)
+    .splitCsv(header: true, strip: true)
+    .map { row ->
+        def readFile = { String p -> file(p.startsWith('/') || p.contains('://') ? p : "\${params.inputdir}/\${p}", checkIfExists: true) }
+        def singleEnd = row.single_end ? row.single_end.toBoolean() : !row.fastq_2
+        def meta = row.findAll { key, value -> !(key in ['sample', 'fastq_1', 'fastq_2', 'single_end']) } + [id: row.sample, single_end: singleEnd]
+        def reads = singleEnd ? [readFile(row.fastq_1)] : [readFile(row.fastq_1), readFile(row.fastq_2)]
+        tuple(meta, reads)
+    }
+
+`;
+}
+
+// Script default of a Parameter node. Empty or unparsable numbers become
+// null so a run without a value fails where the param is used.
+function toParameterLiteral(type?: string, value?: string): string {
+  const text = String(value ?? "");
+  if (type === "boolean") return text === "true" ? "true" : "false";
+  if (type === "number") {
+    return text.trim() && Number.isFinite(Number(text)) ? String(Number(text)) : "null";
+  }
+  return toGroovyString(text);
+}
+
+/**
+ * Name of the process (or module alias) generated for a node. Ids that only
+ * differ in spaces, dashes and underscores map to the same name.
+ */
+export function getProcessNameForNode(node: Node): string {
+  let type = node.data.processType || node.data.operatorType || node.type;
+  if (!type || typeof type !== "string" || type === "undefined")
+    type = "process";
+  return `${type}_${node.id.replace(/[\s-]+/g, "_")}`;
+}
+
 function sanitizeVarName(name: string): string {
   if (typeof name !== "string") return "";
   let sanitized = name.replace(/[-\s]+/g, "_");
@@ -0,0 +1,82 @@
+// Quoting and escaping shared by all templates. Every user-supplied value that
+// ends up in a generated script goes through one of these helpers, picked by
+// where it lands: a Groovy literal, a shell word in a process script, a regex
+// or sed expression, a file name or a comment.
+
+/**
+ * Single-quoted Groovy string. Nothing is interpolated inside it, so only
+ * backslashes, quotes and line breaks need escaping.
+ */
+export function toGroovyString(value: string): string {
+  return `'${value
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")}'`;
+}
+
+/**
+ * Text inside a double-quoted Groovy string, including process `"""` script
+ * blocks, where `$`, `\` and `"` would otherwise be interpolated or end it.
+ */
+export function escapeGString(value: string): string {
+  return value.replace(/[\\$"]/g, "\\$&");
+}
+
+/**
+ * POSIX shell word for any content. Plain words such as `LEADING:3` or
+ * `file.fa` stay readable; anything else is single-quoted.
+ */
+export function toShellWord(value: string): string {
+  if (/^[A-Za-z0-9_@%+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/** A shell word written into a process script block. */
+export function toScriptArgument(value: string): string {
+  return escapeGString(toShellWord(value));
+}
+
+/** Literal text as a POSIX basic regular expression (grep without -E). */
+export function escapeBasicRegex(value: string): string {
+  return value.replace(/[\\.*[\]^$]/g, "\\$&");
+}
+
+/**
+ * Literal text as the pattern of a basic `sed 's/<pattern>/.../'`: regex
+ * specials and the `/` delimiter are escaped, line breaks spelled as `\n`.
+ */
+export function escapeSedPattern(value: string): string {
+  return escapeBasicRegex(value).replace(/\//g, "\\/").replace(/\n/g, "\\n");
+}
+
+/**
+ * Extended regex for `sed -E 's/<pattern>/.../'`. Escapes the `/` delimiter
+ * unless the user already did, and spells line breaks as `\n`. A dangling
+ * backslash is taken literally instead of swallowing the delimiter.
+ */
+export function escapeSedRegex(value: string): string {
+  return value.replace(/\\[^\n]|\\|\/|\n/g, (match) => {
+    if (match === "/") return "\\/";
+    if (match === "\n") return "\\n";
+    if (match === "\\") return "\\\\";
+    return match;
+  });
+}
+
+/** Literal sed replacement: `\`, `&` and the `/` delimiter lose their meaning. */
+export function escapeSedReplacement(value: string): string {
+  return value.replace(/[\\&/]/g, "\\$&").replace(/\n/g, "\\n");
+}
+
+/** File name segment made of safe characters only, e.g. for published outputs. */
+export function toFileNameSegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9_.-]+/g, "_");
+}
+
+/** Text for a `//` comment; a line break would end the comment early. */
+export function toCommentText(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
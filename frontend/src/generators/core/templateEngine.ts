@@ -50,6 +50,17 @@ export function generateOperatorCode(
   }
 }
 
+// Quoting shared by every template for user-supplied values
+export * from "./quoting";
+
+// Channel-operator forms of Filter/Map/Merge, emitted into the workflow block
+export { generateNativeOperatorCode } from "../templates/operators";
+// Channel-shaping operators (join, groupTuple, collect, ...) and branch
+export {
+  generateBranchOperator,
+  generateChannelOperatorCode,
+} from "../templates/channelOperators";
+
 export function generateOutputCode(config: OutputConfig): string {
   return generateOutputDisplayProcess(config as any);
 }
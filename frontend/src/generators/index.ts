@@ -7,7 +7,7 @@ export * as templates from "./templates";
 // Execution capabilities
 export * from "./execution";
 
-// Validation (future)
+// Pre-run workflow validation
 export * from "./validation";
 
 // Generator categories for organization
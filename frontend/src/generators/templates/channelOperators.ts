@@ -0,0 +1,135 @@
+// Channel-shaping operator templates (join, groupTuple, collect, flatten,
+// combine, branch). They only rewire channels inside the workflow block.
+
+export interface ChannelOperatorConfig {
+  outputChannel: string;
+  inputChannels: string[]; // In input port order
+  [key: string]: unknown;
+}
+
+export interface BranchDefinition {
+  name: string;
+  condition: string;
+}
+
+// Branch names become Groovy properties and output port names
+export const BRANCH_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Only non-default options are written, e.g. `(by: 1, remainder: true)`
+const formatOptions = (options: Record<string, unknown>): string => {
+  const entries = Object.entries(options).filter(
+    ([, value]) => value !== undefined && value !== null && value !== ""
+  );
+  return entries.map(([key, value]) => `${key}: ${value}`).join(", ");
+};
+
+const toIndex = (value: unknown): number | undefined => {
+  const index = Number(value);
+  return Number.isInteger(index) && index >= 0 ? index : undefined;
+};
+
+export function generateJoinOperator(
+  config: ChannelOperatorConfig & { joinBy?: number; joinRemainder?: boolean }
+): string {
+  const { outputChannel, inputChannels, joinBy, joinRemainder } = config;
+  const [left, right] = inputChannels;
+  const by = toIndex(joinBy);
+  const options = formatOptions({
+    by: by && by > 0 ? by : undefined,
+    remainder: joinRemainder ? true : undefined,
+  });
+
+  return `    ${outputChannel} = ${left}.join(${[right, options]
+    .filter(Boolean)
+    .join(", ")})\n`;
+}
+
+export function generateCombineOperator(
+  config: ChannelOperatorConfig & { combineBy?: number | string }
+): string {
+  const { outputChannel, inputChannels, combineBy } = config;
+  const [left, right] = inputChannels;
+  const options = formatOptions({
+    by: combineBy === "" ? undefined : toIndex(combineBy),
+  });
+
+  return `    ${outputChannel} = ${left}.combine(${[right, options]
+    .filter(Boolean)
+    .join(", ")})\n`;
+}
+
+export function generateGroupTupleOperator(
+  config: ChannelOperatorConfig & {
+    groupBy?: number;
+    groupSize?: number;
+    groupSort?: boolean;
+  }
+): string {
+  const { outputChannel, inputChannels, groupBy, groupSize, groupSort } =
+    config;
+  const by = toIndex(groupBy);
+  const size = toIndex(groupSize);
+  const options = formatOptions({
+    by: by && by > 0 ? by : undefined,
+    size: size && size > 0 ? size : undefined,
+    sort: groupSort ? true : undefined,
+  });
+
+  return `    ${outputChannel} = ${inputChannels[0]}.groupTuple(${options})\n`;
+}
+
+export function generateCollectOperator(
+  config: ChannelOperatorConfig & { collectFlat?: boolean }
+): string {
+  const { outputChannel, inputChannels, collectFlat = true } = config;
+  return `    ${outputChannel} = ${inputChannels[0]}.collect(${
+    collectFlat ? "" : "flat: false"
+  })\n`;
+}
+
+export function generateFlattenOperator(config: ChannelOperatorConfig): string {
+  return `    ${config.outputChannel} = ${config.inputChannels[0]}.flatten()\n`;
+}
+
+/**
+ * Branch emits one invocation for the `branch` itself and one per named
+ * output, so downstream nodes depend only on the branch they consume.
+ * Conditions are Groovy expressions evaluated against `it`.
+ */
+export function generateBranchOperator(config: {
+  resultChannel: string;
+  inputChannel: string;
+  branches: Array<BranchDefinition & { outputChannel: string }>;
+}): string[] {
+  const { resultChannel, inputChannel, branches } = config;
+
+  return [
+    `    ${resultChannel} = ${inputChannel}.branch {\n${branches
+      .map((branch) => `        ${branch.name}: ${branch.condition}`)
+      .join("\n")}\n    }\n`,
+    ...branches.map(
+      (branch) =>
+        `    ${branch.outputChannel} = ${resultChannel}.${branch.name}\n`
+    ),
+  ];
+}
+
+export function generateChannelOperatorCode(
+  operatorType: string,
+  config: ChannelOperatorConfig
+): string {
+  switch (operatorType) {
+    case "join":
+      return generateJoinOperator(config);
+    case "combine":
+      return generateCombineOperator(config);
+    case "groupTuple":
+      return generateGroupTupleOperator(config);
+    case "collect":
+      return generateCollectOperator(config);
+    case "flatten":
+      return generateFlattenOperator(config);
+    default:
+      throw new Error(`Unsupported channel operator type: ${operatorType}`);
+  }
+}
@@ -1,11 +1,13 @@
 // Template modules for different node types
 export * from "./processes";
 export * from "./operators";
+export * from "./channelOperators";
 export * from "./inputs";
 export * from "./outputs";
 
 // Re-export types
 export type * from "./processes";
 export type * from "./operators";
+export type * from "./channelOperators";
 export type * from "./inputs";
 export type * from "./outputs";
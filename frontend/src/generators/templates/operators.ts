@@ -1,6 +1,42 @@
 // Operator process templates for Nextflow script generation
 
 import type { ProcessConfig } from "./processes";
+import {
+  escapeBasicRegex,
+  escapeSedPattern,
+  escapeSedRegex,
+  escapeSedReplacement,
+  toGroovyString,
+  toScriptArgument,
+} from "../core/quoting";
+
+// Only "regex" mode is a regular expression; the other modes match the text
+// literally, as the preview does.
+const getGrepMatch = (
+  filterText: string,
+  filterMode?: string
+): { flag: string; pattern: string; description: string } | undefined => {
+  switch (filterMode) {
+    case "contains":
+      return { flag: "-F", pattern: filterText, description: "contained" };
+    case "startsWith":
+      return {
+        flag: "",
+        pattern: `^${escapeBasicRegex(filterText)}`,
+        description: "started with",
+      };
+    case "endsWith":
+      return {
+        flag: "",
+        pattern: `${escapeBasicRegex(filterText)}$`,
+        description: "ended with",
+      };
+    case "regex":
+      return { flag: "-E", pattern: filterText, description: "matched regex" };
+    default:
+      return undefined;
+  }
+};
 
 export function generateFilterProcess(
   config: ProcessConfig & {
@@ -17,29 +53,29 @@ export function generateFilterProcess(
   } = config;
   const { filterText, filterMode, filterNegate } = config;
 
-  let filterScript = "";
-  if (filterText && filterMode) {
-    if (filterMode === "contains") {
-      const negateFlag = filterNegate ? "-v" : "";
-      filterScript = `grep ${negateFlag} "${filterText}" \${input_file} > "\${input_file.baseName}_filtered.txt" || echo "# Filter: No lines contained '${filterText}'" > "\${input_file.baseName}_filtered.txt"`;
-    } else if (filterMode === "startsWith") {
-      const negateFlag = filterNegate ? "-v" : "";
-      filterScript = `grep ${negateFlag} "^${filterText}" \${input_file} > "\${input_file.baseName}_filtered.txt" || echo "# Filter: No lines started with '${filterText}'" > "\${input_file.baseName}_filtered.txt"`;
-    } else if (filterMode === "endsWith") {
-      const negateFlag = filterNegate ? "-v" : "";
-      filterScript = `grep ${negateFlag} "${filterText}$" \${input_file} > "\${input_file.baseName}_filtered.txt" || echo "# Filter: No lines ended with '${filterText}'" > "\${input_file.baseName}_filtered.txt"`;
-    } else if (filterMode === "regex") {
-      const negateFlag = filterNegate ? "-v" : "";
-      filterScript = `grep ${negateFlag} -E "${filterText}" \${input_file} > "\${input_file.baseName}_filtered.txt" || echo "# Filter: No lines matched regex '${filterText}'" > "\${input_file.baseName}_filtered.txt"`;
-    }
+  let filterScript: string;
+  const grepMatch = filterText
+    ? getGrepMatch(filterText, filterMode)
+    : undefined;
+  if (filterText && grepMatch) {
+    // -e keeps a pattern starting with "-" from being read as an option
+    const grepFlags = [grepMatch.flag, filterNegate ? "-v" : "", "-e"]
+      .filter(Boolean)
+      .join(" ");
+    const emptyNote = `# Filter: No lines ${grepMatch.description} '${filterText}'`;
+    filterScript = `grep ${grepFlags} ${toScriptArgument(
+      grepMatch.pattern
+    )} \${input_file} > "\${input_file.baseName}_filtered.txt" || echo ${toScriptArgument(
+      emptyNote
+    )} > "\${input_file.baseName}_filtered.txt"`;
   } else {
     filterScript = `cp \${input_file} "\${input_file.baseName}_filtered.txt"`;
   }
 
   return `process ${processName} {
-    container '${containerImage}'
+    container ${toGroovyString(String(containerImage))}
     cpus ${cpuCount}
-    memory '${memoryAmount}'
+    memory ${toGroovyString(memoryAmount)}
 
     input:
     path input_file
@@ -60,6 +96,7 @@ export function generateMapProcess(
     mapChangeCase?: string;
     mapReplaceFind?: string;
     mapReplaceWith?: string;
+    mapReplaceMode?: string;
   }
 ): string {
   const {
@@ -68,8 +105,13 @@ export function generateMapProcess(
     memoryAmount,
     containerImage = "ubuntu:22.04",
   } = config;
-  const { mapOperation, mapChangeCase, mapReplaceFind, mapReplaceWith } =
-    config;
+  const {
+    mapOperation,
+    mapChangeCase,
+    mapReplaceFind,
+    mapReplaceWith,
+    mapReplaceMode,
+  } = config;
 
   let transformScript = "";
   if (mapOperation === "changeCase") {
@@ -82,15 +124,24 @@ export function generateMapProcess(
   } else if (mapOperation === "replaceText") {
     const findText = mapReplaceFind || "";
     const replaceText = mapReplaceWith || "";
-    transformScript = `sed 's/${findText}/${replaceText}/g' \${input_file} > "\${input_file.baseName}_mapped.txt"`;
+    // The find text is a regex unless the node asks for literal matching;
+    // the replacement is always literal
+    const literal = mapReplaceMode === "literal";
+    const pattern = literal
+      ? escapeSedPattern(findText)
+      : escapeSedRegex(findText);
+    const sedScript = `s/${pattern}/${escapeSedReplacement(replaceText)}/g`;
+    transformScript = `sed ${literal ? "" : "-E "}${toScriptArgument(
+      sedScript
+    )} \${input_file} > "\${input_file.baseName}_mapped.txt"`;
   } else {
     transformScript = `cp \${input_file} "\${input_file.baseName}_mapped.txt"`;
   }
 
   return `process ${processName} {
-    container '${containerImage}'
+    container ${toGroovyString(String(containerImage))}
     cpus ${cpuCount}
-    memory '${memoryAmount}'
+    memory ${toGroovyString(memoryAmount)}
 
     input:
     path input_file
@@ -125,9 +176,9 @@ export function generateMergeProcess(
   // Special handling for FASTQ
   if (outputType === "fastq") {
     return `process ${processName} {
-      container '${containerImage}'
+      container ${toGroovyString(String(containerImage))}
       cpus ${cpuCount}
-      memory '${memoryAmount}'
+      memory ${toGroovyString(memoryAmount)}
 
       input:
       path input_files, name: "merge_input_*"
@@ -163,9 +214,9 @@ export function generateMergeProcess(
 
   // Default join for text files
   return `process ${processName} {
-    container '${containerImage}'
+    container ${toGroovyString(String(containerImage))}
     cpus ${cpuCount}
-    memory '${memoryAmount}'
+    memory ${toGroovyString(memoryAmount)}
 
       input:
       path input_files, name: "merge_input_*"
@@ -180,6 +231,138 @@ export function generateMergeProcess(
   }`;
 }
 
+// Native forms run inside the workflow block as channel operators, so no
+// container task is scheduled for a simple text transformation.
+export interface NativeOperatorConfig {
+  inputChannel: string;
+  outputChannel: string;
+  [key: string]: unknown;
+}
+
+// Splits each file into (baseName, line) pairs and writes the surviving lines
+// back into one file per input, mirroring the process form's output names.
+const buildLineChain = (
+  inputChannel: string,
+  lineStep: string,
+  suffix: string
+): string => `${inputChannel}
+        .map { f -> tuple(f.baseName, f) }
+        .splitText(elem: 1)
+        ${lineStep}
+        .collectFile(sort: false) { name, line -> ["\${name}_${suffix}.txt", line] }`;
+
+export function generateNativeFilterOperator(
+  config: NativeOperatorConfig & {
+    filterText?: string;
+    filterMode?: string;
+    filterNegate?: boolean;
+  }
+): string {
+  const { inputChannel, outputChannel, filterText, filterMode, filterNegate } =
+    config;
+
+  if (!filterText) {
+    return `    ${outputChannel} = ${inputChannel}\n`;
+  }
+
+  const pattern = toGroovyString(filterText);
+  let condition: string;
+  if (filterMode === "startsWith") {
+    condition = `text.startsWith(${pattern})`;
+  } else if (filterMode === "endsWith") {
+    condition = `text.endsWith(${pattern})`;
+  } else if (filterMode === "regex") {
+    condition = `text.find(${pattern}) != null`;
+  } else {
+    condition = `text.contains(${pattern})`;
+  }
+  if (filterNegate) {
+    condition = `!(${condition})`;
+  }
+
+  // Inputs without a single matching line produce no output file
+  return `    ${outputChannel} = ${buildLineChain(
+    inputChannel,
+    `.filter { name, line ->
+            def text = line.replaceFirst('\\n$', '')
+            ${condition}
+        }`,
+    "filtered"
+  )}\n`;
+}
+
+export function generateNativeMapOperator(
+  config: NativeOperatorConfig & {
+    mapOperation: string;
+    mapChangeCase?: string;
+    mapReplaceFind?: string;
+    mapReplaceWith?: string;
+    mapReplaceMode?: string;
+  }
+): string {
+  const {
+    inputChannel,
+    outputChannel,
+    mapOperation,
+    mapChangeCase,
+    mapReplaceFind,
+    mapReplaceWith,
+    mapReplaceMode,
+  } = config;
+
+  let transform: string | null = null;
+  if (mapOperation === "changeCase") {
+    transform =
+      (mapChangeCase || "toUpperCase") === "toUpperCase"
+        ? "line.toUpperCase()"
+        : "line.toLowerCase()";
+  } else if (mapOperation === "replaceText" && mapReplaceFind) {
+    const find = toGroovyString(mapReplaceFind);
+    const replacement = toGroovyString(mapReplaceWith || "");
+    // String.replace is literal; replaceAll reads `$` and `\` in the
+    // replacement too, so that is quoted to stay literal like the sed form
+    transform =
+      mapReplaceMode === "literal"
+        ? `line.replace(${find}, ${replacement})`
+        : `line.replaceAll(${find}, java.util.regex.Matcher.quoteReplacement(${replacement}))`;
+  }
+
+  if (!transform) {
+    return `    ${outputChannel} = ${inputChannel}\n`;
+  }
+
+  return `    ${outputChannel} = ${buildLineChain(
+    inputChannel,
+    `.map { name, line -> tuple(name, ${transform}) }`,
+    "mapped"
+  )}\n`;
+}
+
+export function generateNativeMergeOperator(
+  config: NativeOperatorConfig & { joinType?: string }
+): string {
+  const { inputChannel, outputChannel, joinType = "txt" } = config;
+
+  return `    ${outputChannel} = ${inputChannel}
+        .collectFile(name: ${toGroovyString(`merged.${joinType}`)}, sort: false)\n`;
+}
+
+export function generateNativeOperatorCode(
+  operatorType: string,
+  config: NativeOperatorConfig
+): string {
+  switch (operatorType) {
+    case "filter":
+      return generateNativeFilterOperator(config);
+    case "map":
+      return generateNativeMapOperator(config as any);
+    case "merge":
+      return generateNativeMergeOperator(config);
+    default:
+      throw new Error(`Unsupported native operator type: ${operatorType}`);
+  }
+}
+
 export function generateOperatorCode(
   operatorType: string,
   config: ProcessConfig
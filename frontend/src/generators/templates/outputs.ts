@@ -1,5 +1,7 @@
 // Output process templates for Nextflow script generation
 
+import { toFileNameSegment, toGroovyString } from "../core/quoting";
+
 export interface OutputConfig {
   processName: string;
   cpuCount: number;
@@ -8,16 +10,48 @@ export interface OutputConfig {
   [key: string]: any;
 }
 
+const DEFAULT_OUTPUT_NAMING_PATTERN = "{workflow_name}_{timestamp}_{process_name}";
+
+// Run-specific naming placeholders are resolved by Nextflow when the run
+// starts (or passed as --run_timestamp/--run_date), so the generated script
+// only depends on the graph and its settings.
+const RUNTIME_NAMING_PARAMS = new Map([
+  ["{timestamp}", { param: "run_timestamp", value: "System.currentTimeMillis()" }],
+  [
+    "{date}",
+    {
+      param: "run_date",
+      value: "new java.util.Date().format('yyyy-MM-dd', TimeZone.getTimeZone('UTC'))",
+    },
+  ],
+]);
+
+/** `params` defaults for the runtime placeholders a naming pattern uses. */
+export function getOutputNamingParams(outputNamingPattern: string): string {
+  const pattern = outputNamingPattern || DEFAULT_OUTPUT_NAMING_PATTERN;
+  return Array.from(RUNTIME_NAMING_PARAMS.entries())
+    .filter(([placeholder]) => pattern.includes(placeholder))
+    .map(([, { param, value }]) => `params.${param} = ${value}\n`)
+    .join("");
+}
+
+/**
+ * Each Output Display node publishes into its own folder under params.outdir,
+ * so its files can be found again in the run's results after execution.
+ */
+export function getOutputDisplayResultsDir(nodeId: string): string {
+  return toFileNameSegment(nodeId);
+}
+
 export function generateOutputDisplayProcess(
   config: OutputConfig & {
     outputLabel: string;
     downloadFormat: string;
     selectedFileName: string;
+    resultsDir: string;
     outputDisplayCounter: number;
     outputNamingPattern: string;
     workflowName: string;
-    timestamp: number;
-    date: string;
     processName: string;
   }
 ): string {
@@ -26,24 +60,31 @@ export function generateOutputDisplayProcess(
     cpuCount,
     memoryAmount,
     containerImage = "ubuntu:22.04",
-    outputLabel,
-    downloadFormat,
     selectedFileName,
+    resultsDir,
     outputDisplayCounter,
     outputNamingPattern,
     workflowName,
-    timestamp,
-    date,
   } = config;
+  // Labels and names end up in file names and double-quoted shell strings
+  const outputLabel = toFileNameSegment(config.outputLabel);
+  const downloadFormat = toFileNameSegment(config.downloadFormat);
 
-  // Replace variables in the pattern
-  const safePattern =
-    outputNamingPattern || "{workflow_name}_{timestamp}_{process_name}";
+  // Replace variables in the pattern; runtime ones become GString references
+  // to their params, which every use of the prefix below interpolates
+  const safePattern = outputNamingPattern || DEFAULT_OUTPUT_NAMING_PATTERN;
   const basePattern = safePattern
-    .replace(/\{workflow_name\}/g, workflowName)
-    .replace(/\{timestamp\}/g, String(timestamp))
-    .replace(/\{date\}/g, date)
-    .replace(/\{process_name\}/g, processName);
+    .split(/(\{timestamp\}|\{date\})/)
+    .map((part) => {
+      const runtimeParam = RUNTIME_NAMING_PARAMS.get(part);
+      if (runtimeParam) return `\${params.${runtimeParam.param}}`;
+      return toFileNameSegment(
+        part
+          .replace(/\{workflow_name\}/g, workflowName)
+          .replace(/\{process_name\}/g, processName)
+      );
+    })
+    .join("");
 
   let outputPattern: string;
   let processScript: string;
@@ -144,12 +185,10 @@ export function generateOutputDisplayProcess(
   }
 
   return `process ${processName} {
-    container '${containerImage}'
+    container ${toGroovyString(containerImage)}
     cpus ${cpuCount}
-    memory '${memoryAmount}'
-    errorStrategy 'retry'
-    maxRetries 2
-    publishDir params.outdir, mode: 'copy'
+    memory ${toGroovyString(memoryAmount)}
+    publishDir "\${params.outdir}/${resultsDir}", mode: 'copy'
 
     input:
     ${selectedFileName === "all" ? "path input_files" : "file input_file"}
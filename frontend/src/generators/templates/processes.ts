@@ -1,5 +1,8 @@
 // Generic process template for custom Nextflow process generation.
 
+import { toGroovyString } from "../core/quoting";
+import type { BackoffStrategy, ErrorStrategy } from "../../types/execution";
+
 export interface ProcessConfig {
   processName: string;
   cpuCount: number;
@@ -24,12 +27,10 @@ export function generateGenericProcess(
   } = config;
 
   return `process ${processName} {
-    container '${containerImage}'
+    container ${toGroovyString(containerImage)}
     cpus ${cpuCount}
-    memory '${memoryAmount}'
-    time '${timeLimit}'
-    errorStrategy 'retry'
-    maxRetries 2
+    memory ${toGroovyString(memoryAmount)}
+    time ${toGroovyString(timeLimit)}
 
     input:
     val x
@@ -41,3 +42,46 @@ export function generateGenericProcess(
     ${script}
 }`;
 }
+
+export interface ErrorHandlingConfig {
+  strategy: ErrorStrategy;
+  maxRetries?: number;
+  backoffStrategy?: BackoffStrategy;
+}
+
+const ERROR_STRATEGIES: ErrorStrategy[] = [
+  "terminate",
+  "ignore",
+  "retry",
+  "finish",
+];
+
+// Milliseconds to wait before attempt n + 1, as a Groovy expression
+const BACKOFF_DELAYS = new Map<BackoffStrategy, string>([
+  ["exponential", "Math.pow(2, task.attempt - 1) * 1000"],
+  ["linear", "task.attempt * 1000"],
+  ["fixed", "1000"],
+]);
+
+/**
+ * `errorStrategy`/`maxRetries` settings for a config `process` scope or
+ * `withName` selector. Retries sleep inside the strategy closure first, since
+ * Nextflow itself resubmits failed tasks straight away.
+ */
+export function generateErrorStrategyConfig(
+  config: ErrorHandlingConfig
+): string[] {
+  if (!ERROR_STRATEGIES.includes(config.strategy)) return [];
+  if (config.strategy !== "retry") {
+    return [`errorStrategy = ${toGroovyString(config.strategy)}`];
+  }
+
+  const maxRetries = Math.max(0, Math.floor(Number(config.maxRetries) || 0));
+  const delay = BACKOFF_DELAYS.get(config.backoffStrategy ?? "exponential");
+  return [
+    delay
+      ? `errorStrategy = { sleep((${delay}) as long); return 'retry' }`
+      : "errorStrategy = 'retry'",
+    `maxRetries = ${maxRetries}`,
+  ];
+}
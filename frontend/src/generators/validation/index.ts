@@ -1,8 +1,5 @@
-// Validation functionality for script generation
-// Currently empty - validation logic is in execution/executionCapabilities.ts
-// This directory is reserved for script-specific validation
+// Static validation of the workflow graph before a script is generated
+export * from "./workflowValidator";
 
-// Future validation modules:
-// export * from './scriptValidator';
-// export * from './syntaxValidator';
-// export * from './dependencyValidator';
+// Re-export types
+export type * from "./workflowValidator";
@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest";
+import type { Edge, Node } from "reactflow";
+import { validateWorkflow } from "./workflowValidator";
+import { demoWorkflowSeed } from "../../demo/demoWorkflow";
+import { getNodeDefinitionById } from "../../registry/nodeDefinitions";
+
+const fileInput = (id: string): Node => ({
+  id,
+  type: "fileInput",
+  position: { x: 0, y: 0 },
+  data: {
+    files: [{ name: "reads.txt", size: 1 }],
+    outputs: [{ name: "out", isConnectable: true }],
+  },
+});
+
+const operator = (id: string, definitionId = "filter"): Node => ({
+  id,
+  type: "operator",
+  position: { x: 0, y: 0 },
+  data: { ...getNodeDefinitionById(definitionId)?.defaults },
+});
+
+const edge = (
+  source: string,
+  target: string,
+  sourceHandle = "out",
+  targetHandle = "in"
+): Edge => ({
+  id: `${source}-${target}-${targetHandle}`,
+  source,
+  target,
+  sourceHandle,
+  targetHandle,
+});
+
+const codesFor = (nodes: Node[], edges: Edge[], nodeId: string) =>
+  (validateWorkflow(nodes, edges).issuesByNode[nodeId] ?? []).map(
+    (issue) => issue.code
+  );
+
+describe("validateWorkflow", () => {
+  it("accepts the demo workflow", () => {
+    const result = validateWorkflow(
+      demoWorkflowSeed.nodes as unknown as Node[],
+      demoWorkflowSeed.edges as unknown as Edge[]
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("reports dangling nodes and unconnected join inputs", () => {
+    const nodes = [fileInput("in"), operator("lonely"), operator("pair", "join")];
+    const edges = [edge("in", "pair", "out", "left")];
+    const result = validateWorkflow(nodes, edges);
+
+    expect(result.isValid).toBe(false);
+    expect(codesFor(nodes, edges, "lonely")).toEqual(["dangling-node"]);
+    expect(result.issuesByNode.pair.map((issue) => issue.message)).toEqual([
+      'pair input "Right" is not connected.',
+    ]);
+  });
+
+  it("reports channels from missing nodes or unknown outputs", () => {
+    const nodes = [fileInput("in"), operator("a"), operator("b")];
+    const edges = [edge("in", "a"), edge("ghost", "b"), edge("a", "b", "html")];
+
+    expect(codesFor(nodes, edges, "b")).toEqual([
+      "unresolved-channel",
+      "unresolved-channel",
+    ]);
+    expect(codesFor(nodes, edges, "a")).toEqual([]);
+  });
+
+  it("reports every node on a cycle", () => {
+    const nodes = [fileInput("in"), operator("a"), operator("b"), operator("c")];
+    const edges = [edge("in", "a"), edge("a", "b"), edge("b", "c"), edge("c", "a")];
+    const result = validateWorkflow(nodes, edges);
+
+    expect(
+      result.issues
+        .filter((issue) => issue.code === "cycle")
+        .map((issue) => issue.nodeId)
+    ).toEqual(["a", "b", "c"]);
+  });
+
+  it("reports mismatched port file types", () => {
+    const producer = {
+      ...operator("qc"),
+      data: {
+        ...operator("qc").data,
+        outputs: [{ name: "html", fileType: "html", isConnectable: true }],
+      },
+    };
+    const consumer = {
+      ...operator("trim"),
+      data: { ...operator("trim").data, inputs: [{ name: "reads", fileType: "fastq" }] },
+    };
+    const nodes = [fileInput("in"), producer, consumer];
+    const edges = [edge("in", "qc"), edge("qc", "trim", "html", "reads")];
+
+    expect(codesFor(nodes, edges, "trim")).toEqual(["type-mismatch"]);
+  });
+
+  it("warns on adapted channel shapes and rejects tuples into path inputs", () => {
+    const sampleSheet: Node = {
+      id: "sheet",
+      type: "sampleSheet",
+      position: { x: 0, y: 0 },
+      data: {
+        label: "Samples",
+        files: [{ name: "samples.csv", size: 1 }],
+        ...getNodeDefinitionById("sampleSheet")?.defaults,
+      },
+    };
+    const fastqc: Node = {
+      id: "qc",
+      type: "process",
+      position: { x: 0, y: 0 },
+      data: { ...getNodeDefinitionById("fastqc")?.defaults },
+    };
+    const counter: Node = {
+      id: "count",
+      type: "process",
+      position: { x: 0, y: 0 },
+      data: {
+        label: "Count",
+        inputs: [{ name: "reads", label: "Reads", channelShape: "path" }],
+        outputs: [{ name: "out", isConnectable: true }],
+      },
+    };
+    const nodes = [fileInput("in"), sampleSheet, fastqc, counter];
+    const edges = [
+      edge("in", "qc", "out", "reads"),
+      edge("sheet", "count", "samples", "reads"),
+    ];
+    const result = validateWorkflow(nodes, edges);
+
+    expect(result.issuesByNode.qc).toEqual([
+      expect.objectContaining({
+        code: "type-mismatch",
+        severity: "warning",
+        edgeId: "in-qc-reads",
+      }),
+    ]);
+    expect(result.issuesByNode.qc[0].message).toContain(
+      "in emits path but FastQC expects tuple(meta, path)"
+    );
+    expect(result.issuesByNode.count).toEqual([
+      expect.objectContaining({ code: "type-mismatch", severity: "error" }),
+    ]);
+    expect(result.issuesByNode.count[0].message).toBe(
+      'Samples emits tuple(meta, path) but Count expects path on "Reads": the process would receive the whole tuple instead of a file.'
+    );
+  });
+
+  it("reports unset custom-node settings", () => {
+    const custom: Node = {
+      id: "custom",
+      type: "process",
+      position: { x: 0, y: 0 },
+      data: {
+        processType: "custom_count",
+        inputs: [{ name: "reads" }],
+        outputs: [{ name: "out", isConnectable: true }],
+        customNodeValueInputs: [
+          { name: "min_len", kind: "val", label: "Min Length", settingType: "integer" },
+          { name: "mode", kind: "val", label: "Mode", settingType: "select", options: ["fast", "slow"] },
+          { name: "strict", kind: "val", label: "Strict", settingType: "boolean" },
+        ],
+        customNodeValues: { min_len: "ten", mode: "", strict: "" },
+      },
+    };
+    const result = validateWorkflow(
+      [fileInput("in"), custom],
+      [edge("in", "custom", "out", "reads")]
+    );
+
+    expect(result.issuesByNode.custom.map((issue) => issue.message)).toEqual([
+      "custom: Min Length must be a number.",
+      "custom: Mode is required.",
+    ]);
+  });
+
+  it("checks Parameter nodes and lets them provide custom-node settings", () => {
+    const parameter = (id: string, data: Record<string, unknown>): Node => ({
+      id,
+      type: "parameter",
+      position: { x: 0, y: 0 },
+      data: { ...getNodeDefinitionById("parameter")?.defaults, ...data },
+    });
+    const custom: Node = {
+      id: "custom",
+      type: "process",
+      position: { x: 0, y: 0 },
+      data: {
+        processType: "custom_trim",
+        inputs: [
+          { name: "reads" },
+          { name: "min_len", channelShape: "value", optional: true },
+        ],
+        outputs: [{ name: "out", isConnectable: true }],
+        customNodeValueInputs: [
+          { name: "min_len", kind: "val", label: "Min Length", settingType: "integer" },
+        ],
+        customNodeValues: { min_len: "" },
+      },
+    };
+    const nodes = [
+      fileInput("in"),
+      custom,
+      parameter("min", { paramName: "min_len", paramType: "number" }),
+      parameter("again", { paramName: "min_len" }),
+      parameter("reserved", { paramName: "outdir" }),
+      parameter("count", { paramName: "count", paramType: "number", paramDefault: "many" }),
+    ];
+    const edges = [
+      edge("in", "custom", "out", "reads"),
+      edge("min", "custom", "value", "min_len"),
+    ];
+
+    expect(codesFor(nodes, edges, "custom")).toEqual([]);
+    expect(codesFor(nodes, edges, "min")).toEqual([]);
+    expect(codesFor(nodes, edges, "again")).toEqual(["invalid-parameter"]);
+    expect(codesFor(nodes, edges, "reserved")).toEqual(["invalid-parameter"]);
+    expect(codesFor(nodes, edges, "count")).toEqual(["invalid-parameter"]);
+    // Unconnected, the setting needs a value on the node again
+    expect(codesFor(nodes, edges.slice(0, 1), "custom")).toEqual([
+      "missing-setting",
+    ]);
+  });
+
+  it("reports node ids that generate the same process name", () => {
+    const nodes = [fileInput("in"), operator("step-1"), operator("step 1")];
+    const edges = [edge("in", "step-1"), edge("in", "step 1")];
+
+    expect(codesFor(nodes, edges, "step-1")).toEqual(["duplicate-process-name"]);
+    expect(codesFor(nodes, edges, "step 1")).toEqual(["duplicate-process-name"]);
+  });
+});
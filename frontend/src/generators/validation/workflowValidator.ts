@@ -0,0 +1,376 @@
+import type { Edge, Node } from "reactflow";
+import type { NodeData, PortData } from "../../components/nodes/BaseNode";
+import type { CustomNodeInput } from "../../registry/customNodes";
+import { checkConnectionChannelShapes } from "../../registry/nodeDefinitions";
+import { findIncomingEdgeForHandle } from "../../registry/nodeGeneration";
+import { getProcessNameForNode } from "../core/generateNextflowScript";
+import {
+  getParameterNameError,
+  getParameterValueError,
+  getWorkflowParameters,
+} from "../../utils/workflowParameters";
+
+export type WorkflowIssueCode =
+  | "dangling-node"
+  | "unresolved-channel"
+  | "cycle"
+  | "type-mismatch"
+  | "missing-setting"
+  | "invalid-parameter"
+  | "duplicate-process-name";
+
+export interface WorkflowIssue {
+  nodeId: string;
+  code: WorkflowIssueCode;
+  severity: "error" | "warning";
+  message: string;
+  edgeId?: string;
+}
+
+export interface WorkflowValidationResult {
+  isValid: boolean; // No error-severity issues
+  issues: WorkflowIssue[];
+  issuesByNode: Record<string, WorkflowIssue[]>;
+}
+
+// Node types the generator turns into processes or channel operators; the
+// rest (file inputs, sample sheets) only provide channels.
+const GENERATED_NODE_TYPES = new Set([
+  "operator",
+  "filter",
+  "process",
+  "outputDisplay",
+]);
+
+// Handles the generator maps to a node's first output
+const FALLBACK_OUTPUT_HANDLES = new Set(["out", "output"]);
+
+/**
+ * Static checks on the graph before a script is generated. The generator
+ * silently skips nodes it cannot wire up, so anything it would drop or
+ * Nextflow would reject is reported here, per node, instead.
+ */
+export function validateWorkflow(
+  nodes: Node<NodeData>[],
+  edges: Edge[]
+): WorkflowValidationResult {
+  const issues: WorkflowIssue[] = [
+    ...findDanglingNodes(nodes, edges),
+    ...findUnresolvedChannels(nodes, edges),
+    ...findCycles(nodes, edges),
+    ...findTypeMismatches(nodes, edges),
+    ...findMissingSettings(nodes, edges),
+    ...findInvalidParameters(nodes),
+    ...findDuplicateProcessNames(nodes),
+  ];
+
+  const issuesByNode: Record<string, WorkflowIssue[]> = {};
+  issues.forEach((issue) => {
+    issuesByNode[issue.nodeId] = [...(issuesByNode[issue.nodeId] ?? []), issue];
+  });
+
+  return {
+    isValid: issues.every((issue) => issue.severity !== "error"),
+    issues,
+    issuesByNode,
+  };
+}
+
+const getNodeName = (node: Node<NodeData>): string =>
+  node.data.label || node.id;
+
+const findDanglingNodes = (
+  nodes: Node<NodeData>[],
+  edges: Edge[]
+): WorkflowIssue[] =>
+  nodes.flatMap((node): WorkflowIssue[] => {
+    if (GENERATED_NODE_TYPES.has(node.type ?? "")) {
+      return edges.some((edge) => edge.target === node.id)
+        ? []
+        : [
+            {
+              nodeId: node.id,
+              code: "dangling-node",
+              severity: "error",
+              message: `${getNodeName(node)} has no incoming connection.`,
+            },
+          ];
+    }
+
+    // Parameters can be read as params.<name> without being connected
+    if (node.type === "parameter") return [];
+
+    return edges.some((edge) => edge.source === node.id)
+      ? []
+      : [
+          {
+            nodeId: node.id,
+            code: "dangling-node",
+            severity: "warning",
+            message: `${getNodeName(node)} is not connected to anything.`,
+          },
+        ];
+  });
+
+const findUnresolvedChannels = (
+  nodes: Node<NodeData>[],
+  edges: Edge[]
+): WorkflowIssue[] => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const issues: WorkflowIssue[] = [];
+
+  edges.forEach((edge) => {
+    const source = nodesById.get(edge.source);
+    if (!nodesById.has(edge.target)) return;
+
+    if (!source) {
+      issues.push({
+        nodeId: edge.target,
+        edgeId: edge.id,
+        code: "unresolved-channel",
+        severity: "error",
+        message: `Input comes from a node that no longer exists (${edge.source}).`,
+      });
+      return;
+    }
+
+    // Input nodes define their channels regardless of the handle used
+    const outputs = source.data.outputs ?? [];
+    const handle = edge.sourceHandle;
+    const resolves =
+      !GENERATED_NODE_TYPES.has(source.type ?? "") ||
+      !handle ||
+      outputs.some((output) => output.name === handle) ||
+      (outputs.length > 0 && FALLBACK_OUTPUT_HANDLES.has(handle));
+    if (!resolves) {
+      issues.push({
+        nodeId: edge.target,
+        edgeId: edge.id,
+        code: "unresolved-channel",
+        severity: "error",
+        message: `${getNodeName(source)} has no output named "${handle}".`,
+      });
+    }
+  });
+
+  // Every input port of a generated node needs a channel
+  nodes.forEach((node) => {
+    if (!GENERATED_NODE_TYPES.has(node.type ?? "")) return;
+    const incomingEdges = edges.filter((edge) => edge.target === node.id);
+    if (incomingEdges.length === 0) return; // Reported as dangling
+
+    (node.data.inputs ?? []).forEach((input, index) => {
+      if (input.optional) return;
+      if (!findIncomingEdgeForHandle(incomingEdges, input.name, index)) {
+        issues.push({
+          nodeId: node.id,
+          code: "unresolved-channel",
+          severity: "error",
+          message: `${getNodeName(node)} input "${
+            input.label || input.name
+          }" is not connected.`,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+const findCycles = (
+  nodes: Node<NodeData>[],
+  edges: Edge[]
+): WorkflowIssue[] => {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const successors = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) return;
+    successors.set(edge.source, [
+      ...(successors.get(edge.source) ?? []),
+      edge.target,
+    ]);
+  });
+
+  // Depth-first search; a back edge to a node on the stack closes a cycle
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const inCycle = new Set<string>();
+
+  const visit = (nodeId: string) => {
+    state.set(nodeId, "visiting");
+    stack.push(nodeId);
+    (successors.get(nodeId) ?? []).forEach((nextId) => {
+      if (state.get(nextId) === "visiting") {
+        stack.slice(stack.indexOf(nextId)).forEach((id) => inCycle.add(id));
+      } else if (!state.has(nextId)) {
+        visit(nextId);
+      }
+    });
+    stack.pop();
+    state.set(nodeId, "done");
+  };
+  nodes.forEach((node) => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+
+  return nodes
+    .filter((node) => inCycle.has(node.id))
+    .map((node) => ({
+      nodeId: node.id,
+      code: "cycle",
+      severity: "error",
+      message: `${getNodeName(node)} is part of a cycle; channels cannot feed back into themselves.`,
+    }));
+};
+
+// Edges without a handle belong to the node's first port
+const findPort = (
+  ports: PortData[] | undefined,
+  handle: string | null | undefined
+): PortData | undefined =>
+  handle ? ports?.find((port) => port.name === handle) : ports?.[0];
+
+const findTypeMismatches = (
+  nodes: Node<NodeData>[],
+  edges: Edge[]
+): WorkflowIssue[] => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  return edges.flatMap((edge): WorkflowIssue[] => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) return [];
+
+    const issues: WorkflowIssue[] = [];
+    const output = findPort(source.data.outputs, edge.sourceHandle);
+    const input = findPort(target.data.inputs, edge.targetHandle);
+    const outputType = output?.fileType?.trim().toLowerCase();
+    const inputType = input?.fileType?.trim().toLowerCase();
+    if (outputType && inputType && outputType !== inputType) {
+      issues.push({
+        nodeId: target.id,
+        edgeId: edge.id,
+        code: "type-mismatch",
+        severity: "error",
+        message: `${getNodeName(source)} emits ${output?.fileType} but ${getNodeName(
+          target
+        )} expects ${input?.fileType} on "${input?.label || input?.name}".`,
+      });
+    }
+
+    // Same check as on connect, for loaded workflows and changed settings
+    const shapes = checkConnectionChannelShapes(edge, source, target);
+    const shapeMessage = shapes.message ?? shapes.warning;
+    if (shapeMessage) {
+      issues.push({
+        nodeId: target.id,
+        edgeId: edge.id,
+        code: "type-mismatch",
+        severity: shapes.valid ? "warning" : "error",
+        message: shapeMessage,
+      });
+    }
+
+    return issues;
+  });
+};
+
+// Custom nodes pass their `val` settings straight into the process call,
+// unless a Parameter node is connected to the setting's port
+const findMissingSettings = (
+  nodes: Node<NodeData>[],
+  edges: Edge[]
+): WorkflowIssue[] =>
+  nodes.flatMap((node) => {
+    const settings: CustomNodeInput[] = node.data.customNodeValueInputs ?? [];
+    const values: Record<string, unknown> = node.data.customNodeValues ?? {};
+
+    return settings.flatMap((setting): WorkflowIssue[] => {
+      const isConnected = edges.some(
+        (edge) => edge.target === node.id && edge.targetHandle === setting.name
+      );
+      if (isConnected) return [];
+
+      const value = String(values[setting.name] ?? "").trim();
+      const type = setting.settingType ?? "text";
+      const label = setting.label || setting.name;
+      if (type === "boolean") return [];
+
+      let problem: string | null = null;
+      if (!value) {
+        problem = `${label} is required.`;
+      } else if (
+        (type === "integer" && !/^-?\d+$/.test(value)) ||
+        (type === "float" && !Number.isFinite(Number(value)))
+      ) {
+        problem = `${label} must be a number.`;
+      } else if (
+        type === "select" &&
+        setting.options?.length &&
+        !setting.options.includes(value)
+      ) {
+        problem = `${label} must be one of ${setting.options.join(", ")}.`;
+      }
+
+      return problem
+        ? [
+            {
+              nodeId: node.id,
+              code: "missing-setting",
+              severity: "error",
+              message: `${getNodeName(node)}: ${problem}`,
+            },
+          ]
+        : [];
+    });
+  });
+
+const findInvalidParameters = (nodes: Node<NodeData>[]): WorkflowIssue[] => {
+  const parameters = getWorkflowParameters(nodes);
+
+  return parameters.flatMap((parameter): WorkflowIssue[] => {
+    const problem =
+      getParameterNameError(parameters, parameter.nodeId) ??
+      (parameter.defaultValue
+        ? getParameterValueError(parameter.type, parameter.defaultValue)
+        : null);
+    if (!problem) return [];
+
+    return [
+      {
+        nodeId: parameter.nodeId,
+        code: "invalid-parameter",
+        severity: "error",
+        message: `Parameter ${
+          parameter.name ? `params.${parameter.name}` : parameter.nodeId
+        }: ${problem}`,
+      },
+    ];
+  });
+};
+
+const findDuplicateProcessNames = (
+  nodes: Node<NodeData>[]
+): WorkflowIssue[] => {
+  const nodesByProcessName = new Map<string, Node<NodeData>[]>();
+  nodes.forEach((node) => {
+    if (!GENERATED_NODE_TYPES.has(node.type ?? "")) return;
+    const processName = getProcessNameForNode(node);
+    nodesByProcessName.set(processName, [
+      ...(nodesByProcessName.get(processName) ?? []),
+      node,
+    ]);
+  });
+
+  return Array.from(nodesByProcessName.entries()).flatMap(
+    ([processName, duplicates]): WorkflowIssue[] =>
+      duplicates.length < 2
+        ? []
+        : duplicates.map((node) => ({
+            nodeId: node.id,
+            code: "duplicate-process-name",
+            severity: "error",
+            message: `${getNodeName(node)} would generate process ${processName}, which another node also uses.`,
+          }))
+  );
+};
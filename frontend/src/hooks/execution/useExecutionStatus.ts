@@ -2,21 +2,42 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import type { Node } from "reactflow";
 import type { NodeData } from "../../components/nodes/BaseNode";
 import { getExecutionLabelForProcessName } from "../../registry";
+import { getRunEventsUrl } from "../../api/runs";
+import type { RunEvent, RunStatus } from "../../types/backend";
 import type {
   WorkflowExecutionStatus,
   NodeExecutionStatus,
 } from "../../components/common/workflow/ExecutionStatusPanel";
 
+export interface RunFinishedResult {
+  runId: string;
+  status: RunStatus;
+  output: string;
+  outputDir?: string | null;
+  error?: string | null;
+  resumable?: boolean; // A later run can resume from this one
+}
+
 interface UseExecutionStatusOptions {
   nodes: Node<NodeData>[];
   onStatusChange?: (status: WorkflowExecutionStatus) => void;
-  executionId?: string | null;
+  onRunFinished?: (result: RunFinishedResult) => void;
+  workflowId?: string;
 }
 
+// The active run is remembered per workflow so a reloaded tab can reattach
+const getActiveRunStorageKey = (workflowId: string) =>
+  `nwave:active-run:${workflowId}`;
+
+type TaskEvent = Extract<RunEvent, { type: "task" }>;
+type TraceEvent = Extract<RunEvent, { type: "trace" }>;
+type CompleteEvent = Extract<RunEvent, { type: "complete" }>;
+
 export const useExecutionStatus = ({
   nodes,
   onStatusChange,
-  executionId,
+  onRunFinished,
+  workflowId,
 }: UseExecutionStatusOptions) => {
   const [status, setStatus] = useState<WorkflowExecutionStatus>({
     isRunning: false,
@@ -32,6 +53,14 @@ export const useExecutionStatus = ({
   const statusRef = useRef(status);
   const progressUpdateInterval = useRef<NodeJS.Timeout>();
   const runtimeTimer = useRef<NodeJS.Timeout>();
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const runLogRef = useRef<string[]>([]);
+  const onRunFinishedRef = useRef(onRunFinished);
+  const [runId, setRunId] = useState<string | null>(null);
+
+  useEffect(() => {
+    onRunFinishedRef.current = onRunFinished;
+  }, [onRunFinished]);
 
   // Update ref when status changes
   useEffect(() => {
@@ -87,14 +116,12 @@ export const useExecutionStatus = ({
     }, 1000);
   }, []);
 
-  // Parse Nextflow output to update status
+  // Parse Nextflow log lines for stage messages. Task progress and completion
+  // arrive as their own events on the run stream.
   const parseNextflowOutput = useCallback((output: string) => {
     const lines = output.split("\n");
 
     lines.forEach((line) => {
-      // Debug: Log each line to see what we're parsing
-      console.log("Parsing line:", JSON.stringify(line));
-
       // Parse workflow launch
       if (line.includes("Launching") && line.includes("DSL2")) {
         const launchMatch = line.match(/Launching `([^`]+)`.*\[([^\]]+)\]/);
@@ -116,134 +143,6 @@ export const useExecutionStatus = ({
         }));
       }
 
-      // Parse process discovery phase - processes being listed
-      const processListMatch = line.match(/\[-\s+\]\s+([^\s]+)\s+-?$/);
-      if (processListMatch) {
-        // DO NOT CREATE NODES HERE - only update canvas nodes from execution data
-        console.log(
-          `🔍 Discovered Nextflow process: ${processListMatch[1]} (will map to canvas node later)`
-        );
-      }
-
-      // Parse process execution with progress - Main pattern
-      const executionMatch = line.match(
-        /\[([\w\/]+)\]\s+([^\s]+(?:\s+\([^)]+\))?)\s*\|\s*(\d+)\s+of\s+(\d+)\s*(✔|❌|⚠)?/
-      );
-
-      if (executionMatch) {
-        const [, processNameWithInstance, completed, total, statusSymbol] = executionMatch;
-
-        // Extract just the process name (remove instance info)
-        const nextflowProcessName = processNameWithInstance
-          .split(" ")[0]
-          .replace(/…/g, "");
-        const completedNum = Number.parseInt(completed);
-        const totalNum = Number.parseInt(total);
-
-        // Create user-friendly names for display
-        const getDisplayName = (nfProcessName: string) => {
-          const registryLabel = getExecutionLabelForProcessName(nfProcessName);
-          if (registryLabel) return registryLabel;
-
-          if (nfProcessName.includes("filter_node")) return "Filter";
-          if (nfProcessName.includes("map_node")) return "Map";
-          if (nfProcessName.includes("merge_node")) return "Merge";
-          if (
-            nfProcessName.includes("save_") &&
-            nfProcessName.includes("Output_node")
-          )
-            return "Display Output";
-          return nfProcessName;
-        };
-
-        const displayName = getDisplayName(nextflowProcessName);
-
-        setStatus((prevStatus) => {
-          const nodeStatuses = [...prevStatus.nodeStatuses];
-
-          // Find existing node by process name (stable ID)
-          const existingIndex = nodeStatuses.findIndex(
-            (n) => n.nodeId === nextflowProcessName
-          );
-
-          if (existingIndex === -1) {
-            // Create new Nextflow process node
-            const newNodeStatus: NodeExecutionStatus = {
-              nodeId: nextflowProcessName, // Use actual Nextflow process name as stable ID
-              nodeName: displayName, // Use friendly display name
-              status: completedNum === totalNum ? "success" : "running",
-              startTime: new Date(),
-              progress: (completedNum / totalNum) * 100,
-            };
-            nodeStatuses.push(newNodeStatus);
-            console.log(
-              `➕ Created Nextflow process: ${displayName} (${nextflowProcessName})`
-            );
-          } else {
-            // Update existing process
-            const existingNode = nodeStatuses[existingIndex];
-            const newProgress = (completedNum / totalNum) * 100;
-
-            if (
-              existingNode.progress !== newProgress ||
-              existingNode.status === "waiting"
-            ) {
-              const updatedNode = { ...existingNode };
-              updatedNode.progress = newProgress;
-              updatedNode.status =
-                completedNum === totalNum
-                  ? statusSymbol === "❌"
-                    ? "error"
-                    : "success"
-                  : "running";
-
-              if (
-                updatedNode.status === "success" ||
-                updatedNode.status === "error"
-              ) {
-                updatedNode.endTime = new Date();
-              }
-
-              if (!updatedNode.startTime) {
-                updatedNode.startTime = new Date();
-              }
-
-              nodeStatuses[existingIndex] = updatedNode;
-              console.log(
-                `🔄 Updated Nextflow process: ${displayName} (${newProgress}%)`
-              );
-            }
-          }
-
-          // Calculate overall statistics
-          const runningNodes = nodeStatuses.filter(
-            (n) => n.status === "running"
-          ).length;
-          const completedNodes = nodeStatuses.filter(
-            (n) => n.status === "success"
-          ).length;
-          const failedNodes = nodeStatuses.filter(
-            (n) => n.status === "error"
-          ).length;
-          const totalNodes = nodeStatuses.length;
-          const overallProgress =
-            totalNodes > 0
-              ? ((completedNodes + failedNodes) / totalNodes) * 100
-              : 0;
-
-          return {
-            ...prevStatus,
-            nodeStatuses,
-            runningNodes,
-            completedNodes,
-            failedNodes,
-            totalNodes,
-            overallProgress,
-            currentStage: `${displayName}: ${completedNum}/${totalNum}`,
-          };
-        });
-      }
-
       // Parse individual task completion
       const taskCompletionMatch = line.match(
         /\[([^\]]+)\]\s+(\w+):([^\s]+)(?:\s+\(([^)]+)\))?\s*✔/
@@ -257,70 +156,6 @@ export const useExecutionStatus = ({
         }));
       }
 
-      // Parse workflow completion - Multiple patterns
-      const completionPatterns = [
-        /Completed at:.*/,
-        /Duration:\s+.*/,
-        /CPU hours:\s+.*/,
-        /Succeeded:\s+\d+/,
-        /Process completed with exit code:\s*0/,
-        /Nextflow execution completed successfully/,
-        /Pipeline completed successfully/,
-      ];
-
-      const isCompleted = completionPatterns.some((pattern) =>
-        pattern.test(line)
-      );
-
-      if (isCompleted) {
-        console.log("🎉 Detected workflow completion:", line);
-
-        // Clear runtime timer immediately
-        if (runtimeTimer.current) {
-          clearInterval(runtimeTimer.current);
-          runtimeTimer.current = undefined;
-        }
-
-        setStatus((prevStatus) => ({
-          ...prevStatus,
-          isRunning: false,
-          endTime: new Date(),
-          overallProgress: 100,
-          currentStage: "Nextflow execution completed successfully",
-          // Mark any remaining nodes as completed
-          nodeStatuses: prevStatus.nodeStatuses.map((node) => ({
-            ...node,
-            status:
-              node.status === "running" || node.status === "waiting"
-                ? "success"
-                : node.status,
-            endTime: node.endTime || new Date(),
-            progress:
-              node.status === "running" || node.status === "waiting"
-                ? 100
-                : node.progress,
-          })),
-          completedNodes: prevStatus.nodeStatuses.length,
-          runningNodes: 0,
-        }));
-
-        // Auto-hide after showing completion for a few seconds
-        setTimeout(() => {
-          setIsVisible(false);
-          setStatus({
-            isRunning: false,
-            totalNodes: 0,
-            completedNodes: 0,
-            failedNodes: 0,
-            runningNodes: 0,
-            nodeStatuses: [],
-            overallProgress: 0,
-          });
-        }, 10000);
-
-        return; // Stop processing any more lines after completion
-      }
-
       // Parse errors
       if (line.includes("ERROR ~")) {
         const errorMatch = line.match(/ERROR ~ (.+)/);
@@ -332,30 +167,106 @@ export const useExecutionStatus = ({
           }));
         }
       }
+    });
+  }, []);
+
+  // Apply a task status change reported by the backend
+  const applyTaskEvent = useCallback((event: TaskEvent) => {
+    const nextflowProcessName = event.process;
 
-      // Parse failure messages (case-insensitive to handle backend/Nextflow variants)
-      const normalizedLine = line.trim().toLowerCase();
+    // Create user-friendly names for display
+    const getDisplayName = (nfProcessName: string) => {
+      const registryLabel = getExecutionLabelForProcessName(nfProcessName);
+      if (registryLabel) return registryLabel;
+
+      if (nfProcessName.includes("filter_node")) return "Filter";
+      if (nfProcessName.includes("map_node")) return "Map";
+      if (nfProcessName.includes("merge_node")) return "Merge";
       if (
-        normalizedLine.includes("execution cancelled") ||
-        normalizedLine.includes("execution failed") ||
-        normalizedLine.includes("nextflow execution failed with exit code") ||
-        normalizedLine.includes("failed to setup workflow execution") ||
-        (normalizedLine.includes("process completed with exit code:") &&
-          !normalizedLine.includes("exit code: 0"))
-      ) {
-        // Clear runtime timer
-        if (runtimeTimer.current) {
-          clearInterval(runtimeTimer.current);
-          runtimeTimer.current = undefined;
-        }
+        nfProcessName.includes("save_") &&
+        nfProcessName.includes("Output_node")
+      )
+        return "Display Output";
+      return nfProcessName;
+    };
 
-        setStatus((prevStatus) => ({
-          ...prevStatus,
-          isRunning: false,
-          endTime: new Date(),
-          currentStage: line.trim(),
-        }));
+    const displayName = getDisplayName(nextflowProcessName);
+    const hasCounts =
+      typeof event.completed === "number" &&
+      typeof event.total === "number" &&
+      event.total > 0;
+
+    setStatus((prevStatus) => {
+      const nodeStatuses = [...prevStatus.nodeStatuses];
+
+      // Find existing node by process name (stable ID)
+      const existingIndex = nodeStatuses.findIndex(
+        (n) => n.nodeId === nextflowProcessName
+      );
+      const existingNode =
+        existingIndex === -1 ? undefined : nodeStatuses[existingIndex];
+      const progress = hasCounts
+        ? ((event.completed as number) / (event.total as number)) * 100
+        : (existingNode?.progress ?? 0);
+
+      const updatedNode: NodeExecutionStatus = {
+        // Use actual Nextflow process name as stable ID
+        nodeId: nextflowProcessName,
+        nodeName: displayName,
+        ...existingNode,
+        status: event.status,
+        startTime: existingNode?.startTime ?? new Date(),
+        progress,
+        cachedTasks: Math.max(
+          event.cached ?? 0,
+          existingNode?.cachedTasks ?? 0
+        ),
+      };
+      // A retried or ignored failure is not the process failing
+      if (event.errorAction && event.task) {
+        const key =
+          event.errorAction === "retried" ? "retriedTasks" : "ignoredTasks";
+        updatedNode[key] = Array.from(
+          new Set([...(existingNode?.[key] ?? []), event.task])
+        );
+        updatedNode.error = undefined;
+      }
+      if (event.status === "success" || event.status === "error") {
+        updatedNode.endTime = new Date();
+      }
+
+      if (existingIndex === -1) {
+        nodeStatuses.push(updatedNode);
+      } else {
+        nodeStatuses[existingIndex] = updatedNode;
       }
+
+      // Calculate overall statistics
+      const runningNodes = nodeStatuses.filter(
+        (n) => n.status === "running"
+      ).length;
+      const completedNodes = nodeStatuses.filter(
+        (n) => n.status === "success"
+      ).length;
+      const failedNodes = nodeStatuses.filter(
+        (n) => n.status === "error"
+      ).length;
+      const totalNodes = nodeStatuses.length;
+      const overallProgress =
+        totalNodes > 0 ? ((completedNodes + failedNodes) / totalNodes) * 100 : 0;
+
+      return {
+        ...prevStatus,
+        nodeStatuses,
+        runningNodes,
+        completedNodes,
+        failedNodes,
+        totalNodes,
+        overallProgress,
+        currentStage: hasCounts
+          ? `${displayName}: ${event.completed}/${event.total}`
+          : `${displayName}: ${event.status}`,
+      };
     });
   }, []);
 
@@ -428,27 +339,8 @@ export const useExecutionStatus = ({
     [onStatusChange]
   );
 
-  // Cancel execution
-  const cancelExecution = useCallback(async () => {
-    if (!executionId) {
-      console.warn("No execution ID available for cancellation");
-      return;
-    }
-
-    try {
-      // Import api from the correct location
-      const { default: api } = await import("../../api");
-
-      // Call backend to cancel the actual process
-      const response = await api.post("/execute/cancel", { executionId });
-
-      console.log("Execution cancelled successfully:", response.data);
-    } catch (error: any) {
-      console.error("Error cancelling execution:", error);
-      // Still update UI even if backend cancel fails
-    }
-
-    // Update UI state
+  // Show a cancelled run and clear the canvas statuses
+  const markCancelled = useCallback(() => {
     if (progressUpdateInterval.current) {
       clearInterval(progressUpdateInterval.current);
       progressUpdateInterval.current = undefined;
@@ -463,8 +355,12 @@ export const useExecutionStatus = ({
       isRunning: false,
       endTime: new Date(),
       currentStage: "Workflow cancelled",
-      overallProgress:
-        (prevStatus.completedNodes / prevStatus.totalNodes) * 100,
+      runningNodes: 0,
+      nodeStatuses: prevStatus.nodeStatuses.map((node) =>
+        node.status === "running" || node.status === "waiting"
+          ? { ...node, status: "skipped", endTime: new Date() }
+          : node
+      ),
     }));
 
     // Clear node statuses immediately
@@ -484,8 +380,216 @@ export const useExecutionStatus = ({
     // Auto-hide the panel after a delay
     setTimeout(() => {
       setIsVisible(false);
-    }, 10000); // Hide panel after 2 seconds for cancellation
-  }, [executionId]);
+    }, 10000);
+  }, [onStatusChange]);
+
+  // Attach finished-task metrics from trace.txt to their process entries
+  const applyTraceEvent = useCallback((event: TraceEvent) => {
+    setStatus((prevStatus) => {
+      const nodeStatuses = [...prevStatus.nodeStatuses];
+
+      event.tasks.forEach((task) => {
+        const index = nodeStatuses.findIndex((n) => n.nodeId === task.process);
+        const existingNode =
+          index === -1
+            ? {
+                nodeId: task.process,
+                nodeName:
+                  getExecutionLabelForProcessName(task.process) ?? task.process,
+                status: "running" as const,
+                startTime: new Date(),
+              }
+            : nodeStatuses[index];
+        const tasks = [
+          ...(existingNode.tasks ?? []).filter(
+            (existingTask) => existingTask.taskId !== task.taskId
+          ),
+          task,
+        ];
+        const recovered =
+          existingNode.retriedTasks?.includes(task.name) ||
+          existingNode.ignoredTasks?.includes(task.name);
+        const failed = task.status === "FAILED" && !recovered;
+        const updatedNode: NodeExecutionStatus = {
+          ...existingNode,
+          tasks,
+          cachedTasks: Math.max(
+            tasks.filter((cachedTask) => cachedTask.status === "CACHED")
+              .length,
+            existingNode.cachedTasks ?? 0
+          ),
+          status: failed
+            ? "error"
+            : index === -1
+              ? "success"
+              : existingNode.status,
+          error: failed
+            ? `${task.name} failed with exit code ${task.exit ?? "unknown"}`
+            : existingNode.error,
+        };
+
+        if (index === -1) {
+          nodeStatuses.push(updatedNode);
+        } else {
+          nodeStatuses[index] = updatedNode;
+        }
+      });
+
+      const completedNodes = nodeStatuses.filter(
+        (n) => n.status === "success"
+      ).length;
+      const failedNodes = nodeStatuses.filter(
+        (n) => n.status === "error"
+      ).length;
+
+      return {
+        ...prevStatus,
+        nodeStatuses,
+        completedNodes,
+        failedNodes,
+        runningNodes: nodeStatuses.filter((n) => n.status === "running")
+          .length,
+        totalNodes: nodeStatuses.length,
+      };
+    });
+  }, []);
+
+  const closeRunStream = useCallback(() => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+  }, []);
+
+  // Follow a backend run over Server-Sent Events. Events are replayed from the
+  // start of the run, so this also rebuilds the panel after a page reload.
+  const attachToRun = useCallback(
+    (nextRunId: string) => {
+      closeRunStream();
+      startExecution();
+      runLogRef.current = [];
+      setRunId(nextRunId);
+      if (workflowId) {
+        sessionStorage.setItem(getActiveRunStorageKey(workflowId), nextRunId);
+      }
+
+      const eventSource = new EventSource(getRunEventsUrl(nextRunId), {
+        withCredentials: true,
+      });
+      eventSourceRef.current = eventSource;
+
+      eventSource.addEventListener("log", (message) => {
+        const event = JSON.parse((message as MessageEvent).data) as Extract<
+          RunEvent,
+          { type: "log" }
+        >;
+        runLogRef.current.push(event.line);
+        parseNextflowOutput(event.line);
+      });
+
+      eventSource.addEventListener("task", (message) => {
+        applyTaskEvent(JSON.parse((message as MessageEvent).data) as TaskEvent);
+      });
+
+      eventSource.addEventListener("trace", (message) => {
+        applyTraceEvent(
+          JSON.parse((message as MessageEvent).data) as TraceEvent
+        );
+      });
+
+      const finishRun = (event: CompleteEvent) => {
+        closeRunStream();
+        setRunId(null);
+        if (workflowId) {
+          sessionStorage.removeItem(getActiveRunStorageKey(workflowId));
+        }
+
+        if (event.status === "cancelled") {
+          markCancelled();
+        } else {
+          completeExecution(
+            event.status === "succeeded",
+            event.error || undefined
+          );
+        }
+        onRunFinishedRef.current?.({
+          runId: nextRunId,
+          status: event.status,
+          output: runLogRef.current.join("\n"),
+          outputDir: event.outputDir,
+          error: event.error,
+          resumable: event.resumable,
+        });
+      };
+
+      eventSource.addEventListener("complete", (message) => {
+        finishRun(JSON.parse((message as MessageEvent).data) as CompleteEvent);
+      });
+
+      // EventSource retries dropped connections by itself (sending
+      // Last-Event-ID); a CLOSED state means the run can no longer be found.
+      eventSource.onerror = () => {
+        if (eventSource.readyState === EventSource.CLOSED) {
+          finishRun({
+            type: "complete",
+            status: "failed",
+            error: "Lost connection to the workflow run",
+          });
+        }
+      };
+    },
+    [
+      closeRunStream,
+      startExecution,
+      workflowId,
+      parseNextflowOutput,
+      applyTaskEvent,
+      applyTraceEvent,
+      completeExecution,
+      markCancelled,
+    ]
+  );
+
+  // Reattach to a run that was still active when the tab was reloaded
+  useEffect(() => {
+    if (!workflowId) return;
+    const activeRunId = sessionStorage.getItem(
+      getActiveRunStorageKey(workflowId)
+    );
+    if (activeRunId && !eventSourceRef.current) {
+      attachToRun(activeRunId);
+    }
+  }, [workflowId, attachToRun]);
+
+  // Cancel execution. The backend stops Nextflow gracefully; the panel
+  // switches to "cancelled" once the run's completion event arrives.
+  const cancelExecution = useCallback(async () => {
+    if (!runId) {
+      console.warn("No run ID available for cancellation");
+      return;
+    }
+
+    setStatus((prevStatus) => ({
+      ...prevStatus,
+      currentStage: "Cancelling workflow...",
+    }));
+
+    try {
+      // Import api from the correct location
+      const { default: api } = await import("../../api");
+
+      // Call backend to cancel the actual process
+      const response = await api.post("/execute/cancel", { runId });
+
+      console.log("Execution cancelled successfully:", response.data);
+    } catch (error: any) {
+      console.error("Error cancelling execution:", error);
+      setStatus((prevStatus) => ({
+        ...prevStatus,
+        currentStage: `Could not cancel workflow: ${
+          error.response?.data?.error || error.message
+        }`,
+      }));
+    }
+  }, [runId]);
 
   // Hide status panel
   const hideStatus = useCallback(() => {
@@ -500,6 +604,7 @@ export const useExecutionStatus = ({
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      eventSourceRef.current?.close();
       if (progressUpdateInterval.current) {
         clearInterval(progressUpdateInterval.current);
       }
@@ -515,7 +620,8 @@ export const useExecutionStatus = ({
     startExecution,
     completeExecution,
     cancelExecution,
-    parseNextflowOutput,
+    attachToRun,
+    runId,
     hideStatus,
     showStatus,
   };
@@ -105,6 +105,11 @@ export const useFilterOperator = (
     }
 
     const result = filesToProcess.map((file) => {
+      // Binary/compressed inputs cannot be previewed line by line
+      if (file.encoding === "base64") {
+        return file;
+      }
+
       // Handle files without content - pass them through as empty files
       if (!file.content || typeof file.content !== "string") {
         console.warn(
@@ -12,10 +12,16 @@ export const useMapOperator = (
     mapChangeCase = "toUpperCase",
     mapReplaceFind = "",
     mapReplaceWith = "",
+    mapReplaceMode = "regex",
   } = nodeData;
 
   const mappedFiles = useMemo((): FileObject[] => {
     return incomingFiles.map((file) => {
+      // Binary/compressed inputs cannot be previewed line by line
+      if (file.encoding === "base64") {
+        return file;
+      }
+
       // Handle cases where file content is undefined or null
       if (!file.content) {
         return {
@@ -36,10 +42,14 @@ export const useMapOperator = (
                 : line.toUpperCase();
             case "replaceText":
               if (!mapReplaceFind) return line;
+              if (mapReplaceMode === "literal") {
+                return line.split(mapReplaceFind).join(mapReplaceWith);
+              }
+              // The replacement stays literal, as in the generated script
               try {
                 return line.replace(
                   new RegExp(mapReplaceFind, "g"),
-                  mapReplaceWith
+                  () => mapReplaceWith
                 );
               } catch (e) {
                 return line;
@@ -62,6 +72,7 @@ export const useMapOperator = (
     mapChangeCase,
     mapReplaceFind,
     mapReplaceWith,
+    mapReplaceMode,
     nodeData._refreshTimestamp,
   ]);
 
@@ -14,7 +14,12 @@ export const useMergeOperator = (
 
     // Filter out files without content and safely combine
     const combinedContent = incomingFiles
-      .filter((f) => f.content && typeof f.content === "string")
+      .filter(
+        (f) =>
+          f.content &&
+          typeof f.content === "string" &&
+          f.encoding !== "base64"
+      )
       .map((f) => f.content)
       .join("\n");
 
@@ -1,18 +1,38 @@
 import type React from "react";
 import { useState, useRef, useEffect, useCallback } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { BookOpen, Pencil, Trash2, Save, Copy, Upload } from "lucide-react";
+import {
+  BookOpen,
+  Pencil,
+  Trash2,
+  Save,
+  Copy,
+  Upload,
+  LogOut,
+  Package,
+} from "lucide-react";
 import api, { isDemoMode } from "../api";
 import {
   ConfirmDialog,
   ActionDialog,
+  BundleImportReportDialog,
+  CheckboxField,
   Modal,
   type ActionButtonProps,
 } from "../components/common";
 import PageLayout from "../components/layout/PageLayout";
+import { useAuth } from "../context/AuthContext";
 import { buildInfo } from "../utils/buildInfo";
 import { Loader } from "lucide-react";
-import type { WorkflowDescriptor } from "../types/backend";
+import type {
+  WorkflowBundleImportReport,
+  WorkflowDescriptor,
+} from "../types/backend";
+import {
+  getWorkflowExportUrl,
+  importWorkflowBundle,
+} from "../api/workflowBundles";
+import { refreshCustomNodes } from "../api/customNodes";
 import { defaultExecutionSettings } from "../workflows/defaultExecutionSettings";
 import { importNextflowWorkflow } from "../workflows/importNextflowWorkflow";
 import hcistudioLogo from "../assets/hcistudio-logo.png";
@@ -24,6 +44,13 @@ const TUTORIAL_ACTIVE_KEY = "nwave.demoTutorial.active";
 const TUTORIAL_STEP_KEY = "nwave.demoTutorial.step";
 const TUTORIAL_VERSION = "custom-nodes-v3";
 
+// Whether an import report has anything the user should see or act on
+const hasBundleImportNotes = (report: WorkflowBundleImportReport): boolean =>
+  report.customNodes.registered.length > 0 ||
+  report.nfCoreModules.length > 0 ||
+  report.files.missing.length > 0 ||
+  report.warnings.length > 0;
+
 const HomePage: React.FC = () => {
   const [workflows, setWorkflows] = useState<WorkflowDescriptor[]>([]);
   const [loading, setLoading] = useState(true);
@@ -40,6 +67,8 @@ const HomePage: React.FC = () => {
     name: string;
     description: string;
   } | null>(null);
+  // Set when an inline edit was rejected because the workflow changed
+  const [editConflict, setEditConflict] = useState<string | null>(null);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isUnsavedChangesModalOpen, setIsUnsavedChangesModalOpen] =
     useState(false);
@@ -50,11 +79,20 @@ const HomePage: React.FC = () => {
   const [importSource, setImportSource] = useState("");
   const [importFileName, setImportFileName] = useState("");
   const [isImporting, setIsImporting] = useState(false);
+  // A picked .nwave bundle is uploaded as is instead of parsed here
+  const [importBundle, setImportBundle] = useState<File | null>(null);
+  const [bundleImportResult, setBundleImportResult] = useState<{
+    workflow: WorkflowDescriptor;
+    report: WorkflowBundleImportReport;
+  } | null>(null);
+  const [exportWorkflowId, setExportWorkflowId] = useState<string | null>(null);
+  const [exportIncludeFiles, setExportIncludeFiles] = useState(false);
   const nameTextareaRef = useRef<HTMLTextAreaElement>(null);
   const descriptionTextareaRef = useRef<HTMLTextAreaElement>(null);
   const editingCardRef = useRef<HTMLDivElement>(null);
   const importFileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
+  const { user, logout } = useAuth();
   const [isTutorialIntroVisible, setIsTutorialIntroVisible] = useState(() => {
     return localStorage.getItem(TUTORIAL_COMPLETED_KEY) !== TUTORIAL_VERSION;
   });
@@ -113,6 +151,7 @@ const HomePage: React.FC = () => {
     e.preventDefault();
     e.stopPropagation();
     setEditingId(wf._id);
+    setEditConflict(null);
     const data = { name: wf.name || "", description: wf.description || "" };
     setEditData(data);
     setOriginalEditData(data);
@@ -126,14 +165,31 @@ const HomePage: React.FC = () => {
   };
 
   const handleSave = async (id: string) => {
+    const baseUpdatedAt = workflows.find((wf) => wf._id === id)?.updatedAt;
     try {
-      await api.put(`/workflows/${id}`, editData);
+      const response = await api.put<WorkflowDescriptor>(`/workflows/${id}`, {
+        ...editData,
+        baseUpdatedAt,
+      });
       setWorkflows((prev) =>
-        prev.map((wf) => (wf._id === id ? { ...wf, ...editData } : wf))
+        prev.map((wf) => (wf._id === id ? response.data : wf))
       );
       setEditingId(null);
       setOriginalEditData(null);
-    } catch (err) {
+      setEditConflict(null);
+    } catch (err: any) {
+      if (err?.response?.status === 409 && err.response.data?.workflow) {
+        // Rebase on the newer copy: saving again overwrites it, cancelling
+        // shows it
+        const current: WorkflowDescriptor = err.response.data.workflow;
+        setWorkflows((prev) =>
+          prev.map((wf) => (wf._id === id ? current : wf))
+        );
+        setEditConflict(
+          `Changed elsewhere to "${current.name}". Save again to overwrite it, or cancel to keep it.`
+        );
+        return;
+      }
       setError("Failed to update workflow.");
       console.error(err);
     }
@@ -142,6 +198,7 @@ const HomePage: React.FC = () => {
   const handleCancelEdit = useCallback(() => {
     setEditingId(null);
     setOriginalEditData(null);
+    setEditConflict(null);
   }, []);
 
   const checkForUnsavedChanges = useCallback(() => {
@@ -233,6 +290,7 @@ const HomePage: React.FC = () => {
     setImportDescription("");
     setImportSource("");
     setImportFileName("");
+    setImportBundle(null);
     if (importFileInputRef.current) {
       importFileInputRef.current.value = "";
     }
@@ -244,6 +302,14 @@ const HomePage: React.FC = () => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    if (file.name.toLowerCase().endsWith(".nwave")) {
+      setImportBundle(file);
+      setImportSource("");
+      setImportFileName(file.name);
+      return;
+    }
+
+    setImportBundle(null);
     try {
       const content = await file.text();
       setImportSource(content);
@@ -257,7 +323,46 @@ const HomePage: React.FC = () => {
     }
   };
 
+  const handleImportBundle = async (bundle: File) => {
+    try {
+      setIsImporting(true);
+      const result = await importWorkflowBundle(bundle);
+      if (result.report.customNodes.registered.length > 0) {
+        await refreshCustomNodes();
+      }
+      setIsImportModalOpen(false);
+      resetImportForm();
+      if (hasBundleImportNotes(result.report)) {
+        setBundleImportResult(result);
+      } else {
+        navigate(`/workflow/${result.workflow._id}`);
+      }
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.message || "Failed to import workflow bundle."
+      );
+      console.error(err);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExportBundle = () => {
+    if (!exportWorkflowId) return;
+    const link = document.createElement("a");
+    link.href = getWorkflowExportUrl(exportWorkflowId, exportIncludeFiles);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setExportWorkflowId(null);
+    setExportIncludeFiles(false);
+  };
+
   const handleImportWorkflow = async () => {
+    if (importBundle) {
+      await handleImportBundle(importBundle);
+      return;
+    }
     if (!importSource.trim()) {
       setError("Nextflow source is required for import.");
       return;
@@ -353,6 +458,9 @@ const HomePage: React.FC = () => {
     const isEditing = editingId === wf._id;
     const isReadOnly = wf.isReadOnly || wf.origin?.readOnly;
     const showDuplicate = Boolean(wf.origin?.canDuplicate);
+    // Only the owner deletes; others see workflows shared with them
+    const isShared = Boolean(wf.role && wf.role !== "owner");
+    const canDelete = !isReadOnly && !isShared;
     const isDemoWorkflow = wf._id === DEMO_WORKFLOW_ID || wf.isBuiltin;
     const hideCardButtons = isHomeTutorialActive && isDemoWorkflow;
 
@@ -373,7 +481,7 @@ const HomePage: React.FC = () => {
               >
                 <Save size={16} />
               </button>
-              {!isReadOnly && (
+              {canDelete && (
                 <button
                   onClick={(e) => handleDeleteClick(e, wf._id)}
                   className="p-1 text-text-light hover:text-red-500"
@@ -394,6 +502,20 @@ const HomePage: React.FC = () => {
                   <Pencil size={16} />
                 </button>
               )}
+              {!isDemoMode && !isDemoWorkflow && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setExportWorkflowId(wf._id);
+                  }}
+                  className="p-1 text-text-light hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label="Export"
+                  title="Export as .nwave bundle"
+                >
+                  <Package size={16} />
+                </button>
+              )}
               {showDuplicate && (
                 <button
                   onClick={(e) => handleDuplicate(e, wf._id)}
@@ -403,7 +525,7 @@ const HomePage: React.FC = () => {
                   <Copy size={16} />
                 </button>
               )}
-              {!isReadOnly && (
+              {canDelete && (
                 <button
                   onClick={(e) => handleDeleteClick(e, wf._id)}
                   className="p-1 text-text-light hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -446,6 +568,9 @@ const HomePage: React.FC = () => {
               rows={1}
               placeholder="Add a description..."
             />
+            {editConflict && (
+              <p className="mt-2 text-xs text-yellow-500">{editConflict}</p>
+            )}
           </>
         ) : (
           <>
@@ -458,7 +583,11 @@ const HomePage: React.FC = () => {
               )}
             </p>
             <div className="h-5 px-2 pt-1 text-xs text-gray-400">
-              {isReadOnly ? "Read-only demo" : ""}
+              {isShared
+                ? `Shared with you · ${wf.role}`
+                : isReadOnly
+                ? "Read-only demo"
+                : ""}
             </div>
           </>
         )}
@@ -519,6 +648,17 @@ const HomePage: React.FC = () => {
                   Retake Tutorial
                 </button>
               )}
+              {user && (
+                <button
+                  type="button"
+                  onClick={logout}
+                  title="Sign out"
+                  className="inline-flex items-center gap-2 rounded-lg border border-accent px-4 py-2 text-sm font-medium text-nextflow-green hover:bg-accent transition-colors"
+                >
+                  <LogOut size={16} />
+                  <span>{user.username}</span>
+                </button>
+              )}
               <a
                 href="https://github.com/HCIstudio/N-WAVE/wiki"
                 target="_blank"
@@ -613,7 +753,7 @@ const HomePage: React.FC = () => {
               resetImportForm();
             }
           }}
-          title="Import Nextflow Workflow"
+          title="Import Workflow"
           footer={
             <div className="flex gap-2">
               <button
@@ -629,7 +769,9 @@ const HomePage: React.FC = () => {
               <button
                 onClick={handleImportWorkflow}
                 className="rounded-md bg-nextflow-green px-4 py-2 text-white hover:bg-nextflow-green-dark disabled:opacity-50"
-                disabled={isImporting || !importSource.trim()}
+                disabled={
+                  isImporting || (!importSource.trim() && !importBundle)
+                }
               >
                 {isImporting ? "Importing..." : "Import"}
               </button>
@@ -637,35 +779,44 @@ const HomePage: React.FC = () => {
           }
         >
           <div className="space-y-4">
-            <div>
-              <label className="mb-1 block text-sm text-text">Name</label>
-              <input
-                type="text"
-                value={importName}
-                onChange={(e) => setImportName(e.target.value)}
-                className="w-full rounded-md border border-gray-600 bg-accent p-2 text-text focus:border-nextflow-green focus:outline-none"
-                placeholder="Imported Nextflow Workflow"
-              />
-            </div>
-            <div>
-              <label className="mb-1 block text-sm text-text">Description</label>
-              <textarea
-                value={importDescription}
-                onChange={(e) => setImportDescription(e.target.value)}
-                className="w-full rounded-md border border-gray-600 bg-accent p-2 text-text focus:border-nextflow-green focus:outline-none"
-                rows={2}
-                placeholder="Optional description"
-              />
-            </div>
+            {/* A bundle brings its own name and description */}
+            {!importBundle && (
+              <>
+                <div>
+                  <label className="mb-1 block text-sm text-text">Name</label>
+                  <input
+                    type="text"
+                    value={importName}
+                    onChange={(e) => setImportName(e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-accent p-2 text-text focus:border-nextflow-green focus:outline-none"
+                    placeholder="Imported Nextflow Workflow"
+                  />
+                </div>
+                <div>
+                  <label className="mb-1 block text-sm text-text">
+                    Description
+                  </label>
+                  <textarea
+                    value={importDescription}
+                    onChange={(e) => setImportDescription(e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-accent p-2 text-text focus:border-nextflow-green focus:outline-none"
+                    rows={2}
+                    placeholder="Optional description"
+                  />
+                </div>
+              </>
+            )}
             <div>
               <label className="mb-1 block text-sm text-text">
-                Nextflow File
+                {isDemoMode ? "Nextflow File" : "Nextflow File or .nwave Bundle"}
               </label>
               <div className="flex gap-2">
                 <input
                   ref={importFileInputRef}
                   type="file"
-                  accept=".nf,.txt,.groovy"
+                  accept={
+                    isDemoMode ? ".nf,.txt,.groovy" : ".nf,.txt,.groovy,.nwave"
+                  }
                   onChange={handleImportFileChange}
                   className="hidden"
                 />
@@ -683,19 +834,72 @@ const HomePage: React.FC = () => {
                 </div>
               </div>
             </div>
-            <div>
-              <label className="mb-1 block text-sm text-text">
-                Nextflow Source
-              </label>
-              <textarea
-                value={importSource}
-                onChange={(e) => setImportSource(e.target.value)}
-                className="min-h-[220px] w-full rounded-md border border-gray-600 bg-accent p-2 font-mono text-sm text-text focus:border-nextflow-green focus:outline-none"
-                placeholder="Paste a Nextflow workflow here or load a .nf file."
-              />
+            {importBundle ? (
+              <p className="text-sm text-text-light">
+                The bundle's workflow is added with its custom nodes and any
+                input files it carries. You are told afterwards which nf-core
+                modules still need installing.
+              </p>
+            ) : (
+              <div>
+                <label className="mb-1 block text-sm text-text">
+                  Nextflow Source
+                </label>
+                <textarea
+                  value={importSource}
+                  onChange={(e) => setImportSource(e.target.value)}
+                  className="min-h-[220px] w-full rounded-md border border-gray-600 bg-accent p-2 font-mono text-sm text-text focus:border-nextflow-green focus:outline-none"
+                  placeholder="Paste a Nextflow workflow here or load a .nf file."
+                />
+              </div>
+            )}
+          </div>
+        </Modal>
+        <Modal
+          isOpen={exportWorkflowId !== null}
+          onClose={() => setExportWorkflowId(null)}
+          title="Export Workflow"
+          footer={
+            <div className="flex gap-2">
+              <button
+                onClick={() => setExportWorkflowId(null)}
+                className="rounded-md bg-gray-200 px-4 py-2 text-gray-800 hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleExportBundle}
+                className="rounded-md bg-nextflow-green px-4 py-2 text-white hover:bg-nextflow-green-dark"
+              >
+                Download .nwave
+              </button>
             </div>
+          }
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-text-light">
+              The bundle holds the workflow with its execution settings and
+              Nextflow script, the custom nodes it uses and the manifests of
+              its nf-core modules, ready to import into another N-WAVE.
+            </p>
+            <CheckboxField
+              label="Include uploaded input files (up to 100 MB)"
+              id="export-include-files"
+              name="exportIncludeFiles"
+              checked={exportIncludeFiles}
+              onChange={(e) => setExportIncludeFiles(e.target.checked)}
+            />
           </div>
         </Modal>
+        {bundleImportResult && (
+          <BundleImportReportDialog
+            workflowName={bundleImportResult.workflow.name}
+            report={bundleImportResult.report}
+            onOpenWorkflow={() =>
+              navigate(`/workflow/${bundleImportResult.workflow._id}`)
+            }
+          />
+        )}
         <footer className="relative z-30 border-t border-accent/60 bg-background px-8 py-4 text-xs text-text-light">
           <div className="flex flex-col gap-3 sm:flex-row sm:flex-wrap sm:items-center sm:justify-between sm:gap-3">
             <div className="flex shrink-0 items-center gap-3">
@@ -0,0 +1,121 @@
+import type React from "react";
+import { useState } from "react";
+import { Loader } from "lucide-react";
+import PageLayout from "../components/layout/PageLayout";
+import { login, register } from "../api/auth";
+import type { AuthUser } from "../types/backend";
+
+interface LoginPageProps {
+  onSignedIn: (user: AuthUser) => void;
+}
+
+const inputClassName =
+  "w-full p-2 border border-accent rounded-md bg-background focus:ring-2 focus:ring-nextflow-green focus:border-transparent";
+
+const LoginPage: React.FC<LoginPageProps> = ({ onSignedIn }) => {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user =
+        mode === "login"
+          ? await login(username, password)
+          : await register(username, password);
+      onSignedIn(user);
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.message ||
+          (mode === "login" ? "Failed to sign in." : "Failed to register.")
+      );
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <PageLayout>
+      <div className="flex min-h-screen items-center justify-center p-8">
+        <form
+          onSubmit={handleSubmit}
+          className="w-full max-w-sm space-y-4 rounded-lg bg-accent p-6 shadow-sm"
+        >
+          <h1 className="text-2xl font-bold text-nextflow-green">N-WAVE</h1>
+          <p className="text-sm text-text-light">
+            {mode === "login"
+              ? "Sign in to your workflows."
+              : "Create a local account. The first account also takes over workflows created before sign-in was required."}
+          </p>
+
+          <div>
+            <label htmlFor="login-username" className="block text-sm mb-1">
+              Username
+            </label>
+            <input
+              id="login-username"
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={inputClassName}
+              autoFocus
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="login-password" className="block text-sm mb-1">
+              Password
+            </label>
+            <input
+              id="login-password"
+              type="password"
+              autoComplete={
+                mode === "login" ? "current-password" : "new-password"
+              }
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName}
+              minLength={mode === "register" ? 8 : undefined}
+              required
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex w-full items-center justify-center gap-2 rounded-md bg-nextflow-green px-4 py-2 text-white hover:bg-nextflow-green/90 disabled:opacity-50"
+          >
+            {isSubmitting && <Loader className="w-4 h-4 animate-spin" />}
+            {mode === "login" ? "Sign in" : "Create account"}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === "login" ? "register" : "login");
+              setError(null);
+            }}
+            className="w-full text-sm text-nextflow-green hover:underline"
+          >
+            {mode === "login"
+              ? "No account yet? Create one"
+              : "Already have an account? Sign in"}
+          </button>
+        </form>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default LoginPage;
@@ -5,6 +5,7 @@ import {
   useEffect,
   useContext,
   useMemo,
+  useRef,
 } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { ReactFlowProvider, useReactFlow } from "reactflow";
@@ -22,22 +23,41 @@ import { FloatingPanel } from "../components/panels";
 import { OutputDisplayPanelContent } from "../components/panels";
 import {
   ConfirmDialog,
+  RevisionBrowser,
+  ShareWorkflowDialog,
+  RunParametersDialog,
+  SaveConflictDialog,
   Toast,
   WorkflowExecutionErrorNotification,
 } from "../components/common";
 import ExecutionStatusPanel from "../components/common/workflow/ExecutionStatusPanel";
 import { useExecutionStatus } from "../hooks";
-import { generateNextflowScript } from "../generators";
+import { generateNextflowScript, validateWorkflow } from "../generators";
 import { Loader } from "lucide-react";
 import { type ExecutionSettings, ExecutionMode } from "../types/execution";
-import type { WorkflowDescriptor } from "../types/backend";
+import type { WorkflowDescriptor, WorkflowRole } from "../types/backend";
 import TutorialCallout from "../components/tutorial/TutorialCallout";
 import {
   deleteCustomNode,
   migrateLegacyCustomNodes,
   refreshCustomNodes,
 } from "../api/customNodes";
-import type { CustomNodeInput, StoredCustomNode } from "../registry/customNodes";
+import { restoreWorkflowRevision } from "../api/workflowRevisions";
+import {
+  getCustomNodePorts,
+  type CustomNodeInput,
+  type StoredCustomNode,
+} from "../registry/customNodes";
+import { hasFileData } from "../utils/inputFiles";
+import {
+  toEnvironmentVariables,
+  toParamsFile,
+} from "../utils/executionEnvironment";
+import {
+  getWorkflowParameters,
+  toParameterValues,
+} from "../utils/workflowParameters";
+import { diffWorkflowGraphs, mergeWorkflowGraphs } from "../utils/workflowDiff";
 
 const TUTORIAL_COMPLETED_KEY = "nwave.demoTutorial.completed";
 const TUTORIAL_ACTIVE_KEY = "nwave.demoTutorial.active";
@@ -137,11 +157,30 @@ const WorkflowPageContent: React.FC = () => {
   const [openPanelNodeIds, setOpenPanelNodeIds] = useState<string[]>([]);
   const [workflowName, setWorkflowName] = useState("");
   const [workflowReadOnly, setWorkflowReadOnly] = useState(false);
+  // Caller's role on a stored workflow; null for built-ins
+  const [workflowRole, setWorkflowRole] = useState<WorkflowRole | null>(null);
   const [workflowRawSource, setWorkflowRawSource] = useState<string | null>(null);
   const [workflowImportWarnings, setWorkflowImportWarnings] = useState<string[]>([]);
   const [workflowSourceFormat, setWorkflowSourceFormat] = useState<
     "visual" | "nextflow"
   >("visual");
+  const [canResume, setCanResume] = useState(false); // Last run left a session
+  // Run waiting for the values of the workflow's Parameter nodes
+  const [pendingParameterRun, setPendingParameterRun] = useState<{
+    settings: ExecutionSettings;
+    resume: boolean;
+  } | null>(null);
+  const [lastParameterValues, setLastParameterValues] = useState<
+    Record<string, string>
+  >({});
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  // Server copy that rejected our last save because it changed meanwhile
+  const [saveConflict, setSaveConflict] = useState<WorkflowDescriptor | null>(
+    null
+  );
+  // Server copy the editor's state is based on; its updatedAt goes with saves
+  const savedWorkflowRef = useRef<WorkflowDescriptor | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaved, setIsSaved] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -162,9 +201,6 @@ const WorkflowPageContent: React.FC = () => {
     Record<string, { x: number; y: number; width: number; height: number }>
   >({});
   const [isRunning, setIsRunning] = useState(false);
-  const [currentExecutionId, setCurrentExecutionId] = useState<string | null>(
-    null
-  );
   const [, setExecutionResult] = useState<{
     success: boolean;
     output: string;
@@ -252,26 +288,11 @@ const WorkflowPageContent: React.FC = () => {
 
   const applyCustomNodeDefinitionToPlacedNodes = useCallback(
     (customNode: StoredCustomNode, markDirty = true) => {
-      const pathInputs = customNode.inputs.filter(
-        (input) => input.kind === "path"
-      );
       const valueInputs = customNode.inputs.filter(
         (input) => input.kind === "val"
       );
-      const nextInputs = pathInputs.map((input) => ({
-        name: input.name,
-        label: input.label,
-        fileType: input.fileType,
-        filePattern: input.filePattern,
-        isConnectable: true,
-      }));
-      const nextOutputs = customNode.outputs.map((output) => ({
-        name: output.name,
-        label: output.label,
-        fileType: output.fileType,
-        filePattern: output.filePattern,
-        isConnectable: true,
-      }));
+      const { inputs: nextInputs, outputs: nextOutputs } =
+        getCustomNodePorts(customNode);
 
       const affectedNodeIds = new Set(
         nodes
@@ -354,8 +375,18 @@ const WorkflowPageContent: React.FC = () => {
 
     try {
       setCustomNodeDeleteError(null);
-      await deleteCustomNode(customNodeDeleteCandidate.id);
+      const { updatedWorkflowIds } = await deleteCustomNode(
+        customNodeDeleteCandidate.id
+      );
       purgeCustomNodeFromCurrentWorkflow(customNodeDeleteCandidate.id);
+      // The server saved the same removal; build on that version so the next
+      // save is not reported as a conflict
+      if (workflowId && updatedWorkflowIds.includes(workflowId)) {
+        const response = await api.get<WorkflowDescriptor>(
+          `/workflows/${workflowId}`
+        );
+        savedWorkflowRef.current = response.data;
+      }
       await refreshCustomNodes();
       setCustomNodeDeleteCandidate(null);
     } catch (deleteError: any) {
@@ -365,7 +396,11 @@ const WorkflowPageContent: React.FC = () => {
           "Failed to delete custom node."
       );
     }
-  }, [customNodeDeleteCandidate, purgeCustomNodeFromCurrentWorkflow]);
+  }, [
+    customNodeDeleteCandidate,
+    purgeCustomNodeFromCurrentWorkflow,
+    workflowId,
+  ]);
 
   useEffect(() => {
     migrateLegacyCustomNodes()
@@ -542,30 +577,104 @@ const WorkflowPageContent: React.FC = () => {
     ]
   );
 
+  // Graph problems that would break the generated script block Run and are
+  // highlighted on the offending nodes
+  const workflowValidation = useMemo(
+    () => validateWorkflow(nodes, edges),
+    [nodes, edges]
+  );
+
   // Memoize nodes to prevent unnecessary re-renders, and disable interaction during connection
   const memoizedNodes = useMemo(() => {
-    return nodes.map((node) => ({
-      ...node,
-      data: {
-        ...node.data,
-        isHighlight: node.id === activePanelNodeId,
-      },
-      selectable: !isConnecting,
-      draggable: !isConnecting && !workflowReadOnly,
-    }));
-  }, [nodes, isConnecting, activePanelNodeId, workflowReadOnly]);
+    return nodes.map((node) => {
+      const validationErrors = (workflowValidation.issuesByNode[node.id] ?? [])
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => issue.message);
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          isHighlight: node.id === activePanelNodeId,
+          _validationErrors:
+            validationErrors.length > 0 ? validationErrors : undefined,
+        },
+        selectable: !isConnecting,
+        draggable: !isConnecting && !workflowReadOnly,
+      };
+    });
+  }, [
+    nodes,
+    isConnecting,
+    activePanelNodeId,
+    workflowReadOnly,
+    workflowValidation,
+  ]);
 
-  // Memoize edges to prevent unnecessary re-renders
+  // Memoize edges to prevent unnecessary re-renders; channel shape problems
+  // are shown on the edge they belong to
   const memoizedEdges = useMemo(() => {
-    return edges.map((edge) => ({
-      ...edge,
-    }));
-  }, [edges]);
+    return edges.map((edge) => {
+      const channelIssue = workflowValidation.issues.find(
+        (issue) => issue.edgeId === edge.id && issue.code === "type-mismatch"
+      );
+      return {
+        ...edge,
+        data: {
+          ...edge.data,
+          _channelIssue: channelIssue
+            ? { severity: channelIssue.severity, message: channelIssue.message }
+            : undefined,
+        },
+      };
+    });
+  }, [edges, workflowValidation]);
 
   // Execution status tracking
   const executionStatus = useExecutionStatus({
     nodes: memoizedNodes,
-    executionId: currentExecutionId,
+    workflowId,
+    onRunFinished: (result) => {
+      const isExecutionFailure = result.status !== "succeeded";
+
+      setIsRunning(false);
+      if (result.resumable) {
+        setCanResume(true);
+      }
+      if (result.status === "cancelled") {
+        setExecutionResult({ success: false, output: result.output });
+        workflowContext.showToast("Workflow run cancelled.", "info");
+        return;
+      }
+
+      setExecutionResult({
+        success: !isExecutionFailure,
+        output: result.output,
+        error: isExecutionFailure ? "Workflow execution failed" : undefined,
+      });
+
+      if (isExecutionFailure) {
+        workflowContext.showToast(
+          "Workflow execution failed. Check the execution panel/log output for details.",
+          "error"
+        );
+        setExecutionError({
+          message: result.error || "Workflow execution failed",
+          output: result.output,
+        });
+        setShowErrorDialog(true);
+      } else {
+        workflowContext.showToast(
+          `Workflow executed successfully! Results saved to: ${result.outputDir}`,
+          "success"
+        );
+        // Output Display nodes load the files they published in this run
+        nodes
+          .filter((node) => node.type === "outputDisplay")
+          .forEach((node) =>
+            updateNodeData(node.id, { resultsRunId: result.runId })
+          );
+      }
+    },
     onStatusChange: (status) => {
       // Update node statuses on the canvas based on execution status
       if (status.nodeStatuses.length === 0 && !status.isRunning) {
@@ -590,6 +699,44 @@ const WorkflowPageContent: React.FC = () => {
     },
   });
 
+  // Saved edges lack the delete handler and may use legacy handle names
+  const hydrateEdges = useCallback(
+    (loadedNodes: Node<NodeData>[], edges: any[]) =>
+      edges.map((edge: any) => {
+        const sourceNode = loadedNodes.find((node) => node.id === edge.source);
+        const targetNode = loadedNodes.find((node) => node.id === edge.target);
+        const legacyMergeInputMatch = String(edge.targetHandle ?? "").match(
+          /^in(\d+)$/
+        );
+
+        return {
+          ...edge,
+          sourceHandle:
+            sourceNode?.type === "fileInput" && edge.sourceHandle === "out"
+              ? "ch_files_out"
+              : edge.sourceHandle,
+          targetHandle:
+            targetNode?.data?.operatorType === "merge" && legacyMergeInputMatch
+              ? "in"
+              : edge.targetHandle,
+          type: "default",
+          data: {
+            ...edge.data,
+            order:
+              typeof edge.data?.order === "number"
+                ? edge.data.order
+                : legacyMergeInputMatch?.[1]
+                  ? Number(legacyMergeInputMatch[1]) - 1
+                  : undefined,
+            onDelete: (edgeId: string) => {
+              setEdges((eds) => eds.filter((e) => e.id !== edgeId));
+            },
+          },
+        };
+      }),
+    [setEdges]
+  );
+
   const fetchWorkflow = useCallback(async () => {
     if (!workflowId) {
       setError("No workflow ID provided.");
@@ -621,47 +768,17 @@ const WorkflowPageContent: React.FC = () => {
       setWorkflowReadOnly(
         Boolean(response.data.isReadOnly || response.data.origin?.readOnly)
       );
+      setWorkflowRole(response.data.role ?? null);
       setWorkflowRawSource(rawSource ?? null);
       setWorkflowImportWarnings(importWarnings ?? []);
       setWorkflowSourceFormat(origin?.sourceFormat ?? "visual");
+      setCanResume(Boolean(response.data.resumeState));
+      savedWorkflowRef.current = response.data;
 
       const loadedNodes = fetchedNodes || [];
       setNodes(loadedNodes);
 
-      const hydratedEdges = (fetchedEdges || []).map((edge: any) => {
-        const sourceNode = loadedNodes.find((node) => node.id === edge.source);
-        const targetNode = loadedNodes.find((node) => node.id === edge.target);
-        const legacyMergeInputMatch = String(edge.targetHandle ?? "").match(
-          /^in(\d+)$/
-        );
-
-        return {
-          ...edge,
-          sourceHandle:
-            sourceNode?.type === "fileInput" && edge.sourceHandle === "out"
-              ? "ch_files_out"
-              : edge.sourceHandle,
-          targetHandle:
-            targetNode?.data?.operatorType === "merge" && legacyMergeInputMatch
-              ? "in"
-              : edge.targetHandle,
-          type: "default",
-          data: {
-            ...edge.data,
-            order:
-              typeof edge.data?.order === "number"
-                ? edge.data.order
-                : legacyMergeInputMatch?.[1]
-                  ? Number(legacyMergeInputMatch[1]) - 1
-                  : undefined,
-            onDelete: (edgeId: string) => {
-              setEdges((eds) => eds.filter((e) => e.id !== edgeId));
-            },
-          },
-        };
-      });
-
-      setEdges(hydratedEdges);
+      setEdges(hydrateEdges(loadedNodes, fetchedEdges || []));
 
       // Restore execution settings if they exist in the workflow
       if (executionSettings) {
@@ -704,11 +821,12 @@ const WorkflowPageContent: React.FC = () => {
       setError("Failed to fetch workflow.");
       setWorkflowName("Untitled Workflow"); // Set default name on error
       setWorkflowReadOnly(false);
+      setWorkflowRole(null);
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, [workflowId, setNodes, setEdges, setIsDirty, setExecutionSettings]);
+  }, [workflowId, setNodes, setEdges, setIsDirty, setExecutionSettings, hydrateEdges]);
 
   const handleNodesChange = useCallback(
     (changes: Parameters<typeof onNodesChange>[0]) => {
@@ -894,7 +1012,8 @@ const WorkflowPageContent: React.FC = () => {
     setActivePanels((prev) => [...prev.filter((p) => p !== panelId), panelId]);
   };
 
-  const handleSaveWorkflow = async () => {
+  // A note makes the save a named checkpoint in the revision history
+  const handleSaveWorkflow = async (revisionNote?: string) => {
     if (!workflowId) {
       setError("No workflow ID provided.");
       return;
@@ -916,8 +1035,11 @@ const WorkflowPageContent: React.FC = () => {
             name: file.name,
             size: file.size,
             fileType: file.fileType,
+            encoding: file.encoding,
             _id: file._id,
-            // Note: content is removed - files are handled in browser storage
+            hash: file.hash,
+            // Note: content is removed - stored files are referenced by id,
+            // others are handled in browser storage
           }));
         }
 
@@ -946,16 +1068,27 @@ const WorkflowPageContent: React.FC = () => {
       // This ensures we save the most up-to-date settings
       const executionSettingsToSave = executionSettings;
 
-      await api.put(`/workflows/${workflowId}`, {
-        name: workflowName,
-        nodes: sanitizedNodes,
-        edges,
-        executionSettings: executionSettingsToSave, // Save current execution settings
-      });
+      const response = await api.put<WorkflowDescriptor>(
+        `/workflows/${workflowId}`,
+        {
+          name: workflowName,
+          nodes: sanitizedNodes,
+          edges,
+          executionSettings: executionSettingsToSave, // Save current execution settings
+          revisionNote,
+          // Rejected with 409 if someone else saved since we loaded
+          baseUpdatedAt: savedWorkflowRef.current?.updatedAt,
+        }
+      );
+      savedWorkflowRef.current = response.data;
       setIsDirty(false);
       setIsSaved(true);
       setTimeout(() => setIsSaved(false), 2000); // Show checkmark for 2 seconds
-    } catch (err) {
+    } catch (err: any) {
+      if (err?.response?.status === 409 && err.response.data?.workflow) {
+        setSaveConflict(err.response.data.workflow);
+        return;
+      }
       setError("Failed to save workflow.");
       console.error(err);
     } finally {
@@ -963,17 +1096,77 @@ const WorkflowPageContent: React.FC = () => {
     }
   };
 
+  const handleReloadAfterConflict = () => {
+    setSaveConflict(null);
+    fetchWorkflow();
+  };
+
+  const handleOverwriteAfterConflict = () => {
+    savedWorkflowRef.current = saveConflict;
+    setSaveConflict(null);
+    handleSaveWorkflow();
+  };
+
+  // Applies our edits on top of the server copy; auto-save then stores it
+  const handleMergeAfterConflict = () => {
+    const base = savedWorkflowRef.current;
+    if (!saveConflict || !base) return;
+    const merged = mergeWorkflowGraphs(
+      { nodes: base.nodes, edges: base.edges },
+      { nodes, edges },
+      { nodes: saveConflict.nodes, edges: saveConflict.edges }
+    );
+    const changedLocally = (local: unknown, saved: unknown) =>
+      JSON.stringify(local ?? null) !== JSON.stringify(saved ?? null);
+
+    setNodes(merged.nodes);
+    setEdges(hydrateEdges(merged.nodes, merged.edges));
+    if (!changedLocally(workflowName, base.name)) {
+      setWorkflowName(saveConflict.name);
+    }
+    if (
+      saveConflict.executionSettings &&
+      !changedLocally(executionSettings, base.executionSettings)
+    ) {
+      setExecutionSettings(saveConflict.executionSettings);
+    }
+    savedWorkflowRef.current = saveConflict;
+    setSaveConflict(null);
+    setIsDirty(true);
+  };
+
   // Auto-save workflow when important changes are made
   useEffect(() => {
     const autoSaveTimer = setTimeout(() => {
-      if (workflowContext.isDirty && !isSaving && workflowId && !workflowReadOnly) {
+      if (
+        workflowContext.isDirty &&
+        !isSaving &&
+        !saveConflict &&
+        workflowId &&
+        !workflowReadOnly
+      ) {
         console.log("Auto-saving workflow...");
         handleSaveWorkflow();
       }
     }, 2000); // Auto-save 2 seconds after changes
 
     return () => clearTimeout(autoSaveTimer);
-  }, [workflowContext.isDirty, isSaving, workflowId, nodes, edges, workflowReadOnly]);
+  }, [
+    workflowContext.isDirty,
+    isSaving,
+    saveConflict,
+    workflowId,
+    nodes,
+    edges,
+    workflowReadOnly,
+  ]);
+
+  const handleRestoreRevision = async (revision: number) => {
+    if (!workflowId) return;
+    await restoreWorkflowRevision(workflowId, revision);
+    await fetchWorkflow();
+    workflowContext.showToast(`Restored revision ${revision}.`, "success");
+  };
 
   const handleDownloadScript = () => {
     try {
@@ -1022,7 +1215,36 @@ const WorkflowPageContent: React.FC = () => {
     }
   };
 
-  const handleRunWorkflow = async (settings: ExecutionSettings) => {
+  const workflowParameters = useMemo(
+    () => getWorkflowParameters(nodes),
+    [nodes]
+  );
+
+  // Workflows with Parameter nodes ask for their values first
+  // Viewers of a shared workflow may look but not run
+  const canRunWorkflow = workflowRole !== "viewer";
+
+  const requestRunWorkflow = (settings: ExecutionSettings, resume = false) => {
+    if (workflowParameters.length > 0) {
+      setPendingParameterRun({ settings, resume });
+      return;
+    }
+    handleRunWorkflow(settings, resume);
+  };
+
+  const handleRunWithParameters = (values: Record<string, string>) => {
+    if (!pendingParameterRun) return;
+    const { settings, resume } = pendingParameterRun;
+    setPendingParameterRun(null);
+    setLastParameterValues(values);
+    handleRunWorkflow(settings, resume, values);
+  };
+
+  const handleRunWorkflow = async (
+    settings: ExecutionSettings,
+    resume = false,
+    parameterValues: Record<string, string> = {}
+  ) => {
     setIsRunning(true);
     setExecutionResult(null);
     setError(null);
@@ -1048,16 +1270,42 @@ const WorkflowPageContent: React.FC = () => {
         throw new Error(errorMessage);
       }
 
+      const validationErrors = workflowValidation.issues.filter(
+        (issue) => issue.severity === "error"
+      );
+      if (validationErrors.length > 0) {
+        throw new Error(
+          `Cannot execute workflow: fix the highlighted nodes first.\n\n${validationErrors
+            .map((issue) => `• ${issue.message}`)
+            .join("\n")}`
+        );
+      }
+
       // Extract file content from File Input nodes
-      const fileInputNodes = nodes.filter((node) => node.type === "fileInput");
-      const workflowFiles: { [filename: string]: string } = {};
+      // Sample sheets are staged into the inputs directory like uploaded files
+      const fileInputNodes = nodes.filter(
+        (node) => node.type === "fileInput" || node.type === "sampleSheet"
+      );
+      const workflowFiles: {
+        [filename: string]: string | { content: string; encoding: "base64" };
+      } = {};
+      // Files already in the server-side file store are sent by id
+      const storedFiles: { [filename: string]: string } = {};
 
       for (const node of fileInputNodes) {
+        // Path-mode inputs are read in place on the server
+        if (node.data.inputMode === "path") continue;
         if (node.data.files && Array.isArray(node.data.files)) {
           for (const file of node.data.files) {
-            if (file.content) {
+            if (file._id && file.hash) {
+              storedFiles[file.name || file.originalName || "unknown_file"] =
+                file._id;
+            } else if (file.content) {
+              // Binary inputs travel as base64 and are decoded by the backend
               workflowFiles[file.name || file.originalName || "unknown_file"] =
-                file.content;
+                file.encoding === "base64"
+                  ? { content: file.content, encoding: "base64" }
+                  : file.content;
             }
           }
         }
@@ -1085,6 +1333,10 @@ const WorkflowPageContent: React.FC = () => {
         `Transferring ${Object.keys(workflowFiles).length} files to server:`,
         Object.keys(workflowFiles)
       );
+      console.log(
+        `Referencing ${Object.keys(storedFiles).length} stored files:`,
+        Object.keys(storedFiles)
+      );
 
       // Flatten the enhanced execution settings to match backend interface
       const flatExecutionSettings = {
@@ -1097,8 +1349,21 @@ const WorkflowPageContent: React.FC = () => {
         maxMemory: settings.resources?.maxMemory ?? "4 GB",
         executionTimeout: 0, // Default value
         errorStrategy: settings.errorHandling?.strategy ?? "terminate",
+        maxRetries: settings.errorHandling?.maxRetries ?? 0,
+        backoffStrategy: settings.errorHandling?.backoffStrategy ?? "exponential",
         cleanupOnFailure: settings.cleanup?.onFailure ?? true,
         nextflowVersion: settings.nextflow?.version ?? "25.04.4",
+        enableTrace: settings.nextflow?.enableTrace ?? false,
+        enableTimeline: settings.nextflow?.enableTimeline ?? false,
+        enableReport: settings.nextflow?.enableReport ?? false,
+        // Values entered for Parameter nodes win over the custom params
+        customParams: {
+          ...toParamsFile(settings.environment?.customParams),
+          ...toParameterValues(workflowParameters, parameterValues),
+        },
+        environmentVariables: toEnvironmentVariables(
+          settings.environment?.environmentVariables
+        ),
       };
 
       console.log(
@@ -1112,216 +1377,25 @@ const WorkflowPageContent: React.FC = () => {
       });
 
       // Execute the workflow with file content
-      const response = await api.post(
+      const response = await api.post<{ runId: string }>(
         "/execute/execute",
         {
           nextflowScript,
           workflowName: workflowName || "workflow",
+          workflowId,
           useDocker: settings.container?.enabled,
           containerImage: settings.container?.defaultImage,
           outputDirectory: settings.output.directory,
           executionSettings: flatExecutionSettings,
           fileContent: workflowFiles, // Send actual file content
-        },
-        {
-          responseType: "text", // Handle as streaming text
-          transformResponse: [(data) => data], // Don't parse as JSON
+          storedFiles,
+          resume,
         }
       );
 
-      // Handle streaming response
-      if (typeof response.data === "string") {
-        console.log("Received streaming response from backend");
-
-        // Parse the streaming output line by line in real-time
-        const lines = response.data.split("\n").filter((l) => l.trim());
-
-        lines.forEach((line, index) => {
-          // Parse each line immediately
-          setTimeout(() => {
-            console.log(
-              `Real-time parsing line ${index + 1}/${lines.length}:`,
-              line
-            );
-            executionStatus.parseNextflowOutput(line);
-          }, index * 10);
-        });
-
-        const normalizedOutput = response.data.toLowerCase();
-        const isExecutionFailure =
-          normalizedOutput.includes("nextflow execution failed with exit code") ||
-          normalizedOutput.includes("execution error:") ||
-          normalizedOutput.includes("failed to setup workflow execution") ||
-          normalizedOutput.includes("error ~");
-
-        const completionDelay = Math.max(lines.length * 10 + 100, 250);
-
-        setTimeout(() => {
-          executionStatus.completeExecution(
-            !isExecutionFailure,
-            isExecutionFailure ? response.data : undefined
-          );
-        }, completionDelay);
-
-        setExecutionResult({
-          success: !isExecutionFailure,
-          output: response.data,
-          error: isExecutionFailure ? "Workflow execution failed" : undefined,
-        });
-
-        if (workflowContext.showToast) {
-          if (isExecutionFailure) {
-            workflowContext.showToast(
-              "Workflow execution failed. Check the execution panel/log output for details.",
-              "error"
-            );
-          } else {
-            workflowContext.showToast(
-              "Workflow executed successfully! Results have been written to ~/results. \nCheck the execution panel for details.",
-              "success"
-            );
-          }
-        }
-
-        if (isExecutionFailure) {
-          setExecutionError({
-            message: "Workflow execution failed",
-            output: response.data,
-          });
-          setShowErrorDialog(true);
-        }
-      } else {
-        // Fallback for older JSON response format
-        const parseOutputLines = (stdout: string, stderr = "") => {
-          console.log(
-            "🔍 Parsing real Nextflow output from completed execution..."
-          );
-
-          // Combine stdout and stderr for comprehensive parsing
-          const allOutput = `${stdout}\n${stderr}`;
-          const lines = allOutput.split("\n").filter((l) => l.trim());
-
-          console.log(`📊 Total lines to parse: ${lines.length}`);
-          console.log("📄 Full output to parse:", allOutput);
-
-          // Parse all lines to simulate the execution progression rapidly
-          lines.forEach((line, index) => {
-            // Add small delays to simulate real-time parsing for better UX
-            setTimeout(() => {
-              console.log(
-                `📄 Parsing line ${index + 1}/${lines.length}:`,
-                line
-              );
-              executionStatus.parseNextflowOutput(line);
-            }, index * 50); // 50ms delay between each line for visual effect
-          });
-
-          // Complete execution after all lines are parsed
-          setTimeout(() => {
-            console.log(`🔍 Checking for completion in output: "${allOutput}"`);
-            if (
-              allOutput.includes("Nextflow execution completed successfully")
-            ) {
-              console.log("✅ Detected successful completion from output");
-              executionStatus.completeExecution(true);
-
-              if (workflowContext.showToast) {
-                workflowContext.showToast(
-                  `Workflow executed successfully! Results saved to: ${resultsLocation}`,
-                  "success"
-                );
-              }
-            } else {
-              console.warn(
-                "⚠️ No completion pattern found, forcing completion"
-              );
-              executionStatus.completeExecution(true);
-
-              if (workflowContext.showToast) {
-                workflowContext.showToast(
-                  `Workflow executed successfully! Results saved to: ${resultsLocation}`,
-                  "success"
-                );
-              }
-            }
-          }, lines.length * 50 + 500); // Extra 500ms buffer
-        };
-
-        // Store execution ID immediately for cancellation
-        if (response.data.executionId) {
-          setCurrentExecutionId(response.data.executionId);
-          console.log(
-            "Execution ID set for cancellation:",
-            response.data.executionId
-          );
-        }
-
-        // Set initial execution result
-        setExecutionResult({
-          success: true,
-          output: response.data.message || "Workflow execution started",
-        });
-
-        // Store results location for later use
-        const resultsLocation = response.data.resultsLocation;
-
-        // Parse the actual output returned from backend
-        if (response.data) {
-          const { stdout, stderr, success } = response.data;
-
-          if (stdout) {
-            console.log(
-              "📥 Received stdout from backend:",
-              stdout.length,
-              "characters"
-            );
-            parseOutputLines(stdout, stderr);
-          } else if (success) {
-            // If success but no stdout, complete immediately
-            console.log("✅ Backend reported successful execution (no output)");
-            executionStatus.completeExecution(true);
-
-            if (workflowContext.showToast) {
-              workflowContext.showToast(
-                `Workflow executed successfully! Results saved to: ${resultsLocation}`,
-                "success"
-              );
-            }
-          }
-        } else {
-          // Fallback for older response format
-          console.warn(
-            "⚠️ No structured response data, using fallback timeout"
-          );
-
-          const nodeCount = nodes.filter(
-            (n) =>
-              n.type === "process" ||
-              n.type === "operator" ||
-              n.type === "filter" ||
-              n.type === "outputDisplay"
-          ).length;
-
-          const fallbackDuration = Math.min(
-            Math.max(nodeCount * 5000, 30000),
-            120000
-          );
-
-          setTimeout(() => {
-            console.warn(
-              "⏰ Fallback timeout reached - assuming workflow completed"
-            );
-            executionStatus.completeExecution(true);
-
-            if (workflowContext.showToast) {
-              workflowContext.showToast(
-                `Workflow executed successfully! Results saved to: ${resultsLocation}`,
-                "success"
-              );
-            }
-          }, fallbackDuration);
-        }
-      }
+      // The backend answers immediately with a run id; progress, logs and
+      // the final outcome arrive over the run's event stream.
+      executionStatus.attachToRun(response.data.runId);
 
       // Close the error dialog on successful execution
       setShowErrorDialog(false);
@@ -1353,9 +1427,7 @@ const WorkflowPageContent: React.FC = () => {
       });
 
       setShowErrorDialog(true);
-    } finally {
       setIsRunning(false);
-      setCurrentExecutionId(null);
     }
   };
 
@@ -1436,13 +1508,16 @@ const WorkflowPageContent: React.FC = () => {
 
   // Helper function to check for missing files
   const checkForMissingFiles = (): string[] => {
-    const fileInputNodes = nodes.filter((node) => node.type === "fileInput");
+    const fileInputNodes = nodes.filter(
+      (node) => node.type === "fileInput" || node.type === "sampleSheet"
+    );
     const missingFiles: string[] = [];
 
     for (const node of fileInputNodes) {
+      if (node.data.inputMode === "path") continue;
       if (node.data.files && Array.isArray(node.data.files)) {
         for (const file of node.data.files) {
-          if (!file.content || file.content.trim() === "") {
+          if (!hasFileData(file)) {
             missingFiles.push(file.name || file.originalName || "unknown_file");
           }
         }
@@ -1452,8 +1527,21 @@ const WorkflowPageContent: React.FC = () => {
     return missingFiles;
   };
 
-  // Check if workflow can be executed (no missing files)
-  const canExecuteWorkflow = checkForMissingFiles().length === 0;
+  // Check if workflow can be executed (no missing files, no graph errors)
+  const missingFileCount = checkForMissingFiles().length;
+  const validationErrorCount = workflowValidation.issues.filter(
+    (issue) => issue.severity === "error"
+  ).length;
+  const canExecuteWorkflow =
+    missingFileCount === 0 && validationErrorCount === 0;
+  const cannotExecuteReason =
+    missingFileCount > 0
+      ? "Cannot run: Some files are missing content"
+      : validationErrorCount > 0
+      ? `Cannot run: ${validationErrorCount} problem${
+          validationErrorCount === 1 ? "" : "s"
+        } in the workflow (see highlighted nodes)`
+      : undefined;
 
   const handleRetryExecution = async () => {
     if (!executionSettings) {
@@ -1461,7 +1549,7 @@ const WorkflowPageContent: React.FC = () => {
     }
 
     // Call handleRunWorkflow for retry
-    await handleRunWorkflow(executionSettings);
+    await handleRunWorkflow(executionSettings, false, lastParameterValues);
   };
 
   const handleCloseErrorDialog = () => {
@@ -1661,13 +1749,26 @@ const WorkflowPageContent: React.FC = () => {
       <BottomBar
         workflowName={workflowName}
         onWorkflowNameChange={handleWorkflowNameChange}
-        onSave={handleSaveWorkflow}
+        onSave={() => handleSaveWorkflow()}
         onDownload={handleDownloadScript}
-        onRun={handleRunWorkflow}
+        onShowHistory={workflowId ? () => setShowRevisions(true) : undefined}
+        onShare={
+          workflowId && workflowRole === "owner"
+            ? () => setShowShareDialog(true)
+            : undefined
+        }
+        onRun={canRunWorkflow ? requestRunWorkflow : undefined}
+        onResume={
+          canRunWorkflow
+            ? (settings) => requestRunWorkflow(settings, true)
+            : undefined
+        }
+        canResume={canResume}
         isSaved={isSaved}
         isSaving={isSaving}
-        isRunning={isRunning}
+        isRunning={isRunning || executionStatus.status.isRunning}
         canExecute={canExecuteWorkflow}
+        cannotExecuteReason={cannotExecuteReason}
         isLoading={isLoading}
         executionSettings={executionSettings as ExecutionSettings}
         onExecutionSettingsChange={handleExecutionSettingsChange}
@@ -1683,6 +1784,44 @@ const WorkflowPageContent: React.FC = () => {
           onClose={handleCancelDelete}
         />
       )}
+      {pendingParameterRun && (
+        <RunParametersDialog
+          parameters={workflowParameters}
+          initialValues={lastParameterValues}
+          onClose={() => setPendingParameterRun(null)}
+          onRun={handleRunWithParameters}
+        />
+      )}
+      {saveConflict && savedWorkflowRef.current && (
+        <SaveConflictDialog
+          serverChanges={diffWorkflowGraphs(
+            {
+              nodes: savedWorkflowRef.current.nodes,
+              edges: savedWorkflowRef.current.edges,
+            },
+            { nodes: saveConflict.nodes, edges: saveConflict.edges }
+          )}
+          onMerge={handleMergeAfterConflict}
+          onOverwrite={handleOverwriteAfterConflict}
+          onReload={handleReloadAfterConflict}
+          onClose={() => setSaveConflict(null)}
+        />
+      )}
+      {showRevisions && workflowId && (
+        <RevisionBrowser
+          workflowId={workflowId}
+          readOnly={workflowReadOnly}
+          onClose={() => setShowRevisions(false)}
+          onSaveCheckpoint={handleSaveWorkflow}
+          onRestore={handleRestoreRevision}
+        />
+      )}
+      {showShareDialog && workflowId && (
+        <ShareWorkflowDialog
+          workflowId={workflowId}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
       {customNodeDeleteCandidate && (
         <ConfirmDialog
           isOpen={!!customNodeDeleteCandidate}
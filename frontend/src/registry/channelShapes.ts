@@ -0,0 +1,89 @@
+// What each item on a port's channel looks like. Ports without a shape accept
+// and emit anything; the generator adapts some mismatches itself (plain files
+// get a generated meta map), so those connect with a warning instead of
+// being refused.
+
+export type ChannelShape =
+  | "path" // One file per item
+  | "pathList" // All files as one list, e.g. after Collect
+  | "tuple" // tuple(key, path), e.g. fromFilePairs
+  | "tupleMetaPath" // tuple(val(meta), path), nf-core style
+  | "value"; // A plain value, not a file
+
+export const CHANNEL_SHAPE_LABELS: Record<ChannelShape, string> = {
+  path: "path",
+  pathList: "list of paths",
+  tuple: "tuple(key, path)",
+  tupleMetaPath: "tuple(meta, path)",
+  value: "value",
+};
+
+export interface ChannelShapeCompatibility {
+  level: "ok" | "warning" | "error";
+  reason?: string;
+}
+
+const isFileShape = (shape: ChannelShape): boolean =>
+  shape === "path" || shape === "pathList";
+
+/**
+ * Whether items of the source shape can feed an input of the target shape,
+ * given what the generator does in between. Unknown shapes are always ok.
+ */
+export function checkChannelShapes(
+  source: ChannelShape | undefined,
+  target: ChannelShape | undefined
+): ChannelShapeCompatibility {
+  if (!source || !target || source === target) return { level: "ok" };
+
+  if (target === "value") {
+    return {
+      level: "warning",
+      reason: "a file is passed where a plain value is expected.",
+    };
+  }
+  if (source === "value") {
+    return {
+      level: "warning",
+      reason: "the value is not a file path.",
+    };
+  }
+
+  if (isFileShape(source)) {
+    if (target === "path") return { level: "ok" }; // Staged together
+    if (target === "pathList") {
+      return {
+        level: "warning",
+        reason:
+          "each file arrives on its own; add a Collect node to pass them together.",
+      };
+    }
+    if (target === "tuple") {
+      return {
+        level: "warning",
+        reason: "a key is generated from each file name.",
+      };
+    }
+    return {
+      level: "warning",
+      reason:
+        "a meta map is generated from each file name; use a Sample Sheet to provide real sample metadata.",
+    };
+  }
+
+  // Tuples from here on
+  if (isFileShape(target)) {
+    return {
+      level: "error",
+      reason: "the process would receive the whole tuple instead of a file.",
+    };
+  }
+  if (source === "tuple" && target === "tupleMetaPath") {
+    return {
+      level: "warning",
+      reason:
+        "the key is not a meta map, so a meta map is generated from the file name.",
+    };
+  }
+  return { level: "ok" }; // A meta map is a valid tuple key
+}
@@ -1,6 +1,7 @@
 import type { Edge, Node } from "reactflow";
 import type { NodeData, PortData } from "../components/nodes/BaseNode";
 import CustomNodePanel from "../components/panels/process/CustomNodePanel";
+import type { ChannelShape } from "./channelShapes";
 import type { NodeDefinition } from "./nodeDefinitions";
 import {
   registerDynamicNodeDefinitions,
@@ -33,6 +34,7 @@ export interface CustomNodeOutput {
   label: string;
   fileType?: string;
   filePattern?: string;
+  channelShape?: ChannelShape;
 }
 
 export interface CustomNodeArgumentField {
@@ -182,26 +184,58 @@ export const unregisterCustomNode = (id: string): void => {
   unregisterDynamicNodeDefinitions([id]);
 };
 
-const createNodeDefinitionFromCustomNode = (
+/**
+ * Ports of a placed custom node. Settings passed as a plain `val` argument
+ * also get an optional port, so a Parameter node can provide the value.
+ */
+export const getCustomNodePorts = (
   customNode: StoredCustomNode
-): NodeDefinition => {
+): { inputs: PortData[]; outputs: PortData[] } => {
   const pathInputs = customNode.inputs.filter((input) => input.kind === "path");
-  const valueInputs = customNode.inputs.filter((input) => input.kind === "val");
-  const inputs: PortData[] = pathInputs.map((input) => ({
-    name: input.name,
-    label: input.label,
-    fileType: input.fileType,
-    filePattern: input.filePattern,
-    isConnectable: true,
-  }));
+  const connectableSettings = customNode.inputs.filter(
+    (input) =>
+      input.kind === "val" &&
+      customNode.arguments.some(
+        (argument) => argument.kind === "val" && argument.name === input.name
+      )
+  );
+  const inputs: PortData[] = [
+    ...pathInputs.map((input) => ({
+      name: input.name,
+      label: input.label,
+      fileType: input.fileType,
+      filePattern: input.filePattern,
+      isConnectable: true,
+      channelShape: getInputChannelShape(customNode.arguments, input.name),
+    })),
+    ...connectableSettings.map(
+      (input): PortData => ({
+        name: input.name,
+        label: input.label,
+        isConnectable: true,
+        channelShape: "value",
+        optional: true,
+      })
+    ),
+  ];
   const outputs: PortData[] = customNode.outputs.map((output) => ({
     name: output.name,
     label: output.label,
     fileType: output.fileType,
     filePattern: output.filePattern,
     isConnectable: true,
+    channelShape: output.channelShape,
   }));
 
+  return { inputs, outputs };
+};
+
+const createNodeDefinitionFromCustomNode = (
+  customNode: StoredCustomNode
+): NodeDefinition => {
+  const valueInputs = customNode.inputs.filter((input) => input.kind === "val");
+  const { inputs, outputs } = getCustomNodePorts(customNode);
+
   return {
     id: customNode.id,
     kind: "process",
@@ -306,6 +340,17 @@ const buildArgumentChannels = ({
 
   for (const argument of customNode.arguments) {
     if (argument.kind === "val") {
+      // A connected Parameter node replaces the value set on the node
+      const connected = resolveConnectedInput(
+        argument.name,
+        incomingEdges,
+        resolveChannelNameForEdge,
+        channelNameMap
+      );
+      if (connected) {
+        channels.push({ name: connected });
+        continue;
+      }
       const value = valueInputs[argument.name] ?? "";
       channels.push({
         name: groovyLiteralForSetting(String(value), settingsByName.get(argument.name)),
@@ -314,7 +359,7 @@ const buildArgumentChannels = ({
     }
 
     if (argument.kind === "path") {
-      const upstream = resolvePathInput(
+      const upstream = resolveConnectedInput(
         argument.name,
         incomingEdges,
         resolveChannelNameForEdge,
@@ -327,7 +372,7 @@ const buildArgumentChannels = ({
 
     const pathFields = argument.fields.filter((field) => field.kind === "path");
     const upstreams = pathFields.map((field) =>
-      resolvePathInput(
+      resolveConnectedInput(
         field.name,
         incomingEdges,
         resolveChannelNameForEdge,
@@ -354,7 +399,7 @@ const buildArgumentChannels = ({
   return channels;
 };
 
-const resolvePathInput = (
+const resolveConnectedInput = (
   handle: string,
   incomingEdges: Edge[],
   resolveChannelNameForEdge: (
@@ -485,9 +530,34 @@ const parseOutputDeclaration = (
     label: toTitle(name),
     fileType: inferFileType(declaration),
     filePattern: inferFilePattern(declaration),
+    channelShape: inferOutputChannelShape(declaration),
   };
 };
 
+// Plain `path` arguments get the channel as-is. Tuple arguments are built by
+// the generator from the file in each item, so only their meta is at stake.
+const getInputChannelShape = (
+  args: CustomNodeArgument[],
+  name: string
+): ChannelShape | undefined => {
+  const argument = args.find((candidate) =>
+    candidate.fields.some((field) => field.name === name)
+  );
+  if (argument?.kind === "path") return "path";
+  return argument?.fields.some((field) => field.meta)
+    ? "tupleMetaPath"
+    : undefined;
+};
+
+const inferOutputChannelShape = (
+  declaration: string
+): ChannelShape | undefined => {
+  if (/^path\b/.test(declaration)) return "path";
+  if (/^val\b/.test(declaration)) return "value";
+  if (!/^tuple\b/.test(declaration)) return undefined;
+  return /\bval\(\s*meta\d*\s*\)/.test(declaration) ? "tupleMetaPath" : "tuple";
+};
+
 const splitTopLevel = (value: string): string[] => {
   const parts: string[] = [];
   let current = "";
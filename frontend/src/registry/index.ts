@@ -1,2 +1,3 @@
 export * from "./nodeDefinitions";
 export * from "./nfcoreModuleAdapters";
+export * from "./channelShapes";
@@ -1,10 +1,14 @@
 import type { Node } from "reactflow";
 import type { NodeData, PortData } from "../components/nodes/BaseNode";
 import NfCoreModulePanel from "../components/panels/process/NfCoreModulePanel";
+import { toGroovyString, toShellWord } from "../generators/core/quoting";
+import { generateErrorStrategyConfig } from "../generators/templates/processes";
+import type { ChannelShape } from "./channelShapes";
 import type { NodeDefinition } from "./nodeDefinitions";
-import type {
-  NodeGenerationContext,
-  NodeGenerationResult,
+import {
+  findIncomingEdgeForHandle,
+  type NodeGenerationContext,
+  type NodeGenerationResult,
 } from "./nodeGeneration";
 
 export type NfCoreInputAdapter = "path" | "fastq_reads_with_meta";
@@ -21,6 +25,7 @@ export interface NfCoreModuleOutput {
   emit: string;
   label?: string;
   isConnectable?: boolean;
+  channelShape?: ChannelShape;
 }
 
 export interface NfCoreModuleInputGroup {
@@ -105,8 +110,18 @@ export const fastqcNfCoreAdapter: NfCoreModuleAdapter = {
       },
     ],
     outputs: [
-      { handle: "html", emit: "html", label: "HTML Reports" },
-      { handle: "zip", emit: "zip", label: "ZIP Archives" },
+      {
+        handle: "html",
+        emit: "html",
+        label: "HTML Reports",
+        channelShape: "tupleMetaPath",
+      },
+      {
+        handle: "zip",
+        emit: "zip",
+        label: "ZIP Archives",
+        channelShape: "tupleMetaPath",
+      },
       { handle: "versions", emit: "versions_fastqc", label: "Versions" },
     ],
     defaults: {
@@ -120,10 +135,10 @@ export const fastqcNfCoreAdapter: NfCoreModuleAdapter = {
     buildExtArgs: (node) => {
       const parts = [
         node.data.nogroup ? "--nogroup" : "",
-        node.data.format ? `--format ${shellQuote(String(node.data.format))}` : "",
+        node.data.format ? `--format ${toShellWord(String(node.data.format))}` : "",
         node.data.kmers ? `--kmers ${Number(node.data.kmers)}` : "",
-        node.data.adapters ? `--adapters ${shellQuote(String(node.data.adapters))}` : "",
-        node.data.limits ? `--limits ${shellQuote(String(node.data.limits))}` : "",
+        node.data.adapters ? `--adapters ${toShellWord(String(node.data.adapters))}` : "",
+        node.data.limits ? `--limits ${toShellWord(String(node.data.limits))}` : "",
       ];
 
       return parts.filter(Boolean).join(" ");
@@ -149,11 +164,36 @@ export const trimmomaticNfCoreAdapter: NfCoreModuleAdapter = {
       },
     ],
     outputs: [
-      { handle: "trimmed_reads", emit: "trimmed_reads", label: "Trimmed" },
-      { handle: "unpaired_reads", emit: "unpaired_reads", label: "Unpaired" },
-      { handle: "trim_log", emit: "trim_log", label: "Trim Log" },
-      { handle: "out_log", emit: "out_log", label: "Output Log" },
-      { handle: "summary", emit: "summary", label: "Summary" },
+      {
+        handle: "trimmed_reads",
+        emit: "trimmed_reads",
+        label: "Trimmed",
+        channelShape: "tupleMetaPath",
+      },
+      {
+        handle: "unpaired_reads",
+        emit: "unpaired_reads",
+        label: "Unpaired",
+        channelShape: "tupleMetaPath",
+      },
+      {
+        handle: "trim_log",
+        emit: "trim_log",
+        label: "Trim Log",
+        channelShape: "tupleMetaPath",
+      },
+      {
+        handle: "out_log",
+        emit: "out_log",
+        label: "Output Log",
+        channelShape: "tupleMetaPath",
+      },
+      {
+        handle: "summary",
+        emit: "summary",
+        label: "Summary",
+        channelShape: "tupleMetaPath",
+      },
       {
         handle: "versions",
         emit: "versions_trimmomatic",
@@ -177,12 +217,12 @@ export const trimmomaticNfCoreAdapter: NfCoreModuleAdapter = {
       const steps = [
         `LEADING:${node.data.leading ?? 3}`,
         `TRAILING:${node.data.trailing ?? 3}`,
-        `SLIDINGWINDOW:${node.data.slidingwindow ?? "4:15"}`,
+        toShellWord(`SLIDINGWINDOW:${node.data.slidingwindow ?? "4:15"}`),
         `MINLEN:${node.data.minlen ?? 36}`,
       ];
 
       if (node.data.adapter_file) {
-        steps.push(`ILLUMINACLIP:${node.data.adapter_file}`);
+        steps.push(toShellWord(`ILLUMINACLIP:${node.data.adapter_file}`));
       }
 
       if (node.data.custom_steps) {
@@ -191,10 +231,13 @@ export const trimmomaticNfCoreAdapter: NfCoreModuleAdapter = {
             .split("\n")
             .map((step) => step.trim())
             .filter(Boolean)
+            .map(toShellWord)
         );
       }
 
-      return `-phred${node.data.phred_score ?? "33"} ${steps.join(" ")}`;
+      return [toShellWord(`-phred${node.data.phred_score ?? "33"}`), ...steps].join(
+        " "
+      );
     },
   };
 
@@ -210,11 +253,13 @@ export const createNodeDefinitionFromNfCoreAdapter = (
     name: input.handle,
     label: input.label,
     isConnectable: true,
+    channelShape: getNfCoreInputShape(adapter, input),
   }));
   const outputs: PortData[] = adapter.outputs.map((output) => ({
     name: output.handle,
     label: output.label,
     isConnectable: output.isConnectable ?? true,
+    channelShape: output.channelShape,
   }));
 
   return {
@@ -318,7 +363,7 @@ export const generateNfCoreModuleNode =
     const configLines: string[] = [];
 
     if (extArgs) {
-      configLines.push(`  ext.args = ${groovyString(extArgs)}`);
+      configLines.push(`  ext.args = ${toGroovyString(extArgs)}`);
     }
 
     if (node.data.overrideResources) {
@@ -327,13 +372,24 @@ export const generateNfCoreModuleNode =
         configLines.push(`  cpus = ${Math.floor(cpus)}`);
       }
       if (node.data.memory) {
-        configLines.push(`  memory = ${groovyString(String(node.data.memory))}`);
+        configLines.push(`  memory = ${toGroovyString(String(node.data.memory))}`);
       }
       if (node.data.timeLimit) {
-        configLines.push(`  time = ${groovyString(String(node.data.timeLimit))}`);
+        configLines.push(`  time = ${toGroovyString(String(node.data.timeLimit))}`);
       }
     }
 
+    // Per-node error handling wins over the workflow-wide process settings
+    if (node.data.errorStrategy) {
+      configLines.push(
+        ...generateErrorStrategyConfig({
+          strategy: node.data.errorStrategy,
+          maxRetries: node.data.maxRetries,
+          backoffStrategy: node.data.backoffStrategy,
+        }).map((line) => `  ${line}`)
+      );
+    }
+
     const configBlock =
       configLines.length > 0
         ? [`withName: '${moduleAlias}' {`, ...configLines, "}"].join("\n")
@@ -356,6 +412,21 @@ export const generateNfCoreModuleNode =
     };
   };
 
+// Tuple groups are assembled from the file in each item, so they accept any
+// shape and only care whether a meta map has to be made up.
+function getNfCoreInputShape(
+  adapter: NfCoreModuleAdapter,
+  input: NfCoreModuleInput
+): ChannelShape | undefined {
+  const group = adapter.inputGroups?.find(
+    (candidate) => candidate.tuple && candidate.fields.includes(input.handle)
+  );
+  if (group) {
+    return group.metaName ? "tupleMetaPath" : undefined;
+  }
+  return input.adapter === "fastq_reads_with_meta" ? "tupleMetaPath" : "path";
+}
+
 function buildAdaptedInputChannel({
   adapter,
   processName,
@@ -484,19 +555,6 @@ function buildNfCoreInputChannels({
   return inputChannels;
 }
 
-function findIncomingEdgeForHandle(
-  incomingEdges: NodeGenerationContext["incomingEdges"],
-  handle: string,
-  fallbackIndex: number
-) {
-  return (
-    incomingEdges.find((candidate) => {
-      if (!candidate.targetHandle) return fallbackIndex === 0;
-      return candidate.targetHandle === handle;
-    }) ?? incomingEdges[fallbackIndex]
-  );
-}
-
 function buildTupleInputGroupDefinition({
   channelName,
   fields,
@@ -541,14 +599,6 @@ function sanitizeProcessName(name: string): string {
   return name.replace(/[^A-Za-z0-9_]/g, "_");
 }
 
-function groovyString(value: string): string {
-  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
-}
-
-function shellQuote(value: string): string {
-  return `'${value.replace(/'/g, "'\\''")}'`;
-}
-
 export const nfCoreNodeDefinitions: NodeDefinition[] = nfCoreModuleAdapters.map(
   createNodeDefinitionFromNfCoreAdapter
 );
@@ -3,9 +3,17 @@ import type { Connection, Edge, Node } from "reactflow";
 import type { NextflowProcessCategory } from "../data/types";
 import type { FileObject, NodeData, PortData } from "../components/nodes/BaseNode";
 import FileInputPanel from "../components/panels/input/FileInputPanel";
+import SampleSheetPanel from "../components/panels/input/SampleSheetPanel";
+import ParameterPanel from "../components/panels/input/ParameterPanel";
 import FilterPanel from "../components/panels/operator/FilterPanel";
 import MapPanel from "../components/panels/operator/MapPanel";
 import MergePanel from "../components/panels/operator/MergePanel";
+import JoinPanel from "../components/panels/operator/JoinPanel";
+import CombinePanel from "../components/panels/operator/CombinePanel";
+import GroupTuplePanel from "../components/panels/operator/GroupTuplePanel";
+import CollectPanel from "../components/panels/operator/CollectPanel";
+import FlattenPanel from "../components/panels/operator/FlattenPanel";
+import BranchPanel from "../components/panels/operator/BranchPanel";
 import ProcessNodePanel from "../components/panels/process/ProcessNodePanel";
 import FastQCPanel from "../components/panels/process/FastQCPanel";
 import TrimmomaticPanel from "../components/panels/process/TrimmomaticPanel";
@@ -13,6 +21,8 @@ import { useFilterOperator } from "../hooks/operator/useFilterOperator";
 import { useMapOperator } from "../hooks/operator/useMapOperator";
 import { useMergeOperator } from "../hooks/operator/useMergeOperator";
 import {
+  generateBranchNode,
+  generateChannelOperatorNode,
   generateFilterNode,
   generateGenericProcessNode,
   generateMapNode,
@@ -20,6 +30,12 @@ import {
   generateOutputDisplayNode,
   type NodeGenerator,
 } from "./nodeGeneration";
+import { BRANCH_NAME_PATTERN } from "../generators/templates/channelOperators";
+import {
+  CHANNEL_SHAPE_LABELS,
+  checkChannelShapes,
+  type ChannelShape,
+} from "./channelShapes";
 import {
   fastqcNfCoreAdapter,
   generateNfCoreModuleNode,
@@ -28,6 +44,10 @@ import {
 
 export type NodeKind = "input" | "operator" | "process" | "output";
 
+// How an operator node is generated: a containerised `process` block, or
+// native channel operators inside the workflow block.
+export type OperatorForm = "process" | "native";
+
 export type NodePanelComponent = React.ComponentType<{
   node: Node<NodeData>;
   onSave: (nodeId: string, data: Partial<NodeData>) => void;
@@ -50,6 +70,7 @@ export interface NodeConnectionValidationContext {
 export interface NodeConnectionValidationResult {
   valid: boolean;
   message?: string;
+  warning?: string; // Allowed, but worth explaining on the edge
 }
 
 export type NodeConnectionValidator = (
@@ -68,12 +89,17 @@ export interface NodeDefinition {
   outputs?: PortData[];
   defaults?: Partial<NodeData>;
   operatorType?: string;
+  operatorForms?: OperatorForm[];
   processType?: string;
   panel?: NodePanelComponent;
   previewHook?: NodePreviewHook;
   executionLabel?: string;
   generateNextflow?: NodeGenerator;
   validateConnection?: NodeConnectionValidator;
+  // Output ports that depend on the node's settings, e.g. Branch outputs
+  resolveOutputs?: (data: NodeData) => PortData[];
+  // Shape of all outputs when it depends on settings, e.g. paired reads
+  resolveOutputShape?: (data: NodeData) => ChannelShape;
 }
 
 const withPorts = (
@@ -86,6 +112,91 @@ const withPorts = (
   ...(outputs ? { outputs } : {}),
 });
 
+const singleInput: PortData[] = [{ name: "in" }];
+const leftRightInputs: PortData[] = [
+  { name: "left", label: "Left" },
+  { name: "right", label: "Right" },
+];
+const singleOutput: PortData[] = [{ name: "out", isConnectable: true }];
+const listOutput: PortData[] = [
+  { name: "out", isConnectable: true, channelShape: "pathList" },
+];
+const pathOutput: PortData[] = [
+  { name: "out", isConnectable: true, channelShape: "path" },
+];
+const parameterOutput: PortData[] = [
+  { name: "value", label: "Value", isConnectable: true, channelShape: "value" },
+];
+
+// nf-core modules take and emit tuple(val(meta), path(...))
+const metaTuplePort = (name: string, label: string): PortData => ({
+  name,
+  label,
+  isConnectable: true,
+  channelShape: "tupleMetaPath",
+});
+
+const defaultBranches = [
+  { name: "small", condition: "it.size() < 1000000" },
+  { name: "large", condition: "true" },
+];
+
+// Unusable or repeated branch names get no port until they are fixed
+const getBranchOutputs = (data: NodeData): PortData[] =>
+  (data.branches || [])
+    .filter(
+      (branch, index, branches) =>
+        BRANCH_NAME_PATTERN.test(branch.name) &&
+        branches.findIndex((other) => other.name === branch.name) === index
+    )
+    .map((branch) => ({
+      name: branch.name,
+      label: branch.name,
+      isConnectable: true,
+    }));
+
+// File Input emits bare paths unless it reads pairs via fromFilePairs
+const emitsPlainFiles = (node?: Node<NodeData>): boolean =>
+  node?.type === "fileInput" &&
+  !(node.data.inputMode === "path" && node.data.pairedReads);
+
+/**
+ * Channel-shaping operators take one edge per input port; join and
+ * groupTuple additionally need keyed tuples rather than plain files.
+ */
+const validateChannelOperatorConnection =
+  (
+    operatorType: string,
+    label: string,
+    requiresTuples = false
+  ): NodeConnectionValidator =>
+  ({ connection, sourceNode, targetNode, edges }) => {
+    if (targetNode?.data.operatorType !== operatorType) {
+      return { valid: true };
+    }
+
+    const handleTaken = edges.some(
+      (edge) =>
+        edge.target === targetNode.id &&
+        (edge.targetHandle ?? null) === (connection.targetHandle ?? null)
+    );
+    if (handleTaken) {
+      return {
+        valid: false,
+        message: `${label} takes one connection per input.`,
+      };
+    }
+
+    if (requiresTuples && emitsPlainFiles(sourceNode)) {
+      return {
+        valid: false,
+        message: `${label} needs keyed tuples, e.g. from a Sample Sheet or paired reads, not plain files.`,
+      };
+    }
+
+    return { valid: true };
+  };
+
 const builtinNodeDefinitions: NodeDefinition[] = [
   {
     id: "fileInput",
@@ -101,9 +212,22 @@ const builtinNodeDefinitions: NodeDefinition[] = [
     },
     panel: FileInputPanel,
     executionLabel: "File Input",
+    resolveOutputShape: (data) =>
+      data.inputMode === "path" && data.pairedReads ? "tuple" : "path",
     validateConnection: ({ sourceNode }) => {
       if (
         sourceNode?.type === "fileInput" &&
+        sourceNode.data.inputMode === "path" &&
+        !sourceNode.data.serverPath
+      ) {
+        return {
+          valid: false,
+          message: "File Input requires a server directory before connecting.",
+        };
+      }
+      if (
+        sourceNode?.type === "fileInput" &&
+        sourceNode.data.inputMode !== "path" &&
         (!sourceNode.data.files || sourceNode.data.files.length === 0)
       ) {
         return {
@@ -115,6 +239,75 @@ const builtinNodeDefinitions: NodeDefinition[] = [
       return { valid: true };
     },
   },
+  {
+    id: "sampleSheet",
+    kind: "input",
+    category: "Input",
+    label: "Sample Sheet",
+    description: "Emits tuple(meta, reads) for each row of a sample sheet CSV.",
+    type: "sampleSheet",
+    icon: "Table",
+    outputs: [
+      {
+        name: "samples",
+        label: "Samples",
+        isConnectable: false,
+        channelShape: "tupleMetaPath",
+      },
+    ],
+    defaults: {
+      outputs: [
+        {
+          name: "samples",
+          label: "Samples",
+          isConnectable: false,
+          channelShape: "tupleMetaPath",
+        },
+      ],
+    },
+    panel: SampleSheetPanel,
+    executionLabel: "Sample Sheet",
+    validateConnection: ({ sourceNode }) => {
+      if (sourceNode?.type === "sampleSheet" && !sourceNode.data.files?.length) {
+        return {
+          valid: false,
+          message: "Sample Sheet requires a CSV before connecting.",
+        };
+      }
+
+      return { valid: true };
+    },
+  },
+  {
+    id: "parameter",
+    kind: "input",
+    category: "Input",
+    label: "Parameter",
+    description: "A workflow parameter whose value is set when the run starts.",
+    type: "parameter",
+    icon: "SlidersHorizontal",
+    outputs: parameterOutput,
+    defaults: {
+      paramName: "",
+      paramType: "string",
+      paramDefault: "",
+      outputs: parameterOutput,
+    },
+    panel: ParameterPanel,
+    // Path parameters are staged as a file; everything else is a plain value
+    resolveOutputShape: (data) =>
+      data.paramType === "path" ? "path" : "value",
+    validateConnection: ({ sourceNode }) => {
+      if (sourceNode?.type === "parameter" && !sourceNode.data.paramName) {
+        return {
+          valid: false,
+          message: "Parameter requires a name before connecting.",
+        };
+      }
+
+      return { valid: true };
+    },
+  },
   {
     id: "filter",
     kind: "operator",
@@ -124,6 +317,7 @@ const builtinNodeDefinitions: NodeDefinition[] = [
     type: "operator",
     icon: "Funnel",
     operatorType: "filter",
+    operatorForms: ["process", "native"],
     inputs: [{ name: "in" }],
     outputs: [{ name: "out", isConnectable: true }],
     defaults: withPorts({ operatorType: "filter" }, [{ name: "in" }], [
@@ -143,6 +337,7 @@ const builtinNodeDefinitions: NodeDefinition[] = [
     type: "operator",
     icon: "Wand",
     operatorType: "map",
+    operatorForms: ["process", "native"],
     inputs: [{ name: "in" }],
     outputs: [{ name: "out", isConnectable: true }],
     defaults: withPorts(
@@ -152,6 +347,7 @@ const builtinNodeDefinitions: NodeDefinition[] = [
         mapChangeCase: "toUpperCase",
         mapReplaceFind: "",
         mapReplaceWith: "",
+        mapReplaceMode: "regex",
       },
       [{ name: "in" }],
       [{ name: "out", isConnectable: true }]
@@ -170,6 +366,7 @@ const builtinNodeDefinitions: NodeDefinition[] = [
     type: "operator",
     icon: "Minimize",
     operatorType: "merge",
+    operatorForms: ["process", "native"],
     inputs: [{ name: "in" }],
     outputs: [{ name: "out", isConnectable: true }],
     defaults: withPorts(
@@ -186,6 +383,136 @@ const builtinNodeDefinitions: NodeDefinition[] = [
     generateNextflow: generateMergeNode,
     executionLabel: "Merge",
   },
+  {
+    id: "join",
+    kind: "operator",
+    category: "Operators",
+    label: "Join",
+    description: "Pair items from two channels that share a key.",
+    type: "operator",
+    icon: "Link",
+    operatorType: "join",
+    inputs: leftRightInputs,
+    outputs: singleOutput,
+    defaults: withPorts(
+      { operatorType: "join", joinBy: 0, joinRemainder: false },
+      leftRightInputs,
+      singleOutput
+    ),
+    panel: JoinPanel,
+    generateNextflow: generateChannelOperatorNode("join", ["left", "right"]),
+    executionLabel: "Join",
+    validateConnection: validateChannelOperatorConnection("join", "Join", true),
+  },
+  {
+    id: "combine",
+    kind: "operator",
+    category: "Operators",
+    label: "Combine",
+    description: "Emit every pairing of items from two channels.",
+    type: "operator",
+    icon: "Combine",
+    operatorType: "combine",
+    inputs: leftRightInputs,
+    outputs: singleOutput,
+    defaults: withPorts(
+      { operatorType: "combine", combineBy: "" },
+      leftRightInputs,
+      singleOutput
+    ),
+    panel: CombinePanel,
+    generateNextflow: generateChannelOperatorNode("combine", [
+      "left",
+      "right",
+    ]),
+    executionLabel: "Combine",
+    validateConnection: validateChannelOperatorConnection("combine", "Combine"),
+  },
+  {
+    id: "groupTuple",
+    kind: "operator",
+    category: "Operators",
+    label: "Group Tuple",
+    description: "Group tuples that share a key into one.",
+    type: "operator",
+    icon: "Group",
+    operatorType: "groupTuple",
+    inputs: singleInput,
+    outputs: singleOutput,
+    defaults: withPorts(
+      { operatorType: "groupTuple", groupBy: 0, groupSize: "", groupSort: false },
+      singleInput,
+      singleOutput
+    ),
+    panel: GroupTuplePanel,
+    generateNextflow: generateChannelOperatorNode("groupTuple", ["in"]),
+    executionLabel: "Group Tuple",
+    validateConnection: validateChannelOperatorConnection(
+      "groupTuple",
+      "Group Tuple",
+      true
+    ),
+  },
+  {
+    id: "collect",
+    kind: "operator",
+    category: "Operators",
+    label: "Collect",
+    description: "Gather all items of a channel into a single list.",
+    type: "operator",
+    icon: "Layers",
+    operatorType: "collect",
+    inputs: singleInput,
+    outputs: listOutput,
+    defaults: withPorts(
+      { operatorType: "collect", collectFlat: true },
+      singleInput,
+      listOutput
+    ),
+    panel: CollectPanel,
+    generateNextflow: generateChannelOperatorNode("collect", ["in"]),
+    executionLabel: "Collect",
+    validateConnection: validateChannelOperatorConnection("collect", "Collect"),
+  },
+  {
+    id: "flatten",
+    kind: "operator",
+    category: "Operators",
+    label: "Flatten",
+    description: "Emit each element of lists and tuples as its own item.",
+    type: "operator",
+    icon: "Ungroup",
+    operatorType: "flatten",
+    inputs: singleInput,
+    outputs: pathOutput,
+    defaults: withPorts({ operatorType: "flatten" }, singleInput, pathOutput),
+    panel: FlattenPanel,
+    generateNextflow: generateChannelOperatorNode("flatten", ["in"]),
+    executionLabel: "Flatten",
+    validateConnection: validateChannelOperatorConnection("flatten", "Flatten"),
+  },
+  {
+    id: "branch",
+    kind: "operator",
+    category: "Operators",
+    label: "Branch",
+    description: "Route items to named outputs by condition.",
+    type: "operator",
+    icon: "Split",
+    operatorType: "branch",
+    inputs: singleInput,
+    outputs: getBranchOutputs({ branches: defaultBranches }),
+    defaults: withPorts(
+      { operatorType: "branch", branches: defaultBranches },
+      singleInput,
+      getBranchOutputs({ branches: defaultBranches })
+    ),
+    panel: BranchPanel,
+    generateNextflow: generateBranchNode,
+    executionLabel: "Branch",
+    validateConnection: validateChannelOperatorConnection("branch", "Branch"),
+    resolveOutputs: getBranchOutputs,
+  },
   {
     id: "process",
     kind: "process",
@@ -213,20 +540,20 @@ const builtinNodeDefinitions: NodeDefinition[] = [
     type: "process",
     icon: "ClipboardCheck",
     processType: "fastqc",
-    inputs: [{ name: "reads", label: "FASTQ Files", isConnectable: true }],
+    inputs: [metaTuplePort("reads", "FASTQ Files")],
     outputs: [
-      { name: "html", label: "HTML Reports", isConnectable: true },
-      { name: "zip", label: "ZIP Archives", isConnectable: true },
+      metaTuplePort("html", "HTML Reports"),
+      metaTuplePort("zip", "ZIP Archives"),
       { name: "versions", label: "Versions", isConnectable: true },
     ],
     defaults: {
       processType: "fastqc",
       label: "FastQC",
       subtitle: "Quality Control",
-      inputs: [{ name: "reads", label: "FASTQ Files", isConnectable: true }],
+      inputs: [metaTuplePort("reads", "FASTQ Files")],
       outputs: [
-        { name: "html", label: "HTML Reports", isConnectable: true },
-        { name: "zip", label: "ZIP Archives", isConnectable: true },
+        metaTuplePort("html", "HTML Reports"),
+        metaTuplePort("zip", "ZIP Archives"),
         { name: "versions", label: "Versions", isConnectable: true },
       ],
       threads: 1,
@@ -254,26 +581,26 @@ const builtinNodeDefinitions: NodeDefinition[] = [
     type: "process",
     icon: "Scissors",
     processType: "trimmomatic",
-    inputs: [{ name: "reads", label: "FASTQ", isConnectable: true }],
+    inputs: [metaTuplePort("reads", "FASTQ")],
     outputs: [
-      { name: "trimmed_reads", label: "Trimmed", isConnectable: true },
-      { name: "unpaired_reads", label: "Unpaired", isConnectable: true },
-      { name: "trim_log", label: "Log", isConnectable: true },
-      { name: "out_log", label: "Output Log", isConnectable: true },
-      { name: "summary", label: "Summary", isConnectable: true },
+      metaTuplePort("trimmed_reads", "Trimmed"),
+      metaTuplePort("unpaired_reads", "Unpaired"),
+      metaTuplePort("trim_log", "Log"),
+      metaTuplePort("out_log", "Output Log"),
+      metaTuplePort("summary", "Summary"),
       { name: "versions", label: "Versions", isConnectable: true },
     ],
     defaults: {
       processType: "trimmomatic",
       label: "Trimmomatic",
       subtitle: "Quality Trimming",
-      inputs: [{ name: "reads", label: "FASTQ", isConnectable: true }],
+      inputs: [metaTuplePort("reads", "FASTQ")],
       outputs: [
-        { name: "trimmed_reads", label: "Trimmed", isConnectable: true },
-        { name: "unpaired_reads", label: "Unpaired", isConnectable: true },
-        { name: "trim_log", label: "Log", isConnectable: true },
-        { name: "out_log", label: "Output Log", isConnectable: true },
-        { name: "summary", label: "Summary", isConnectable: true },
+        metaTuplePort("trimmed_reads", "Trimmed"),
+        metaTuplePort("unpaired_reads", "Unpaired"),
+        metaTuplePort("trim_log", "Log"),
+        metaTuplePort("out_log", "Output Log"),
+        metaTuplePort("summary", "Summary"),
         { name: "versions", label: "Versions", isConnectable: true },
       ],
       leading: 3,
@@ -450,6 +777,84 @@ export const getExecutionLabelForProcessName = (
   return definition?.executionLabel;
 };
 
+// Handles the generator maps to a node's first output
+const FALLBACK_OUTPUT_HANDLES = new Set(["out", "output"]);
+
+/**
+ * Channel shape of a node's port. Ports stored in the node data win over the
+ * definition's, so workflows saved before ports had shapes still resolve.
+ */
+export const getPortChannelShape = (
+  node: Node<NodeData>,
+  direction: "input" | "output",
+  handle?: string | null
+): ChannelShape | undefined => {
+  const definition = getNodeDefinitionForNode(node);
+  if (direction === "output" && definition?.resolveOutputShape) {
+    return definition.resolveOutputShape(node.data);
+  }
+
+  const portLists =
+    direction === "input"
+      ? [node.data.inputs, definition?.inputs]
+      : [
+          definition?.resolveOutputs?.(node.data),
+          node.data.outputs,
+          definition?.outputs,
+        ];
+  // Input nodes emit one channel whatever handle their edges were saved with
+  const useFirstPort =
+    !handle ||
+    (direction === "output" &&
+      (definition?.kind === "input" || FALLBACK_OUTPUT_HANDLES.has(handle)));
+
+  for (const ports of portLists) {
+    const port =
+      ports?.find((candidate) => candidate.name === handle) ??
+      (useFirstPort ? ports?.[0] : undefined);
+    if (port?.channelShape) return port.channelShape;
+  }
+  return undefined;
+};
+
+/**
+ * Compares the shapes on both ends of a connection. Links the generator
+ * cannot make work are invalid; links it adapts carry a warning.
+ */
+export const checkConnectionChannelShapes = (
+  connection: { sourceHandle?: string | null; targetHandle?: string | null },
+  sourceNode?: Node<NodeData>,
+  targetNode?: Node<NodeData>
+): NodeConnectionValidationResult => {
+  if (!sourceNode || !targetNode) return { valid: true };
+
+  const sourceShape = getPortChannelShape(
+    sourceNode,
+    "output",
+    connection.sourceHandle
+  );
+  const targetShape = getPortChannelShape(
+    targetNode,
+    "input",
+    connection.targetHandle
+  );
+  const { level, reason } = checkChannelShapes(sourceShape, targetShape);
+  if (level === "ok" || !sourceShape || !targetShape) return { valid: true };
+
+  const targetPort = (targetNode.data.inputs ?? []).find(
+    (port) => port.name === connection.targetHandle
+  );
+  const message = `${sourceNode.data.label || sourceNode.id} emits ${
+    CHANNEL_SHAPE_LABELS[sourceShape]
+  } but ${targetNode.data.label || targetNode.id} expects ${
+    CHANNEL_SHAPE_LABELS[targetShape]
+  }${targetPort?.label ? ` on "${targetPort.label}"` : ""}: ${reason}`;
+
+  return level === "error"
+    ? { valid: false, message }
+    : { valid: true, warning: message };
+};
+
 export const validateConnectionWithNodeDefinitions = (
   context: NodeConnectionValidationContext
 ): NodeConnectionValidationResult => {
@@ -471,5 +876,9 @@ export const validateConnectionWithNodeDefinitions = (
     }
   }
 
-  return { valid: true };
+  return checkConnectionChannelShapes(
+    context.connection,
+    context.sourceNode,
+    context.targetNode
+  );
 };
@@ -1,10 +1,16 @@
 import type { Edge, Node } from "reactflow";
 import type { NodeData } from "../components/nodes/BaseNode";
 import {
+  generateBranchOperator,
+  generateChannelOperatorCode,
+  generateNativeOperatorCode,
   generateOperatorCode,
   generateOutputCode,
   generateProcessCode,
 } from "../generators/core/templateEngine";
+import { toCommentText, toGroovyString } from "../generators/core/quoting";
+import { BRANCH_NAME_PATTERN } from "../generators/templates/channelOperators";
+import { getOutputDisplayResultsDir } from "../generators/templates/outputs";
 
 export interface NodeGenerationContext {
   node: Node<NodeData>;
@@ -16,8 +22,6 @@ export interface NodeGenerationContext {
   outputDisplayCounter: number;
   outputNamingPattern: string;
   workflowName: string;
-  timestamp: number;
-  date: string;
   resolveChannelNameForEdge: (
     edge: Edge,
     channelNameMap: Map<string, string>
@@ -40,6 +44,33 @@ export type NodeGenerator = (
   context: NodeGenerationContext
 ) => NodeGenerationResult | null;
 
+export function findIncomingEdgeForHandle(
+  incomingEdges: NodeGenerationContext["incomingEdges"],
+  handle: string,
+  fallbackIndex: number
+) {
+  return (
+    incomingEdges.find((candidate) => {
+      if (!candidate.targetHandle) return fallbackIndex === 0;
+      return candidate.targetHandle === handle;
+    }) ?? incomingEdges[fallbackIndex]
+  );
+}
+
+// Native operators add no process block and no container task
+const isNativeOperator = (node: Node<NodeData>): boolean =>
+  node.data.operatorForm === "native";
+
+const nativeOperatorResult = (
+  invocation: string,
+  channelDefinitions?: string[]
+): NodeGenerationResult => ({
+  processScript: "",
+  processInvocations: [invocation],
+  channelDefinitions,
+  includeInExecutionOrder: false,
+});
+
 const getResourceSettings = (node: Node<NodeData>) => ({
   containerImage: node.data.containerImage || "ubuntu:22.04",
   cpus: node.data.cpus || 1,
@@ -60,6 +91,33 @@ export const generateFilterNode: NodeGenerator = ({
   const selectedFiles = node.data.selectedFilterFiles || [];
   const { containerImage, cpus, memory } = getResourceSettings(node);
 
+  const selectedFileNames = selectedFiles.map((file: any) => file.name);
+  const fileNameFilter = selectedFileNames
+    .map((name: string) => `file.name == ${toGroovyString(name)}`)
+    .join(" || ");
+  const selectionDefinitions = [
+    `    // Filter to only process selected files: ${toCommentText(
+      selectedFileNames.join(", ")
+    )}\n`,
+    `    ${outputChannelName}_selected = ${upstreamChannelName}.filter { file -> ${fileNameFilter} }\n`,
+  ];
+
+  if (isNativeOperator(node)) {
+    const hasSelection = selectedFiles.length > 0;
+    return nativeOperatorResult(
+      generateNativeOperatorCode("filter", {
+        inputChannel: hasSelection
+          ? `${outputChannelName}_selected`
+          : upstreamChannelName,
+        outputChannel: outputChannelName,
+        filterText,
+        filterMode,
+        filterNegate,
+      }),
+      hasSelection ? selectionDefinitions : undefined
+    );
+  }
+
   const processScript = generateOperatorCode("filter", {
     processName,
     cpuCount: cpus,
@@ -79,19 +137,9 @@ export const generateFilterNode: NodeGenerator = ({
     };
   }
 
-  const selectedFileNames = selectedFiles.map((file: any) => file.name);
-  const fileNameFilter = selectedFileNames
-    .map((name: string) => `file.name == '${name}'`)
-    .join(" || ");
-
   return {
     processScript,
-    channelDefinitions: [
-      `    // Filter to only process selected files: ${selectedFileNames.join(
-        ", "
-      )}\n`,
-      `    ${outputChannelName}_selected = ${upstreamChannelName}.filter { file -> ${fileNameFilter} }\n`,
-    ],
+    channelDefinitions: selectionDefinitions,
     processInvocations: [
       `    ${outputChannelName} = ${processName}(${outputChannelName}_selected)\n`,
     ],
@@ -106,6 +154,20 @@ export const generateMapNode: NodeGenerator = ({
 }) => {
   if (!outputChannelName) return null;
 
+  if (isNativeOperator(node)) {
+    return nativeOperatorResult(
+      generateNativeOperatorCode("map", {
+        inputChannel: upstreamChannelName,
+        outputChannel: outputChannelName,
+        mapOperation: node.data.mapOperation || "changeCase",
+        mapChangeCase: node.data.mapChangeCase,
+        mapReplaceFind: node.data.mapReplaceFind,
+        mapReplaceWith: node.data.mapReplaceWith,
+        mapReplaceMode: node.data.mapReplaceMode,
+      })
+    );
+  }
+
   const { containerImage, cpus, memory } = getResourceSettings(node);
 
   return {
@@ -118,6 +180,7 @@ export const generateMapNode: NodeGenerator = ({
       mapChangeCase: node.data.mapChangeCase,
       mapReplaceFind: node.data.mapReplaceFind,
       mapReplaceWith: node.data.mapReplaceWith,
+      mapReplaceMode: node.data.mapReplaceMode,
     }),
     processInvocations: [
       `    ${outputChannelName} = ${processName}(${upstreamChannelName})\n`,
@@ -146,6 +209,16 @@ export const generateMergeNode: NodeGenerator = ({
 
   if (upstreamChannelNames.length === 0) return null;
 
+  if (isNativeOperator(node)) {
+    return nativeOperatorResult(
+      generateNativeOperatorCode("merge", {
+        inputChannel: buildMixedChannelExpression(upstreamChannelNames),
+        outputChannel: outputChannelName,
+        joinType: node.data.joinType || "txt",
+      })
+    );
+  }
+
   const mergeInputChannelName = `${outputChannelName}_merge_inputs`;
 
   return {
@@ -166,6 +239,74 @@ export const generateMergeNode: NodeGenerator = ({
   };
 };
 
+/**
+ * Channel-shaping operators (join, combine, groupTuple, collect, flatten)
+ * compile to a single operator call on their input channels, taken in the
+ * order of the given port names.
+ */
+export const generateChannelOperatorNode =
+  (operatorType: string, inputHandles: string[]): NodeGenerator =>
+  ({
+    node,
+    outputChannelName,
+    incomingEdges,
+    channelNameMap,
+    resolveChannelNameForEdge,
+  }) => {
+    if (!outputChannelName) return null;
+
+    const inputChannels = inputHandles.map((handle, index) => {
+      const edge = findIncomingEdgeForHandle(incomingEdges, handle, index);
+      return edge ? resolveChannelNameForEdge(edge, channelNameMap) : null;
+    });
+    if (inputChannels.some((channelName) => !channelName)) return null;
+
+    return {
+      processScript: "",
+      processInvocations: [
+        generateChannelOperatorCode(operatorType, {
+          ...node.data,
+          outputChannel: outputChannelName,
+          inputChannels: inputChannels as string[],
+        }),
+      ],
+      includeInExecutionOrder: false,
+    };
+  };
+
+export const generateBranchNode: NodeGenerator = ({
+  node,
+  upstreamChannelName,
+  channelNameMap,
+  sanitizeVarName,
+}) => {
+  const seenNames = new Set<string>();
+  const branches = (node.data.branches || []).flatMap((branch) => {
+    const isFirstUse = !seenNames.has(branch.name);
+    seenNames.add(branch.name);
+
+    const condition = branch.condition?.trim();
+    const outputChannel = channelNameMap.get(`${node.id}.${branch.name}`);
+    return isFirstUse &&
+      BRANCH_NAME_PATTERN.test(branch.name) &&
+      condition &&
+      outputChannel
+      ? [{ name: branch.name, condition, outputChannel }]
+      : [];
+  });
+  if (branches.length === 0) return null;
+
+  return {
+    processScript: "",
+    processInvocations: generateBranchOperator({
+      resultChannel: `${sanitizeVarName(node.id)}_branch_result`,
+      inputChannel: upstreamChannelName,
+      branches,
+    }),
+    includeInExecutionOrder: false,
+  };
+};
+
 export const generateGenericProcessNode: NodeGenerator = (context) => {
   const { node, processName } = context;
   const { containerImage, cpus, memory } = getResourceSettings(node);
@@ -190,8 +331,6 @@ export const generateOutputDisplayNode: NodeGenerator = ({
   outputDisplayCounter,
   outputNamingPattern,
   workflowName,
-  timestamp,
-  date,
 }) => {
   const outputLabel = (node.data.label || "Output").replace(/[\s-]+/g, "_");
   const downloadFormat = node.data.downloadFormat || "txt";
@@ -218,14 +357,13 @@ export const generateOutputDisplayNode: NodeGenerator = ({
       outputLabel,
       downloadFormat,
       selectedFileName,
+      resultsDir: getOutputDisplayResultsDir(node.id),
       outputDisplayCounter,
       outputNamingPattern,
       workflowName,
-      timestamp,
-      date,
     }),
     processInvocations: [
-      `    // Save output from: ${node.data.label || "Output"}\n`,
+      `    // Save output from: ${toCommentText(node.data.label || "Output")}\n`,
       `    ${processName}(${outputInvocationArg})\n`,
     ],
     outputDisplayCounterIncrement: 1,
@@ -7,11 +7,33 @@ export interface IFile {
   originalName: string;
   mimetype: string;
   size: number;
-  path: string;
+  fileType?: string;
+  hash: string; // SHA-256 of the content in the server-side file store
   tags: string[];
   createdAt: Date;
 }
 
+// Listing of a host directory under the allow-listed data roots
+export interface DataRootEntry {
+  name: string;
+  path: string;
+  type: "directory" | "file";
+  size: number | null;
+}
+
+export interface DataRootListing {
+  path: string | null; // null when listing the roots themselves
+  parent: string | null;
+  roots: string[];
+  entries: DataRootEntry[];
+}
+
+// The signed-in account (GET /api/auth/me)
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
 export interface WorkflowOriginDescriptor {
   type: "database" | "builtin" | "imported";
   sourceFormat: "visual" | "nextflow";
@@ -32,4 +54,137 @@ export interface WorkflowDescriptor {
   isBuiltin?: boolean;
   isReadOnly?: boolean;
   origin?: WorkflowOriginDescriptor;
+  resumeState?: WorkflowResumeState | null;
+  role?: WorkflowRole | null; // The caller's role; null for built-ins
+  createdAt?: string;
+  updatedAt?: string; // Sent back as baseUpdatedAt when saving
+}
+
+// Viewers can open and duplicate a workflow, runners also run it, editors
+// also save it; only the owner deletes or shares it
+export type WorkflowRole = "owner" | "editor" | "runner" | "viewer";
+
+export type WorkflowShareRole = Exclude<WorkflowRole, "owner">;
+
+// What POST /workflows/import did besides creating the workflow
+export interface WorkflowBundleImportReport {
+  customNodes: { registered: string[]; existing: string[] };
+  // nf-core modules the workflow uses that are not installed here
+  nfCoreModules: Array<{ id: string; label: string; installable: boolean }>;
+  files: { restored: string[]; missing: string[] };
+  warnings: string[];
+}
+
+// Entry of GET /workflows/:id/shares
+export interface WorkflowShare {
+  userId: string;
+  username: string;
+  role: WorkflowShareRole;
+}
+
+// The latest run whose Nextflow session a "Resume" run picks up
+export interface WorkflowResumeState {
+  runId: string;
+  sessionId: string;
+  outputDir: string;
+}
+
+// Entry of GET /workflows/:id/revisions; the graph is fetched per revision
+export interface WorkflowRevisionSummary {
+  _id: string;
+  workflowId: string;
+  revision: number;
+  name: string;
+  note: string | null;
+  restoredFrom: number | null;
+  author: string | null; // Username; null when not known
+  nodeCount: number;
+  edgeCount: number;
+  createdAt: string;
+}
+
+export interface WorkflowRevision {
+  _id: string;
+  workflowId: string;
+  revision: number;
+  name?: string;
+  nodes: any[];
+  edges: any[];
+  executionSettings?: any;
+  note: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+export type RunStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+// One row of Nextflow's trace.txt, as parsed by the backend
+export interface TaskMetrics {
+  taskId: string;
+  hash: string;
+  name: string;
+  process: string;
+  status: string; // COMPLETED, FAILED, CACHED, ABORTED
+  exit: number | null;
+  realtime: string | null;
+  cpu: string | null;
+  peakRss: string | null;
+}
+
+export interface RunRecord {
+  _id: string;
+  workflowId?: string | null;
+  workflowName: string;
+  executionId: string;
+  script?: string;
+  settings?: any;
+  inputFiles: string[];
+  status: RunStatus;
+  startedAt: string;
+  endedAt?: string | null;
+  exitCode?: number | null;
+  outputDir?: string | null;
+  error?: string | null;
+  sessionId?: string | null;
+  resumedFrom?: string | null; // Run whose cache this run resumed
+  tasks?: TaskMetrics[];
+}
+
+// Files a run published under its results/ directory (GET /api/runs/:id/results)
+export interface RunResultEntry {
+  name: string;
+  path: string; // Relative to the results directory
+  type: "directory" | "file";
+  size: number | null;
+  modifiedAt: string;
+  children?: RunResultEntry[];
 }
+
+export interface RunResultListing {
+  runId: string;
+  status: RunStatus;
+  entries: RunResultEntry[];
+}
+
+// Events published on GET /api/execute/runs/:id/events
+export type RunEvent =
+  | { type: "log"; line: string }
+  | {
+      type: "task";
+      process: string;
+      status: "running" | "success" | "error";
+      completed?: number;
+      total?: number;
+      cached?: number; // Tasks reused from the cache of a resumed run
+      errorAction?: "retried" | "ignored"; // The error strategy kept going
+      task?: string; // Task name the error action applies to
+    }
+  | { type: "trace"; tasks: TaskMetrics[] }
+  | {
+      type: "complete";
+      status: RunStatus;
+      exitCode?: number | null;
+      outputDir?: string | null;
+      error?: string | null;
+      resumable?: boolean;
+    };
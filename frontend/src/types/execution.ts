@@ -57,6 +57,10 @@ export interface ContainerRegistry {
   requiresAuth: boolean;
 }
 
+// What Nextflow does when a task fails, and how retries are spaced out
+export type ErrorStrategy = "terminate" | "ignore" | "retry" | "finish";
+export type BackoffStrategy = "exponential" | "linear" | "fixed";
+
 // Enhanced execution settings with validation
 export interface ExecutionSettings {
   // Core execution mode
@@ -100,9 +104,9 @@ export interface ExecutionSettings {
 
   // Error handling and retry
   errorHandling: {
-    strategy: "terminate" | "ignore" | "retry" | "finish";
+    strategy: ErrorStrategy;
     maxRetries: number;
-    backoffStrategy: "exponential" | "linear" | "fixed";
+    backoffStrategy: BackoffStrategy;
     continueOnError: boolean;
   };
 
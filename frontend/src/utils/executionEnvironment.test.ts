@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  getEnvVarNameError,
+  getParamNameError,
+  toEnvironmentVariables,
+  toParamsFile,
+} from "./executionEnvironment";
+
+describe("execution environment", () => {
+  it("rejects reserved and malformed names", () => {
+    expect(getParamNameError("genome")).toBeNull();
+    expect(getParamNameError("outdir")).toMatch(/set by N-WAVE/);
+    expect(getParamNameError("2pass")).not.toBeNull();
+    expect(getParamNameError("read-length")).not.toBeNull();
+
+    expect(getEnvVarNameError("OMP_NUM_THREADS")).toBeNull();
+    expect(getEnvVarNameError("NXF_VER")).not.toBeNull();
+    expect(getEnvVarNameError("HOME")).not.toBeNull();
+  });
+
+  it("keeps numbers and booleans typed in params.json", () => {
+    expect(
+      toParamsFile({
+        genome: "GRCh38",
+        min_length: "36",
+        ratio: "0.5",
+        skip_qc: "true",
+        label: "36 samples",
+      })
+    ).toEqual({
+      genome: "GRCh38",
+      min_length: 36,
+      ratio: 0.5,
+      skip_qc: true,
+      label: "36 samples",
+    });
+  });
+
+  it("drops names that cannot be forwarded", () => {
+    expect(toParamsFile({ outdir: "/tmp", genome: "GRCh38" })).toEqual({
+      genome: "GRCh38",
+    });
+    expect(
+      toEnvironmentVariables({ NXF_OPTS: "-Xmx1g", TMPDIR: "/scratch" })
+    ).toEqual({ TMPDIR: "/scratch" });
+  });
+});
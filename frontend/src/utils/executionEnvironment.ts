@@ -0,0 +1,86 @@
+// Custom params and environment variables from the execution settings. Params
+// reach Nextflow through a generated params.json (-params-file), environment
+// variables through the config `env {}` scope.
+
+// Passed on the command line or defined by the generator for every run
+export const RESERVED_PARAM_NAMES = [
+  "outdir",
+  "inputdir",
+  "max_cpus",
+  "max_memory",
+  "run_timestamp",
+  "run_date",
+];
+
+// Set by the task's shell or container runtime rather than by the workflow
+export const RESERVED_ENV_VAR_NAMES = ["HOME", "PWD", "USER", "SHELL"];
+
+const PARAM_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ENV_VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Why `name` cannot be used as a custom param, or null if it can. */
+export function getParamNameError(name: string): string | null {
+  if (!PARAM_NAME_PATTERN.test(name)) {
+    return "Use letters, digits and underscores, not starting with a digit.";
+  }
+  if (RESERVED_PARAM_NAMES.includes(name)) {
+    return `params.${name} is set by N-WAVE for every run.`;
+  }
+  return null;
+}
+
+/** Why `name` cannot be used as an environment variable, or null if it can. */
+export function getEnvVarNameError(name: string): string | null {
+  if (!ENV_VAR_NAME_PATTERN.test(name)) {
+    return "Use letters, digits and underscores, not starting with a digit.";
+  }
+  if (name.startsWith("NXF_")) {
+    return "NXF_ variables configure Nextflow itself, not the tasks.";
+  }
+  if (RESERVED_ENV_VAR_NAMES.includes(name)) {
+    return `${name} is set by the task environment.`;
+  }
+  return null;
+}
+
+/**
+ * Param values are edited as text; numbers and booleans are written to
+ * params.json with their JSON type so `params.x > 1` works as expected.
+ */
+export function toParamsFileValue(value: string): string | number | boolean {
+  const trimmed = value.trim();
+  if (trimmed === "true" || trimmed === "false") {
+    return trimmed === "true";
+  }
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return value;
+}
+
+/** The params.json content for valid custom params. */
+export function toParamsFile(
+  customParams: Record<string, unknown> | undefined
+): Record<string, string | number | boolean> {
+  const params: Record<string, string | number | boolean> = {};
+  Object.entries(customParams ?? {}).forEach(([name, value]) => {
+    if (getParamNameError(name)) return;
+    params[name] =
+      typeof value === "number" || typeof value === "boolean"
+        ? value
+        : toParamsFileValue(String(value ?? ""));
+  });
+  return params;
+}
+
+/** Valid environment variables, with values as strings. */
+export function toEnvironmentVariables(
+  environmentVariables: Record<string, unknown> | undefined
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  Object.entries(environmentVariables ?? {}).forEach(([name, value]) => {
+    if (getEnvVarNameError(name)) return;
+    variables[name] = String(value ?? "");
+  });
+  return variables;
+}
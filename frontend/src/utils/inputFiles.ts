@@ -0,0 +1,114 @@
+import type { FileObject } from "../components/nodes/BaseNode";
+import type { IFile } from "../types/backend";
+import { uploadStoredFile } from "../api/files";
+
+// Compression suffixes that are kept together with the extension before them,
+// so "reads.fastq.gz" is reported as "fastq.gz" rather than "gz".
+const COMPRESSION_EXTENSIONS = new Set(["gz", "bgz", "bz2", "xz", "zst"]);
+
+// Formats that are never plain text and must be transferred byte for byte
+const BINARY_EXTENSIONS = new Set([
+  "bam",
+  "bai",
+  "bcf",
+  "csi",
+  "cram",
+  "crai",
+  "tbi",
+  "zip",
+  "tar",
+  "sra",
+  "h5",
+  "hdf5",
+  "pdf",
+  "png",
+  "jpg",
+  "jpeg",
+]);
+
+export const detectFileType = (fileName: string): string => {
+  const parts = fileName.toLowerCase().split(".");
+  const extension = parts.pop() || "text";
+  const previous = parts.length > 1 ? parts[parts.length - 1] : undefined;
+
+  return COMPRESSION_EXTENSIONS.has(extension) && previous
+    ? `${previous}.${extension}`
+    : extension;
+};
+
+export const isBinaryFileType = (fileType: string): boolean => {
+  const extension = fileType.split(".").pop() ?? fileType;
+  return (
+    COMPRESSION_EXTENSIONS.has(extension) || BINARY_EXTENSIONS.has(extension)
+  );
+};
+
+/**
+ * Read a picked file into a FileObject. Text formats keep their content as a
+ * string; binary and compressed formats are base64-encoded so they survive
+ * the JSON upload to the runner unchanged.
+ */
+export const readInputFile = (file: File): Promise<FileObject> =>
+  new Promise<FileObject>((resolve, reject) => {
+    const fileType = detectFileType(file.name);
+    const isBinary = isBinaryFileType(fileType);
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      const result = (e.target?.result as string) ?? "";
+      resolve({
+        name: file.name,
+        // Data URLs look like "data:<mime>;base64,<payload>"
+        content: isBinary ? result.slice(result.indexOf(",") + 1) : result,
+        size: file.size,
+        fileType,
+        encoding: isBinary ? "base64" : "utf8",
+      });
+    };
+    reader.onerror = reject;
+
+    if (isBinary) {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+
+// Files kept in the server-side store run without browser-held content
+export const hasFileData = (file: FileObject): boolean =>
+  Boolean(file.hash) || Boolean(file.content?.trim());
+
+export const toStoredFileObject = (file: IFile): FileObject => {
+  const fileType = file.fileType || detectFileType(file.originalName);
+  return {
+    name: file.originalName,
+    content: "",
+    size: file.size,
+    fileType,
+    encoding: isBinaryFileType(fileType) ? "base64" : "utf8",
+    _id: file._id,
+    hash: file.hash,
+  };
+};
+
+/**
+ * Read a picked file and upload it into the server-side file store, so runs
+ * reference it by id instead of re-sending it. Without a backend (demo,
+ * offline) the content simply stays on the node.
+ */
+export const loadInputFile = async (file: File): Promise<FileObject> => {
+  const readFile = await readInputFile(file);
+  try {
+    const storedFile = await uploadStoredFile(file);
+    return {
+      ...readFile,
+      // Binary content can't be previewed, so don't keep a copy around
+      content: readFile.encoding === "base64" ? "" : readFile.content,
+      _id: storedFile._id,
+      hash: storedFile.hash,
+    };
+  } catch (error) {
+    console.warn(`Could not store ${file.name} on the backend:`, error);
+    return readFile;
+  }
+};
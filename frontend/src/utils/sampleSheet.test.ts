@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { parseSampleSheet } from "./sampleSheet";
+
+describe("parseSampleSheet", () => {
+  it("parses paired, single-end and custom meta columns", () => {
+    const { columns, rows, errors } = parseSampleSheet(
+      [
+        "sample,fastq_1,fastq_2,single_end,condition",
+        "WT_1,wt_R1.fastq.gz,wt_R2.fastq.gz,false,control",
+        'KO_1,ko.fastq.gz,,true,"knockout, day 2"',
+      ].join("\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(columns).toContain("condition");
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toMatchObject({
+      sample: "KO_1",
+      fastq_2: "",
+      condition: "knockout, day 2",
+    });
+  });
+
+  it("reports every problem instead of stopping at the first", () => {
+    const { errors } = parseSampleSheet(
+      [
+        "sample,fastq_1,fastq_2,single_end",
+        "WT 1,wt_R1.fastq.gz,wt_R2.fastq.gz,true",
+        ",,,maybe",
+        "KO_1,ko_R1.fastq.gz,,false",
+      ].join("\n")
+    );
+
+    expect(errors).toEqual([
+      'Row 1: sample "WT 1" contains spaces.',
+      "Row 1: single-end sample has a fastq_2 file.",
+      "Row 2: sample is empty.",
+      "Row 2: fastq_1 is empty.",
+      "Row 2: single_end must be true or false.",
+      "Row 3: paired-end sample is missing fastq_2.",
+    ]);
+  });
+
+  it("requires the sample and fastq_1 columns", () => {
+    expect(parseSampleSheet("id,reads\nA,a.fastq\n").errors).toContain(
+      "Missing required column(s): sample, fastq_1."
+    );
+    expect(parseSampleSheet("").errors).toEqual(["The sample sheet is empty."]);
+  });
+});
@@ -0,0 +1,123 @@
+// nf-core style sample sheets: one row per sample with its FASTQ file(s).
+// Any further columns are carried into the meta map of the generated channel.
+export const SAMPLE_SHEET_REQUIRED_COLUMNS = ["sample", "fastq_1"];
+export const SAMPLE_SHEET_STANDARD_COLUMNS = [
+  "sample",
+  "fastq_1",
+  "fastq_2",
+  "single_end",
+];
+
+export type SampleSheetRow = Record<string, string>;
+
+export interface ParsedSampleSheet {
+  columns: string[];
+  rows: SampleSheetRow[];
+  errors: string[];
+}
+
+// Splits one CSV line, honouring double-quoted fields ("" is an escaped quote)
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+};
+
+/**
+ * Parse and validate a sample sheet CSV. Errors are collected rather than
+ * thrown so the panel can list every problem at once.
+ */
+export const parseSampleSheet = (content: string): ParsedSampleSheet => {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (lines.length === 0) {
+    return { columns: [], rows: [], errors: ["The sample sheet is empty."] };
+  }
+
+  const columns = splitCsvLine(lines[0]);
+  const errors: string[] = [];
+
+  const missingColumns = SAMPLE_SHEET_REQUIRED_COLUMNS.filter(
+    (column) => !columns.includes(column)
+  );
+  if (missingColumns.length > 0) {
+    errors.push(`Missing required column(s): ${missingColumns.join(", ")}.`);
+  }
+  const duplicateColumns = columns.filter(
+    (column, index) => columns.indexOf(column) !== index
+  );
+  if (duplicateColumns.length > 0) {
+    errors.push(`Duplicate column(s): ${duplicateColumns.join(", ")}.`);
+  }
+  if (columns.some((column) => !column)) {
+    errors.push("Every column needs a header name.");
+  }
+
+  const rows = lines.slice(1).map((line, index) => {
+    const rowNumber = index + 1;
+    const values = splitCsvLine(line);
+    if (values.length !== columns.length) {
+      errors.push(
+        `Row ${rowNumber}: expected ${columns.length} columns, found ${values.length}.`
+      );
+    }
+
+    const row: SampleSheetRow = {};
+    columns.forEach((column, columnIndex) => {
+      row[column] = values[columnIndex] ?? "";
+    });
+
+    if (!row.sample) {
+      errors.push(`Row ${rowNumber}: sample is empty.`);
+    } else if (/\s/.test(row.sample)) {
+      errors.push(`Row ${rowNumber}: sample "${row.sample}" contains spaces.`);
+    }
+    if (!row.fastq_1) {
+      errors.push(`Row ${rowNumber}: fastq_1 is empty.`);
+    }
+
+    const singleEnd = row.single_end?.toLowerCase();
+    if (singleEnd && singleEnd !== "true" && singleEnd !== "false") {
+      errors.push(`Row ${rowNumber}: single_end must be true or false.`);
+    } else if (singleEnd === "true" && row.fastq_2) {
+      errors.push(`Row ${rowNumber}: single-end sample has a fastq_2 file.`);
+    } else if (singleEnd === "false" && !row.fastq_2) {
+      errors.push(`Row ${rowNumber}: paired-end sample is missing fastq_2.`);
+    }
+
+    return row;
+  });
+
+  if (rows.length === 0) {
+    errors.push("The sample sheet has no sample rows.");
+  }
+
+  return { columns, rows, errors };
+};
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import type { Edge, Node } from "reactflow";
+import {
+  diffWorkflowGraphs,
+  isEmptyWorkflowDiff,
+  mergeWorkflowGraphs,
+} from "./workflowDiff";
+
+const node = (id: string, data: Record<string, unknown>, x = 0): Node => ({
+  id,
+  type: "process",
+  position: { x, y: 0 },
+  data,
+});
+
+const edge = (id: string, source: string, target: string): Edge => ({
+  id,
+  source,
+  target,
+});
+
+describe("workflow diff", () => {
+  it("ignores layout and run-time state", () => {
+    const before = {
+      nodes: [node("a", { label: "FastQC" })],
+      edges: [],
+    };
+    const after = {
+      nodes: [node("a", { label: "FastQC", status: "completed" }, 300)],
+      edges: [],
+    };
+    expect(isEmptyWorkflowDiff(diffWorkflowGraphs(before, after))).toBe(true);
+  });
+
+  it("reports added, removed and changed nodes and edges", () => {
+    const before = {
+      nodes: [
+        node("input", { label: "Reads" }),
+        node("trim", { label: "Trimmomatic", minLen: 36 }),
+        node("qc", { label: "FastQC" }),
+      ],
+      edges: [edge("e1", "input", "qc"), edge("e2", "input", "trim")],
+    };
+    const after = {
+      nodes: [
+        node("input", { label: "Reads" }),
+        node("trim", { label: "Trimmomatic", minLen: 50 }),
+        node("multiqc", { label: "MultiQC" }),
+      ],
+      edges: [edge("e2", "input", "trim"), edge("e3", "trim", "multiqc")],
+    };
+
+    const diff = diffWorkflowGraphs(before, after);
+    expect(diff.nodes.added.map((entry) => entry.label)).toEqual(["MultiQC"]);
+    expect(diff.nodes.removed.map((entry) => entry.label)).toEqual(["FastQC"]);
+    expect(diff.nodes.changed).toEqual([
+      { id: "trim", label: "Trimmomatic", changes: ["minLen"] },
+    ]);
+    expect(diff.edges.added.map((entry) => entry.label)).toEqual([
+      "Trimmomatic → MultiQC",
+    ]);
+    expect(diff.edges.removed.map((entry) => entry.label)).toEqual([
+      "Reads → FastQC",
+    ]);
+    expect(diff.edges.changed).toEqual([]);
+  });
+});
+
+describe("workflow merge", () => {
+  it("keeps both sides' changes and prefers local edits on a clash", () => {
+    const base = {
+      nodes: [
+        node("input", { label: "Reads" }),
+        node("trim", { label: "Trimmomatic", minLen: 36 }),
+        node("qc", { label: "FastQC" }),
+      ],
+      edges: [edge("e1", "input", "trim"), edge("e2", "input", "qc")],
+    };
+    // Local: edits trim, deletes qc
+    const local = {
+      nodes: [
+        node("input", { label: "Reads" }),
+        node("trim", { label: "Trimmomatic", minLen: 50 }),
+      ],
+      edges: [edge("e1", "input", "trim")],
+    };
+    // Server: also edits trim, adds MultiQC after qc
+    const server = {
+      nodes: [
+        ...base.nodes.slice(0, 1),
+        node("trim", { label: "Trimmomatic", minLen: 40 }),
+        node("qc", { label: "FastQC" }),
+        node("multiqc", { label: "MultiQC" }),
+      ],
+      edges: [...base.edges, edge("e3", "qc", "multiqc")],
+    };
+
+    const merged = mergeWorkflowGraphs(base, local, server);
+    expect(merged.nodes.map((n) => n.id)).toEqual(["input", "trim", "multiqc"]);
+    expect(merged.nodes[1].data.minLen).toBe(50);
+    // e3 lost its source with the local deletion of qc
+    expect(merged.edges.map((e) => e.id)).toEqual(["e1"]);
+  });
+});
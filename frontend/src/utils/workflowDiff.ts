@@ -0,0 +1,210 @@
+import type { Edge, Node } from "reactflow";
+
+// Structural differences between two saved versions of a workflow, and the
+// merge of two edited copies. Layout (positions, sizes, selection) and
+// run-time state are not structure, so moving a node or running the workflow
+// shows no change.
+
+export interface WorkflowDiffEntry {
+  id: string;
+  label: string;
+  changes: string[]; // Changed fields of changed entries; empty otherwise
+}
+
+export interface WorkflowDiff {
+  nodes: {
+    added: WorkflowDiffEntry[];
+    removed: WorkflowDiffEntry[];
+    changed: WorkflowDiffEntry[];
+  };
+  edges: {
+    added: WorkflowDiffEntry[];
+    removed: WorkflowDiffEntry[];
+    changed: WorkflowDiffEntry[];
+  };
+}
+
+export interface WorkflowGraph {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+// Node data written while editing or running, not by the user's design
+const TRANSIENT_DATA_KEYS = new Set([
+  "status",
+  "isHighlight",
+  "_hasWarning",
+  "_validationErrors",
+  "previewUnavailable",
+  "previewUnavailableReason",
+  "resultsRunId",
+  "fileContent",
+  "processedContent",
+  "cpuUsage",
+  "memoryUsage",
+]);
+
+const EDGE_FIELDS = ["source", "target", "sourceHandle", "targetHandle"] as const;
+
+const getNodeLabel = (node: Node): string =>
+  node.data?.label || (node.data?.paramName ? `params.${node.data.paramName}` : node.id);
+
+const getEdgeLabel = (edge: Edge, nodesById: Map<string, Node>): string => {
+  const end = (id: string, handle?: string | null) => {
+    const node = nodesById.get(id);
+    const label = node ? getNodeLabel(node) : id;
+    return handle ? `${label}.${handle}` : label;
+  };
+  return `${end(edge.source, edge.sourceHandle)} → ${end(edge.target, edge.targetHandle)}`;
+};
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const getChangedNodeFields = (before: Node, after: Node): string[] => {
+  const changes: string[] = [];
+  if (before.type !== after.type) changes.push("type");
+
+  const beforeData: Record<string, unknown> = before.data ?? {};
+  const afterData: Record<string, unknown> = after.data ?? {};
+  const keys = new Set([...Object.keys(beforeData), ...Object.keys(afterData)]);
+  Array.from(keys)
+    .filter((key) => !TRANSIENT_DATA_KEYS.has(key))
+    .sort()
+    .forEach((key) => {
+      if (!isSame(beforeData[key], afterData[key])) changes.push(key);
+    });
+  return changes;
+};
+
+/** What changed from `before` to `after`, matched by node and edge id. */
+export function diffWorkflowGraphs(
+  before: WorkflowGraph,
+  after: WorkflowGraph
+): WorkflowDiff {
+  const beforeNodes = new Map(before.nodes.map((node) => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map((node) => [node.id, node]));
+  const beforeEdges = new Map(before.edges.map((edge) => [edge.id, edge]));
+  const afterEdges = new Map(after.edges.map((edge) => [edge.id, edge]));
+
+  const diff: WorkflowDiff = {
+    nodes: { added: [], removed: [], changed: [] },
+    edges: { added: [], removed: [], changed: [] },
+  };
+
+  after.nodes.forEach((node) => {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      diff.nodes.added.push({ id: node.id, label: getNodeLabel(node), changes: [] });
+      return;
+    }
+    const changes = getChangedNodeFields(previous, node);
+    if (changes.length > 0) {
+      diff.nodes.changed.push({ id: node.id, label: getNodeLabel(node), changes });
+    }
+  });
+  before.nodes.forEach((node) => {
+    if (!afterNodes.has(node.id)) {
+      diff.nodes.removed.push({ id: node.id, label: getNodeLabel(node), changes: [] });
+    }
+  });
+
+  after.edges.forEach((edge) => {
+    const previous = beforeEdges.get(edge.id);
+    const label = getEdgeLabel(edge, afterNodes);
+    if (!previous) {
+      diff.edges.added.push({ id: edge.id, label, changes: [] });
+      return;
+    }
+    const changes = EDGE_FIELDS.filter(
+      (field) => (previous[field] ?? null) !== (edge[field] ?? null)
+    );
+    if (changes.length > 0) {
+      diff.edges.changed.push({ id: edge.id, label, changes: [...changes] });
+    }
+  });
+  before.edges.forEach((edge) => {
+    if (!afterEdges.has(edge.id)) {
+      diff.edges.removed.push({
+        id: edge.id,
+        label: getEdgeLabel(edge, beforeNodes),
+        changes: [],
+      });
+    }
+  });
+
+  return diff;
+}
+
+/** True when the diff has no entries at all. */
+export function isEmptyWorkflowDiff(diff: WorkflowDiff): boolean {
+  return [diff.nodes, diff.edges].every(
+    (group) =>
+      group.added.length === 0 &&
+      group.removed.length === 0 &&
+      group.changed.length === 0
+  );
+}
+
+const isSameNode = (a: Node, b: Node): boolean =>
+  getChangedNodeFields(a, b).length === 0;
+
+const isSameEdge = (a: Edge, b: Edge): boolean =>
+  EDGE_FIELDS.every((field) => (a[field] ?? null) === (b[field] ?? null));
+
+// Three-way merge of one kind of item by id: a side's version counts as a
+// change only when it differs from the common base
+const mergeById = <T extends { id: string }>(
+  base: T[],
+  local: T[],
+  server: T[],
+  isSameItem: (a: T, b: T) => boolean
+): T[] => {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const serverById = new Map(server.map((item) => [item.id, item]));
+  const merged: T[] = [];
+
+  server.forEach((serverItem) => {
+    const baseItem = baseById.get(serverItem.id);
+    const localItem = localById.get(serverItem.id);
+    if (localItem) {
+      const changedLocally = !baseItem || !isSameItem(baseItem, localItem);
+      merged.push(changedLocally ? localItem : serverItem);
+    } else if (baseItem && isSameItem(baseItem, serverItem)) {
+      // Deleted locally and untouched on the server
+    } else {
+      merged.push(serverItem);
+    }
+  });
+  local.forEach((localItem) => {
+    if (serverById.has(localItem.id)) return;
+    const baseItem = baseById.get(localItem.id);
+    // Added locally, or deleted on the server after a local edit
+    if (!baseItem || !isSameItem(baseItem, localItem)) {
+      merged.push(localItem);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Combines local edits with a newer server copy of the same workflow. Both
+ * sides' changes since `base` are kept; where both changed the same node or
+ * edge, the local version wins. Edges left without an end are dropped.
+ */
+export function mergeWorkflowGraphs(
+  base: WorkflowGraph,
+  local: WorkflowGraph,
+  server: WorkflowGraph
+): WorkflowGraph {
+  const nodes = mergeById(base.nodes, local.nodes, server.nodes, isSameNode);
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges = mergeById(
+    base.edges,
+    local.edges,
+    server.edges,
+    isSameEdge
+  ).filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+  return { nodes, edges };
+}
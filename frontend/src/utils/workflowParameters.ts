@@ -0,0 +1,96 @@
+import type { Node } from "reactflow";
+import type { NodeData } from "../components/nodes/BaseNode";
+import { getParamNameError } from "./executionEnvironment";
+
+// Workflow parameters declared by Parameter nodes. Each becomes a
+// `params.<name>` with the node's default in the script; the values entered
+// before a run reach Nextflow through params.json and override the defaults.
+
+export type ParameterType = "string" | "number" | "boolean" | "path";
+
+export const PARAMETER_TYPE_LABELS: Record<ParameterType, string> = {
+  string: "Text",
+  number: "Number",
+  boolean: "Boolean",
+  path: "Path",
+};
+
+export interface WorkflowParameter {
+  nodeId: string;
+  name: string;
+  type: ParameterType;
+  defaultValue: string;
+  description?: string;
+}
+
+/** Parameters declared on the canvas, in node order. */
+export function getWorkflowParameters(
+  nodes: Node<NodeData>[]
+): WorkflowParameter[] {
+  return nodes
+    .filter((node) => node.type === "parameter")
+    .map((node) => ({
+      nodeId: node.id,
+      name: (node.data.paramName ?? "").trim(),
+      type: node.data.paramType ?? "string",
+      defaultValue: String(node.data.paramDefault ?? ""),
+      description: node.data.paramDescription || undefined,
+    }));
+}
+
+/** Why `value` is not usable for a parameter of `type`, or null if it is. */
+export function getParameterValueError(
+  type: ParameterType,
+  value: string
+): string | null {
+  const trimmed = value.trim();
+  if (type === "boolean") return null;
+  if (!trimmed) return "A value is required.";
+  if (type === "number" && !Number.isFinite(Number(trimmed))) {
+    return "Must be a number.";
+  }
+  return null;
+}
+
+/**
+ * Why the parameter declared by `nodeId` cannot be generated, or null. Names
+ * follow the custom params rules and must be unique across the workflow.
+ */
+export function getParameterNameError(
+  parameters: WorkflowParameter[],
+  nodeId: string
+): string | null {
+  const parameter = parameters.find((candidate) => candidate.nodeId === nodeId);
+  if (!parameter) return null;
+  if (!parameter.name) return "A parameter name is required.";
+
+  const nameError = getParamNameError(parameter.name);
+  if (nameError) return nameError;
+
+  const firstWithName = parameters.find(
+    (candidate) => candidate.name === parameter.name
+  );
+  return firstWithName?.nodeId === nodeId
+    ? null
+    : `params.${parameter.name} is already declared by another Parameter node.`;
+}
+
+/** Typed values for params.json, keyed by parameter name. */
+export function toParameterValues(
+  parameters: WorkflowParameter[],
+  values: Record<string, string>
+): Record<string, string | number | boolean> {
+  const params: Record<string, string | number | boolean> = {};
+  parameters.forEach((parameter) => {
+    if (!parameter.name || getParamNameError(parameter.name)) return;
+    const value = values[parameter.name] ?? parameter.defaultValue;
+    if (parameter.type === "boolean") {
+      params[parameter.name] = value === "true";
+    } else if (parameter.type === "number") {
+      params[parameter.name] = Number(value.trim());
+    } else {
+      params[parameter.name] = value;
+    }
+  });
+  return params;
+}
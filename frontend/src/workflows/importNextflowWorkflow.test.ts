@@ -41,6 +41,41 @@ workflow {
 }
 `;
 
+const MULTI_INPUT_SCRIPT = `
+params.inputdir = "./inputs"
+params.reads_input_files = ['sample_R1.txt', 'sample_R2.txt']
+params.reference_input_files = ['reference.txt']
+
+ch_reads_input_files = Channel.fromList(params.reads_input_files)
+    .map { filename -> file("\${params.inputdir}/\${filename}") }
+
+ch_reference_input_files = Channel.fromList(params.reference_input_files)
+    .map { filename -> file("\${params.inputdir}/\${filename}") }
+
+process filter_reads {
+  input:
+  path input_file
+  script:
+  """
+  grep "Barry" \${input_file} > out.txt
+  """
+}
+
+process filter_reference {
+  input:
+  path input_file
+  script:
+  """
+  grep "Bee" \${input_file} > out.txt
+  """
+}
+
+workflow {
+  reads_out = filter_reads(ch_reads_input_files)
+  reference_out = filter_reference(ch_reference_input_files)
+}
+`;
+
 describe("importNextflowWorkflow", () => {
   it("throws when the source is empty", () => {
     expect(() => importNextflowWorkflow({ rawSource: "   " })).toThrow(
@@ -93,4 +128,49 @@ describe("importNextflowWorkflow", () => {
     });
     expect(draft.importWarnings.join(" ")).toMatch(/no nextflow process/i);
   });
+
+  it("creates one file input node per params files list", () => {
+    const draft = importNextflowWorkflow({ rawSource: MULTI_INPUT_SCRIPT });
+
+    const fileInputs = draft.nodes.filter((n) => n.type === "fileInput");
+    expect(
+      fileInputs.map((n) => n.data.files.map((f: any) => f.name))
+    ).toEqual([["sample_R1.txt", "sample_R2.txt"], ["reference.txt"]]);
+
+    const sourceOf = (processName: string) =>
+      draft.edges.find((e) => e.target === `import-${processName}`)?.source;
+    expect(sourceOf("filter_reads")).toBe(fileInputs[0]?.id);
+    expect(sourceOf("filter_reference")).toBe(fileInputs[1]?.id);
+  });
+
+  it("restores path-mode inputs from params paths", () => {
+    const draft = importNextflowWorkflow({
+      rawSource: `
+params.reads_path = '/data/run42/*_R{1,2}.fastq.gz'
+ch_reads = Channel.fromFilePairs(params.reads_path, checkIfExists: true)
+
+process count_reads {
+  input:
+  tuple val(id), path(reads)
+  script:
+  """
+  zcat \${reads} | wc -l
+  """
+}
+
+workflow {
+  counted = count_reads(ch_reads)
+}
+`,
+    });
+
+    const input = draft.nodes.find((n) => n.type === "fileInput");
+    expect(input?.data).toMatchObject({
+      inputMode: "path",
+      serverPath: "/data/run42",
+      pathGlob: "*_R{1,2}.fastq.gz",
+      pairedReads: true,
+    });
+    expect(draft.edges[0]?.source).toBe(input?.id);
+  });
 });
@@ -119,14 +119,95 @@ const getWorkflowBody = (rawSource: string): string => {
   return rawSource.slice(start, cursor - 1);
 };
 
-const parseSelectedFiles = (rawSource: string): string[] => {
-  const match = rawSource.match(/params\.selected_files\s*=\s*\[([\s\S]*?)\]/);
-  if (!match?.[1]) return [];
-
-  return match[1]
-    .split(",")
-    .map((entry) => entry.trim().replace(/^['"]|['"]$/g, ""))
-    .filter(Boolean);
+interface ParsedFileInput {
+  paramName: string;
+  channelName: string;
+  files: string[];
+  // Set for path-mode inputs read in place with Channel.fromPath/fromFilePairs
+  pathPattern?: string;
+  pairedReads?: boolean;
+}
+
+// Generated scripts declare one `params.<node>_files` list per File Input
+// node; older scripts used a single `params.selected_files` / `ch_files`.
+const parseFileInputs = (rawSource: string): ParsedFileInput[] => {
+  const inputs: ParsedFileInput[] = [];
+  const paramPattern =
+    /^\s*params\.(selected_files|[A-Za-z_][A-Za-z0-9_]*_files)\s*=\s*\[([\s\S]*?)\]/gm;
+
+  for (const match of rawSource.matchAll(paramPattern)) {
+    const paramName = match[1];
+    if (!paramName) continue;
+
+    const channelMatch = rawSource.match(
+      new RegExp(
+        `^\\s*([A-Za-z_][A-Za-z0-9_]*)\\s*=\\s*Channel\\.fromList\\(\\s*params\\.${paramName}\\s*\\)`,
+        "m"
+      )
+    );
+    const defaultChannelName =
+      paramName === "selected_files" ? "ch_files" : `ch_${paramName}`;
+
+    inputs.push({
+      paramName,
+      channelName: channelMatch?.[1] ?? defaultChannelName,
+      files: (match[2] ?? "")
+        .split(",")
+        .map((entry) => entry.trim().replace(/^['"]|['"]$/g, ""))
+        .filter(Boolean),
+    });
+  }
+
+  const pathParamPattern =
+    /^\s*params\.([A-Za-z_][A-Za-z0-9_]*_path)\s*=\s*['"]([^'"]*)['"]/gm;
+  for (const match of rawSource.matchAll(pathParamPattern)) {
+    const paramName = match[1];
+    if (!paramName) continue;
+
+    const channelMatch = rawSource.match(
+      new RegExp(
+        `^\\s*([A-Za-z_][A-Za-z0-9_]*)\\s*=\\s*Channel\\.(fromPath|fromFilePairs)\\(\\s*params\\.${paramName}\\b`,
+        "m"
+      )
+    );
+    // Only path params that actually feed a file channel are inputs
+    if (!channelMatch?.[1]) continue;
+
+    inputs.push({
+      paramName,
+      channelName: channelMatch[1],
+      files: [],
+      pathPattern: match[2] ?? "",
+      pairedReads: channelMatch[2] === "fromFilePairs",
+    });
+  }
+
+  if (inputs.length === 0 && /\bch_files\b/.test(rawSource)) {
+    inputs.push({
+      paramName: "selected_files",
+      channelName: "ch_files",
+      files: [],
+    });
+  }
+
+  return inputs;
+};
+
+// "/data/run42/*_R{1,2}.fastq.gz" -> directory "/data/run42", glob "*_R{1,2}.fastq.gz"
+const splitPathPattern = (
+  pattern: string
+): { serverPath: string; pathGlob: string } => {
+  const firstGlobChar = pattern.search(/[*?[{]/);
+  const literalPart =
+    firstGlobChar === -1 ? pattern : pattern.slice(0, firstGlobChar);
+  const lastSlash = literalPart.lastIndexOf("/");
+  if (firstGlobChar === -1 || lastSlash === -1) {
+    return { serverPath: pattern, pathGlob: "" };
+  }
+  return {
+    serverPath: pattern.slice(0, lastSlash) || "/",
+    pathGlob: pattern.slice(lastSlash + 1),
+  };
 };
 
 const inferProcessNode = (
@@ -253,7 +334,7 @@ const buildVisualGraph = (
   rawSource: string
 ): { nodes: VisualNodeDraft[]; edges: VisualEdgeDraft[]; warnings: string[] } => {
   const processes = parseProcesses(rawSource);
-  const selectedFiles = parseSelectedFiles(rawSource);
+  const fileInputs = parseFileInputs(rawSource);
   const workflowBody = getWorkflowBody(rawSource);
   const warnings: string[] = [];
 
@@ -262,14 +343,36 @@ const buildVisualGraph = (
   const processNodes = new Map<string, VisualNodeDraft>();
   const variableSources = new Map<string, string[]>();
 
-  const needsFileInput =
-    selectedFiles.length > 0 || /\bch_files\b/.test(rawSource);
-  if (needsFileInput) {
-    const fileInputId = "import-file-input";
+  fileInputs.forEach((fileInput, index) => {
+    const fileInputId =
+      fileInputs.length === 1
+        ? "import-file-input"
+        : `import-${sanitizeId(fileInput.paramName)}`;
+    const selectedFiles = fileInput.files;
+    if (fileInput.pathPattern !== undefined) {
+      nodes.push({
+        id: fileInputId,
+        type: "fileInput",
+        position: { x: 80, y: 180 + index * 160 },
+        data: {
+          label: "File Input",
+          icon: "FolderOpen",
+          subtitle: fileInput.pathPattern || "Imported path input",
+          inputMode: "path",
+          ...splitPathPattern(fileInput.pathPattern),
+          pairedReads: fileInput.pairedReads ?? false,
+          files: [],
+          outputs: [{ name: "out", isConnectable: true }],
+        },
+      });
+      variableSources.set(fileInput.channelName, [fileInputId]);
+      return;
+    }
+
     nodes.push({
       id: fileInputId,
       type: "fileInput",
-      position: { x: 80, y: 180 },
+      position: { x: 80, y: 180 + index * 160 },
       data: {
         label: "File Input",
         icon: "FolderOpen",
@@ -288,8 +391,8 @@ const buildVisualGraph = (
         outputs: [{ name: "out", isConnectable: true }],
       },
     });
-    variableSources.set("ch_files", [fileInputId]);
-  }
+    variableSources.set(fileInput.channelName, [fileInputId]);
+  });
 
   processes.forEach((process, index) => {
     const node = inferProcessNode(process, index);